@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runBacktest } from '../backtest/backtest-engine.js';
+import { breakoutStrategy, emaCrossStrategy, setupStrategy } from '../backtest/strategies.js';
+import { loadCandlesFromFile, resolveCandleFile } from '../backtest/candle-file.js';
+import { Candle } from '../types/bitget.js';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+const series = (rows: Array<[number, number, number, number]>): Candle[] =>
+  rows.map(([o, h, l, c], i) => ({
+    symbol: 'TEST', timestamp: T0 + i * HOUR,
+    open: o.toString(), high: h.toString(), low: l.toString(), close: c.toString(), volume: '1',
+  }));
+
+const noFees = { takerFeeRate: 0, makerFeeRate: 0 };
+
+describe('runBacktest with a manual setup', () => {
+  const longSetup = {
+    side: 'buy' as const, type: 'market' as const, quantity: 1, stopLoss: 95,
+    takeProfits: [{ triggerPrice: 105, size: 0.5 }, { triggerPrice: 110, size: 0.5 }],
+  };
+
+  test('fills next bar open and scales out through partial take-profits', () => {
+    const candles = series([[100, 101, 99, 100], [100, 106, 99, 104], [104, 108, 103, 107], [107, 111, 106, 110]]);
+    const result = runBacktest(candles, setupStrategy(longSetup), noFees);
+
+    expect(result.trades).toHaveLength(1);
+    const [trade] = result.trades;
+    expect(trade).toMatchObject({ side: 'long', entryTime: T0 + HOUR, entryPrice: 100, pnl: 7.5, r: 1.5 });
+    expect(trade.exits.map(e => [e.reason, e.price, e.size])).toEqual([['tp1', 105, 0.5], ['tp2', 110, 0.5]]);
+    expect(result.summary).toMatchObject({ trades: 1, winRate: 1, expectancyR: 1.5, finalEquity: 10007.5, maxDrawdown: 0 });
+    expect(result.equityCurve.map(p => p.equity)).toEqual([10000, 10004.5, 10006, 10007.5]);
+  });
+
+  test('assumes the stop fills first when a bar spans both stop and target', () => {
+    const candles = series([[100, 101, 99, 100], [100, 106, 94, 97], [97, 98, 96, 97]]);
+    const result = runBacktest(candles, setupStrategy(longSetup), noFees);
+
+    expect(result.trades[0].exits).toEqual([expect.objectContaining({ reason: 'sl', price: 95, size: 1 })]);
+    expect(result.summary).toMatchObject({ wins: 0, losses: 1, expectancyR: -1, maxDrawdown: 5 });
+  });
+
+  test('fills limits on touch with maker fees and charges taker fees on exits', () => {
+    const candles = series([[100, 101, 99, 100], [100, 100.5, 99, 99.5], [99, 99.5, 97.5, 98.5], [98.5, 102.5, 98, 102]]);
+    const result = runBacktest(candles, setupStrategy({
+      side: 'buy', type: 'limit', price: 98, quantity: 2, stopLoss: 96, takeProfits: [{ triggerPrice: 102, size: 2 }],
+    }), { takerFeeRate: 0.001, makerFeeRate: 0.0005 });
+
+    const [trade] = result.trades;
+    expect(trade.entryTime).toBe(T0 + 2 * HOUR);
+    expect(trade.fees).toBeCloseTo(0.098 + 0.204, 10);
+    expect(trade.pnl).toBeCloseTo(8 - 0.302, 10);
+    expect(trade.r).toBeCloseTo((8 - 0.302) / 4, 10);
+  });
+
+  test('closes a position still open at the end of data', () => {
+    const candles = series([[100, 101, 99, 100], [100, 102, 99, 101], [101, 103, 100, 102]]);
+    const result = runBacktest(candles, setupStrategy({ ...longSetup, side: 'sell', stopLoss: 110, takeProfits: [] }), noFees);
+    expect(result.trades[0].exits).toEqual([expect.objectContaining({ reason: 'end', price: 102 })]);
+    expect(result.summary.netPnl).toBe(-2);
+  });
+});
+
+describe('runBacktest with built-in strategies', () => {
+  const wave = series(Array.from({ length: 300 }, (_, i) => {
+    const c = 100 + 15 * Math.sin(i / 12) + i * 0.05;
+    const o = 100 + 15 * Math.sin((i - 1) / 12) + (i - 1) * 0.05;
+    return [o, Math.max(o, c) + 0.5, Math.min(o, c) - 0.5, c];
+  }));
+
+  test.each([
+    ['emaCross', emaCrossStrategy({ fast: 5, slow: 20 })],
+    ['breakout', breakoutStrategy({ lookback: 20 })],
+  ])('%s trades and keeps the ledger consistent', (_name, strategy) => {
+    const result = runBacktest(wave, strategy);
+    expect(result.summary.trades).toBeGreaterThan(0);
+    const pnl = result.trades.reduce((s, t) => s + t.pnl, 0);
+    expect(result.summary.finalEquity).toBeCloseTo(10000 + pnl, 6);
+    expect(result.equityCurve).toHaveLength(wave.length);
+    expect(result.summary.maxDrawdownPct).toBeGreaterThanOrEqual(0);
+    for (const t of result.trades) expect(t.entryTime).toBeGreaterThan(t.signalTime);
+  });
+});
+
+describe('loadCandlesFromFile', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candles-'));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('reads CSV with a header and sorts oldest first', () => {
+    const file = path.join(dir, 'BTCUSDT.csv');
+    fs.writeFileSync(file, 'timestamp,open,high,low,close,volume\n2000,2,3,1,2.5,10\n1000,1,2,0.5,2,5\n');
+    const candles = loadCandlesFromFile(file);
+    expect(candles.map(c => c.timestamp)).toEqual([1000, 2000]);
+    expect(candles[1]).toMatchObject({ symbol: 'BTCUSDT', close: '2.5', volume: '10' });
+  });
+
+  test('reads Bitget-style JSON rows', () => {
+    const file = path.join(dir, 'eth.json');
+    fs.writeFileSync(file, JSON.stringify([['1000', '1', '2', '0.5', '1.5', '3', '4.5']]));
+    expect(loadCandlesFromFile(file, 'ETHUSDT')).toEqual([
+      { symbol: 'ETHUSDT', timestamp: 1000, open: '1', high: '2', low: '0.5', close: '1.5', volume: '3' },
+    ]);
+  });
+
+  test('rejects missing files and malformed rows', () => {
+    expect(() => loadCandlesFromFile(path.join(dir, 'missing.csv'))).toThrow(/not found/);
+    const file = path.join(dir, 'bad.csv');
+    fs.writeFileSync(file, 'timestamp,open,high,low,close\n1000,a,2,1,1\n');
+    expect(() => loadCandlesFromFile(file)).toThrow(/malformed/);
+  });
+
+  test('does not echo file contents on a parse error', () => {
+    const file = path.join(dir, 'secrets.json');
+    fs.writeFileSync(file, 'BITGET_API_KEY=abc\n');
+    expect(() => loadCandlesFromFile(file)).toThrow(new Error('Candle file is not valid JSON'));
+  });
+});
+
+describe('resolveCandleFile', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+  const dataDir = path.join(root, 'data');
+  fs.mkdirSync(path.join(dataDir, 'btc'), { recursive: true });
+  fs.writeFileSync(path.join(dataDir, 'btc', '1h.csv'), '');
+  fs.writeFileSync(path.join(root, 'outside.json'), '[]');
+  afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  test('resolves names inside the data directory', () => {
+    expect(resolveCandleFile(dataDir, 'btc/1h.csv')).toBe(fs.realpathSync(path.join(dataDir, 'btc', '1h.csv')));
+    expect(() => resolveCandleFile(dataDir, 'btc/4h.csv')).toThrow('Candle file not found: btc/4h.csv');
+  });
+
+  test('refuses paths that leave it', () => {
+    expect(() => resolveCandleFile(dataDir, '../outside.json')).toThrow(/relative path inside/);
+    expect(() => resolveCandleFile(dataDir, path.join(root, 'outside.json'))).toThrow(/relative path inside/);
+    expect(() => resolveCandleFile(dataDir, '.env')).toThrow(/\.json or \.csv/);
+
+    fs.symlinkSync(path.join(root, 'outside.json'), path.join(dataDir, 'link.json'));
+    expect(() => resolveCandleFile(dataDir, 'link.json')).toThrow(/relative path inside/);
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { CandleStore } from '../store/candle-store.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const hourly = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => [from + i * HOUR, 100 + i, 101 + i, 99 + i, 100.5 + i, 1] as [number, number, number, number, number, number]);
+
+describe('CandleStore', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candle-store-'));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const key = { productType: 'SPOT', symbol: 'ETHUSDT', granularity: '1h' };
+  const candle = (ts: number) => ({ symbol: 'ETHUSDT', timestamp: ts, open: '1', high: '2', low: '0.5', close: '1.5', volume: '3' });
+
+  test('appends new bars, rewrites on backfill and survives a reload', () => {
+    const store = new CandleStore(dir);
+    expect(store.write(key, [candle(3 * HOUR), candle(4 * HOUR)])).toBe(2);
+    expect(store.write(key, [candle(4 * HOUR), candle(5 * HOUR)])).toBe(1);
+    expect(store.write(key, [candle(1 * HOUR), candle(2 * HOUR)])).toBe(2);
+
+    const reloaded = new CandleStore(dir).read(key);
+    expect(reloaded.map(c => c.timestamp / HOUR)).toEqual([1, 2, 3, 4, 5]);
+    expect(reloaded[0]).toEqual(candle(HOUR));
+  });
+
+  test('skips a torn trailing line', () => {
+    const store = new CandleStore(dir);
+    fs.appendFileSync(store.filePath(key), '[21600000,"1","2"');
+    expect(new CandleStore(dir).read(key)).toHaveLength(5);
+  });
+
+  test('rewrites a torn file instead of appending to the broken line', () => {
+    const store = new CandleStore(dir);
+    expect(store.write(key, [candle(6 * HOUR), candle(7 * HOUR)])).toBe(2);
+
+    const reloaded = new CandleStore(dir).read(key);
+    expect(reloaded.map(c => c.timestamp / HOUR)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(fs.readFileSync(store.filePath(key), 'utf-8').endsWith('\n')).toBe(true);
+  });
+});
+
+describe('BitgetRestClient with a candle store', () => {
+  const exchange = new MockBitgetExchange();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candle-store-client-'));
+  const start = Math.floor(Date.now() / HOUR) * HOUR - 1000 * HOUR; // Last bar is the one that just closed
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    exchange.reset();
+    exchange.setCandles('BTCUSDT', '1H', hourly(start, 1000));
+    client = new BitgetRestClient({ ...exchange.clientConfig(), candleStoreDir: dir }, { maxRetries: 0 });
+  });
+
+  test('persists closed bars and only tops up the tail afterwards', async () => {
+    const first = await client.getCandles('BTCUSDT_UMCBL', '1h', 150);
+    expect(first).toHaveLength(150);
+    expect(fs.readFileSync(path.join(dir, 'USDT-FUTURES', 'BTCUSDT', '1H.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(150);
+
+    exchange.setCandles('BTCUSDT', '1H', hourly(start, 1001)); // One more bar, still forming
+    const seen = exchange.requestsTo('/api/v2/mix/market/candles').length;
+    const second = await client.getCandles('BTCUSDT_UMCBL', '1h', 150);
+
+    expect(second[149]).toMatchObject({ symbol: 'BTCUSDT_UMCBL', timestamp: start + 1000 * HOUR });
+    const requests = exchange.requestsTo('/api/v2/mix/market/candles').slice(seen);
+    expect(requests).toHaveLength(1);
+    expect(Number(requests[0].query.limit)).toBeLessThanOrEqual(3);
+    expect(exchange.requestsTo('/api/v2/mix/market/history-candles')).toHaveLength(0);
+  });
+
+  test('backfills older bars when a deeper window is requested', async () => {
+    await client.getCandles('BTCUSDT_UMCBL', '1h', 100);
+    const deeper = await client.getCandles('BTCUSDT_UMCBL', '1h', 400);
+
+    expect(deeper).toHaveLength(400);
+    expect(deeper.every((c, i) => i === 0 || c.timestamp - deeper[i - 1].timestamp === HOUR)).toBe(true);
+    expect(new CandleStore(dir).read({ productType: 'USDT-FUTURES', symbol: 'BTCUSDT', granularity: '1H' })).toHaveLength(400);
+  });
+
+  test('starts over instead of paging through a gap longer than the request', async () => {
+    const key = { productType: 'USDT-FUTURES' as const, symbol: 'BTCUSDT', granularity: '1H' };
+    new CandleStore(dir).write(key, hourly(start, 300).map(([timestamp, o, h, l, c, v]) => ({
+      symbol: 'BTCUSDT', timestamp, open: String(o), high: String(h), low: String(l), close: String(c), volume: String(v),
+    })));
+
+    const candles = await client.getCandles('BTCUSDT_UMCBL', '1h', 100);
+
+    expect(candles).toHaveLength(100);
+    expect(candles[99].timestamp).toBe(start + 999 * HOUR);
+    const requests = exchange.requestsTo('/api/v2/mix/market/candles');
+    expect(requests).toHaveLength(1);
+    expect(Number(requests[0].query.limit)).toBeLessThanOrEqual(100);
+    expect(exchange.requestsTo('/api/v2/mix/market/history-candles')).toHaveLength(0);
+    expect(new CandleStore(dir).read(key)[0].timestamp).toBe(start + 900 * HOUR);
+  });
+
+  test('serves stored bars when the exchange is unreachable', async () => {
+    await client.getCandles('BTCUSDT_UMCBL', '1h', 200);
+    const offline = new BitgetRestClient({ ...exchange.clientConfig(), baseUrl: 'http://127.0.0.1:1', candleStoreDir: dir }, { maxRetries: 0 });
+
+    const candles = await offline.getCandles('BTCUSDT_UMCBL', '1h', 50);
+    expect(candles).toHaveLength(50);
+    expect(candles[49].timestamp).toBe(start + 999 * HOUR);
+  });
+});
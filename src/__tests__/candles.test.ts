@@ -0,0 +1,65 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+describe('BitgetRestClient candle history paging', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  const hourly = (count: number) =>
+    Array.from({ length: count }, (_, i) => [T0 + i * HOUR, 100 + i, 101 + i, 99 + i, 100.5 + i, 1] as [number, number, number, number, number, number]);
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000 });
+    exchange.setCandles('BTCUSDT', '1H', hourly(2500));
+    exchange.setCandles('BTCUSDT', '1h', hourly(2500));
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('keeps a single request for the latest page', async () => {
+    const candles = await client.getCandles('BTCUSDT_UMCBL', '1h', 300);
+    expect(candles).toHaveLength(300);
+    expect(candles[299].timestamp).toBe(T0 + 2499 * HOUR);
+    expect(exchange.requestsTo('/api/v2/mix/market/history-candles')).toHaveLength(0);
+  });
+
+  test('pages futures history past the 1000-bar cap without gaps or duplicates', async () => {
+    const candles = await client.getCandles('BTCUSDT_UMCBL', '1h', 2200);
+
+    expect(candles).toHaveLength(2200);
+    expect(candles[0].timestamp).toBe(T0 + 300 * HOUR);
+    expect(candles.every((c, i) => i === 0 || c.timestamp - candles[i - 1].timestamp === HOUR)).toBe(true);
+
+    const pages = exchange.requestsTo('/api/v2/mix/market/history-candles');
+    expect(pages).toHaveLength(6);
+    expect(pages[0].query).toMatchObject({ productType: 'USDT-FUTURES', limit: '200', endTime: String(T0 + 1500 * HOUR - 1) });
+  });
+
+  test('returns a spot time range by paging back to startTime', async () => {
+    const startTime = T0 + 100 * HOUR;
+    const endTime = T0 + 1300 * HOUR;
+    const candles = await client.getCandles('BTCUSDT', '1h', 5000, { startTime, endTime });
+
+    expect(candles).toHaveLength(1201);
+    expect(candles[0].timestamp).toBe(startTime);
+    expect(candles[candles.length - 1].timestamp).toBe(endTime);
+    expect(exchange.requestsTo('/api/v2/spot/market/candles')[0].query.endTime).toBe(String(endTime));
+  });
+
+  test('stops when history runs out', async () => {
+    const candles = await client.getCandles('BTCUSDT', '1h', 4000);
+    expect(candles).toHaveLength(2500);
+    expect(candles[0].timestamp).toBe(T0);
+  });
+});
@@ -0,0 +1,152 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { CircuitBreaker, endpointGroup } from '../utils/circuit-breaker.js';
+import { RetryManager } from '../utils/retry.js';
+import { BitgetCircuitOpenError, BitgetNetworkError, BitgetRateLimitError } from '../types/bitget.js';
+import { tickerCache } from '../utils/cache.js';
+
+describe('CircuitBreaker', () => {
+  let clock = 0;
+  const now = () => clock;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+  });
+
+  test('groups endpoints by product line and API area', () => {
+    expect(endpointGroup('/api/v2/mix/order/place-order')).toBe('mix/order');
+    expect(endpointGroup('/api/v2/spot/market/tickers')).toBe('spot/market');
+  });
+
+  test('opens after consecutive failures, then admits a single probe after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 10000 }, now);
+    const endpoint = '/api/v2/mix/market/ticker';
+    for (let i = 0; i < 3; i++) {
+      breaker.check(endpoint);
+      breaker.recordFailure(endpoint, new Error('HTTP 503'));
+    }
+    expect(breaker.getState(endpoint)).toBe('open');
+    expect(() => breaker.check('/api/v2/mix/market/candles')).toThrow(BitgetCircuitOpenError);
+    // Other groups are unaffected
+    expect(() => breaker.check('/api/v2/spot/market/tickers')).not.toThrow();
+
+    clock += 10000;
+    expect(() => breaker.check(endpoint)).not.toThrow();
+    expect(breaker.getState(endpoint)).toBe('half-open');
+    expect(() => breaker.check(endpoint)).toThrow(/Circuit open for mix\/market/);
+
+    breaker.recordSuccess(endpoint);
+    expect(breaker.getState(endpoint)).toBe('closed');
+    expect(breaker.getStatus()[0]).toMatchObject({ group: 'mix/market', consecutiveFailures: 0, totalFailures: 3, totalSuccesses: 1 });
+  });
+
+  test('a failed probe reopens the circuit', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 }, now);
+    breaker.recordFailure('/api/v2/spot/trade/place-order', new Error('timeout'));
+    clock += 1000;
+    breaker.check('/api/v2/spot/trade/place-order');
+    breaker.recordFailure('/api/v2/spot/trade/place-order', new Error('timeout'));
+    expect(breaker.getStatus()[0]).toMatchObject({ state: 'open', retryAt: clock + 1000 });
+  });
+});
+
+describe('RetryManager', () => {
+  const manager = new RetryManager({ maxRetries: 2, baseDelay: 1, maxDelay: 5 });
+  const failing = (errors: Error[], result = 'ok') => {
+    const op = jest.fn(async () => {
+      const error = errors.shift();
+      if (error) throw error;
+      return result;
+    });
+    return op;
+  };
+
+  test('retries idempotent operations after transient network errors', async () => {
+    const op = failing([new BitgetNetworkError('socket hang up'), new BitgetNetworkError('HTTP 502', undefined, 502)]);
+    await expect(manager.execute(op)).resolves.toBe('ok');
+    expect(op).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry client errors', async () => {
+    const op = failing([new BitgetNetworkError('HTTP 404', undefined, 404)]);
+    await expect(manager.execute(op)).rejects.toThrow('HTTP 404');
+    expect(op).toHaveBeenCalledTimes(1);
+  });
+
+  test('never blindly resends a non-idempotent operation after an ambiguous failure', async () => {
+    const op = failing([new BitgetNetworkError('Network error: The user aborted a request.')]);
+    await expect(manager.execute(op, 'POST place-order', { idempotent: false })).rejects.toThrow(/aborted/);
+    expect(op).toHaveBeenCalledTimes(1);
+  });
+
+  test('resends a non-idempotent operation when the failure proves nothing was sent', async () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const op = failing([new BitgetNetworkError('Network error', refused), new BitgetRateLimitError('429')]);
+    await expect(manager.execute(op, 'POST place-order', { idempotent: false })).resolves.toBe('ok');
+    expect(op).toHaveBeenCalledTimes(3);
+  });
+
+  test('returns the reconciled result instead of resending', async () => {
+    const op = failing([new BitgetNetworkError('timeout')]);
+    const reconcile = jest.fn(async () => 'existing-order');
+    await expect(manager.execute(op, 'POST place-order', { idempotent: false, reconcile })).resolves.toBe('existing-order');
+    expect(op).toHaveBeenCalledTimes(1);
+  });
+
+  test('resends after reconciliation finds nothing', async () => {
+    const op = failing([new BitgetNetworkError('timeout')]);
+    await expect(manager.execute(op, 'POST place-order', { idempotent: false, reconcile: async () => undefined })).resolves.toBe('ok');
+    expect(op).toHaveBeenCalledTimes(2);
+  });
+
+  test('waits at least as long as the server asks', async () => {
+    const op = failing([new BitgetRateLimitError('slow down', 50)]);
+    const started = Date.now();
+    await manager.execute(op);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+});
+
+describe('BitgetRestClient circuit breaking', () => {
+  const exchange = new MockBitgetExchange();
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    tickerCache.clear();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+  });
+
+  test('fails fast once a group keeps returning 5xx, without touching other groups', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    for (let i = 0; i < 5; i++) {
+      exchange.failNext('/api/v2/mix/market/ticker', { code: '50001', msg: 'Service unavailable', httpStatus: 503 });
+      await expect(client.getTicker('BTCUSDT_UMCBL')).rejects.toThrow(/503/);
+    }
+    const before = exchange.requestsTo('/api/v2/mix/market/ticker').length;
+    await expect(client.getTicker('BTCUSDT_UMCBL')).rejects.toThrow(BitgetCircuitOpenError);
+    expect(exchange.requestsTo('/api/v2/mix/market/ticker')).toHaveLength(before);
+
+    await expect(client.getTicker('BTCUSDT')).resolves.toMatchObject({ last: '95000' });
+    expect(client.getCircuitBreaker().getStatus()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ group: 'mix/market', state: 'open' }),
+      expect.objectContaining({ group: 'spot/market', state: 'closed' }),
+    ]));
+  });
+
+  test('business errors do not count as outages', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    for (let i = 0; i < 6; i++) {
+      exchange.failNext('/api/v2/mix/market/ticker', { code: '40034', msg: 'Parameter does not exist' });
+      await expect(client.getTicker('BTCUSDT_UMCBL')).rejects.toThrow();
+    }
+    expect(client.getCircuitBreaker().getState('/api/v2/mix/market/ticker')).toBe('closed');
+  });
+});
@@ -0,0 +1,65 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+
+describe('coin-margined and USDC-margined futures', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+    exchange.setTicker('BTCUSD', { last: 95010, bid: 95009, ask: 95011 });
+    exchange.setTicker('BTCPERP', { last: 95005, bid: 95004, ask: 95006 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('places coin-margined orders with the base coin as margin', async () => {
+    await client.placeOrder({ symbol: 'BTCUSD_DMCBL', side: 'buy', type: 'market', quantity: '1', tradeSide: 'open' });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')[0].body).toMatchObject({
+      symbol: 'BTCUSD', productType: 'COIN-FUTURES', marginCoin: 'BTC',
+    });
+
+    expect(await client.getFuturesPositions(undefined, 'COIN-FUTURES')).toEqual([
+      expect.objectContaining({ symbol: 'BTCUSD', side: 'long', size: '1' }),
+    ]);
+    expect(await client.getFuturesPositions()).toEqual([]);
+  });
+
+  test('routes ccxt USDC perpetuals to USDC-FUTURES', async () => {
+    await client.placeOrder({ symbol: 'BTC/USDC:USDC', side: 'sell', type: 'limit', price: '96000', quantity: '0.01', tradeSide: 'open' });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')[0].body).toMatchObject({
+      symbol: 'BTCPERP', productType: 'USDC-FUTURES', marginCoin: 'USDC',
+    });
+    expect(await client.getOrders('BTCPERP_CMCBL')).toEqual([
+      expect.objectContaining({ symbol: 'BTCPERP_CMCBL', side: 'sell', status: 'open' }),
+    ]);
+  });
+
+  test('sets TP/SL and leverage on coin-margined contracts', async () => {
+    await client.setLeverage('BTCUSD_DMCBL', 20);
+    await client.placeOrder({ symbol: 'BTCUSD_DMCBL', side: 'buy', type: 'market', quantity: '1', tradeSide: 'open' });
+    await client.placeFuturesTPSL('BTCUSD_DMCBL', { planType: 'pos_loss', triggerPrice: '90000', holdSide: 'long', size: '1' });
+    expect(exchange.requestsTo('/api/v2/mix/account/set-leverage')[0].body).toMatchObject({ productType: 'COIN-FUTURES', marginCoin: 'BTC' });
+    expect(await client.getFuturesPlanOrders('BTCUSD_DMCBL')).toEqual([
+      expect.objectContaining({ symbol: 'BTCUSD', planType: 'pos_loss', triggerPrice: '90000' }),
+    ]);
+    expect(exchange.requestsTo('/api/v2/mix/order/orders-plan-pending')[0].query).toMatchObject({ productType: 'COIN-FUTURES' });
+  });
+
+  test('lists contracts for every product type or one', async () => {
+    const all = await client.getFuturesContracts();
+    expect(all.map(c => c.symbol)).toEqual(expect.arrayContaining(['BTCUSDT', 'BTCUSD', 'BTCPERP']));
+
+    const coin = await client.getFuturesContracts('COIN-FUTURES');
+    expect(coin.map(c => c.symbol)).toEqual(['BTCUSD']);
+    expect(coin[0]).toMatchObject({ productType: 'COIN-FUTURES', baseCoin: 'BTC', quoteCoin: 'USD' });
+  });
+});
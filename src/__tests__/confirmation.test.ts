@@ -0,0 +1,52 @@
+import { ConfirmationManager, confirmationConfigFromEnv, DEFAULT_CONFIRM_TOOLS } from '../risk/confirmation.js';
+
+describe('confirmationConfigFromEnv', () => {
+  test('defaults to the sweeping tools and can be turned off', () => {
+    expect(confirmationConfigFromEnv({})).toEqual({ tools: DEFAULT_CONFIRM_TOOLS, ttlMs: 60000 });
+    expect(confirmationConfigFromEnv({ BITGET_CONFIRM_TOOLS: 'none' }).tools).toEqual([]);
+    expect(confirmationConfigFromEnv({ BITGET_CONFIRM_TOOLS: 'closeAllPositions, setLeverage', BITGET_CONFIRM_TTL_MS: '5000' }))
+      .toEqual({ tools: ['closeAllPositions', 'setLeverage'], ttlMs: 5000 });
+  });
+});
+
+describe('ConfirmationManager', () => {
+  let now = 0;
+  let confirmations: ConfirmationManager;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    confirmations = new ConfirmationManager({ tools: ['closeAllPositions'], ttlMs: 30000 }, () => now);
+  });
+
+  test('only listed tools need confirmation', () => {
+    expect(confirmations.requires('closeAllPositions')).toBe(true);
+    expect(confirmations.requires('setMarginMode')).toBe(false);
+  });
+
+  test('advertises confirmationToken only on tools that need it', () => {
+    const tool = (name: string) => ({ name, description: name, inputSchema: { type: 'object', properties: { symbol: { type: 'string' } } } });
+    const [close, margin] = confirmations.annotate([tool('closeAllPositions'), tool('setMarginMode')]);
+
+    expect(close.description).toMatch(/Needs confirmation/);
+    expect(Object.keys(close.inputSchema.properties)).toEqual(['symbol', 'confirmationToken']);
+    expect(margin).toEqual(tool('setMarginMode'));
+  });
+
+  test('a token runs the previewed call once', () => {
+    const request = confirmations.prepare('closeAllPositions', { productType: 'USDT-FUTURES', symbol: undefined }, { positions: [] });
+    expect(request).toMatchObject({ confirmationRequired: true, tool: 'closeAllPositions', preview: { positions: [] }, expiresAt: now + 30000 });
+
+    // Argument order and undefined values do not matter
+    expect(() => confirmations.consume('closeAllPositions', { productType: 'USDT-FUTURES' }, request.confirmationToken)).not.toThrow();
+    expect(() => confirmations.consume('closeAllPositions', { productType: 'USDT-FUTURES' }, request.confirmationToken)).toThrow(/unknown or expired/);
+  });
+
+  test('rejects tokens for other arguments, other tools or after expiry', () => {
+    const { confirmationToken } = confirmations.prepare('closeAllPositions', { symbol: 'BTCUSDT' }, {});
+    expect(() => confirmations.consume('closeAllPositions', {}, confirmationToken)).toThrow(/different closeAllPositions arguments/);
+    expect(() => confirmations.consume('setMarginMode', { symbol: 'BTCUSDT' }, confirmationToken)).toThrow(/unknown or expired/);
+
+    now += 30000;
+    expect(() => confirmations.consume('closeAllPositions', { symbol: 'BTCUSDT' }, confirmationToken)).toThrow(/unknown or expired/);
+  });
+});
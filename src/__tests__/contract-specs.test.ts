@@ -0,0 +1,109 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { ContractSpecService, futuresContractSpec, roundPrice, roundSize } from '../api/contract-specs.js';
+
+const BTC_CONTRACT = {
+  symbol: 'BTCUSDT', baseCoin: 'BTC', quoteCoin: 'USDT', pricePlace: '1', priceEndStep: '5',
+  volumePlace: '3', sizeMultiplier: '0.001', minTradeNum: '0.001', maxLever: '125', symbolStatus: 'normal',
+};
+
+describe('contract precision helpers', () => {
+  const spec = futuresContractSpec(BTC_CONTRACT);
+
+  test('rounds prices to pricePlace and priceEndStep', () => {
+    expect(roundPrice(spec, '94123.456')).toBe('94123.5');
+    expect(roundPrice(spec, '94123.32')).toBe('94123.5');
+    expect(roundPrice(spec, '94123.2')).toBe('94123.0');
+  });
+
+  test('rounds sizes down to the lot', () => {
+    expect(roundSize(spec, '0.0129')).toBe('0.012');
+    expect(roundSize(spec, '0.3')).toBe('0.300');
+    expect(roundSize({ ...spec, volumePlace: 2, sizeMultiplier: 0.05 }, '1.12')).toBe('1.10');
+  });
+});
+
+describe('ContractSpecService', () => {
+  let clock = 0;
+  const loader = jest.fn(async (market: 'spot' | 'futures') => market === 'futures'
+    ? [BTC_CONTRACT, { ...BTC_CONTRACT, symbol: 'LUNAUSDT', symbolStatus: 'off' }]
+    : []);
+
+  beforeEach(() => {
+    clock = 0;
+    loader.mockClear();
+  });
+
+  test('caches specs until the TTL expires and shares concurrent loads', async () => {
+    const service = new ContractSpecService(loader, { ttlMs: 1000 }, () => clock);
+    await Promise.all([service.get('BTCUSDT_UMCBL', 'futures'), service.get('BTCUSDT', 'futures')]);
+    expect(loader).toHaveBeenCalledTimes(1);
+    clock = 1000;
+    expect((await service.get('btcusdt', 'futures'))?.maxLever).toBe(125);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  test('rounds in round mode and rejects in reject mode', async () => {
+    const rounding = new ContractSpecService(loader);
+    await expect(rounding.prepareOrder('BTCUSDT', 'futures', { size: '0.0125', prices: { price: '94123.456' } }))
+      .resolves.toEqual({ size: '0.012', prices: { price: '94123.5' } });
+
+    const strict = new ContractSpecService(loader, { mode: 'reject' });
+    await expect(strict.prepareOrder('BTCUSDT', 'futures', { prices: { triggerPrice: '94123.456' } }))
+      .rejects.toThrow(/triggerPrice 94123.456 does not match BTCUSDT precision \(nearest valid: 94123.5\)/);
+    await expect(strict.prepareOrder('BTCUSDT', 'futures', { size: '0.010', prices: { price: '94120' } }))
+      .resolves.toEqual({ size: '0.010', prices: { price: '94120' } });
+  });
+
+  test('rejects sizes below the minimum and untradable symbols', async () => {
+    const service = new ContractSpecService(loader);
+    await expect(service.prepareOrder('BTCUSDT', 'futures', { size: '0.0004' })).rejects.toThrow(/below the BTCUSDT minimum/);
+    await expect(service.prepareOrder('LUNAUSDT', 'futures', { size: '1' })).rejects.toThrow(/not tradable \(status: off\)/);
+  });
+
+  test('passes orders through when specs cannot be loaded', async () => {
+    const service = new ContractSpecService(async () => { throw new Error('down'); });
+    await expect(service.prepareOrder('BTCUSDT', 'futures', { size: '0.0125' })).resolves.toEqual({ size: '0.0125', prices: {} });
+  });
+});
+
+describe('BitgetRestClient order precision', () => {
+  const exchange = new MockBitgetExchange();
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+  });
+
+  test('rounds futures limit orders and plan prices before sending', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    const order = await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'limit', price: '94123.456', quantity: '0.0125', tradeSide: 'open', marginCoin: 'USDT' });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')[0].body).toMatchObject({ price: '94123.46', size: '0.012' });
+    expect(order).toMatchObject({ price: '94123.46', quantity: '0.012' });
+
+    await client.placeFuturesPlanOrder('BTCUSDT_UMCBL', { planType: 'profit_plan', triggerPrice: '99000.123', holdSide: 'long', size: '0.0059' });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-plan-order')[0].body).toMatchObject({ triggerPrice: '99000.12', size: '0.005' });
+  });
+
+  test('rejects before sending when the size is below the minimum', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    await expect(client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.0004', tradeSide: 'open' }))
+      .rejects.toThrow(/below the BTCUSDT minimum/);
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')).toHaveLength(0);
+  });
+
+  test('rejects off-grid spot prices in reject mode', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig({ orderPrecision: 'reject' }), { maxRetries: 0 });
+    await expect(client.placeOrder({ symbol: 'BTCUSDT', side: 'buy', type: 'limit', price: '94000.001', quantity: '0.01' }))
+      .rejects.toThrow(/price 94000.001 does not match/);
+    expect((await client.getContractSpec('BTCUSDT'))).toMatchObject({ market: 'spot', pricePlace: 2, volumePlace: 4, tradable: true });
+  });
+});
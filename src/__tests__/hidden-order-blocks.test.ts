@@ -0,0 +1,99 @@
+import {
+  detectHiddenOrderBlocks,
+  filterHiddenOrderBlocks,
+  lowerTimeframe,
+} from '../analytics/hidden-order-blocks.js';
+import { intervalToMs } from '../utils/intervals.js';
+import { pivots } from '../analytics/indicators.js';
+import { Candle } from '../types/bitget.js';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 6);
+
+const bar = (ts: number, o: number, h: number, l: number, c: number, v: number = 1): Candle => ({
+  symbol: 'TEST', timestamp: ts,
+  open: o.toString(), high: h.toString(), low: l.toString(), close: c.toString(), volume: v.toString(),
+});
+
+// Bearish base candle at idx 2, displacement leg with an FVG that breaks the idx 1 swing high,
+// then a shallow retrace into the block
+const hourly = [
+  bar(T0, 100, 101, 99, 100),
+  bar(T0 + HOUR, 100, 103, 100, 102),
+  bar(T0 + 2 * HOUR, 102, 102.5, 100.5, 101),
+  bar(T0 + 3 * HOUR, 101, 105, 101, 104.8, 3),
+  bar(T0 + 4 * HOUR, 104.8, 108, 104.5, 107.5, 3),
+  bar(T0 + 5 * HOUR, 107.5, 108.2, 106, 107),
+  bar(T0 + 6 * HOUR, 107, 107.2, 102, 103),
+];
+
+describe('detectHiddenOrderBlocks', () => {
+  test('scores a displacement block and tracks partial mitigation', () => {
+    const blocks = detectHiddenOrderBlocks(hourly, { atr: 2, pivots: pivots(hourly), interval: '1h' });
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]).toMatchObject({
+      type: 'bull',
+      idx: 2,
+      top: 102.5,
+      bottom: 100.5,
+      displacementAtr: 2.5,
+      hasFvg: true,
+      brokeStructure: true,
+      touched: true,
+      mitigation: 0.25,
+      fullyMitigated: false,
+      invalidated: false,
+      ltfConfirmed: false,
+      isVeryStrong: true,
+    });
+    // 0.3 displacement + 0.2 FVG + 0.2 BOS + 0.1 * (1.485 / 2) volume + 0.1 * 0.75 freshness
+    expect(blocks[0].qualityScore).toBeCloseTo(0.849, 3);
+  });
+
+  test('confirms on the lower timeframe when an LTF close breaks the block candle range', () => {
+    const q = HOUR / 4;
+    const ltf = [
+      bar(T0 + 2 * HOUR, 102, 102.5, 101.5, 101.8),
+      bar(T0 + 2 * HOUR + q, 101.8, 102, 100.5, 100.7),
+      bar(T0 + 2 * HOUR + 2 * q, 100.7, 101.4, 100.6, 101.2),
+      bar(T0 + 2 * HOUR + 3 * q, 101.2, 101.3, 100.9, 101),
+      bar(T0 + 3 * HOUR, 101, 102.4, 101, 102.3),
+      bar(T0 + 3 * HOUR + q, 102.3, 103.2, 102.2, 103.1),
+    ];
+    const [block] = detectHiddenOrderBlocks(hourly, { atr: 2, pivots: pivots(hourly), interval: '1h', ltfCandles: ltf });
+    expect(block.ltfConfirmed).toBe(true);
+    expect(block.qualityScore).toBeCloseTo(0.949, 3);
+  });
+
+  test('marks a block invalidated once price closes through it', () => {
+    const broken = [...hourly, bar(T0 + 7 * HOUR, 103, 103.5, 99, 99.5)];
+    const [block] = detectHiddenOrderBlocks(broken, { atr: 2, pivots: pivots(broken), interval: '1h' });
+    expect(block).toMatchObject({ fullyMitigated: true, invalidated: true, isVeryStrong: false });
+  });
+});
+
+describe('filterHiddenOrderBlocks', () => {
+  const [fresh] = detectHiddenOrderBlocks(hourly, { atr: 2, pivots: pivots(hourly) });
+  const broken = { ...fresh, idx: 1, invalidated: true, fullyMitigated: true, isVeryStrong: false, qualityScore: 0.7 };
+  const weak = { ...fresh, idx: 0, qualityScore: 0.4, isVeryStrong: false };
+
+  test('applies the snapshot tool filters', () => {
+    expect(filterHiddenOrderBlocks([weak, broken, fresh], {})).toEqual([fresh]);
+    expect(filterHiddenOrderBlocks([weak, broken, fresh], { excludeInvalidated: false })).toEqual([broken, fresh]);
+    expect(filterHiddenOrderBlocks([weak, broken, fresh], { excludeInvalidated: false, onlyFullyMitigated: true })).toEqual([broken]);
+    expect(filterHiddenOrderBlocks([weak, broken, fresh], { minQuality: 0 })).toEqual([weak, fresh]);
+    expect(filterHiddenOrderBlocks([fresh], { requireLTFConfirmations: true })).toEqual([]);
+    expect(filterHiddenOrderBlocks([weak, fresh], { minQuality: 0, onlyVeryStrong: true })).toEqual([fresh]);
+    // A high score alone does not make a block very strong
+    const unmarked = { ...fresh, idx: 2, qualityScore: 0.9, isVeryStrong: false };
+    expect(filterHiddenOrderBlocks([unmarked, fresh], { onlyVeryStrong: true })).toEqual([fresh]);
+  });
+});
+
+describe('timeframe helpers', () => {
+  test('map intervals to milliseconds and a lower confirmation timeframe', () => {
+    expect(intervalToMs('4h')).toBe(4 * HOUR);
+    expect(lowerTimeframe('1h')).toBe('15m');
+    expect(lowerTimeframe('1m')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  atr,
+  breakOfStructure,
+  clusterLevels,
+  ema,
+  fairValueGaps,
+  liquidityZones,
+  orderBlocks,
+  pivots,
+  rma,
+  rsi,
+  sessionLevels,
+  sma,
+  swingFailure,
+  trueRange,
+  vwap,
+} from '../analytics/indicators.js';
+import { computeSnapshot } from '../analytics/snapshot.js';
+import { Candle } from '../types/bitget.js';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 6); // Monday 00:00 UTC
+
+const bar = (i: number, o: number, h: number, l: number, c: number, v: number = 1): Candle => ({
+  symbol: 'TEST', timestamp: T0 + i * HOUR,
+  open: o.toString(), high: h.toString(), low: l.toString(), close: c.toString(), volume: v.toString(),
+});
+
+const fromCloses = (closes: number[]): Candle[] =>
+  closes.map((c, i) => bar(i, i > 0 ? closes[i - 1] : c, Math.max(c, i > 0 ? closes[i - 1] : c), Math.min(c, i > 0 ? closes[i - 1] : c), c));
+
+describe('moving averages', () => {
+  test('sma averages the last n values', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toBe(4);
+    expect(sma([1, 2], 3)).toBeNull();
+  });
+
+  test('ema is seeded with the first value', () => {
+    expect(ema([1, 2, 3], 2)).toBeCloseTo(23 / 9, 12);
+    expect(ema([1], 2)).toBeNull();
+  });
+
+  test('rma is seeded with the SMA of the first n values', () => {
+    expect(rma([1, 2, 3, 4], 2)).toBeCloseTo(3.125, 12);
+  });
+});
+
+describe('volatility and momentum', () => {
+  const candles = [bar(0, 10, 12, 9, 11), bar(1, 11, 13, 10, 12), bar(2, 12, 12.5, 8, 9)];
+
+  test('trueRange includes gaps from the previous close', () => {
+    expect(trueRange(candles)).toEqual([3, 3, 4.5]);
+  });
+
+  test('atr smooths true range with Wilder', () => {
+    expect(atr(candles, 2)).toBeCloseTo(3.75, 12);
+    expect(atr(candles, 14)).toBeNull();
+  });
+
+  test('rsi matches Wilder\'s worked example', () => {
+    const closes = [44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.00];
+    expect(rsi(fromCloses(closes), 14)).toBeCloseTo(66.2496, 3);
+    expect(rsi(fromCloses([1, 2, 3]), 2)).toBe(100);
+    expect(rsi(fromCloses([3, 2, 1]), 2)).toBe(0);
+  });
+
+  test('vwap weights the typical price by volume', () => {
+    const v = vwap([bar(0, 9, 12, 6, 9, 1), bar(1, 9, 21, 15, 18, 3)]);
+    expect(v).toBeCloseTo((9 * 1 + 18 * 3) / 4, 12);
+    expect(vwap([bar(0, 1, 1, 1, 1, 0)])).toBeNull();
+  });
+});
+
+describe('market structure', () => {
+  test('pivots marks three-bar swing highs and lows', () => {
+    const candles = [bar(0, 1, 1, 0.5, 1), bar(1, 1, 3, 2, 2), bar(2, 2, 2, 1, 1.5), bar(3, 1.5, 4, 3, 3.5), bar(4, 3.5, 3, 2.5, 3)];
+    expect(pivots(candles)).toEqual([
+      { idx: 1, type: 'H', price: 3 },
+      { idx: 2, type: 'L', price: 1 },
+      { idx: 3, type: 'H', price: 4 },
+    ]);
+  });
+
+  test('breakOfStructure compares the last close to all prior bars', () => {
+    expect(breakOfStructure([bar(0, 1, 2, 0.5, 1), bar(1, 1, 3, 1, 2.5)])).toBe('up');
+    expect(breakOfStructure([bar(0, 1, 2, 0.5, 1), bar(1, 1, 1, 0.1, 0.2)])).toBe('down');
+    expect(breakOfStructure([bar(0, 1, 2, 0.5, 1), bar(1, 1, 1.5, 0.8, 1.2)])).toBeNull();
+  });
+
+  test('fairValueGaps finds three-bar imbalances', () => {
+    const candles = [bar(0, 9, 10, 8, 9.5), bar(1, 9.5, 12, 9.5, 11.8), bar(2, 11.8, 13, 11, 12.5), bar(3, 12.5, 12.6, 8, 8.2), bar(4, 8.2, 8.5, 7, 7.5)];
+    expect(fairValueGaps(candles)).toEqual([
+      { type: 'bull', from: 10, to: 11, startIdx: 0 },
+      { type: 'bear', from: 8.5, to: 11, startIdx: 2 },
+    ]);
+  });
+
+  test('clusterLevels groups nearby prices and drops singletons', () => {
+    const points = [100, 105.02, 100.05, 110, 105].map((price, idx) => ({ idx, price }));
+    const clusters = clusterLevels(points, 0.1);
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].level).toBeCloseTo(100.025, 10);
+    expect(clusters[0].indices).toEqual([0, 2]);
+    expect(clusters[1]).toMatchObject({ count: 2, indices: [4, 1] });
+  });
+
+  test('liquidityZones clusters equal highs and lows separately', () => {
+    const zones = liquidityZones([
+      { idx: 1, type: 'H', price: 50 }, { idx: 5, type: 'H', price: 50.01 },
+      { idx: 3, type: 'L', price: 40 }, { idx: 7, type: 'L', price: 45 },
+    ], 0.05);
+    expect(zones.highs).toHaveLength(1);
+    expect(zones.lows).toHaveLength(0);
+  });
+
+  test('orderBlocks picks the last opposite candle before a bullish BOS', () => {
+    const candles = [
+      bar(0, 10, 11, 9, 10.5), bar(1, 10.5, 10.8, 9.5, 9.8), bar(2, 9.8, 10.2, 9.4, 9.6),
+      bar(3, 9.6, 11, 9.6, 10.9), bar(4, 10.9, 12, 10.8, 11.9),
+    ];
+    const bos = breakOfStructure(candles);
+    expect(bos).toBe('up');
+    expect(orderBlocks(candles, bos, null, pivots(candles))).toEqual([
+      { type: 'bull', idx: 2, open: 9.8, high: 10.2, low: 9.4, close: 9.6 },
+    ]);
+  });
+
+  test('orderBlocks falls back to displacement when there is no BOS', () => {
+    const candles = [
+      bar(0, 10, 20, 5, 10), bar(1, 10, 10.5, 9, 9.2), bar(2, 9.2, 11, 9.1, 10.8), bar(3, 10.8, 12, 10.7, 11.9),
+      bar(4, 11.9, 13, 11.8, 12.9), bar(5, 12.9, 14, 12.8, 13.9), bar(6, 13.9, 14.2, 13.5, 13.6),
+    ];
+    expect(breakOfStructure(candles)).toBeNull();
+    expect(orderBlocks(candles, null, 1, pivots(candles))).toEqual([
+      { type: 'bull', idx: 1, open: 10, high: 10.5, low: 9, close: 9.2 },
+    ]);
+  });
+
+  test('sessionLevels uses UTC day and Monday week boundaries', () => {
+    // Sunday 22:00 .. Tuesday 12:00
+    const start = T0 - 2 * HOUR;
+    const candles = Array.from({ length: 20 }, (_, i) => {
+      const o = 100 + i;
+      return { ...bar(0, o, o + 2, o - 1, o + 1), timestamp: start + i * 2 * HOUR };
+    });
+    expect(sessionLevels(candles)).toEqual({
+      dailyOpen: 100 + 13, // Tue 00:00
+      weeklyOpen: 101,     // Mon 00:00
+      prevDayHigh: 100 + 12 + 2,
+      prevDayLow: 101 - 1,
+    });
+  });
+
+  test('swingFailure flags a wick through the last swing high that closes back below', () => {
+    const candles = [bar(0, 100, 101, 99, 100), bar(1, 100, 105, 100, 104), bar(2, 104, 104, 101, 102), bar(3, 102, 106, 101.5, 104.5)];
+    const sfp = swingFailure(candles, pivots(candles), 0.5);
+    expect(sfp).toEqual({ bullish: false, bearish: true, last: { type: 'bearish', idx: 3, level: 105 } });
+  });
+});
+
+describe('computeSnapshot', () => {
+  test('combines the indicators over a candle series', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => 100 + 10 * Math.sin(i / 5));
+    const candles = fromCloses(closes);
+    const snapshot = computeSnapshot(candles, { emas: [20], atrPeriod: 14 });
+
+    expect(snapshot.latest).toMatchObject({ close: closes[59], ts: candles[59].timestamp });
+    expect(snapshot.pivots).toEqual(pivots(candles));
+    expect(snapshot.sma50).toBeCloseTo(sma(closes, 50)!, 12);
+    expect(snapshot.sma200).toBeNull();
+    expect(snapshot.trend).toBeNull();
+    expect(snapshot.emaValues).toEqual({ ema20: ema(closes, 20) });
+    expect(snapshot.atr).toBeCloseTo(atr(candles, 14)!, 12);
+  });
+});
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { KillSwitch, KillSwitchConfig } from '../risk/kill-switch.js';
+import { RiskManager } from '../risk/risk-manager.js';
+import { RiskViolationError } from '../types/bitget.js';
+
+describe('kill switch', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+  let dir: string;
+
+  function killSwitch(config: Partial<KillSwitchConfig> = {}, now?: () => number): KillSwitch {
+    return new KillSwitch({
+      cancelOrders: false,
+      flatten: false,
+      statePath: path.join(dir, 'kill-switch.json'),
+      checkIntervalMs: 60000,
+      ...config,
+    }, client, now);
+  }
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 95000, ask: 95000 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kill-switch-'));
+  });
+
+  test('sums realized and unrealized PnL for the day', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.2', tradeSide: 'open' });
+    exchange.setTicker('BTCUSDT', { last: 94000, bid: 94000, ask: 94000 });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'sell', type: 'market', quantity: '0.1', tradeSide: 'close' });
+
+    const pnl = await killSwitch().dailyPnl();
+    expect(pnl.realized).toBeCloseTo(-100, 6);
+    expect(pnl.unrealized).toBeCloseTo(-100, 6);
+    expect(pnl.total).toBeCloseTo(-200, 6);
+    expect(exchange.requestsTo('/api/v2/mix/order/fill-history')[0].query).toMatchObject({ productType: 'USDT-FUTURES' });
+  });
+
+  test('the loss limit halts entries, cancels orders and flattens', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.2', tradeSide: 'open' });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'limit', price: '90000', quantity: '0.1', tradeSide: 'open' });
+    exchange.setTicker('BTCUSDT', { last: 94000, bid: 94000, ask: 94000 });
+
+    const ks = killSwitch({ maxDailyLoss: 150, cancelOrders: true, flatten: true });
+    const risk = new RiskManager({}, client, ks);
+    await expect(risk.checkOrder({ symbol: 'BTCUSDT_UMCBL', market: 'futures', side: 'buy', quantity: '0.1' }))
+      .rejects.toMatchObject({ rule: 'killSwitch' });
+
+    expect(ks.isEngaged()).toBe(true);
+    expect(await client.getFuturesPositions('BTCUSDT')).toEqual([]);
+    expect(await client.getOrders('BTCUSDT_UMCBL')).toEqual([]);
+    // Closing never trips the switch
+    await expect(risk.checkOrder({ symbol: 'BTCUSDT_UMCBL', market: 'futures', side: 'sell', quantity: '0.1', reduceOnly: true })).resolves.toBeUndefined();
+  });
+
+  test('survives a restart and needs the release key', async () => {
+    await killSwitch({ releaseKey: 'desk-only' }).engage('Manual halt');
+
+    const restarted = killSwitch({ releaseKey: 'desk-only' });
+    expect(restarted.isEngaged()).toBe(true);
+    await expect(restarted.assertTradingAllowed()).rejects.toThrow(/Manual halt/);
+    expect(() => restarted.release()).toThrow(RiskViolationError);
+    expect(() => restarted.release('guess')).toThrow(/release key/);
+    expect(restarted.release('desk-only').engaged).toBe(false);
+    expect(killSwitch().isEngaged()).toBe(false);
+  });
+
+  test('without a release key a manual halt cannot be lifted through the server', async () => {
+    const ks = killSwitch();
+    await ks.engage('Manual halt');
+    expect(ks.hasReleaseKey()).toBe(false);
+    expect(() => ks.release()).toThrow(/only be lifted outside the server/);
+    expect(() => ks.release('anything')).toThrow(RiskViolationError);
+    expect(ks.isEngaged()).toBe(true);
+  });
+
+  test('a loss-limit halt holds for the day and lifts at the next UTC day', async () => {
+    let now = Date.UTC(2024, 0, 1, 12);
+    const ks = killSwitch({ maxDailyLoss: 100 }, () => now);
+    await ks.engage('Daily loss 120.00 reached the 100 limit', 'dailyLoss');
+
+    expect(() => ks.release()).toThrow(/releases at 00:00 UTC/);
+    now = Date.UTC(2024, 0, 2, 0, 1);
+    expect(ks.isEngaged()).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { mapFuturesOrder, mapFuturesPosition, mapPlanOrder, mapSpotOrder } from '../api/mappers.js';
+
+const fixtures = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'bitget-v2-mix.json'), 'utf-8'));
+
+describe('v2 response mappers', () => {
+  test('maps pending and historical futures orders', () => {
+    expect(mapFuturesOrder(fixtures.ordersPending.data.entrustedList[0], 'USDT-FUTURES')).toEqual({
+      orderId: '1082242690549481473',
+      clientOrderId: '1082242690549481474',
+      symbol: 'ETHUSDT_UMCBL',
+      side: 'buy',
+      type: 'limit',
+      quantity: '100',
+      price: '1900',
+      status: 'partially_filled',
+      filled: '12.5',
+      remaining: '87.5',
+      timestamp: 1695718781129,
+      updateTime: 1695718781140,
+    });
+    // Market orders report price 0; the fill average is the useful price
+    expect(mapFuturesOrder(fixtures.ordersHistory.data.entrustedList[0], 'COIN-FUTURES')).toMatchObject({
+      symbol: 'BTCUSD_DMCBL',
+      type: 'market',
+      price: '37012.4',
+      status: 'filled',
+      remaining: '0',
+    });
+  });
+
+  test('maps positions', () => {
+    expect(mapFuturesPosition(fixtures.allPosition.data[0])).toEqual({
+      symbol: 'BTCUSDT',
+      side: 'short',
+      size: '0.1',
+      entryPrice: '36966',
+      markPrice: '37150.83',
+      pnl: '-18.483',
+      pnlPercent: '-0.0500',
+      margin: '369.66',
+      leverage: '10',
+      timestamp: 1695711602568,
+    });
+  });
+
+  test('maps plan orders', () => {
+    expect(mapPlanOrder(fixtures.ordersPlanPending.data.entrustedList[0])).toEqual({
+      orderId: '1111465253877768192',
+      clientOid: '1111465253877768193',
+      symbol: 'BTCUSDT',
+      planType: 'pos_loss',
+      triggerPrice: '38500',
+      triggerType: 'mark_price',
+      executePrice: undefined,
+      holdSide: 'short',
+      size: '',
+      status: 'live',
+      timestamp: 1695806875900,
+    });
+  });
+
+  test('maps spot orders with v2 field names', () => {
+    expect(mapSpotOrder({
+      symbol: 'BTCUSDT', orderId: '1', clientOid: 'c1', price: '94000', priceAvg: '0', size: '0.5',
+      orderType: 'limit', side: 'buy', status: 'live', baseVolume: '0.2', cTime: '1', uTime: '2',
+    })).toMatchObject({ quantity: '0.5', filled: '0.2', remaining: '0.3', status: 'open' });
+  });
+});
+
+describe('BitgetRestClient futures endpoints', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('lists open and historical futures orders through v2', async () => {
+    const open = await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'limit', price: '90000', quantity: '0.01', tradeSide: 'open' });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.01', tradeSide: 'open' });
+
+    expect(await client.getOrders('BTCUSDT_UMCBL')).toEqual([
+      expect.objectContaining({ orderId: open.orderId, symbol: 'BTCUSDT_UMCBL', status: 'open', quantity: '0.01' }),
+    ]);
+    expect(await client.getOrders('BTCUSDT_UMCBL', 'filled')).toEqual([
+      expect.objectContaining({ status: 'filled', filled: '0.01', remaining: '0' }),
+    ]);
+    expect(exchange.requestsTo('/api/v2/mix/order/orders-pending')[0].query).toMatchObject({ symbol: 'BTCUSDT', productType: 'USDT-FUTURES' });
+  });
+
+  test('moves an existing position stop loss and adds a missing take profit', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.placeFuturesTPSL('BTCUSDT', { planType: 'pos_loss', triggerPrice: '93000', holdSide: 'long', size: '0.02' });
+
+    await client.modifyFuturesTPSL('BTCUSDT_UMCBL', { stopLossPrice: '92500', stopSurplusPrice: '99000' });
+
+    const [modify] = exchange.requestsTo('/api/v2/mix/order/modify-tpsl-order');
+    expect(modify.body).toMatchObject({ symbol: 'BTCUSDT', orderId: exchange.planOrders[0].orderId, triggerPrice: '92500' });
+    const plans = await client.getFuturesPlanOrders('BTCUSDT');
+    expect(plans.map(p => [p.planType, p.triggerPrice, p.holdSide])).toEqual(
+      expect.arrayContaining([['pos_loss', '92500', 'long'], ['pos_profit', '99000', 'long']])
+    );
+  });
+
+  test('leaves positions in other symbols alone', async () => {
+    exchange.setTicker('ETHUSDT', { last: 3500, bid: 3499, ask: 3501 });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.placeOrder({ symbol: 'ETHUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.5', tradeSide: 'open' });
+
+    expect((await client.getFuturesPositions('BTCUSDT')).map(p => p.symbol)).toEqual(['BTCUSDT']);
+    await client.modifyFuturesTPSL('BTCUSDT_UMCBL', { stopLossPrice: '92500' });
+
+    expect(exchange.requestsTo('/api/v2/mix/order/place-tpsl-order').map(r => r.body.symbol)).toEqual(['BTCUSDT']);
+    expect(await client.getFuturesPlanOrders('ETHUSDT')).toEqual([]);
+  });
+
+  test('refuses to set TP/SL without a position', async () => {
+    await expect(client.modifyFuturesTPSL('BTCUSDT', { stopLossPrice: '90000' })).rejects.toThrow(/No open BTCUSDT position/);
+  });
+});
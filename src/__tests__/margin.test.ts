@@ -0,0 +1,80 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { mapMarginAsset, mapMarginInterest } from '../api/mappers.js';
+
+describe('spot margin mappers', () => {
+  test('maps asset and interest rows', () => {
+    expect(mapMarginAsset({
+      symbol: 'BTCUSDT', coin: 'USDT', totalAmount: '1500', available: '1400', frozen: '100',
+      borrow: '500', interest: '0.01', net: '999.99', coupon: '0', cTime: '1', uTime: '2',
+    })).toEqual({ coin: 'USDT', symbol: 'BTCUSDT', total: '1500', available: '1400', frozen: '100', borrowed: '500', interest: '0.01', net: '999.99' });
+
+    expect(mapMarginInterest({
+      interestId: '9', interestCoin: 'USDT', dailyInterestRate: '0.0005', loanCoin: 'USDT',
+      interestAmount: '0.0104', interstType: 'first', cTime: '1700000000000',
+    })).toEqual({ interestId: '9', coin: 'USDT', symbol: undefined, dailyInterestRate: '0.0005', interestAmount: '0.0104', type: 'first', timestamp: 1700000000000 });
+  });
+});
+
+describe('BitgetRestClient spot margin', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('borrows, reports debt and interest, and repays on crossed margin', async () => {
+    exchange.fundMargin('crossed', 'USDT', 1000);
+    expect(await client.getMaxBorrowable('crossed', { coin: 'USDT' })).toEqual([{ coin: 'USDT', amount: '2000' }]);
+
+    await client.marginBorrow('crossed', 'USDT', '500');
+    const [usdt] = await client.getMarginAssets('crossed', { coin: 'USDT' });
+    expect(usdt).toMatchObject({ coin: 'USDT', available: '1500', borrowed: '500' });
+    expect(parseFloat(usdt.interest)).toBeGreaterThan(0);
+
+    const interest = await client.getMarginInterestHistory('crossed');
+    expect(interest).toEqual([expect.objectContaining({ coin: 'USDT', type: 'first', interestAmount: usdt.interest })]);
+
+    const repayment = await client.marginRepay('crossed', 'USDT', '200');
+    expect(parseFloat(repayment.remainingDebt)).toBeCloseTo(500 + parseFloat(usdt.interest) - 200, 8);
+  });
+
+  test('refuses to borrow past the limit', async () => {
+    exchange.fundMargin('crossed', 'USDT', 1000);
+    await expect(client.marginBorrow('crossed', 'USDT', '2500')).rejects.toThrow(/exceeds the maximum borrowable/);
+  });
+
+  test('places an isolated auto-loan buy and sells it back with auto-repay', async () => {
+    exchange.fundMargin('isolated', 'USDT', 1000, 'BTCUSDT');
+    const borrowable = await client.getMaxBorrowable('isolated', { symbol: 'BTCUSDT' });
+    expect(borrowable.map(b => b.coin)).toEqual(['BTC', 'USDT']);
+
+    const buy = await client.placeMarginOrder('isolated', { symbol: 'BTCUSDT', side: 'buy', type: 'market', quantity: '1900', loanType: 'autoLoan' });
+    expect(buy.orderId).toBeDefined();
+    expect(exchange.requestsTo('/api/v2/margin/isolated/place-order')[0].body).toMatchObject({ symbol: 'BTCUSDT', quoteSize: '1900', loanType: 'autoLoan' });
+    const afterBuy = await client.getMarginAssets('isolated', { symbol: 'BTCUSDT', coin: 'USDT' });
+    expect(afterBuy[0]).toMatchObject({ symbol: 'BTCUSDT', borrowed: '900' });
+
+    await client.placeMarginOrder('isolated', { symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: '0.01', loanType: 'autoRepay' });
+    expect(exchange.requestsTo('/api/v2/margin/isolated/place-order')[1].body).toMatchObject({ baseSize: '0.01' });
+    const [afterSell] = await client.getMarginAssets('isolated', { symbol: 'BTCUSDT', coin: 'USDT' });
+    expect(parseFloat(afterSell.borrowed)).toBeLessThan(900);
+  });
+
+  test('requires a symbol for isolated margin and rejects futures contracts', async () => {
+    await expect(client.marginBorrow('isolated', 'USDT', '10')).rejects.toThrow(/symbol is required/);
+    await expect(client.placeMarginOrder('crossed', { symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '10' }))
+      .rejects.toThrow(/futures contract/);
+  });
+});
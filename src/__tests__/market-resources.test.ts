@@ -0,0 +1,89 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { BitgetWebSocketClient, createBitgetPrivateWebSocketClient } from '../api/websocket-client.js';
+import { OrderBookManager } from '../api/order-book-manager.js';
+import { StreamStore } from '../api/stream-store.js';
+import { MarketResources } from '../resources/market-resources.js';
+import { tickerCache } from '../utils/cache.js';
+
+describe('MarketResources over MCP', () => {
+  const exchange = new MockBitgetExchange();
+  let ws: BitgetWebSocketClient;
+  let privateWs: BitgetWebSocketClient;
+  let resources: MarketResources;
+  let client: Client;
+  const updates: string[] = [];
+
+  const nextUpdate = (uri: string) => new Promise<void>(resolve => {
+    const poll = () => updates.includes(uri) ? resolve() : setTimeout(poll, 5);
+    poll();
+  });
+
+  beforeAll(async () => {
+    await exchange.start();
+    exchange.setTicker('BTCUSDT', { last: 95000 });
+    tickerCache.clear();
+
+    const config = exchange.clientConfig();
+    const rest = new BitgetRestClient(config, { maxRetries: 0 });
+    ws = new BitgetWebSocketClient({ url: exchange.wsUrl, maxReconnects: 0 });
+    privateWs = createBitgetPrivateWebSocketClient(config);
+    const orderBooks = new OrderBookManager(ws);
+    resources = new MarketResources(
+      { rest, ws, privateWs, orderBooks, streams: new StreamStore(ws), canStreamPrivate: () => true },
+      { throttleMs: 0 }
+    );
+
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { resources: { subscribe: true } } });
+    resources.register(server);
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (n) => {
+      updates.push(n.params.uri);
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterAll(async () => {
+    resources.close();
+    ws.disconnect();
+    privateWs.disconnect();
+    await client.close();
+    await exchange.stop();
+  });
+
+  test('reads a ticker over REST before any stream exists', async () => {
+    const result = await client.readResource({ uri: 'bitget://ticker/BTCUSDT_UMCBL' });
+    expect(JSON.parse(result.contents[0].text as string)).toMatchObject({ source: 'rest', last: '95000' });
+  });
+
+  test('pushes resources/updated for a subscribed ticker and serves the streamed value', async () => {
+    await client.subscribeResource({ uri: 'bitget://ticker/BTCUSDT_UMCBL' });
+    exchange.setTicker('BTCUSDT', { last: 95500 });
+    await nextUpdate('bitget://ticker/BTCUSDT_UMCBL');
+
+    const result = await client.readResource({ uri: 'bitget://ticker/BTCUSDT_UMCBL' });
+    expect(JSON.parse(result.contents[0].text as string)).toMatchObject({ source: 'websocket', lastPr: '95500' });
+    const listed = await client.listResources();
+    expect(listed.resources.map(r => r.uri)).toEqual(['bitget://positions', 'bitget://orders', 'bitget://ticker/BTCUSDT_UMCBL']);
+  });
+
+  test('notifies bitget://positions when a fill moves a position', async () => {
+    await client.subscribeResource({ uri: 'bitget://positions' });
+    const rest = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    await new Promise(resolve => setTimeout(resolve, 50)); // Let the private subscribe ack arrive
+    await rest.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.01', tradeSide: 'open', marginCoin: 'USDT' });
+    await nextUpdate('bitget://positions');
+
+    const result = await client.readResource({ uri: 'bitget://positions' });
+    expect(JSON.parse(result.contents[0].text as string)).toEqual([expect.objectContaining({ side: 'long' })]);
+  });
+
+  test('rejects unknown resource URIs', async () => {
+    await expect(client.readResource({ uri: 'bitget://nope' })).rejects.toThrow(/Unknown resource/);
+  });
+});
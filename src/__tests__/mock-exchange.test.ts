@@ -0,0 +1,120 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { BitgetWebSocketClient } from '../api/websocket-client.js';
+import { WSMessage } from '../types/bitget.js';
+import { priceCache, tickerCache } from '../utils/cache.js';
+
+describe('MockBitgetExchange with BitgetRestClient', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    priceCache.clear();
+    tickerCache.clear();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('serves spot and futures market data', async () => {
+    const t0 = Date.UTC(2025, 0, 1);
+    exchange.setCandles('BTCUSDT', '1H', [
+      [t0, 94000, 95500, 93800, 95000, 12],
+      [t0 + 3600000, 95000, 95200, 94700, 94900, 8],
+    ]);
+
+    expect(await client.getPrice('BTCUSDT')).toBe('95000');
+    expect(await client.getTicker('BTCUSDT')).toMatchObject({ last: '95000', bid: '94999', ask: '95001', volume24h: '0' });
+    exchange.setTicker('BTCTRY', { last: 3900000 });
+    expect(await client.getPrice('BTCTRY')).toBe('3900000');
+    const ticker = await client.getTicker('BTCUSDT_UMCBL');
+    expect(ticker.bid).toBe('94999');
+    expect(ticker.ask).toBe('95001');
+
+    const candles = await client.getCandles('BTCUSDT_UMCBL', '1h', 10);
+    expect(candles).toHaveLength(2);
+    expect(candles[1]).toMatchObject({ timestamp: t0 + 3600000, close: '94900' });
+  });
+
+  test('opens a futures position with SL and partial TP plans, then TP fires', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open', marginCoin: 'USDT' });
+    await client.placeFuturesTPSL('BTCUSDT', { planType: 'pos_loss', triggerPrice: '93000', holdSide: 'long', size: '0.02' });
+    await client.placeFuturesTPSL('BTCUSDT', { planType: 'profit_plan', triggerPrice: '97000', holdSide: 'long', size: '0.01' });
+    await client.placeFuturesTPSL('BTCUSDT', { planType: 'profit_plan', triggerPrice: '99000', holdSide: 'long', size: '0.01' });
+
+    const plans = await client.getFuturesPlanOrders('BTCUSDT');
+    expect(plans.map(p => p.planType).sort()).toEqual(['pos_loss', 'profit_plan', 'profit_plan']);
+
+    let positions = await client.getFuturesPositions('BTCUSDT');
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({ side: 'long', size: '0.02', entryPrice: '95001' });
+
+    exchange.setTicker('BTCUSDT', { last: 97500 });
+    positions = await client.getFuturesPositions('BTCUSDT');
+    expect(positions[0].size).toBe('0.01');
+    expect(await client.getFuturesPlanOrders('BTCUSDT')).toHaveLength(2);
+  });
+
+  test('closeAllPositions flattens and treats "no position" as success', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT', side: 'sell', type: 'market', quantity: '0.01', marginCoin: 'USDT' });
+    expect(await client.getFuturesPositions()).toHaveLength(1);
+
+    expect(await client.closeAllPositions('BTCUSDT')).toBe(true);
+    expect(await client.getFuturesPositions()).toHaveLength(0);
+    expect(await client.closeAllPositions('BTCUSDT')).toBe(true);
+  });
+
+  test('rejects requests signed with the wrong secret (40009)', async () => {
+    const badClient = new BitgetRestClient(exchange.clientConfig({ secretKey: 'wrong' }), { maxRetries: 0 });
+    await expect(badClient.getBalance()).rejects.toThrow(/40009/);
+  });
+
+  test('returns injected error envelopes such as 40014', async () => {
+    exchange.failNext('/api/v2/mix/market/ticker', { code: '40014', msg: 'Too many requests' });
+    await expect(client.getTicker('BTCUSDT_UMCBL')).rejects.toThrow(/40014/);
+    await expect(client.getTicker('BTCUSDT_UMCBL')).resolves.toMatchObject({ last: '95000' });
+  });
+});
+
+describe('MockBitgetExchange with BitgetWebSocketClient', () => {
+  const exchange = new MockBitgetExchange();
+  let ws: BitgetWebSocketClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+    exchange.setTicker('ETHUSDT', { last: 3200 });
+  });
+
+  afterAll(async () => {
+    ws.disconnect();
+    await exchange.stop();
+  });
+
+  test('pushes ticker snapshots and updates to subscribers', async () => {
+    ws = new BitgetWebSocketClient({ url: exchange.wsUrl, maxReconnects: 0 });
+    await ws.connect();
+
+    const received: WSMessage[] = [];
+    const twoMessages = new Promise<void>((resolve) => {
+      ws.on('SPOT:ticker:ETHUSDT', (msg: WSMessage) => {
+        received.push(msg);
+        if (received.length === 2) resolve();
+      });
+    });
+    ws.subscribe('ticker', 'ETHUSDT', 'SPOT');
+    await new Promise(resolve => ws.once('subscribed', resolve));
+    exchange.setTicker('ETHUSDT', { last: 3250 });
+    await twoMessages;
+
+    expect(received[0].data[0].lastPr).toBe('3200');
+    expect(received[1].data[0].lastPr).toBe('3250');
+  });
+});
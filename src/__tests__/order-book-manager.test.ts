@@ -0,0 +1,95 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { BitgetWebSocketClient } from '../api/websocket-client.js';
+import { OrderBookManager, orderBookChecksum } from '../api/order-book-manager.js';
+import { crc32 } from '../utils/crc32.js';
+import { orderbookCache } from '../utils/cache.js';
+
+describe('orderBookChecksum', () => {
+  test('matches CRC32 reference values as signed integers', () => {
+    expect(crc32('hello world')).toBe(222957957);
+    expect(crc32('123456789')).toBe(-873187034); // 0xCBF43926
+  });
+
+  test('interleaves bids and asks and skips the shorter side', () => {
+    const bids: [string, string][] = [['100', '1'], ['99', '2']];
+    const asks: [string, string][] = [['101', '3']];
+    expect(orderBookChecksum(bids, asks)).toBe(crc32('100:1:101:3:99:2'));
+  });
+});
+
+describe('OrderBookManager', () => {
+  const exchange = new MockBitgetExchange();
+  let ws: BitgetWebSocketClient;
+  let manager: OrderBookManager;
+
+  const nextEvent = (event: 'update' | 'resync') => new Promise(resolve => manager.once(event, resolve));
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(async () => {
+    orderbookCache.clear();
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000 });
+    exchange.setOrderBook('BTCUSDT', { bids: [[94999, 1], [94998, 2]], asks: [[95001, 1.5], [95002, 3]] });
+    ws = new BitgetWebSocketClient({ url: exchange.wsUrl, maxReconnects: 0 });
+    manager = new OrderBookManager(ws);
+    await ws.connect();
+  });
+
+  afterEach(() => {
+    ws.disconnect();
+  });
+
+  test('builds the book from the snapshot and applies deltas', async () => {
+    const snapshot = nextEvent('update');
+    manager.track('BTCUSDT_UMCBL');
+    await snapshot;
+    expect(manager.getBook('BTCUSDT_UMCBL', 5)).toMatchObject({
+      bids: [['94999', '1'], ['94998', '2']],
+      asks: [['95001', '1.5'], ['95002', '3']],
+    });
+
+    const delta = nextEvent('update');
+    exchange.updateOrderBook('BTCUSDT', { bids: [[95000, 0.5], [94998, 0]], asks: [[95002, 4]] });
+    await delta;
+    const book = manager.getBook('BTCUSDT_UMCBL', 5)!;
+    expect(book.bids).toEqual([['95000', '0.5'], ['94999', '1']]);
+    expect(book.asks).toEqual([['95001', '1.5'], ['95002', '4']]);
+    expect(manager.getBook('BTCUSDT')).toBeNull(); // Spot book is not tracked
+  });
+
+  test('resubscribes on a checksum mismatch and recovers from the new snapshot', async () => {
+    const snapshot = nextEvent('update');
+    manager.track('BTCUSDT', 'SPOT');
+    await snapshot;
+
+    const resync = nextEvent('resync');
+    const recovered = new Promise(resolve => manager.on('update', resolve));
+    exchange.updateOrderBook('BTCUSDT', { asks: [[95001, 2]] }, 12345);
+    await resync;
+    expect(manager.getBook('BTCUSDT')).toBeNull();
+
+    await recovered;
+    expect(manager.getBook('BTCUSDT')!.asks[0]).toEqual(['95001', '2']);
+    expect(manager.getStatus()).toEqual([expect.objectContaining({ symbol: 'BTCUSDT', synced: true, resyncs: 1 })]);
+  });
+
+  test('serves getOrderBook from the live book without a REST call', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    client.useLiveOrderBooks(manager);
+    const snapshot = nextEvent('update');
+    manager.track('BTCUSDT_UMCBL');
+    await snapshot;
+
+    const book = await client.getOrderBook('BTCUSDT_UMCBL', 1);
+    expect(book).toMatchObject({ bids: [['94999', '1']], asks: [['95001', '1.5']] });
+    expect(exchange.requestsTo('/api/v2/mix/market/depth')).toHaveLength(0);
+  });
+});
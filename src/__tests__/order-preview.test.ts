@@ -0,0 +1,80 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { checkTrigger, priceAgainstBook } from '../api/order-preview.js';
+import { OrderBook } from '../types/bitget.js';
+
+const book: OrderBook = {
+  symbol: 'BTCUSDT',
+  bids: [['99', '1'], ['98', '2']],
+  asks: [['101', '1'], ['102', '2']],
+  timestamp: 0,
+};
+
+describe('priceAgainstBook', () => {
+  test('walks the opposite side for a market order', () => {
+    const pricing = priceAgainstBook(book, 'buy', 2);
+    expect(pricing).toMatchObject({ bestBid: 99, bestAsk: 101, mid: 100, size: 2, notional: 203, fullyCovered: true });
+    expect(pricing.avgPrice).toBeCloseTo(101.5, 9);
+    expect(pricing.slippageBps).toBeCloseTo(150, 6);
+
+    // Beyond the visible book
+    expect(priceAgainstBook(book, 'sell', 5)).toMatchObject({ size: 3, fullyCovered: false });
+  });
+
+  test('stops at the limit price and sizes quote orders in the quote coin', () => {
+    expect(priceAgainstBook(book, 'buy', 2, { limitPrice: 101 })).toMatchObject({ size: 1, marketable: true, fullyCovered: false });
+    expect(priceAgainstBook(book, 'buy', 1, { limitPrice: 100 })).toMatchObject({ size: 0, marketable: false });
+    expect(priceAgainstBook(book, 'buy', 203, { quoteSize: true })).toMatchObject({ size: 2, fullyCovered: true });
+  });
+});
+
+describe('checkTrigger', () => {
+  test('flags triggers already through the last price', () => {
+    expect(checkTrigger('pos_profit', 'long', 110, 100)).toMatchObject({ alreadyCrossed: false, distancePct: 10 });
+    expect(checkTrigger('pos_loss', 'long', 105, 100).alreadyCrossed).toBe(true);
+    expect(checkTrigger('profit_plan', 'short', 105, 100).alreadyCrossed).toBe(true);
+    expect(checkTrigger('pos_loss', 'short', 105, 100).alreadyCrossed).toBe(false);
+  });
+});
+
+describe('BitgetRestClient.dryRun', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 95000, ask: 95000 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('captures the writes without sending them', async () => {
+    const { result, requests, error } = await client.dryRun(async () => {
+      const order = await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'limit', price: '90000', quantity: '0.1', tradeSide: 'open' });
+      await client.placeFuturesTPSL('BTCUSDT', { planType: 'pos_loss', triggerPrice: '88000', holdSide: 'long', size: '0.1' });
+      return order;
+    });
+
+    expect(error).toBeUndefined();
+    expect(result?.orderId).toBe('dry-run-1');
+    expect(requests.map(r => r.endpoint)).toEqual(['/api/v2/mix/order/place-order', '/api/v2/mix/order/place-tpsl-order']);
+    expect(requests[0]).toMatchObject({ method: 'POST', body: { symbol: 'BTCUSDT', side: 'buy', price: '90000', size: '0.1' } });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')).toHaveLength(0);
+    expect(exchange.requestsTo('/api/v2/mix/order/place-tpsl-order')).toHaveLength(0);
+    expect(await client.getOrders('BTCUSDT_UMCBL')).toEqual([]);
+  });
+
+  test('reports validation failures instead of throwing', async () => {
+    // Reads still go to Bitget, so the missing position is found
+    const { requests, error } = await client.dryRun(() => client.modifyFuturesTPSL('BTCUSDT', { stopLossPrice: '90000' }));
+    expect(error).toMatch(/No open BTCUSDT position/);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { generateClientOid, legClientOid } from '../utils/client-oid.js';
+
+describe('generateClientOid', () => {
+  test('differs for identical calls in the same millisecond', () => {
+    const fields = { symbol: 'BTCUSDT', side: 'buy', size: '0.01', price: undefined };
+    const a = generateClientOid('futures-order', fields, 1700000000000);
+    expect(a).not.toBe(generateClientOid('futures-order', fields, 1700000000000));
+    expect(a).not.toBe(generateClientOid('futures-order', { size: '0.01', side: 'buy', symbol: 'BTCUSDT' }, 1700000000000));
+    expect(a).toMatch(/^mcp[0-9a-f]{25}$/);
+    expect(legClientOid(a, 'tp2').length).toBeLessThanOrEqual(50);
+  });
+});
+
+describe('Order placement reconciliation', () => {
+  const exchange = new MockBitgetExchange();
+  const FUTURES_PLACE = '/api/v2/mix/order/place-order';
+  const SPOT_PLACE = '/api/v2/spot/trade/place-order';
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+  });
+
+  const client = (config = {}) => new BitgetRestClient(exchange.clientConfig(config), { maxRetries: 2, baseDelay: 1, maxDelay: 5 });
+  const futuresOrder = { symbol: 'BTCUSDT_UMCBL', side: 'buy' as const, type: 'market' as const, quantity: '0.01', tradeSide: 'open' as const, marginCoin: 'USDT' };
+
+  test('generates a clientOid when the caller omits one', async () => {
+    const order = await client().placeOrder(futuresOrder);
+    const sent = exchange.requestsTo(FUTURES_PLACE)[0].body.clientOid;
+    expect(sent).toMatch(/^mcp/);
+    expect(order.clientOrderId).toBe(sent);
+  });
+
+  test('places back-to-back identical orders as separate orders', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    try {
+      const rest = client();
+      await Promise.all([rest.placeOrder(futuresOrder), rest.placeOrder(futuresOrder)]);
+    } finally {
+      now.mockRestore();
+    }
+    const [first, second] = exchange.requestsTo(FUTURES_PLACE).map(r => r.body.clientOid);
+    expect(first).not.toBe(second);
+    expect(exchange.orders).toHaveLength(2);
+  });
+
+  test('keeps a caller-supplied clientOid', async () => {
+    await client().placeOrder({ ...futuresOrder, clientOrderId: 'my-order-1' });
+    expect(exchange.requestsTo(FUTURES_PLACE)[0].body.clientOid).toBe('my-order-1');
+  });
+
+  test('recovers an order whose response was lost instead of placing it twice', async () => {
+    exchange.failNext(FUTURES_PLACE, { code: '50001', msg: 'Gateway timeout', httpStatus: 504, afterApply: true });
+    const order = await client().placeOrder(futuresOrder);
+
+    expect(exchange.requestsTo(FUTURES_PLACE)).toHaveLength(1);
+    expect(exchange.orders).toHaveLength(1);
+    expect(order.orderId).toBe(exchange.orders[0].orderId);
+    expect(exchange.requestsTo('/api/v2/mix/order/detail')).toHaveLength(1);
+  });
+
+  test('resends with the same clientOid when the exchange has no such order', async () => {
+    exchange.failNext(FUTURES_PLACE, { code: '50001', msg: 'Gateway timeout', httpStatus: 504 });
+    await client().placeOrder(futuresOrder);
+
+    const attempts = exchange.requestsTo(FUTURES_PLACE);
+    expect(attempts).toHaveLength(2);
+    expect(attempts[1].body.clientOid).toBe(attempts[0].body.clientOid);
+    expect(exchange.orders).toHaveLength(1);
+  });
+
+  test('reconciles a spot order after the request times out', async () => {
+    exchange.setTicker('ETHUSDT', { last: 3200, bid: 3199, ask: 3201 });
+    exchange.failNext(SPOT_PLACE, { code: '50001', msg: 'slow', delayMs: 400, afterApply: true });
+    const order = await client({ requestTimeoutMs: 100 }).placeOrder({ symbol: 'ETHUSDT', side: 'buy', type: 'limit', quantity: '0.5', price: '3000' });
+
+    expect(exchange.requestsTo(SPOT_PLACE)).toHaveLength(1);
+    expect(exchange.orders).toHaveLength(1);
+    expect(order.orderId).toBe(exchange.orders[0].orderId);
+  });
+
+  test('reconciles TP/SL placement by clientOid', async () => {
+    await client().placeOrder(futuresOrder);
+    exchange.failNext('/api/v2/mix/order/place-tpsl-order', { code: '50001', msg: 'Gateway timeout', httpStatus: 504, afterApply: true });
+    const ok = await client().placeFuturesTPSL('BTCUSDT_UMCBL', { planType: 'pos_loss', triggerPrice: '90000', holdSide: 'long', size: '0.01' });
+
+    expect(ok).toBe(true);
+    expect(exchange.requestsTo('/api/v2/mix/order/place-tpsl-order')).toHaveLength(1);
+    expect(exchange.planOrders).toHaveLength(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { executionModeFromEnv, PaperMarketData, PaperTradingEngine } from '../paper/paper-engine.js';
+import { Ticker } from '../types/bitget.js';
+import { priceCache, tickerCache } from '../utils/cache.js';
+
+describe('BitgetRestClient in paper execution mode', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  const setPrice = (last: number) => {
+    exchange.setTicker('BTCUSDT', { last, bid: last - 1, ask: last + 1 });
+    priceCache.clear();
+    tickerCache.clear();
+  };
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    setPrice(95000);
+    client = new BitgetRestClient(
+      exchange.clientConfig({ executionMode: 'paper', paper: { initialBalance: 10000, takerFeeRate: 0.001, makerFeeRate: 0 } }),
+      { maxRetries: 0 }
+    );
+  });
+
+  test('simulates futures entry with TP/SL locally and never sends private requests', async () => {
+    expect(client.isPaperTrading()).toBe(true);
+
+    const order = await client.placeOrder({ symbol: 'BTCUSDT', side: 'buy', type: 'market', quantity: '0.02', marginCoin: 'USDT' });
+    expect(order.status).toBe('filled');
+    await client.placeFuturesTPSL('BTCUSDT', { planType: 'pos_loss', triggerPrice: '93000', holdSide: 'long', size: '0.02' });
+    await client.placeFuturesTPSL('BTCUSDT', { planType: 'profit_plan', triggerPrice: '97000', holdSide: 'long', size: '0.01' });
+
+    let positions = await client.getFuturesPositions('BTCUSDT');
+    expect(positions[0]).toMatchObject({ side: 'long', size: '0.02', entryPrice: '95001' });
+
+    setPrice(97500);
+    positions = await client.getFuturesPositions('BTCUSDT');
+    expect(positions[0].size).toBe('0.01');
+    expect((await client.getFuturesPlanOrders('BTCUSDT')).map(p => p.planType)).toEqual(['pos_loss']);
+
+    setPrice(92000);
+    expect(await client.getFuturesPositions('BTCUSDT')).toHaveLength(0);
+    expect(await client.getFuturesPlanOrders('BTCUSDT')).toHaveLength(0);
+
+    // Nothing but public market data reached the exchange
+    expect(exchange.requests.filter(r => r.private)).toHaveLength(0);
+    expect(exchange.orders).toHaveLength(0);
+  });
+
+  test('charges fees and realizes PnL into the futures wallet', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT', side: 'sell', type: 'market', quantity: '0.1', marginCoin: 'USDT' });
+    setPrice(94000);
+    await client.closeAllPositions('BTCUSDT');
+
+    const [account] = await client.getMarginInfo();
+    // Short 0.1 @ 94999, cover @ 94001: +99.8 PnL minus 0.1% taker fee on both legs
+    const expected = 10000 + 99.8 - 9.4999 - 9.4001;
+    expect(parseFloat(account.accountEquity)).toBeCloseTo(expected, 6);
+    expect(await client.closeAllPositions('BTCUSDT')).toBe(true);
+  });
+
+  test('rejects orders exceeding available margin with a Bitget-style error', async () => {
+    await client.setLeverage('BTCUSDT', 2);
+    await expect(
+      client.placeOrder({ symbol: 'BTCUSDT', side: 'buy', type: 'market', quantity: '1', marginCoin: 'USDT' })
+    ).rejects.toMatchObject({ code: '40762' });
+  });
+
+  test('rests spot limit orders until the market trades through them', async () => {
+    const order = await client.placeOrder({ symbol: 'BTCUSDT', side: 'buy', type: 'limit', quantity: '0.01', price: '94000' });
+    expect(order.status).toBe('open');
+    expect((await client.getBalance('USDT'))[0]).toMatchObject({ locked: '940' });
+
+    setPrice(93500);
+    expect(await client.getOrders('BTCUSDT')).toHaveLength(0);
+    const [btc] = await client.getBalance('BTC');
+    expect(parseFloat(btc.total)).toBeCloseTo(0.01, 10);
+  });
+});
+
+describe('PaperTradingEngine funding', () => {
+  test('settles funding at each 8h boundary, longs paying positive rates', async () => {
+    let now = Date.UTC(2025, 0, 1, 7, 0);
+    const ticker: Ticker = {
+      symbol: 'ETHUSDT', last: '3000', bid: '3000', ask: '3000', high24h: '0', low24h: '0',
+      volume24h: '0', change24h: '0', changePercent24h: '0', timestamp: now,
+    };
+    const market: PaperMarketData = {
+      getTicker: async () => ticker,
+      getFundingRate: async () => 0.001,
+    };
+    const engine = new PaperTradingEngine(market, { initialBalance: 1000, takerFeeRate: 0, makerFeeRate: 0 }, () => now);
+
+    await engine.placeOrder({ symbol: 'ETHUSDT', side: 'buy', type: 'market', quantity: '1' }, 'futures');
+    await engine.sync();
+    expect((await engine.getAccount()).accountEquity).toBe('1000');
+
+    now = Date.UTC(2025, 0, 1, 16, 30); // crossed 08:00 and 16:00
+    await engine.sync();
+    expect(parseFloat((await engine.getAccount()).accountEquity)).toBeCloseTo(1000 - 2 * 3, 10);
+  });
+});
+
+describe('PaperTradingEngine background sync', () => {
+  test('fires a stop without any read', async () => {
+    let last = '3000';
+    let priced = true;
+    const market: PaperMarketData = {
+      getTicker: async (symbol) => {
+        if (!priced) throw new Error('no prices');
+        return { symbol, last, bid: last, ask: last, high24h: '0', low24h: '0', volume24h: '0', change24h: '0', changePercent24h: '0', timestamp: 0 };
+      },
+      getFundingRate: async () => 0,
+    };
+    const engine = new PaperTradingEngine(market, { initialBalance: 10000, takerFeeRate: 0, makerFeeRate: 0, syncIntervalMs: 10 });
+    await engine.placeOrder({ symbol: 'ETHUSDT', side: 'buy', type: 'market', quantity: '1' }, 'futures');
+    await engine.placePlan('ETHUSDT', { planType: 'pos_loss', triggerPrice: '2900', holdSide: 'long', size: '1' });
+
+    last = '2850';
+    engine.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    engine.stop();
+
+    // Reads can no longer price anything, so only the timer can have closed the position
+    priced = false;
+    expect(await engine.getPositions('ETHUSDT')).toEqual([]);
+  });
+});
+
+describe('executionModeFromEnv', () => {
+  test('defaults to live and refuses anything but live or paper', () => {
+    expect(executionModeFromEnv({})).toBe('live');
+    expect(executionModeFromEnv({ BITGET_EXECUTION_MODE: 'paper' })).toBe('paper');
+    expect(() => executionModeFromEnv({ BITGET_EXECUTION_MODE: 'Paper' })).toThrow(/Unknown BITGET_EXECUTION_MODE "Paper"/);
+    expect(() => executionModeFromEnv({ BITGET_EXECUTION_MODE: 'papper' })).toThrow(/expected live or paper/);
+  });
+});
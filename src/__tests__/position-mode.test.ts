@@ -0,0 +1,85 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+
+describe('futures position modes', () => {
+  const exchange = new MockBitgetExchange();
+  let client: BitgetRestClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+    client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+  });
+
+  test('one-way closes are reduce-only and TP/SL sides are buy/sell', async () => {
+    expect(await client.getPositionMode()).toBe('one_way_mode');
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.placeFuturesTPSL('BTCUSDT_UMCBL', { planType: 'pos_loss', triggerPrice: '93000', holdSide: 'long', size: '0.02' });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'sell', type: 'market', quantity: '0.05', tradeSide: 'close' });
+
+    const [open, close] = exchange.requestsTo('/api/v2/mix/order/place-order').map(r => r.body);
+    expect(open.tradeSide).toBeUndefined();
+    expect(close).toMatchObject({ side: 'sell', reduceOnly: 'YES' });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-tpsl-order')[0].body.holdSide).toBe('buy');
+    // Reduce-only never flips the long into a short
+    expect(await client.getFuturesPositions('BTCUSDT')).toEqual([]);
+  });
+
+  test('hedge mode holds both sides and closes each on its own', async () => {
+    expect(await client.setPositionMode('hedge_mode')).toBe(true);
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'sell', type: 'market', quantity: '0.01', tradeSide: 'open' });
+    expect((await client.getFuturesPositions('BTCUSDT')).map(p => [p.side, p.size])).toEqual(
+      expect.arrayContaining([['long', '0.02'], ['short', '0.01']])
+    );
+
+    // Selling to close the long is sent as Bitget's buy + close
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'sell', type: 'market', quantity: '0.02', tradeSide: 'close' });
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')[2].body).toMatchObject({ side: 'buy', tradeSide: 'close' });
+    expect((await client.getFuturesPositions('BTCUSDT')).map(p => p.side)).toEqual(['short']);
+  });
+
+  test('hedge mode TP/SL and closes target one side', async () => {
+    await client.setPositionMode('hedge_mode');
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'sell', type: 'market', quantity: '0.01', tradeSide: 'open' });
+
+    await client.modifyFuturesTPSL('BTCUSDT_UMCBL', { stopLossPrice: '93000' });
+    const plans = await client.getFuturesPlanOrders('BTCUSDT');
+    expect(plans.map(p => [p.holdSide, p.triggerPrice])).toEqual(expect.arrayContaining([['long', '93000'], ['short', '93000']]));
+
+    await client.closeAllPositions('BTCUSDT_UMCBL', undefined, 'short');
+    expect(exchange.requestsTo('/api/v2/mix/order/close-positions')[0].body).toMatchObject({ holdSide: 'short' });
+    expect((await client.getFuturesPositions('BTCUSDT')).map(p => p.side)).toEqual(['long']);
+  });
+
+  test('one-way closes by side skip positions held on the other side', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.closeAllPositions(undefined, 'USDT-FUTURES', 'short');
+    expect(exchange.requestsTo('/api/v2/mix/order/close-positions')).toHaveLength(0);
+    expect(await client.getFuturesPositions('BTCUSDT')).toHaveLength(1);
+  });
+
+  test('one-way closes by side stay on the requested symbol', async () => {
+    exchange.setTicker('ETHUSDT', { last: 3500, bid: 3499, ask: 3501 });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await client.placeOrder({ symbol: 'ETHUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.5', tradeSide: 'open' });
+
+    await client.closeAllPositions('BTCUSDT_UMCBL', undefined, 'long');
+    expect(exchange.requestsTo('/api/v2/mix/order/close-positions').map(r => r.body.symbol)).toEqual(['BTCUSDT']);
+    expect((await client.getFuturesPositions()).map(p => p.symbol)).toEqual(['ETHUSDT']);
+  });
+
+  test('refuses to switch modes with an open position', async () => {
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open' });
+    await expect(client.setPositionMode('hedge_mode')).rejects.toThrow(/position mode cannot be changed/);
+  });
+});
@@ -0,0 +1,63 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { BitgetWebSocketClient, createBitgetPrivateWebSocketClient } from '../api/websocket-client.js';
+import { WSFillUpdate, WSOrderUpdate, WSPositionUpdate } from '../types/bitget.js';
+
+describe('BitgetWebSocketClient private channels', () => {
+  const exchange = new MockBitgetExchange();
+  let ws: BitgetWebSocketClient;
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+  });
+
+  afterEach(() => {
+    ws?.disconnect();
+  });
+
+  const nextEvent = <T>(event: string) => new Promise<T>(resolve => ws.once(event, resolve));
+
+  test('logs in and streams typed order, fill and position updates', async () => {
+    ws = createBitgetPrivateWebSocketClient(exchange.clientConfig());
+    ws.subscribePrivate('orders');
+    ws.subscribePrivate('fill');
+    ws.subscribePrivate('positions');
+    const acked = new Promise<void>(resolve => {
+      let count = 0;
+      ws.on('subscribed', () => ++count === 3 && resolve());
+    });
+    await ws.connect();
+    expect(ws.isWebSocketAuthenticated()).toBe(true);
+    await acked;
+
+    const order = nextEvent<WSOrderUpdate>('order');
+    const fill = nextEvent<WSFillUpdate>('fill');
+    const position = nextEvent<WSPositionUpdate>('position');
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    await client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.02', tradeSide: 'open', marginCoin: 'USDT' });
+
+    expect(await order).toMatchObject({ instId: 'BTCUSDT', status: 'filled', accBaseVolume: '0.02' });
+    expect(await fill).toMatchObject({ symbol: 'BTCUSDT', side: 'buy', price: '95001', baseVolume: '0.02' });
+    expect(await position).toMatchObject({ instId: 'BTCUSDT', holdSide: 'long', total: '0.02' });
+  });
+
+  test('rejects connect when the login signature is wrong', async () => {
+    ws = createBitgetPrivateWebSocketClient(exchange.clientConfig({ secretKey: 'wrong-secret' }));
+    await expect(ws.connect()).rejects.toThrow(/login failed/);
+    expect(ws.isWebSocketAuthenticated()).toBe(false);
+  });
+
+  test('refuses private subscriptions without credentials', () => {
+    ws = new BitgetWebSocketClient({ url: exchange.wsPrivateUrl, maxReconnects: 0 });
+    expect(() => ws.subscribePrivate('orders')).toThrow(/credentials/);
+  });
+});
@@ -0,0 +1,121 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { RateLimiter, endpointPriority } from '../utils/rate-limiter.js';
+import { tickerCache } from '../utils/cache.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const track = (promise: Promise<void>, log: string[], label: string) => promise.then(() => log.push(label));
+
+  test('queues requests beyond the bucket instead of failing', async () => {
+    const limiter = new RateLimiter({ rules: [{ pattern: /ticker/, ratePerSecond: 2 }] });
+    const done: string[] = [];
+    ['a', 'b', 'c', 'd'].forEach(label => track(limiter.acquire('/api/v2/mix/market/ticker'), done, label));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(done).toEqual(['a', 'b']);
+    expect(limiter.pending).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(done).toEqual(['a', 'b', 'c']);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(done).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('keeps separate buckets per endpoint', async () => {
+    const limiter = new RateLimiter({ defaultRatePerSecond: 1 });
+    const done: string[] = [];
+    track(limiter.acquire('/a'), done, 'a1');
+    track(limiter.acquire('/a'), done, 'a2');
+    track(limiter.acquire('/b'), done, 'b1');
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(done).toEqual(['a1', 'b1']);
+  });
+
+  test('releases queued cancels before new orders on the shared UID bucket', async () => {
+    const limiter = new RateLimiter({ uidRatePerSecond: 1 });
+    const done: string[] = [];
+    track(limiter.acquire('/api/v2/mix/order/place-order', { isPrivate: true }), done, 'place1');
+    track(limiter.acquire('/api/v2/mix/order/place-order', { isPrivate: true }), done, 'place2');
+    track(limiter.acquire('/api/v2/mix/order/cancel-order', { isPrivate: true }), done, 'cancel');
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(done).toEqual(['place1']);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(done).toEqual(['place1', 'cancel']);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(done).toEqual(['place1', 'cancel', 'place2']);
+  });
+
+  test('pauses an endpoint after a 429 with escalating backoff', async () => {
+    const limiter = new RateLimiter({ penaltyMs: 1000 });
+    expect(limiter.penalize('/api/v2/mix/market/ticker')).toBe(1000);
+    expect(limiter.penalize('/api/v2/mix/market/ticker')).toBe(2000);
+    expect(limiter.penalize('/api/v2/spot/market/tickers', { retryAfterMs: 5000 })).toBe(5000);
+
+    const done: string[] = [];
+    track(limiter.acquire('/api/v2/mix/market/ticker'), done, 'ticker');
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(done).toEqual([]);
+    expect(limiter.getStatus().find(b => b.key === '/api/v2/mix/market/ticker')).toMatchObject({ penalties: 2 });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(done).toEqual(['ticker']);
+  });
+
+  test('fails requests that wait longer than maxWaitMs', async () => {
+    const limiter = new RateLimiter({ defaultRatePerSecond: 1, maxWaitMs: 500 });
+    await limiter.acquire('/x');
+    const late = limiter.acquire('/x');
+    const assertion = expect(late).rejects.toThrow(/Rate limit wait exceeded/);
+    await jest.advanceTimersByTimeAsync(600);
+    await assertion;
+  });
+
+  test('classifies endpoint priority', () => {
+    expect(endpointPriority('/api/v2/mix/order/cancel-order')).toBe('high');
+    expect(endpointPriority('/api/v2/mix/order/place-order')).toBe('normal');
+    expect(endpointPriority('/api/v2/mix/market/candles')).toBe('low');
+  });
+});
+
+describe('BitgetRestClient rate limiting', () => {
+  const exchange = new MockBitgetExchange();
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    tickerCache.clear();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 94999, ask: 95001 });
+  });
+
+  test('a burst of market data requests waits for slots rather than throwing', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 0 });
+    const results = await Promise.all(Array.from({ length: 30 }, () => client.getTicker('BTCUSDT')));
+    expect(results).toHaveLength(30);
+    expect(exchange.requestsTo('/api/v2/spot/market/tickers')).toHaveLength(30);
+  });
+
+  test('retries a 40014 response after pausing the endpoint', async () => {
+    const client = new BitgetRestClient(exchange.clientConfig(), { maxRetries: 1, baseDelay: 10 });
+    exchange.failNext('/api/v2/mix/market/ticker', { code: '40014', msg: 'Too many requests' });
+
+    await expect(client.getTicker('BTCUSDT_UMCBL')).resolves.toMatchObject({ last: '95000' });
+    const bucket = client.getRateLimiter().getStatus().find(b => b.key === '/api/v2/mix/market/ticker');
+    expect(bucket?.penalties).toBe(1);
+  });
+});
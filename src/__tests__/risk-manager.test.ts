@@ -0,0 +1,107 @@
+import { RiskManager, RiskLimits, riskLimitsFromEnv } from '../risk/risk-manager.js';
+import { Position, RiskViolationError } from '../types/bitget.js';
+import { ProductType } from '../utils/symbols.js';
+
+function position(symbol: string, side: 'long' | 'short', size: string, markPrice: string, productType: ProductType = 'USDT-FUTURES'): Position & { productType: ProductType } {
+  return { symbol, side, size, entryPrice: markPrice, markPrice, pnl: '0', pnlPercent: '0', margin: '0', leverage: '10', productType } as any;
+}
+
+function manager(limits: RiskLimits, positions: Array<Position & { productType: ProductType }> = []): RiskManager {
+  return new RiskManager(limits, {
+    getPrice: async () => '100',
+    getFuturesPositions: async (_symbol, productType) => positions.filter(p => p.productType === productType),
+  });
+}
+
+async function ruleOf(check: Promise<void> | (() => void)): Promise<string | undefined> {
+  try {
+    await (typeof check === 'function' ? check() : check);
+    return undefined;
+  } catch (err) {
+    expect(err).toBeInstanceOf(RiskViolationError);
+    return (err as RiskViolationError).rule;
+  }
+}
+
+describe('riskLimitsFromEnv', () => {
+  test('reads limits and normalizes symbols', () => {
+    expect(riskLimitsFromEnv({
+      BITGET_RISK_MAX_ORDER_NOTIONAL: '500',
+      BITGET_RISK_MAX_LEVERAGE: '10',
+      BITGET_RISK_MAX_LEVERAGE_BY_SYMBOL: 'BTCUSDT:20, ETHUSDT_UMCBL:5',
+      BITGET_RISK_ALLOWED_SYMBOLS: 'BTC/USDT,ethusdt',
+      BITGET_RISK_REQUIRE_STOP_LOSS: 'true',
+    })).toEqual({
+      maxOrderNotional: 500,
+      maxLeverage: 10,
+      maxLeverageBySymbol: { BTCUSDT: 20, ETHUSDT: 5 },
+      maxExposure: undefined,
+      maxOpenPositions: undefined,
+      allowedSymbols: ['BTCUSDT', 'ETHUSDT'],
+      requireStopLoss: true,
+    });
+  });
+
+  test('leaves every limit off by default', () => {
+    expect(Object.values(riskLimitsFromEnv({})).filter(v => v !== undefined && v !== false)).toEqual([]);
+  });
+});
+
+describe('RiskManager', () => {
+  test('rejects symbols outside the allowed list', async () => {
+    const risk = manager({ allowedSymbols: ['BTCUSDT'] });
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT_UMCBL', market: 'futures', side: 'buy', quantity: '1' }))).toBeUndefined();
+    expect(await ruleOf(risk.checkOrder({ symbol: 'ETHUSDT', market: 'spot', side: 'buy', quantity: '1' }))).toBe('allowedSymbols');
+    expect(await ruleOf(() => risk.checkLeverage('ETHUSDT', 5))).toBe('allowedSymbols');
+  });
+
+  test('caps order notional using the limit price or the last price', async () => {
+    const risk = manager({ maxOrderNotional: 500 });
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'spot', side: 'sell', quantity: '4' }))).toBeUndefined();
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'spot', side: 'sell', quantity: '4', price: '200' }))).toBe('maxOrderNotional');
+    // Quote-sized market buys are their own notional
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'margin', side: 'buy', quantity: '600', quoteQuantity: true }))).toBe('maxOrderNotional');
+  });
+
+  test('caps leverage per symbol before the default', () => {
+    const risk = manager({ maxLeverage: 10, maxLeverageBySymbol: { BTCUSDT: 20 } });
+    expect(() => risk.checkLeverage('BTCUSDT_UMCBL', 20)).not.toThrow();
+    expect(() => risk.checkLeverage('ETHUSDT', 20)).toThrow(/exceeds the 10x limit/);
+    expect(() => risk.checkLeverage('BTCUSDT', 125)).toThrow(RiskViolationError);
+  });
+
+  test('caps total exposure across futures product types', async () => {
+    const risk = manager({ maxExposure: 1000 }, [
+      position('BTCUSDT', 'long', '5', '100'),
+      position('BTCUSD', 'long', '3', '100', 'COIN-FUTURES'),
+    ]);
+    expect(await ruleOf(risk.checkOrder({ symbol: 'ETHUSDT', market: 'futures', side: 'buy', quantity: '2' }))).toBeUndefined();
+    expect(await ruleOf(risk.checkOrder({ symbol: 'ETHUSDT', market: 'futures', side: 'buy', quantity: '3' }))).toBe('maxExposure');
+  });
+
+  test('caps open positions but allows adding to one', async () => {
+    const risk = manager({ maxOpenPositions: 1 }, [position('BTCUSDT', 'long', '1', '100')]);
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'futures', side: 'buy', quantity: '1' }))).toBeUndefined();
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'futures', side: 'sell', quantity: '1' }))).toBe('maxOpenPositions');
+  });
+
+  test('requires a stop loss on futures entries only', async () => {
+    const risk = manager({ requireStopLoss: true });
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'futures', side: 'buy', quantity: '1' }))).toBe('requireStopLoss');
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'futures', side: 'buy', quantity: '1', hasStopLoss: true }))).toBeUndefined();
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'spot', side: 'buy', quantity: '1' }))).toBeUndefined();
+  });
+
+  test('checks loans against the allowed symbols and the coins they trade', async () => {
+    const risk = manager({ allowedSymbols: ['BTCUSDT'] });
+    expect(await ruleOf(risk.checkBorrow('USDT', 'BTCUSDT'))).toBeUndefined();
+    expect(await ruleOf(risk.checkBorrow('ETH', 'ETHUSDT'))).toBe('allowedSymbols');
+    expect(await ruleOf(risk.checkBorrow('btc'))).toBeUndefined();
+    expect(await ruleOf(risk.checkBorrow('ETH'))).toBe('allowedSymbols');
+  });
+
+  test('never blocks reduce-only orders', async () => {
+    const risk = manager({ maxOrderNotional: 1, maxOpenPositions: 0, requireStopLoss: true, allowedSymbols: ['ETHUSDT'] });
+    expect(await ruleOf(risk.checkOrder({ symbol: 'BTCUSDT', market: 'futures', side: 'sell', quantity: '10', reduceOnly: true }))).toBeUndefined();
+  });
+});
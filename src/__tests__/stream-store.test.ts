@@ -0,0 +1,64 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetWebSocketClient } from '../api/websocket-client.js';
+import { StreamStore } from '../api/stream-store.js';
+import { RingBuffer } from '../utils/ring-buffer.js';
+
+describe('RingBuffer', () => {
+  test('keeps the newest items once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    expect(buffer.latest()).toBeUndefined();
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+    expect(buffer.size).toBe(3);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.toArray(2)).toEqual([4, 5]);
+    expect(buffer.latest()).toBe(5);
+    buffer.clear();
+    expect(buffer.toArray()).toEqual([]);
+  });
+
+  test('rejects a non-positive capacity', () => {
+    expect(() => new RingBuffer(0)).toThrow(/capacity/);
+  });
+});
+
+describe('StreamStore', () => {
+  const exchange = new MockBitgetExchange();
+  let ws: BitgetWebSocketClient;
+  let store: StreamStore;
+
+  beforeAll(async () => {
+    await exchange.start();
+    exchange.setTicker('BTCUSDT', { last: 95000 });
+  });
+
+  afterAll(async () => {
+    ws.disconnect();
+    await exchange.stop();
+  });
+
+  test('buffers ticks and trades per subscription key', async () => {
+    ws = new BitgetWebSocketClient({ url: exchange.wsUrl, maxReconnects: 0 });
+    store = new StreamStore(ws, { capacity: 3 });
+    await ws.connect();
+
+    const acked = new Promise<void>(resolve => {
+      let count = 0;
+      ws.on('subscribed', () => ++count === 2 && resolve());
+    });
+    ws.subscribe('ticker', 'BTCUSDT', 'USDT-FUTURES');
+    ws.subscribe('trade', 'BTCUSDT', 'USDT-FUTURES');
+    await acked;
+
+    const trades = [1, 2, 3, 4].map(i => ({ ts: String(1000 + i), price: String(95000 + i), size: '0.1', side: 'buy', tradeId: `t${i}` }));
+    const received = new Promise(resolve => ws.on('USDT-FUTURES:trade:BTCUSDT', m => m.data[0].tradeId === 't4' && resolve(m)));
+    exchange.setTicker('BTCUSDT', { last: 95100 });
+    for (const trade of trades) exchange.publish({ instType: 'USDT-FUTURES', channel: 'trade', instId: 'BTCUSDT' }, [trade]);
+    await received;
+
+    expect(store.latest('ticker', 'BTCUSDT_UMCBL')!.data.lastPr).toBe('95100');
+    expect(store.history('trade', 'BTCUSDT', 'UMCBL', 10).map(e => e.data.tradeId)).toEqual(['t2', 't3', 't4']);
+    expect(store.history('trade', 'BTCUSDT_UMCBL', undefined, 1)[0].ts).toBe(1004);
+    expect(store.latest('ticker', 'BTCUSDT')).toBeNull(); // Spot was never subscribed
+    expect(store.getStatus().map(s => s.key).sort()).toEqual(['USDT-FUTURES:ticker:BTCUSDT', 'USDT-FUTURES:trade:BTCUSDT']);
+  });
+});
@@ -0,0 +1,62 @@
+import { parseSymbol, symbolFromInstrument, toV2InstType } from '../utils/symbols.js';
+import { resolveWsInstrument } from '../api/websocket-client.js';
+
+describe('parseSymbol', () => {
+  test.each([
+    ['BTCUSDT', 'spot', 'BTCUSDT', undefined],
+    ['BTCUSDT_SPBL', 'spot', 'BTCUSDT', undefined],
+    ['btc/usdt', 'spot', 'BTCUSDT', undefined],
+    ['BTCUSDT_UMCBL', 'usdt-futures', 'BTCUSDT', 'USDT-FUTURES'],
+    ['BTC/USDT:USDT', 'usdt-futures', 'BTCUSDT', 'USDT-FUTURES'],
+    ['BTCUSD_DMCBL', 'coin-futures', 'BTCUSD', 'COIN-FUTURES'],
+    ['BTC/USD:BTC', 'coin-futures', 'BTCUSD', 'COIN-FUTURES'],
+    ['BTCUSD', 'coin-futures', 'BTCUSD', 'COIN-FUTURES'],
+    ['BTCPERP_CMCBL', 'usdc-futures', 'BTCPERP', 'USDC-FUTURES'],
+    ['BTC/USDC:USDC', 'usdc-futures', 'BTCPERP', 'USDC-FUTURES'],
+  ])('%s -> %s %s', (input, market, symbol, productType) => {
+    expect(parseSymbol(input)).toMatchObject({ base: 'BTC', market, symbol, productType });
+  });
+
+  test('renders the v1 and display forms', () => {
+    expect(parseSymbol('ETH/USDT:USDT')).toMatchObject({ display: 'ETHUSDT_UMCBL', v1: 'ETHUSDT_UMCBL', instType: 'USDT-FUTURES' });
+    expect(parseSymbol('ETHUSDT')).toMatchObject({ quote: 'USDT', display: 'ETHUSDT', v1: 'ETHUSDT_SPBL', instType: 'SPOT' });
+  });
+
+  test('uses the default market only for plain symbols', () => {
+    expect(parseSymbol('BTCUSDT', 'usdt-futures').market).toBe('usdt-futures');
+    expect(parseSymbol('BTCUSDT_SPBL', 'usdt-futures').market).toBe('spot');
+  });
+
+  test('rejects unknown forms', () => {
+    expect(() => parseSymbol('BTCUSDT_XYZ')).toThrow(/suffix _XYZ/);
+    expect(() => parseSymbol('BTC/USDT:EUR')).toThrow(/settle currency/);
+  });
+
+  test('passes symbols with an unlisted quote through', () => {
+    expect(parseSymbol('BTCTRY')).toMatchObject({ market: 'spot', symbol: 'BTCTRY', display: 'BTCTRY', v1: 'BTCTRY_SPBL' });
+    expect(parseSymbol('BTCTRY', 'usdt-futures')).toMatchObject({ symbol: 'BTCTRY', productType: 'USDT-FUTURES', display: 'BTCTRY_UMCBL' });
+    expect(parseSymbol('BTCTRY_SPBL', 'usdt-futures').market).toBe('spot');
+  });
+});
+
+describe('instrument types', () => {
+  test('maps v1 instTypes to v2', () => {
+    expect(toV2InstType('UMCBL')).toBe('USDT-FUTURES');
+    expect(toV2InstType('DMCBL')).toBe('COIN-FUTURES');
+    expect(toV2InstType('CMCBL')).toBe('USDC-FUTURES');
+    expect(toV2InstType('SPOT')).toBe('SPOT');
+  });
+
+  test('resolves WebSocket instruments with the symbol taking precedence', () => {
+    expect(resolveWsInstrument('BTCUSDT_UMCBL')).toEqual({ instType: 'USDT-FUTURES', instId: 'BTCUSDT' });
+    expect(resolveWsInstrument('BTCUSDT_UMCBL', 'SPOT')).toEqual({ instType: 'USDT-FUTURES', instId: 'BTCUSDT' });
+    expect(resolveWsInstrument('BTCUSDT', 'UMCBL')).toEqual({ instType: 'USDT-FUTURES', instId: 'BTCUSDT' });
+    expect(resolveWsInstrument('BTCUSD', 'DMCBL')).toEqual({ instType: 'COIN-FUTURES', instId: 'BTCUSD' });
+    expect(resolveWsInstrument('BTCUSDT')).toEqual({ instType: 'SPOT', instId: 'BTCUSDT' });
+  });
+
+  test('parses pushed instruments back to the display form', () => {
+    expect(symbolFromInstrument('USDT-FUTURES', 'BTCUSDT').display).toBe('BTCUSDT_UMCBL');
+    expect(symbolFromInstrument('SPOT', 'BTCUSDT').display).toBe('BTCUSDT');
+  });
+});
@@ -0,0 +1,61 @@
+import { MockBitgetExchange } from '../mock/mock-exchange.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { ToolPolicy, toolPolicyConfigFromEnv } from '../risk/tool-policy.js';
+
+describe('toolPolicyConfigFromEnv', () => {
+  test('defaults to admin and refuses unknown profiles', () => {
+    expect(toolPolicyConfigFromEnv({})).toEqual({ profile: 'admin', deny: [] });
+    expect(toolPolicyConfigFromEnv({ BITGET_TOOL_PROFILE: 'read-only', BITGET_TOOLS_DENY: 'runBacktest, getCandles' }))
+      .toEqual({ profile: 'read-only', deny: ['runBacktest', 'getCandles'] });
+    expect(() => toolPolicyConfigFromEnv({ BITGET_TOOL_PROFILE: 'readonly' })).toThrow(/Unknown BITGET_TOOL_PROFILE/);
+  });
+});
+
+describe('ToolPolicy', () => {
+  test('read-only lists market data and account reads only', () => {
+    const policy = new ToolPolicy({ profile: 'read-only', deny: [] });
+    expect(policy.filter([{ name: 'getPrice' }, { name: 'getBalance' }, { name: 'placeOrder' }, { name: 'getOrders' }]))
+      .toEqual([{ name: 'getPrice' }, { name: 'getBalance' }]);
+    expect(policy.allows('someFutureTool')).toBe(false);
+    expect(() => policy.assertAllowed('placeOrder')).toThrow('placeOrder is not available in the read-only tool profile');
+  });
+
+  test('trade leaves out the admin tools, admin has everything but the deny list', () => {
+    const trade = new ToolPolicy({ profile: 'trade', deny: [] });
+    expect(trade.allows('placeOrder')).toBe(true);
+    expect(trade.allows('closeAllPositions')).toBe(false);
+    expect(trade.allows('setMarginMode')).toBe(false);
+    expect(trade.allows('engageKillSwitch')).toBe(true);
+    expect(trade.allows('releaseKillSwitch')).toBe(false);
+
+    const admin = new ToolPolicy({ profile: 'admin', deny: ['marginBorrow'] });
+    expect(admin.allows('closeAllPositions')).toBe(true);
+    expect(admin.allows('marginBorrow')).toBe(false);
+  });
+});
+
+describe('read-only client', () => {
+  const exchange = new MockBitgetExchange();
+
+  beforeAll(async () => {
+    await exchange.start();
+  });
+
+  afterAll(async () => {
+    await exchange.stop();
+  });
+
+  beforeEach(() => {
+    exchange.reset();
+    exchange.setTicker('BTCUSDT', { last: 95000, bid: 95000, ask: 95000 });
+  });
+
+  test('reads go through and writes never reach Bitget', async () => {
+    const client = new BitgetRestClient({ ...exchange.clientConfig(), readOnly: true }, { maxRetries: 0 });
+    expect(await client.getFuturesPositions('BTCUSDT')).toEqual([]);
+    await expect(client.placeOrder({ symbol: 'BTCUSDT_UMCBL', side: 'buy', type: 'market', quantity: '0.1' }))
+      .rejects.toThrow(/read-only/);
+    await expect(client.closeAllPositions()).rejects.toThrow(/read-only/);
+    expect(exchange.requestsTo('/api/v2/mix/order/place-order')).toHaveLength(0);
+  });
+});
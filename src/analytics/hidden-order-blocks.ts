@@ -0,0 +1,193 @@
+/**
+ * Hidden Order Blocks
+ * Scores every opposite candle that launched a displacement leg (not just the latest OB),
+ * tracks its mitigation and optionally confirms it on a lower timeframe
+ */
+
+import { Candle } from '../types/bitget.js';
+import { Pivot, toSeries } from './indicators.js';
+import { intervalToMs } from '../utils/intervals.js';
+
+// Lower timeframe used to confirm HOBs formed on each analysis interval
+const LOWER_TIMEFRAME: Record<string, string> = {
+  '3m': '1m',
+  '5m': '1m',
+  '15m': '5m',
+  '30m': '5m',
+  '1h': '15m',
+  '4h': '1h',
+  '6h': '1h',
+  '12h': '1h',
+  '1d': '4h',
+  '1w': '1d',
+};
+
+export interface HiddenOrderBlock {
+  type: 'bull' | 'bear';
+  idx: number;
+  ts: number;
+  top: number;
+  bottom: number;
+  mid: number;
+  displacementAtr: number;   // Leg size beyond the block, in ATRs
+  hasFvg: boolean;           // Leg left a fair value gap
+  brokeStructure: boolean;   // Leg closed beyond the prior swing pivot
+  relVolume: number;         // Leg volume vs. series average
+  touched: boolean;
+  mitigation: number;        // Deepest retrace into the zone, 0..1
+  fullyMitigated: boolean;   // Price traded through the whole zone
+  invalidated: boolean;      // A close beyond the far side of the zone
+  ltfConfirmed: boolean;     // Lower-timeframe break out of the block candle's range
+  qualityScore: number;      // 0..1
+  isVeryStrong: boolean;
+}
+
+export interface HiddenOrderBlockOptions {
+  atr: number | null;
+  pivots: Pivot[];
+  interval?: string;
+  ltfCandles?: Candle[];
+  minDisplacementAtr?: number;
+  veryStrongMinQuality?: number;
+  maxBlocks?: number;
+}
+
+export interface HiddenOrderBlockFilter {
+  minQuality?: number;
+  requireLTFConfirmations?: boolean;
+  excludeInvalidated?: boolean;
+  onlyFullyMitigated?: boolean;
+  onlyVeryStrong?: boolean;     // Blocks the detector marked very strong (its veryStrongMinQuality)
+}
+
+/**
+ * Lower timeframe for LTF confirmations, or null when none is finer
+ */
+export function lowerTimeframe(interval: string): string | null {
+  return LOWER_TIMEFRAME[interval.toLowerCase()] ?? null;
+}
+
+/**
+ * Detect hidden order blocks: an opposite-colored candle immediately followed by a
+ * leg (up to 3 bars) that closes at least `minDisplacementAtr` ATRs beyond it.
+ * Returns the most recent `maxBlocks`, oldest first.
+ */
+export function detectHiddenOrderBlocks(candles: Candle[], options: HiddenOrderBlockOptions): HiddenOrderBlock[] {
+  const { atr, pivots, interval, ltfCandles, minDisplacementAtr = 1, veryStrongMinQuality = 0.75, maxBlocks = 10 } = options;
+  const { opens, highs, lows, closes, volumes, timestamps } = toSeries(candles);
+  const n = candles.length;
+  if (n < 3) return [];
+
+  const unit = atr ?? Math.max(1e-8, Math.max(...highs) - Math.min(...lows)) / n;
+  const avgVolume = volumes.reduce((s, v) => s + (v || 0), 0) / n;
+  const barMs = interval ? intervalToMs(interval) : null;
+  const blocks: HiddenOrderBlock[] = [];
+
+  for (let i = 0; i < n - 1; i++) {
+    const bull = opens[i] > closes[i] && closes[i + 1] > opens[i + 1];
+    const bear = opens[i] < closes[i] && closes[i + 1] < opens[i + 1];
+    if (!bull && !bear) continue;
+
+    const legEnd = Math.min(i + 3, n - 1);
+    const legCloses = closes.slice(i + 1, legEnd + 1);
+    const displacement = bull ? Math.max(...legCloses) - highs[i] : lows[i] - Math.min(...legCloses);
+    if (displacement < minDisplacementAtr * unit) continue;
+
+    let hasFvg = false;
+    for (let j = i + 2; j <= legEnd; j++) {
+      if (bull ? lows[j] > highs[j - 2] : highs[j] < lows[j - 2]) hasFvg = true;
+    }
+
+    const priorPivot = [...pivots].reverse().find(p => p.idx < i && p.type === (bull ? 'H' : 'L'));
+    const brokeStructure = !!priorPivot && (bull ? Math.max(...legCloses) > priorPivot.price : Math.min(...legCloses) < priorPivot.price);
+
+    const legVolume = volumes.slice(i + 1, legEnd + 1).reduce((s, v) => s + (v || 0), 0) / legCloses.length;
+    const relVolume = avgVolume > 0 ? legVolume / avgVolume : 0;
+
+    // Mitigation: how far later bars came back into [bottom, top]
+    const top = highs[i];
+    const bottom = lows[i];
+    const height = Math.max(top - bottom, 1e-12);
+    let touched = false;
+    let mitigation = 0;
+    let fullyMitigated = false;
+    let invalidated = false;
+    for (let k = legEnd + 1; k < n; k++) {
+      const reach = bull ? (top - lows[k]) / height : (highs[k] - bottom) / height;
+      if (reach >= 0) touched = true;
+      mitigation = Math.max(mitigation, Math.min(1, Math.max(0, reach)));
+      if (reach >= 1) fullyMitigated = true;
+      if (bull ? closes[k] < bottom : closes[k] > top) invalidated = true;
+    }
+
+    const ltfConfirmed = barMs !== null && !!ltfCandles && confirmOnLowerTimeframe(ltfCandles, bull, timestamps[i], timestamps[i] + barMs, timestamps[legEnd] + barMs);
+
+    const qualityScore =
+      0.3 * Math.min(1, displacement / (2 * unit)) +
+      (hasFvg ? 0.2 : 0) +
+      (brokeStructure ? 0.2 : 0) +
+      0.1 * Math.min(1, relVolume / 2) +
+      (invalidated ? 0 : 0.1 * (1 - mitigation)) +
+      (ltfConfirmed ? 0.1 : 0);
+    const score = Math.round(qualityScore * 1000) / 1000;
+
+    blocks.push({
+      type: bull ? 'bull' : 'bear',
+      idx: i,
+      ts: timestamps[i],
+      top,
+      bottom,
+      mid: (top + bottom) / 2,
+      displacementAtr: Math.round((displacement / unit) * 100) / 100,
+      hasFvg,
+      brokeStructure,
+      relVolume: Math.round(relVolume * 100) / 100,
+      touched,
+      mitigation: Math.round(mitigation * 1000) / 1000,
+      fullyMitigated,
+      invalidated,
+      ltfConfirmed,
+      qualityScore: score,
+      isVeryStrong: score >= veryStrongMinQuality && hasFvg && brokeStructure && !invalidated,
+    });
+  }
+
+  return blocks.slice(-maxBlocks);
+}
+
+/**
+ * LTF confirmation: inside the block candle's time range price builds a range,
+ * and an LTF close breaks out of it in the leg's direction before the leg ends
+ */
+function confirmOnLowerTimeframe(ltf: Candle[], bull: boolean, blockStart: number, blockEnd: number, legEnd: number): boolean {
+  const inside = ltf.filter(c => c.timestamp >= blockStart && c.timestamp < blockEnd);
+  if (inside.length === 0) return false;
+  const rangeHigh = Math.max(...inside.map(c => parseFloat(c.high)));
+  const rangeLow = Math.min(...inside.map(c => parseFloat(c.low)));
+  return ltf.some(c => {
+    if (c.timestamp < blockEnd || c.timestamp >= legEnd) return false;
+    const close = parseFloat(c.close);
+    return bull ? close > rangeHigh : close < rangeLow;
+  });
+}
+
+/**
+ * Apply the snapshot tools' HOB filters
+ */
+export function filterHiddenOrderBlocks(blocks: HiddenOrderBlock[], filter: HiddenOrderBlockFilter): HiddenOrderBlock[] {
+  const {
+    minQuality = 0.6,
+    requireLTFConfirmations = false,
+    excludeInvalidated = true,
+    onlyFullyMitigated = false,
+    onlyVeryStrong = false,
+  } = filter;
+  return blocks.filter(hob => {
+    if (hob.qualityScore < minQuality) return false;
+    if (requireLTFConfirmations && !hob.ltfConfirmed) return false;
+    if (excludeInvalidated && hob.invalidated) return false;
+    if (onlyFullyMitigated && !hob.fullyMitigated) return false;
+    if (onlyVeryStrong && !hob.isVeryStrong) return false;
+    return true;
+  });
+}
@@ -0,0 +1,344 @@
+/**
+ * Market Structure & Indicator Library
+ * Pure functions over Candle[] (oldest first) used by the snapshot tools
+ */
+
+import { Candle } from '../types/bitget.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Pivot {
+  idx: number;
+  type: 'H' | 'L';
+  price: number;
+}
+
+export interface FairValueGap {
+  type: 'bull' | 'bear';
+  from: number;
+  to: number;
+  startIdx: number;
+}
+
+export interface LiquidityCluster {
+  level: number;
+  count: number;
+  indices: number[];
+}
+
+export interface LiquidityZones {
+  highs: LiquidityCluster[];
+  lows: LiquidityCluster[];
+}
+
+export interface OrderBlock {
+  type: 'bull' | 'bear';
+  idx: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface SessionLevels {
+  dailyOpen: number | null;
+  weeklyOpen: number | null;
+  prevDayHigh: number | null;
+  prevDayLow: number | null;
+}
+
+export interface SwingFailure {
+  bullish: boolean;
+  bearish: boolean;
+  last?: { type: 'bullish' | 'bearish'; idx: number; level: number };
+}
+
+export type BreakOfStructure = 'up' | 'down' | null;
+
+/**
+ * Numeric OHLCV columns for a candle series
+ */
+export interface Series {
+  opens: number[];
+  highs: number[];
+  lows: number[];
+  closes: number[];
+  volumes: number[];
+  timestamps: number[];
+}
+
+export function toSeries(candles: Candle[]): Series {
+  return {
+    opens: candles.map(c => parseFloat(c.open)),
+    highs: candles.map(c => parseFloat(c.high)),
+    lows: candles.map(c => parseFloat(c.low)),
+    closes: candles.map(c => parseFloat(c.close)),
+    volumes: candles.map(c => parseFloat(c.volume)),
+    timestamps: candles.map(c => c.timestamp),
+  };
+}
+
+// ========== MOVING AVERAGES ==========
+
+/**
+ * Simple moving average of the last n values
+ */
+export function sma(values: number[], n: number): number | null {
+  if (values.length < n) return null;
+  let sum = 0;
+  for (let i = values.length - n; i < values.length; i++) sum += values[i];
+  return sum / n;
+}
+
+/**
+ * Exponential moving average over the whole series, seeded with the first value
+ */
+export function ema(values: number[], n: number): number | null {
+  if (values.length < n) return null;
+  const k = 2 / (n + 1);
+  let value = values[0];
+  for (let i = 1; i < values.length; i++) value = values[i] * k + value * (1 - k);
+  return value;
+}
+
+/**
+ * Wilder's moving average (RMA), seeded with the SMA of the first n values
+ */
+export function rma(values: number[], n: number): number | null {
+  if (values.length < n) return null;
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += values[i];
+  let value = sum / n;
+  const alpha = 1 / n;
+  for (let i = n; i < values.length; i++) value = alpha * values[i] + (1 - alpha) * value;
+  return value;
+}
+
+// ========== VOLATILITY & MOMENTUM ==========
+
+/**
+ * True range per bar (the first bar uses its high-low range)
+ */
+export function trueRange(candles: Candle[]): number[] {
+  const { highs, lows, closes } = toSeries(candles);
+  const tr: number[] = [];
+  for (let i = 0; i < candles.length; i++) {
+    const hl = highs[i] - lows[i];
+    const hc = i > 0 ? Math.abs(highs[i] - closes[i - 1]) : 0;
+    const lc = i > 0 ? Math.abs(lows[i] - closes[i - 1]) : 0;
+    tr.push(Math.max(hl, hc, lc));
+  }
+  return tr;
+}
+
+/**
+ * Average true range with Wilder's smoothing
+ */
+export function atr(candles: Candle[], period: number = 14): number | null {
+  return rma(trueRange(candles), period);
+}
+
+/**
+ * Relative strength index of closes with Wilder's smoothing
+ */
+export function rsi(candles: Candle[], period: number = 14): number | null {
+  const { closes } = toSeries(candles);
+  const deltas: number[] = [];
+  for (let i = 1; i < closes.length; i++) deltas.push(closes[i] - closes[i - 1]);
+  const avgGain = rma(deltas.map(d => (d > 0 ? d : 0)), period);
+  const avgLoss = rma(deltas.map(d => (d < 0 ? -d : 0)), period);
+  if (avgGain === null || avgLoss === null) return null;
+  if (avgLoss === 0) return 100;
+  if (avgGain === 0) return 0;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Volume-weighted average of the typical price over the whole window
+ */
+export function vwap(candles: Candle[]): number | null {
+  const { highs, lows, closes, volumes } = toSeries(candles);
+  let tpVolSum = 0;
+  let volSum = 0;
+  for (let i = 0; i < candles.length; i++) {
+    const v = volumes[i] || 0;
+    tpVolSum += ((highs[i] + lows[i] + closes[i]) / 3) * v;
+    volSum += v;
+  }
+  return volSum > 0 ? tpVolSum / volSum : null;
+}
+
+// ========== MARKET STRUCTURE ==========
+
+/**
+ * Three-bar swing highs and lows
+ */
+export function pivots(candles: Candle[]): Pivot[] {
+  const { highs, lows } = toSeries(candles);
+  const result: Pivot[] = [];
+  for (let i = 1; i < candles.length - 1; i++) {
+    if (highs[i] > highs[i - 1] && highs[i] > highs[i + 1]) result.push({ idx: i, type: 'H', price: highs[i] });
+    if (lows[i] < lows[i - 1] && lows[i] < lows[i + 1]) result.push({ idx: i, type: 'L', price: lows[i] });
+  }
+  return result;
+}
+
+/**
+ * Break of structure: the last close beyond the range of every prior bar
+ */
+export function breakOfStructure(candles: Candle[]): BreakOfStructure {
+  if (candles.length < 2) return null;
+  const { highs, lows, closes } = toSeries(candles);
+  const lastClose = closes[closes.length - 1];
+  if (lastClose > Math.max(...highs.slice(0, -1))) return 'up';
+  if (lastClose < Math.min(...lows.slice(0, -1))) return 'down';
+  return null;
+}
+
+/**
+ * Three-bar fair value gaps within the last `lookback` bars
+ */
+export function fairValueGaps(candles: Candle[], lookback: number = 60): FairValueGap[] {
+  const { highs, lows } = toSeries(candles);
+  const gaps: FairValueGap[] = [];
+  for (let i = Math.max(2, candles.length - (lookback + 2)); i < candles.length; i++) {
+    if (lows[i] > highs[i - 2]) gaps.push({ type: 'bull', from: highs[i - 2], to: lows[i], startIdx: i - 2 });
+    if (highs[i] < lows[i - 2]) gaps.push({ type: 'bear', from: highs[i], to: lows[i - 2], startIdx: i - 2 });
+  }
+  return gaps;
+}
+
+/**
+ * Group price points lying within `tolerance` of a running cluster average; keeps clusters of 2+
+ */
+export function clusterLevels(points: Array<{ idx: number; price: number }>, tolerance: number): LiquidityCluster[] {
+  const sorted = points.slice().sort((a, b) => a.price - b.price);
+  const clusters: LiquidityCluster[] = [];
+  for (const pt of sorted) {
+    const last = clusters[clusters.length - 1];
+    if (last && Math.abs(pt.price - last.level) <= tolerance) {
+      last.level = (last.level * last.count + pt.price) / (last.count + 1);
+      last.count += 1;
+      last.indices.push(pt.idx);
+    } else {
+      clusters.push({ level: pt.price, count: 1, indices: [pt.idx] });
+    }
+  }
+  return clusters.filter(c => c.count >= 2);
+}
+
+/**
+ * Equal highs/lows (resting liquidity) from clustered pivots
+ */
+export function liquidityZones(pivotList: Pivot[], tolerance: number): LiquidityZones {
+  return {
+    highs: clusterLevels(pivotList.filter(p => p.type === 'H'), tolerance),
+    lows: clusterLevels(pivotList.filter(p => p.type === 'L'), tolerance),
+  };
+}
+
+/**
+ * Last opposite candle before the impulsive move. Tries BOS context first,
+ * then recent displacement (> 0.8 ATR over 5 bars), then the latest pivot.
+ */
+export function orderBlocks(
+  candles: Candle[],
+  bos: BreakOfStructure,
+  atrValue: number | null,
+  pivotList: Pivot[]
+): OrderBlock[] {
+  const { opens, highs, lows, closes } = toSeries(candles);
+  const n = candles.length;
+  if (n < 3) return [];
+  const block = (type: 'bull' | 'bear', i: number): OrderBlock =>
+    ({ type, idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] });
+  const isBearish = (i: number) => opens[i] > closes[i];
+  const isBullish = (i: number) => opens[i] < closes[i];
+  const lookback = Math.min(n - 1, 60);
+
+  // A BOS already implies the break, so the first opposite candle qualifies
+  if (bos === 'up') {
+    for (let i = n - 3; i >= n - lookback; i--) if (isBearish(i)) return [block('bull', i)];
+  } else if (bos === 'down') {
+    for (let i = n - 3; i >= n - lookback; i--) if (isBullish(i)) return [block('bear', i)];
+  }
+
+  const windowN = Math.min(5, n - 1);
+  const displacement = closes[n - 1] - closes[n - 1 - windowN];
+  const threshold = (atrValue ?? Math.max(1e-8, highs[n - 1] - lows[n - 1])) * 0.8;
+  const floor = Math.max(1, n - 1 - lookback);
+  if (displacement > threshold) {
+    for (let i = n - 2; i >= floor; i--) if (isBearish(i)) return [block('bull', i)];
+  } else if (-displacement > threshold) {
+    for (let i = n - 2; i >= floor; i--) if (isBullish(i)) return [block('bear', i)];
+  }
+
+  const lastH = [...pivotList].reverse().find(p => p.type === 'H');
+  const lastL = [...pivotList].reverse().find(p => p.type === 'L');
+  if (lastH) {
+    for (let i = lastH.idx - 1; i >= Math.max(0, lastH.idx - 10); i--) if (isBearish(i)) return [block('bull', i)];
+  }
+  if (lastL) {
+    for (let i = lastL.idx - 1; i >= Math.max(0, lastL.idx - 10); i--) if (isBullish(i)) return [block('bear', i)];
+  }
+  return [];
+}
+
+/**
+ * Daily/weekly opens and previous-day high/low (UTC) relative to the last bar
+ */
+export function sessionLevels(candles: Candle[]): SessionLevels {
+  const levels: SessionLevels = { dailyOpen: null, weeklyOpen: null, prevDayHigh: null, prevDayLow: null };
+  if (candles.length === 0) return levels;
+
+  const { opens, highs, lows, timestamps } = toSeries(candles);
+  const startOfUTC = (ts: number) => {
+    const d = new Date(ts);
+    return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  };
+  const now = timestamps[timestamps.length - 1];
+  const todayStart = startOfUTC(now);
+  const yesterdayStart = todayStart - DAY_MS;
+  const daysSinceMonday = (new Date(now).getUTCDay() + 6) % 7;
+  const weekStart = todayStart - daysSinceMonday * DAY_MS;
+
+  let pdh = -Infinity;
+  let pdl = Infinity;
+  for (let i = 0; i < timestamps.length; i++) {
+    const d0 = startOfUTC(timestamps[i]);
+    if (levels.dailyOpen === null && d0 >= todayStart) levels.dailyOpen = opens[i];
+    if (levels.weeklyOpen === null && d0 >= weekStart) levels.weeklyOpen = opens[i];
+    if (d0 >= yesterdayStart && d0 < todayStart) {
+      if (highs[i] > pdh) pdh = highs[i];
+      if (lows[i] < pdl) pdl = lows[i];
+    }
+  }
+  levels.prevDayHigh = Number.isFinite(pdh) ? pdh : null;
+  levels.prevDayLow = Number.isFinite(pdl) ? pdl : null;
+  return levels;
+}
+
+/**
+ * Swing failure pattern in the last 10 bars: a wick through the latest pivot
+ * by more than `tolerance` that closes back inside
+ */
+export function swingFailure(candles: Candle[], pivotList: Pivot[], tolerance: number): SwingFailure {
+  const { highs, lows, closes } = toSeries(candles);
+  const lastHigh = [...pivotList].reverse().find(p => p.type === 'H');
+  const lastLow = [...pivotList].reverse().find(p => p.type === 'L');
+  const sfp: SwingFailure = { bullish: false, bearish: false };
+  const checkRange = Math.min(candles.length - 1, 10);
+  for (let i = candles.length - checkRange; i < candles.length; i++) {
+    if (lastHigh && highs[i] > lastHigh.price + tolerance && closes[i] < lastHigh.price) {
+      sfp.bearish = true;
+      sfp.last = { type: 'bearish', idx: i, level: lastHigh.price };
+      break;
+    }
+    if (lastLow && lows[i] < lastLow.price - tolerance && closes[i] > lastLow.price) {
+      sfp.bullish = true;
+      sfp.last = { type: 'bullish', idx: i, level: lastLow.price };
+      break;
+    }
+  }
+  return sfp;
+}
@@ -0,0 +1,140 @@
+/**
+ * Market Snapshot
+ * Combines the indicator library into the analysis shared by getMarketSnapshot(s)
+ */
+
+import { Candle } from '../types/bitget.js';
+import { HiddenOrderBlock } from './hidden-order-blocks.js';
+import {
+  BreakOfStructure,
+  FairValueGap,
+  LiquidityZones,
+  OrderBlock,
+  Pivot,
+  SwingFailure,
+  atr as calcAtr,
+  breakOfStructure,
+  ema,
+  fairValueGaps,
+  liquidityZones as calcLiquidityZones,
+  orderBlocks as calcOrderBlocks,
+  pivots as calcPivots,
+  rsi as calcRsi,
+  sessionLevels,
+  sma,
+  swingFailure,
+  toSeries,
+  vwap as calcVwap,
+} from './indicators.js';
+
+export interface SnapshotOptions {
+  emas?: number[];
+  atrPeriod?: number;
+  fvgLookback?: number;
+}
+
+export interface MarketAnalysis {
+  latest: { close: number; high: number; low: number; ts: number };
+  pivots: Pivot[];
+  bos: BreakOfStructure;
+  fvg: FairValueGap[];
+  trend: 'up' | 'down' | null;
+  sma50: number | null;
+  sma200: number | null;
+  emaValues: Record<string, number | null>;
+  atr: number | null;
+  rsi: number | null;
+  orderBlocks: OrderBlock[];
+  liquidityZones: LiquidityZones;
+  vwap: number | null;
+  dailyOpen: number | null;
+  weeklyOpen: number | null;
+  prevDayHigh: number | null;
+  prevDayLow: number | null;
+  sfp: SwingFailure;
+}
+
+export interface SnapshotTelemetry {
+  bos: BreakOfStructure;
+  trend: 'up' | 'down' | null;
+  rsi: number | null;
+  atr: number | null;
+  vwapPresent: boolean;
+  numPivotHighs: number;
+  numPivotLows: number;
+  bullFvgCount: number;
+  bearFvgCount: number;
+  highsClusterCount: number;
+  lowsClusterCount: number;
+  orderBlocksCount: number;
+  hiddenOrderBlocksCount: number;
+  hiddenOrderBlocksVeryStrongCount: number;
+  avgHobQuality: number;
+  maxHobQuality: number;
+  sfp: SwingFailure;
+}
+
+/**
+ * Run every snapshot indicator over a non-empty candle series
+ */
+export function computeSnapshot(candles: Candle[], options: SnapshotOptions = {}): MarketAnalysis {
+  const { emas = [20, 50, 200], atrPeriod = 14, fvgLookback = 60 } = options;
+  const { closes, highs, lows } = toSeries(candles);
+  const last = candles.length - 1;
+
+  const pivotList = calcPivots(candles);
+  const bos = breakOfStructure(candles);
+  const atr = calcAtr(candles, atrPeriod);
+  // Equal-level and SFP tolerance: 10% of ATR, or 0.1% of price when ATR is unavailable
+  const tolerance = atr ? atr * 0.1 : closes[last] * 0.001;
+
+  const sma50 = sma(closes, 50);
+  const sma200 = sma(closes, 200);
+  const emaValues: Record<string, number | null> = {};
+  for (const p of emas) emaValues[`ema${p}`] = ema(closes, p);
+
+  return {
+    latest: { close: closes[last], high: highs[last], low: lows[last], ts: candles[last].timestamp },
+    pivots: pivotList,
+    bos,
+    fvg: fairValueGaps(candles, fvgLookback),
+    trend: sma50 && sma200 ? (sma50 > sma200 ? 'up' : 'down') : null,
+    sma50,
+    sma200,
+    emaValues,
+    atr,
+    rsi: calcRsi(candles, 14),
+    orderBlocks: calcOrderBlocks(candles, bos, atr, pivotList),
+    liquidityZones: calcLiquidityZones(pivotList, tolerance),
+    vwap: calcVwap(candles),
+    ...sessionLevels(candles),
+    sfp: swingFailure(candles, pivotList, tolerance),
+  };
+}
+
+/**
+ * Aggregate counts/scores written to telemetry alongside a snapshot
+ */
+export function snapshotTelemetry(analysis: MarketAnalysis, hiddenOrderBlocks: HiddenOrderBlock[]): SnapshotTelemetry {
+  const hobCount = hiddenOrderBlocks.length;
+  const qualities = hiddenOrderBlocks.map(h => h.qualityScore);
+  return {
+    bos: analysis.bos,
+    trend: analysis.trend,
+    rsi: analysis.rsi,
+    atr: analysis.atr,
+    vwapPresent: analysis.vwap != null,
+    numPivotHighs: analysis.pivots.filter(p => p.type === 'H').length,
+    numPivotLows: analysis.pivots.filter(p => p.type === 'L').length,
+    bullFvgCount: analysis.fvg.filter(g => g.type === 'bull').length,
+    bearFvgCount: analysis.fvg.filter(g => g.type === 'bear').length,
+    highsClusterCount: analysis.liquidityZones.highs.length,
+    lowsClusterCount: analysis.liquidityZones.lows.length,
+    orderBlocksCount: analysis.orderBlocks.length,
+    hiddenOrderBlocksCount: hobCount,
+    hiddenOrderBlocksVeryStrongCount: hiddenOrderBlocks.filter(h => h.isVeryStrong).length,
+    avgHobQuality: hobCount ? qualities.reduce((s, q) => s + q, 0) / hobCount : 0,
+    maxHobQuality: hobCount ? Math.max(...qualities) : 0,
+    sfp: analysis.sfp,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Contract Spec Service
+ * Cached spot symbol and futures contract metadata, used to bring order prices and
+ * sizes onto the exchange's tick and lot grid before they are sent
+ */
+
+import { BitgetValidationError, ContractSpec } from '../types/bitget.js';
+import { logger } from '../utils/logger.js';
+import { parseSymbol } from '../utils/symbols.js';
+
+export type SpecMarket = 'spot' | 'futures';
+export type PrecisionMode = 'round' | 'reject';
+
+export interface ContractSpecServiceConfig {
+  ttlMs?: number;            // Refetch the symbol list after this long (default 1h)
+  mode?: PrecisionMode;      // Round off-grid values (default) or reject them
+}
+
+/**
+ * Raw rows from /api/v2/spot/public/symbols or /api/v2/mix/market/contracts
+ */
+export type ContractSpecLoader = (market: SpecMarket) => Promise<any[]>;
+
+const TRADABLE_STATUS = ['normal', 'online'];
+
+/**
+ * Normalize a /api/v2/mix/market/contracts row
+ */
+export function futuresContractSpec(row: any): ContractSpec {
+  return {
+    symbol: row.symbol,
+    market: 'futures',
+    productType: row.productType,
+    baseCoin: row.baseCoin,
+    quoteCoin: row.quoteCoin,
+    pricePlace: parseInt(row.pricePlace ?? '0'),
+    priceEndStep: parseInt(row.priceEndStep ?? '1') || 1,
+    volumePlace: parseInt(row.volumePlace ?? '0'),
+    sizeMultiplier: parseFloat(row.sizeMultiplier ?? '0') || 0,
+    minTradeNum: parseFloat(row.minTradeNum ?? '0') || 0,
+    minTradeUSDT: row.minTradeUSDT !== undefined ? parseFloat(row.minTradeUSDT) : undefined,
+    maxLever: row.maxLever !== undefined ? parseInt(row.maxLever) : undefined,
+    status: row.symbolStatus ?? 'normal',
+    tradable: TRADABLE_STATUS.includes(row.symbolStatus ?? 'normal'),
+  };
+}
+
+/**
+ * Normalize a /api/v2/spot/public/symbols row
+ */
+export function spotSymbolSpec(row: any): ContractSpec {
+  return {
+    symbol: row.symbol,
+    market: 'spot',
+    baseCoin: row.baseCoin,
+    quoteCoin: row.quoteCoin,
+    pricePlace: parseInt(row.pricePrecision ?? '0'),
+    priceEndStep: 1,
+    volumePlace: parseInt(row.quantityPrecision ?? '0'),
+    sizeMultiplier: 0,
+    minTradeNum: parseFloat(row.minTradeAmount ?? '0') || 0,
+    minTradeUSDT: row.minTradeUSDT !== undefined ? parseFloat(row.minTradeUSDT) : undefined,
+    quotePlace: row.quotePrecision !== undefined ? parseInt(row.quotePrecision) : undefined,
+    status: row.status ?? 'online',
+    tradable: TRADABLE_STATUS.includes(row.status ?? 'online'),
+  };
+}
+
+/**
+ * Round a price to the nearest valid tick (pricePlace decimals, last digit a multiple of priceEndStep)
+ */
+export function roundPrice(spec: ContractSpec, price: string): string {
+  const value = parseFloat(price);
+  const scale = Math.pow(10, spec.pricePlace);
+  const ticks = Math.round(Math.round(value * scale) / spec.priceEndStep) * spec.priceEndStep;
+  return (ticks / scale).toFixed(spec.pricePlace);
+}
+
+/**
+ * Round a size down to the lot grid (volumePlace decimals, multiple of sizeMultiplier);
+ * rounding down never buys or sells more than asked
+ */
+export function roundSize(spec: ContractSpec, size: string, places: number = spec.volumePlace): string {
+  const value = parseFloat(size);
+  const scale = Math.pow(10, places);
+  const lot = Math.max(1, Math.round(spec.sizeMultiplier * scale));
+  // The epsilon keeps exact values like 0.3 (0.29999...) from losing a lot
+  const units = Math.floor(Math.floor(value * scale + 1e-6) / lot) * lot;
+  return (units / scale).toFixed(places);
+}
+
+export class ContractSpecService {
+  private specs = new Map<SpecMarket, { loadedAt: number; bySymbol: Map<string, ContractSpec> }>();
+  private loading = new Map<SpecMarket, Promise<Map<string, ContractSpec>>>();
+  private ttlMs: number;
+  private mode: PrecisionMode;
+
+  constructor(private loader: ContractSpecLoader, config: ContractSpecServiceConfig = {}, private now: () => number = Date.now) {
+    this.ttlMs = config.ttlMs ?? 3600000;
+    this.mode = config.mode ?? 'round';
+  }
+
+  async list(market: SpecMarket): Promise<ContractSpec[]> {
+    return [...(await this.load(market)).values()];
+  }
+
+  /**
+   * Spec for a symbol in any accepted form (BTCUSDT, BTCUSDT_UMCBL, BTC/USDT:USDT), or null
+   * when the exchange does not list it
+   */
+  async get(symbol: string, market: SpecMarket): Promise<ContractSpec | null> {
+    const bare = parseSymbol(symbol, market === 'spot' ? 'spot' : 'usdt-futures').symbol;
+    return (await this.load(market)).get(bare) ?? null;
+  }
+
+  invalidate(market?: SpecMarket): void {
+    if (market) this.specs.delete(market);
+    else this.specs.clear();
+  }
+
+  /**
+   * Bring an order's size and prices onto the symbol's grid. Throws BitgetValidationError for
+   * untradable symbols, sizes below the minimum, and (in reject mode) any off-grid value.
+   * `quoteSize` marks sizes denominated in the quote coin (spot market buys).
+   * Without metadata (symbol unknown or lookup failed) values pass through unchanged.
+   */
+  async prepareOrder(
+    symbol: string,
+    market: SpecMarket,
+    order: { size?: string; prices?: Record<string, string | undefined>; quoteSize?: boolean }
+  ): Promise<{ size?: string; prices: Record<string, string | undefined> }> {
+    const prices = { ...order.prices };
+    let spec: ContractSpec | null = null;
+    try {
+      spec = await this.get(symbol, market);
+    } catch (error: any) {
+      logger.warn('Contract specs unavailable, sending order unadjusted', { symbol, market, error: error.message });
+    }
+    if (!spec) return { size: order.size, prices };
+
+    if (!spec.tradable) {
+      throw new BitgetValidationError(`${spec.symbol} is not tradable (status: ${spec.status})`);
+    }
+
+    const adjustments: string[] = [];
+    const adjust = (field: string, original: string, rounded: string): string => {
+      if (parseFloat(rounded) === parseFloat(original)) return original;
+      if (this.mode === 'reject') {
+        throw new BitgetValidationError(`${field} ${original} does not match ${spec!.symbol} precision (nearest valid: ${rounded})`);
+      }
+      adjustments.push(`${field} ${original} -> ${rounded}`);
+      return rounded;
+    };
+
+    for (const [field, price] of Object.entries(prices)) {
+      if (price !== undefined) prices[field] = adjust(field, price, roundPrice(spec, price));
+    }
+
+    let size = order.size;
+    if (size !== undefined) {
+      const places = order.quoteSize ? spec.quotePlace ?? spec.pricePlace : spec.volumePlace;
+      size = adjust('size', size, order.quoteSize ? roundSize({ ...spec, sizeMultiplier: 0 }, size, places) : roundSize(spec, size, places));
+      if (!order.quoteSize && parseFloat(size) < spec.minTradeNum) {
+        throw new BitgetValidationError(`Size ${order.size} is below the ${spec.symbol} minimum of ${spec.minTradeNum}`);
+      }
+      if (order.quoteSize && spec.minTradeUSDT && parseFloat(size) < spec.minTradeUSDT) {
+        throw new BitgetValidationError(`Order value ${order.size} is below the ${spec.symbol} minimum of ${spec.minTradeUSDT} ${spec.quoteCoin}`);
+      }
+      if (parseFloat(size) <= 0) {
+        throw new BitgetValidationError(`Size ${order.size} rounds to zero for ${spec.symbol}`);
+      }
+    }
+
+    if (adjustments.length > 0) {
+      logger.info('Adjusted order to contract precision', { symbol: spec.symbol, market, adjustments });
+    }
+    return { size, prices };
+  }
+
+  private async load(market: SpecMarket): Promise<Map<string, ContractSpec>> {
+    const cached = this.specs.get(market);
+    if (cached && this.now() - cached.loadedAt < this.ttlMs) return cached.bySymbol;
+
+    let pending = this.loading.get(market);
+    if (!pending) {
+      pending = this.loader(market)
+        .then(rows => {
+          const bySymbol = new Map<string, ContractSpec>();
+          for (const row of rows) {
+            const spec = market === 'spot' ? spotSymbolSpec(row) : futuresContractSpec(row);
+            bySymbol.set(spec.symbol, spec);
+          }
+          this.specs.set(market, { loadedAt: this.now(), bySymbol });
+          return bySymbol;
+        })
+        .finally(() => this.loading.delete(market));
+      this.loading.set(market, pending);
+    }
+    return pending;
+  }
+}
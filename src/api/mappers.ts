@@ -0,0 +1,168 @@
+/**
+ * v2 Response Mappers
+ * Typed mapping from Bitget v2 order, position, plan order and margin rows into the
+ * shapes the tools return
+ */
+
+import { Fill, MarginAsset, MarginInterest, Order, PlanOrder, Position } from '../types/bitget.js';
+import { ProductType, symbolFromInstrument } from '../utils/symbols.js';
+
+// v2 order states (spot `status`, mix `status`/`state`) -> Order.status
+const ORDER_STATUS: Record<string, Order['status']> = {
+  init: 'open',
+  new: 'open',
+  live: 'open',
+  partially_filled: 'partially_filled',
+  partial_fill: 'partially_filled',
+  filled: 'filled',
+  full_fill: 'filled',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+};
+
+export function mapOrderStatus(state: string | undefined): Order['status'] {
+  return ORDER_STATUS[(state || '').toLowerCase()] ?? 'open';
+}
+
+function remaining(size: string, filled: string): string {
+  return Math.max(0, parseFloat(size || '0') - parseFloat(filled || '0')).toString();
+}
+
+/**
+ * Row from /api/v2/spot/trade/unfilled-orders, history-orders or orderInfo
+ */
+export function mapSpotOrder(row: any): Order {
+  const filled = row.baseVolume || '0';
+  return {
+    orderId: row.orderId,
+    clientOrderId: row.clientOid || undefined,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.orderType,
+    quantity: row.size,
+    price: row.price && parseFloat(row.price) > 0 ? row.price : row.priceAvg || undefined,
+    status: mapOrderStatus(row.status),
+    filled,
+    remaining: remaining(row.size, filled),
+    timestamp: parseInt(row.cTime),
+    updateTime: parseInt(row.uTime || row.cTime),
+  };
+}
+
+/**
+ * Row from /api/v2/mix/order/orders-pending, orders-history or detail. The symbol is
+ * returned in the display form (BTCUSDT_UMCBL) so it can be passed back to any tool.
+ */
+export function mapFuturesOrder(row: any, productType: ProductType): Order {
+  const filled = row.baseVolume || '0';
+  return {
+    orderId: row.orderId,
+    clientOrderId: row.clientOid || undefined,
+    symbol: symbolFromInstrument(productType, row.symbol).display,
+    side: row.side,
+    type: row.orderType,
+    quantity: row.size,
+    price: row.price && parseFloat(row.price) > 0 ? row.price : row.priceAvg || undefined,
+    status: mapOrderStatus(row.status ?? row.state),
+    filled,
+    remaining: remaining(row.size, filled),
+    timestamp: parseInt(row.cTime),
+    updateTime: parseInt(row.uTime || row.cTime),
+  };
+}
+
+/**
+ * Row from /api/v2/mix/position/all-position or single-position
+ */
+export function mapFuturesPosition(row: any): Position {
+  const pnl = row.unrealizedPL || '0';
+  const margin = row.marginSize || '0';
+  return {
+    symbol: row.symbol,
+    side: row.holdSide,
+    size: Math.abs(parseFloat(row.total || '0')).toString(),
+    entryPrice: row.openPriceAvg,
+    markPrice: row.markPrice,
+    pnl,
+    pnlPercent: parseFloat(margin) > 0 ? (parseFloat(pnl) / parseFloat(margin)).toFixed(4) : '0',
+    margin,
+    leverage: row.leverage,
+    timestamp: parseInt(row.uTime || row.cTime),
+  };
+}
+
+// One-way accounts report TP/SL sides as buy/sell; positions are always long/short
+function planHoldSide(side: string | undefined): string | undefined {
+  if (side === 'buy') return 'long';
+  if (side === 'sell') return 'short';
+  return side || undefined;
+}
+
+/**
+ * Row from /api/v2/mix/order/orders-plan-pending entrustedList
+ */
+export function mapPlanOrder(row: any): PlanOrder {
+  return {
+    orderId: row.orderId,
+    clientOid: row.clientOid || undefined,
+    symbol: row.symbol,
+    planType: row.planType,
+    triggerPrice: row.triggerPrice,
+    triggerType: row.triggerType || undefined,
+    executePrice: row.executePrice && parseFloat(row.executePrice) > 0 ? row.executePrice : undefined,
+    holdSide: planHoldSide(row.holdSide || row.posSide),
+    size: row.size,
+    status: row.planStatus || 'live',
+    timestamp: parseInt(row.uTime || row.cTime),
+  };
+}
+
+/**
+ * Row from /api/v2/mix/order/fill-history fillList (Bitget reports fees as negative amounts)
+ */
+export function mapFuturesFill(row: any): Fill {
+  const fee = (row.feeDetail || []).reduce((sum: number, f: any) => sum + Math.abs(parseFloat(f.totalFee || '0')), 0);
+  return {
+    tradeId: row.tradeId,
+    orderId: row.orderId,
+    symbol: row.symbol,
+    side: row.side,
+    tradeSide: row.tradeSide || undefined,
+    price: row.price,
+    size: row.baseVolume,
+    profit: row.profit || '0',
+    fee: fee.toString(),
+    timestamp: parseInt(row.cTime),
+  };
+}
+
+/**
+ * Row from /api/v2/margin/{crossed,isolated}/account/assets
+ */
+export function mapMarginAsset(row: any): MarginAsset {
+  return {
+    coin: row.coin,
+    symbol: row.symbol || undefined,
+    total: row.totalAmount,
+    available: row.available,
+    frozen: row.frozen,
+    borrowed: row.borrow,
+    interest: row.interest,
+    net: row.net,
+  };
+}
+
+/**
+ * Row from /api/v2/margin/{crossed,isolated}/interest-history resultList
+ */
+export function mapMarginInterest(row: any): MarginInterest {
+  return {
+    interestId: row.interestId,
+    coin: row.interestCoin || row.loanCoin,
+    symbol: row.symbol || undefined,
+    dailyInterestRate: row.dailyInterestRate,
+    interestAmount: row.interestAmount,
+    type: row.interstType ?? row.interestType,  // Bitget spells the field "interstType"
+    timestamp: parseInt(row.cTime),
+  };
+}
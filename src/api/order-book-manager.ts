@@ -0,0 +1,160 @@
+/**
+ * Order Book Manager
+ * Maintains local order books from WebSocket `books` snapshots and deltas,
+ * verifies Bitget's CRC32 checksum and resubscribes when a book drifts
+ */
+
+import { EventEmitter } from 'events';
+import { OrderBook, WSInstType, WSMessage } from '../types/bitget.js';
+import { BitgetWebSocketClient, resolveWsInstrument } from './websocket-client.js';
+import { crc32 } from '../utils/crc32.js';
+import { logger } from '../utils/logger.js';
+
+const CHECKSUM_LEVELS = 25;
+
+export interface OrderBookManagerConfig {
+  maxAgeMs?: number;      // Books without an update for this long are not served (default 30s)
+}
+
+interface LocalBook {
+  instType: WSInstType;
+  symbol: string;
+  bids: Map<string, string>;   // price -> size, kept as received so checksums match
+  asks: Map<string, string>;
+  synced: boolean;             // False until a snapshot arrives (and after a checksum mismatch)
+  updatedAt: number;
+  resyncs: number;
+}
+
+/**
+ * Bitget checksum: CRC32 over "bid1p:bid1s:ask1p:ask1s:bid2p:..." for the top 25 levels per side
+ */
+export function orderBookChecksum(bids: [string, string][], asks: [string, string][]): number {
+  const parts: string[] = [];
+  for (let i = 0; i < CHECKSUM_LEVELS; i++) {
+    if (i < bids.length) parts.push(bids[i][0], bids[i][1]);
+    if (i < asks.length) parts.push(asks[i][0], asks[i][1]);
+  }
+  return crc32(parts.join(':'));
+}
+
+export class OrderBookManager extends EventEmitter {
+  private books = new Map<string, LocalBook>();
+  private maxAgeMs: number;
+
+  constructor(private ws: BitgetWebSocketClient, config: OrderBookManagerConfig = {}, private now: () => number = Date.now) {
+    super();
+    this.maxAgeMs = config.maxAgeMs ?? 30000;
+    this.ws.on('data', (message: WSMessage) => {
+      if (message.arg.channel === 'books') this.handleMessage(message);
+    });
+    this.ws.on('disconnected', () => {
+      for (const book of this.books.values()) book.synced = false;
+    });
+  }
+
+  /**
+   * Start maintaining a book; accepts BTCUSDT (spot) or BTCUSDT_UMCBL (futures)
+   */
+  track(symbol: string, instType?: WSInstType): void {
+    const { key, inst, bare } = this.resolve(symbol, instType);
+    if (!this.books.has(key)) {
+      this.books.set(key, { instType: inst, symbol: bare, bids: new Map(), asks: new Map(), synced: false, updatedAt: 0, resyncs: 0 });
+    }
+    this.ws.subscribe('books', bare, inst);
+  }
+
+  untrack(symbol: string, instType?: WSInstType): void {
+    const { key, inst, bare } = this.resolve(symbol, instType);
+    if (this.books.delete(key)) this.ws.unsubscribe('books', bare, inst);
+  }
+
+  /**
+   * Live book for a symbol, best levels first, or null when none is synced and fresh
+   */
+  getBook(symbol: string, depth: number = 20, instType?: WSInstType): OrderBook | null {
+    const book = this.books.get(this.resolve(symbol, instType).key);
+    if (!book || !book.synced || this.now() - book.updatedAt > this.maxAgeMs) return null;
+    return {
+      symbol,
+      bids: this.sorted(book.bids, 'desc').slice(0, depth),
+      asks: this.sorted(book.asks, 'asc').slice(0, depth),
+      timestamp: book.updatedAt,
+    };
+  }
+
+  /**
+   * Status of every tracked book
+   */
+  getStatus(): Array<{ instType: string; symbol: string; synced: boolean; levels: number; updatedAt: number; resyncs: number }> {
+    return [...this.books.values()].map(b => ({
+      instType: b.instType,
+      symbol: b.symbol,
+      synced: b.synced,
+      levels: b.bids.size + b.asks.size,
+      updatedAt: b.updatedAt,
+      resyncs: b.resyncs,
+    }));
+  }
+
+  /**
+   * Apply a `books` snapshot or update message
+   */
+  handleMessage(message: WSMessage): void {
+    const { instType, instId } = message.arg;
+    const book = this.books.get(`${instType}:${instId}`);
+    if (!book) return;
+
+    for (const entry of message.data) {
+      if (message.action === 'snapshot') {
+        book.bids.clear();
+        book.asks.clear();
+        book.synced = true;
+      } else if (!book.synced) {
+        continue; // Deltas before the snapshot (or after a mismatch) cannot be applied
+      }
+      this.apply(book.bids, entry.bids);
+      this.apply(book.asks, entry.asks);
+      book.updatedAt = entry.ts ? parseInt(entry.ts) : this.now();
+
+      if (entry.checksum !== undefined && entry.checksum !== null) {
+        const expected = Number(entry.checksum);
+        const actual = orderBookChecksum(this.sorted(book.bids, 'desc'), this.sorted(book.asks, 'asc'));
+        if (actual !== expected) {
+          this.resync(book, expected, actual);
+          return;
+        }
+      }
+    }
+    this.emit('update', book.symbol, book.instType);
+  }
+
+  private apply(side: Map<string, string>, levels: [string, string][] | undefined): void {
+    for (const [price, size] of levels || []) {
+      if (parseFloat(size) === 0) side.delete(price);
+      else side.set(price, size);
+    }
+  }
+
+  private resync(book: LocalBook, expected: number, actual: number): void {
+    logger.warn('Order book checksum mismatch, resubscribing', { symbol: book.symbol, instType: book.instType, expected, actual });
+    book.synced = false;
+    book.bids.clear();
+    book.asks.clear();
+    book.resyncs++;
+    this.emit('resync', book.symbol, book.instType);
+    // A fresh subscription makes Bitget send a new snapshot
+    this.ws.unsubscribe('books', book.symbol, book.instType);
+    this.ws.subscribe('books', book.symbol, book.instType);
+  }
+
+  private sorted(side: Map<string, string>, order: 'asc' | 'desc'): [string, string][] {
+    const levels = [...side.entries()];
+    return levels.sort((a, b) => order === 'asc' ? parseFloat(a[0]) - parseFloat(b[0]) : parseFloat(b[0]) - parseFloat(a[0]));
+  }
+
+  private resolve(symbol: string, instType?: WSInstType): { key: string; inst: WSInstType; bare: string } {
+    const { instType: inst, instId: bare } = resolveWsInstrument(symbol, instType);
+    return { key: `${inst}:${bare}`, inst, bare };
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Order Preview
+ * Pricing an order against the current book and checking TP/SL triggers against the last
+ * price, for dry runs that show what a trading call would do before it is sent
+ */
+
+import { OrderBook } from '../types/bitget.js';
+
+export interface BookPricing {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  size: number;            // Base size the book covers (up to the limit price for limit orders)
+  notional: number;        // Quote value of that size
+  avgPrice?: number;       // Expected average fill
+  slippageBps?: number;    // avgPrice against mid; positive is worse for the order
+  marketable: boolean;     // Fills at least partly on arrival
+  fullyCovered: boolean;   // The visible book takes the whole order
+}
+
+export interface TriggerCheck {
+  planType: string;
+  holdSide: 'long' | 'short';
+  triggerPrice: number;
+  lastPrice: number;
+  distancePct: number;     // Signed distance from the last price
+  alreadyCrossed: boolean; // The plan would fire as soon as it is placed
+}
+
+/**
+ * Walk the opposite side of the book. `quoteSize` sizes the order in the quote coin
+ * (spot market buys); `limitPrice` stops the walk at the limit.
+ */
+export function priceAgainstBook(
+  book: OrderBook,
+  side: 'buy' | 'sell',
+  quantity: number,
+  options: { limitPrice?: number; quoteSize?: boolean } = {}
+): BookPricing {
+  const bestBid = parseFloat(book.bids[0]?.[0] ?? 'NaN');
+  const bestAsk = parseFloat(book.asks[0]?.[0] ?? 'NaN');
+  const mid = (bestBid + bestAsk) / 2;
+  const levels = side === 'buy' ? book.asks : book.bids;
+  const { limitPrice, quoteSize } = options;
+
+  let remaining = quantity;
+  let size = 0;
+  let notional = 0;
+  for (const [p, s] of levels) {
+    const price = parseFloat(p);
+    if (limitPrice !== undefined && (side === 'buy' ? price > limitPrice : price < limitPrice)) break;
+    const available = parseFloat(s);
+    const take = quoteSize ? Math.min(available, remaining / price) : Math.min(available, remaining);
+    size += take;
+    notional += take * price;
+    remaining -= quoteSize ? take * price : take;
+    if (remaining <= 1e-12) break;
+  }
+
+  const avgPrice = size > 0 ? notional / size : undefined;
+  const direction = side === 'buy' ? 1 : -1;
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    size,
+    notional,
+    avgPrice,
+    slippageBps: avgPrice !== undefined && mid > 0 ? ((avgPrice - mid) / mid) * 10000 * direction : undefined,
+    marketable: size > 0,
+    fullyCovered: remaining <= 1e-12,
+  };
+}
+
+/**
+ * Where a TP/SL trigger sits relative to the last price. Profit triggers belong above the
+ * price for longs and below for shorts, loss triggers the other way round.
+ */
+export function checkTrigger(planType: string, holdSide: 'long' | 'short', triggerPrice: number, lastPrice: number): TriggerCheck {
+  const isProfit = /profit/.test(planType);
+  const above = isProfit === (holdSide === 'long');
+  const alreadyCrossed = /profit|loss/.test(planType) && (above ? triggerPrice <= lastPrice : triggerPrice >= lastPrice);
+  return {
+    planType,
+    holdSide,
+    triggerPrice,
+    lastPrice,
+    distancePct: ((triggerPrice - lastPrice) / lastPrice) * 100,
+    alreadyCrossed,
+  };
+}
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
 import fetch from 'node-fetch';
 import fs from 'fs';
 import path from 'path';
@@ -17,11 +18,83 @@ import {
   BitgetNetworkError,
   BitgetRateLimitError,
   BitgetAuthenticationError,
+  BitgetValidationError,
+  ContractSpec,
+  DryRunAck,
+  DryRunRequest,
+  Fill,
+  PlanOrder,
+  PositionMode,
+  SpotMarginType,
+  MarginOrderParams,
+  MarginAsset,
+  MarginBorrowable,
+  MarginInterest,
   RetryConfig
 } from '../types/bitget.js';
 import { logger } from '../utils/logger.js';
-import { retryManager, RetryManager } from '../utils/retry.js';
+import { retryManager, RetryManager, RetryOptions } from '../utils/retry.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { generateClientOid } from '../utils/client-oid.js';
+import { BitgetSymbol, defaultMarginCoin, FUTURES_PRODUCT_TYPES, parseSymbol, ProductType } from '../utils/symbols.js';
+import { ContractSpecService, SpecMarket } from './contract-specs.js';
+import { mapFuturesFill, mapFuturesOrder, mapFuturesPosition, mapMarginAsset, mapMarginInterest, mapPlanOrder, mapSpotOrder } from './mappers.js';
 import { priceCache, tickerCache, orderbookCache, candlesCache, balanceCache, positionsCache } from '../utils/cache.js';
+import { PaperTradingEngine } from '../paper/paper-engine.js';
+import { CandleStore, CandleSeriesKey } from '../store/candle-store.js';
+import { intervalToMs } from '../utils/intervals.js';
+
+// Bitget page caps: /market/candles returns up to 1000 bars, /market/history-candles up to 200
+const CANDLES_PAGE_LIMIT = 1000;
+const HISTORY_PAGE_LIMIT = 200;
+const HISTORY_PAGE_DELAY_MS = 150; // Keeps deep history pulls well under the market-data rate limit
+const MARGIN_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000; // Margin order and interest queries require a startTime
+const FILL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const MAX_FILL_PAGES = 10;
+
+/**
+ * In-memory order books (e.g. OrderBookManager) consulted before REST depth
+ */
+export interface LiveOrderBookSource {
+  getBook(symbol: string, depth: number): OrderBook | null;
+}
+
+export interface RequestOptions<T> {
+  reconcile?: RetryOptions<APIResponse<T>>['reconcile'];   // Recover a POST whose outcome is unknown
+}
+
+/**
+ * TP/SL holdSide in the form the position mode expects: long/short in hedge mode,
+ * buy/sell in one-way mode
+ */
+function holdSideFor(mode: PositionMode, holdSide: 'long' | 'short' | 'buy' | 'sell'): string {
+  const long = holdSide === 'long' || holdSide === 'buy';
+  if (mode === 'hedge_mode') return long ? 'long' : 'short';
+  return long ? 'buy' : 'sell';
+}
+
+/**
+ * Transport failures, 5xx responses and Bitget 5xxxx system errors
+ */
+function isOutage(error: Error): boolean {
+  if (error instanceof BitgetNetworkError) return error.status === undefined || error.status >= 500;
+  if (error instanceof BitgetAPIError) return error.code.startsWith('5');
+  return false;
+}
+
+/**
+ * Success response for a write captured by a dry run. Every write endpoint is answered with
+ * a DryRunAck whatever the caller's T, so this is the single place that shape is asserted.
+ */
+function dryRunResponse<T>(ack: DryRunAck): APIResponse<T> {
+  return { code: '00000', msg: 'dry run', requestTime: Date.now(), data: ack as unknown as T };
+}
+
+export interface CandleRange {
+  startTime?: number;
+  endTime?: number;
+}
 
 export class BitgetRestClient {
   // ...existing code...
@@ -40,27 +113,71 @@ export class BitgetRestClient {
   /**
    * Fetch all available USDT-margined futures contracts
    */
-  async getUsdtFuturesContracts(): Promise<any[]> {
-    const response = await this.request<any>('GET', '/api/v2/mix/market/contracts', {
-      productType: 'USDT-FUTURES'
-    });
-    return response.data || [];
+  async getUsdtFuturesContracts(): Promise<ContractSpec[]> {
+    return this.contractSpecs.list('futures');
   }
   private config: BitgetConfig;
-  private rateLimitRequests: number = 0;
-  private rateLimitWindow: number = Date.now();
+  private rateLimiter: RateLimiter;
+  private circuitBreaker: CircuitBreaker;
+  private contractSpecs: ContractSpecService;
   private retryManager: RetryManager;
+  private paper?: PaperTradingEngine;
+  private candleStore?: CandleStore;
+  private liveOrderBooks?: LiveOrderBookSource;
+  private positionModes = new Map<ProductType, PositionMode>();
+  private dryRunCapture = new AsyncLocalStorage<DryRunRequest[]>();
 
   constructor(config: BitgetConfig, retryConfig?: Partial<RetryConfig>) {
     this.config = config;
     this.retryManager = new RetryManager(retryConfig);
+    this.rateLimiter = new RateLimiter();
+    this.circuitBreaker = new CircuitBreaker();
+    this.contractSpecs = new ContractSpecService(market => this.fetchContractSpecs(market), { mode: config.orderPrecision });
+
+    if (config.executionMode === 'paper') {
+      // Orders/positions are simulated locally; market data still comes from the exchange
+      this.paper = new PaperTradingEngine({
+        getTicker: (symbol, futures) => this.getTicker(futures ? parseSymbol(symbol, 'usdt-futures').display : symbol),
+        getFundingRate: async (symbol) => {
+          const data = await this.getCurrentFundingRate(symbol);
+          const row = Array.isArray(data) ? data[0] : data;
+          return parseFloat(row?.fundingRate || '0');
+        },
+      }, config.paper);
+    }
+
+    if (config.candleStoreDir) {
+      this.candleStore = new CandleStore(config.candleStoreDir);
+    }
     
     logger.info('BitgetRestClient initialized', {
       sandbox: config.sandbox,
-      baseUrl: config.baseUrl
+      baseUrl: config.baseUrl,
+      executionMode: config.executionMode || 'live'
     });
   }
 
+  /**
+   * Whether orders are routed to the local paper-trading simulator
+   */
+  isPaperTrading(): boolean {
+    return !!this.paper;
+  }
+
+  /**
+   * Paper-trading simulator, when executionMode is 'paper'
+   */
+  getPaperEngine(): PaperTradingEngine | undefined {
+    return this.paper;
+  }
+
+  /**
+   * Serve getOrderBook from live WebSocket books when one is synced for the symbol
+   */
+  useLiveOrderBooks(source: LiveOrderBookSource): void {
+    this.liveOrderBooks = source;
+  }
+
   /**
    * Validate API credentials by making a test request
    */
@@ -84,17 +201,47 @@ export class BitgetRestClient {
   }
   
   /**
-   * Helper to determine if symbol is for futures (contains _UMCBL)
+   * Helper to determine if symbol is for futures (market suffix, ccxt settle currency or USD/PERP quote)
    */
   private isFuturesSymbol(symbol: string): boolean {
-    return symbol.includes('_UMCBL') || symbol.includes('_');
+    return parseSymbol(symbol).market !== 'spot';
   }
 
   /**
    * Helper to determine if params are for futures
    */
   private isFuturesParams(params: OrderParams): boolean {
-    return !!(params.marginCoin || params.marginMode || (params.symbol && (params.symbol.includes('_UMCBL') || params.symbol.includes('_'))));
+    return !!(params.marginCoin || params.marginMode || (params.symbol && this.isFuturesSymbol(params.symbol)));
+  }
+
+  /**
+   * v2 mix symbol and productType for any accepted form (BTCUSDT, BTCUSDT_UMCBL, BTC/USDT:USDT);
+   * plain symbols default to USDT-M
+   */
+  private futuresInstrument(symbol: string): { symbol: string; productType: ProductType } {
+    const parsed = this.parseFuturesSymbol(symbol);
+    return { symbol: parsed.symbol, productType: parsed.productType! };
+  }
+
+  /**
+   * symbol, productType and marginCoin for futures POST bodies. Without a symbol the call
+   * covers the whole product type (coin-margined has no single margin coin, so none is sent).
+   */
+  private futuresScope(symbol?: string, productType: ProductType = 'USDT-FUTURES'): { symbol?: string; productType: ProductType; marginCoin?: string } {
+    if (!symbol) {
+      const marginCoin = defaultMarginCoin(productType);
+      return marginCoin ? { productType, marginCoin } : { productType };
+    }
+    const parsed = this.parseFuturesSymbol(symbol);
+    return { symbol: parsed.symbol, productType: parsed.productType!, marginCoin: parsed.marginCoin };
+  }
+
+  private parseFuturesSymbol(symbol: string): BitgetSymbol {
+    const parsed = parseSymbol(symbol, 'usdt-futures');
+    if (!parsed.productType) {
+      throw new BitgetValidationError(`${symbol} is a spot symbol, expected a futures contract`);
+    }
+    return parsed;
   }
 
   /**
@@ -163,24 +310,34 @@ export class BitgetRestClient {
   }
 
   /**
-   * Rate limiting check
+   * Per-endpoint rate limiter shared by every request from this client
    */
-  private checkRateLimit(): void {
-    const now = Date.now();
-    if (now - this.rateLimitWindow > 1000) {
-      this.rateLimitWindow = now;
-      this.rateLimitRequests = 0;
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Per endpoint-group circuit breaker (fails fast while Bitget is unreachable)
+   */
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Run `fn` without sending any write. Reads still go to Bitget; each POST is recorded with
+   * the exact body it would have carried and answered with a synthetic success.
+   */
+  async dryRun<T>(fn: () => Promise<T>): Promise<{ result?: T; requests: DryRunRequest[]; error?: string }> {
+    if (this.paper) {
+      throw new BitgetValidationError('dryRun previews live Bitget requests and is not available in paper trading mode');
     }
-    
-    if (this.rateLimitRequests >= 10) {
-      logger.warn('Rate limit exceeded', { 
-        requests: this.rateLimitRequests,
-        window: this.rateLimitWindow 
-      });
-      throw new BitgetRateLimitError('Rate limit exceeded: 10 requests per second');
+    const requests: DryRunRequest[] = [];
+    try {
+      const result = await this.dryRunCapture.run(requests, fn);
+      return { result, requests };
+    } catch (error) {
+      return { requests, error: error instanceof Error ? error.message : String(error) };
     }
-    
-    this.rateLimitRequests++;
   }
 
   /**
@@ -190,13 +347,28 @@ export class BitgetRestClient {
     method: 'GET' | 'POST' | 'DELETE',
     endpoint: string,
     params: Record<string, any> = {},
-    isPrivate: boolean = false
+    isPrivate: boolean = false,
+    options: RequestOptions<T> = {}
   ): Promise<APIResponse<T>> {
+    const captured = this.dryRunCapture.getStore();
+    if (captured && method !== 'GET') {
+      captured.push({ method, endpoint, body: params });
+      return dryRunResponse<T>({ orderId: `dry-run-${captured.length}`, clientOid: params.clientOid });
+    }
+    if (this.config.readOnly && method !== 'GET') {
+      throw new BitgetValidationError(`${method} ${endpoint} refused: the client is read-only`);
+    }
+
     const requestId = Math.random().toString(36).substring(7);
     const context = `${method} ${endpoint}`;
+    // Reads and cancels can be resent freely; anything else only when provably not applied
+    const idempotent = method === 'GET' || /cancel/i.test(endpoint);
 
     return this.retryManager.execute(async () => {
-      this.checkRateLimit();
+      await this.rateLimiter.acquire(endpoint, { isPrivate });
+      // After the slot is held: a half-open check claims the probe, which only the
+      // recordSuccess/recordFailure below release, so nothing may throw in between
+      this.circuitBreaker.check(endpoint);
 
       const timestamp = Date.now().toString();
       let url = `${this.config.baseUrl}${endpoint}`;
@@ -255,7 +427,7 @@ export class BitgetRestClient {
 
         // Add a timeout to prevent hangs
         const controller = new AbortController();
-        const timeoutMs = 25000; // 25s timeout
+        const timeoutMs = this.config.requestTimeoutMs ?? 25000;
         const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
         const response = await fetch(url, {
@@ -278,7 +450,15 @@ export class BitgetRestClient {
             responseBody,
             parseErr: parseErr instanceof Error ? parseErr.message : parseErr
           });
-          throw new BitgetNetworkError(`Failed to parse Bitget API response: ${responseBody}`);
+          throw new BitgetNetworkError(`Failed to parse Bitget API response: ${responseBody}`, undefined, response.status);
+        }
+
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+        const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+
+        if (response.status === 429 || data.code === '40014') {
+          this.rateLimiter.penalize(endpoint, { isPrivate, retryAfterMs });
+          throw new BitgetRateLimitError(`Rate limit exceeded (${data.code || response.status}): ${data.msg || response.statusText}`, retryAfterMs);
         }
 
         if (!response.ok) {
@@ -288,7 +468,7 @@ export class BitgetRestClient {
             statusText: response.statusText,
             responseBody
           });
-          throw new BitgetNetworkError(`HTTP ${response.status}: ${response.statusText} - ${responseBody}`);
+          throw new BitgetNetworkError(`HTTP ${response.status}: ${response.statusText} - ${responseBody}`, undefined, response.status, retryAfterMs);
         }
 
         logger.debug('Received API response', {
@@ -310,13 +490,12 @@ export class BitgetRestClient {
           // Classify errors
           if (errorCode === '40009') {
             throw new BitgetAuthenticationError(`Authentication failed: ${errorMessage}`);
-          } else if (errorCode === '40014') {
-            throw new BitgetRateLimitError(`Rate limit exceeded: ${errorMessage}`);
           } else {
             throw new BitgetAPIError(errorCode, errorMessage, requestId, endpoint);
           }
         }
 
+        this.circuitBreaker.recordSuccess(endpoint);
         return data;
       } catch (error: any) {
         logger.error('API request failed', {
@@ -327,18 +506,23 @@ export class BitgetRestClient {
           errorType: error.constructor.name
         });
 
-        // Re-throw custom errors as-is
-        if (error instanceof BitgetAPIError || 
+        // Re-throw custom errors as-is, wrap other errors as network errors
+        const failure = error instanceof BitgetAPIError || 
             error instanceof BitgetNetworkError || 
             error instanceof BitgetRateLimitError || 
-            error instanceof BitgetAuthenticationError) {
-          throw error;
-        }
+            error instanceof BitgetAuthenticationError
+          ? error
+          : new BitgetNetworkError(`Network error: ${error.message}`, error);
 
-        // Wrap other errors as network errors
-        throw new BitgetNetworkError(`Network error: ${error.message}`, error);
+        // Only outages count against the circuit; an answered request proves the exchange is up
+        if (isOutage(failure)) {
+          this.circuitBreaker.recordFailure(endpoint, failure);
+        } else {
+          this.circuitBreaker.recordSuccess(endpoint);
+        }
+        throw failure;
       }
-    }, context);
+    }, context, { idempotent, reconcile: options.reconcile });
   }
 
   // ========== PUBLIC MARKET DATA METHODS ==========
@@ -361,12 +545,8 @@ export class BitgetRestClient {
       logger.info('getPrice called', { symbol });
       
       if (this.isFuturesSymbol(symbol)) {
-        // Futures ticker (v2 API requires symbol without _UMCBL and productType)
-        const cleanSymbol = symbol.replace('_UMCBL', '');
-        const response = await this.request<any>('GET', '/api/v2/mix/market/ticker', { 
-          symbol: cleanSymbol,
-          productType: 'USDT-FUTURES'
-        });
+        // Futures ticker (v2 API requires the bare symbol and productType)
+        const response = await this.request<any>('GET', '/api/v2/mix/market/ticker', this.futuresInstrument(symbol));
         
         // v2 API returns data as array: [{symbol, lastPr, bidPr, askPr, ...}]
         const tickerArray = Array.isArray(response.data) ? response.data : [response.data];
@@ -383,7 +563,7 @@ export class BitgetRestClient {
         if (response.data && Array.isArray(response.data)) {
           const ticker = response.data.find((t: any) => t.symbol === symbol);
           if (ticker) {
-            price = ticker.close;
+            price = ticker.lastPr;
           } else {
             throw new Error(`Price not found for symbol: ${symbol}`);
           }
@@ -427,12 +607,9 @@ export class BitgetRestClient {
     };
     
     if (this.isFuturesSymbol(symbol)) {
-      // Futures ticker (v2 API requires symbol without _UMCBL and productType)
-      const cleanSymbol = symbol.replace('_UMCBL', '');
-      const response = await this.request<any>('GET', '/api/v2/mix/market/ticker', {
-        symbol: cleanSymbol,
-        productType: 'USDT-FUTURES'
-      });
+      // Futures ticker (v2 API requires the bare symbol and productType)
+      const instrument = this.futuresInstrument(symbol);
+      const response = await this.request<any>('GET', '/api/v2/mix/market/ticker', instrument);
       // v2 API returns data as array: [{symbol, lastPr, bidPr, askPr, ...}]
       const tickerArray = Array.isArray(response.data) ? response.data : [response.data];
       const tickerData = tickerArray[0];
@@ -440,7 +617,7 @@ export class BitgetRestClient {
         const lastPrice = tickerData.lastPr || tickerData.last;
         const openPrice = tickerData.openUtc || tickerData.open24h || lastPrice;
         ticker = {
-          symbol: tickerData.symbol || cleanSymbol,
+          symbol: tickerData.symbol || instrument.symbol,
           last: lastPrice,
           bid: tickerData.bidPr || tickerData.bestBid || '',
           ask: tickerData.askPr || tickerData.bestAsk || '',
@@ -460,16 +637,17 @@ export class BitgetRestClient {
       if (response.data && Array.isArray(response.data)) {
         const tickerData = response.data.find((t: any) => t.symbol === symbol);
         if (tickerData) {
+          const openPrice = tickerData.open || tickerData.lastPr;
           ticker = {
             symbol: tickerData.symbol,
-            last: tickerData.close,
-            bid: tickerData.buyOne,
-            ask: tickerData.sellOne,
+            last: tickerData.lastPr,
+            bid: tickerData.bidPr,
+            ask: tickerData.askPr,
             high24h: tickerData.high24h,
             low24h: tickerData.low24h,
-            volume24h: tickerData.baseVol,
-            change24h: tickerData.change,
-            changePercent24h: tickerData.changePercent,
+            volume24h: tickerData.baseVolume,
+            change24h: (parseFloat(tickerData.lastPr) - parseFloat(openPrice)).toString(),
+            changePercent24h: tickerData.change24h,
             timestamp: parseInt(tickerData.ts) || Date.now()
           };
         } else {
@@ -489,6 +667,11 @@ export class BitgetRestClient {
    * Get order book
    */
   async getOrderBook(symbol: string, depth: number = 20): Promise<OrderBook> {
+    const live = this.liveOrderBooks?.getBook(symbol, depth);
+    if (live) {
+      return live;
+    }
+
     const cacheKey = `orderbook:${symbol}:${depth}`;
     
     // Try cache first
@@ -505,11 +688,9 @@ export class BitgetRestClient {
     };
     
     if (this.isFuturesSymbol(symbol)) {
-      // Futures orderbook (v2 API requires symbol without _UMCBL and productType)
-      const cleanSymbol = symbol.replace('_UMCBL', '');
+      // Futures orderbook (v2 API requires the bare symbol and productType)
       const response = await this.request<any>('GET', '/api/v2/mix/market/depth', { 
-        symbol: cleanSymbol,
-        productType: 'USDT-FUTURES',
+        ...this.futuresInstrument(symbol),
         limit: depth.toString()
       });
       
@@ -541,55 +722,155 @@ export class BitgetRestClient {
   }
 
   /**
-   * Get historical candles/klines
+   * Get candlestick data (oldest first).
+   * Returns the latest `limit` bars, optionally bounded by startTime/endTime (ms).
+   * With a candle store configured, stored bars are served first and only the missing
+   * tail (and any older bars not yet stored) are fetched; closed bars are persisted.
    */
-  async getCandles(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
-    if (this.isFuturesSymbol(symbol)) {
-      // Futures candles - use v2 API with productType
-      // Remove _UMCBL suffix if present for v2 API
-      const cleanSymbol = symbol.replace('_UMCBL', '');
-      const response = await this.request<string[][]>('GET', '/api/v2/mix/market/candles', {
-        productType: 'USDT-FUTURES',
-        symbol: cleanSymbol,
-        granularity: this.formatIntervalForFuturesAPI(interval), // Format interval for futures API
-        limit: limit.toString()
-      });
+  async getCandles(symbol: string, interval: string, limit: number = 100, range: CandleRange = {}): Promise<Candle[]> {
+    const barMs = /^\d+M$/.test(interval) ? null : intervalToMs(interval); // 1M is a month, not a minute
+    if (!this.candleStore || !barMs) {
+      return this.fetchCandles(symbol, interval, limit, range);
+    }
+    return this.getStoredCandles(this.candleSeriesKey(symbol, interval), barMs, symbol, interval, limit, range);
+  }
 
-      if (!response.data || response.data.length === 0) {
-        return [];
-      }
+  private async getStoredCandles(
+    key: CandleSeriesKey,
+    barMs: number,
+    symbol: string,
+    interval: string,
+    limit: number,
+    range: CandleRange
+  ): Promise<Candle[]> {
+    const store = this.candleStore!;
+    const { startTime, endTime } = range;
+    const inRange = (c: Candle) => (startTime === undefined || c.timestamp >= startTime) && (endTime === undefined || c.timestamp <= endTime);
+    const fetched: Candle[] = [];
+    let stored = store.read(key);
 
-      return response.data.map(candle => ({
-        symbol: symbol, // Keep original symbol format
-        timestamp: parseInt(candle[0]),
-        open: candle[1],
-        high: candle[2],
-        low: candle[3],
-        close: candle[4],
-        volume: candle[5]
-      }));
-    } else {
-      // Spot candles
-      const response = await this.request<string[][]>('GET', '/api/v2/spot/market/candles', {
-        symbol,
-        granularity: this.formatIntervalForSpotAPI(interval), // Format interval for spot API
-        limit: limit.toString()
-      });
+    try {
+      // Tail: everything since the last stored bar (re-fetching it keeps the series gap-free)
+      const last = stored.length ? stored[stored.length - 1].timestamp : undefined;
+      if (last !== undefined && (endTime === undefined || endTime > last)) {
+        const missing = Math.ceil(((endTime ?? Date.now()) - last) / barMs) + 1;
+        if (missing > limit) {
+          // Too far behind to top up within this call: start the series over from the latest
+          // bars instead of paging through the whole gap or leaving a hole in the file
+          store.delete(key);
+          stored = [];
+        } else {
+          fetched.push(...await this.fetchCandles(symbol, interval, missing, { startTime: last, endTime }));
+        }
+      }
 
-      if (!response.data || response.data.length === 0) {
-        return [];
+      // Depth: older bars, fetched back-to-back from the first stored one
+      const have = new Set([...stored, ...fetched].filter(inRange).map(c => c.timestamp)).size;
+      const first = stored.length ? stored[0].timestamp : undefined;
+      if (have < limit && (first === undefined || startTime === undefined || first > startTime)) {
+        if (first === undefined) {
+          fetched.push(...await this.fetchCandles(symbol, interval, limit, range));
+        } else {
+          const gap = endTime !== undefined && endTime < first ? Math.ceil((first - endTime) / barMs) : 0;
+          fetched.push(...await this.fetchCandles(symbol, interval, limit - have + gap, { startTime, endTime: first - 1 }));
+        }
       }
+    } catch (error: any) {
+      if (!stored.some(inRange)) throw error;
+      logger.warn('Candle top-up failed, serving stored bars', { symbol, interval, error: error.message });
+    }
 
-      return response.data.map(candle => ({
-        symbol,
-        timestamp: parseInt(candle[0]),
-        open: candle[1],
-        high: candle[2],
-        low: candle[3],
-        close: candle[4],
-        volume: candle[5]
-      }));
+    const now = Date.now();
+    if (store.write(key, fetched.filter(c => c.timestamp + barMs <= now)) > 0) {
+      stored = store.read(key);
+    }
+
+    const byTimestamp = new Map<number, Candle>();
+    [...stored, ...fetched].forEach(c => byTimestamp.set(c.timestamp, { ...c, symbol }));
+    return [...byTimestamp.values()]
+      .filter(inRange)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-limit);
+  }
+
+  private candleSeriesKey(symbol: string, interval: string): CandleSeriesKey {
+    return this.isFuturesSymbol(symbol)
+      ? { ...this.futuresInstrument(symbol), granularity: this.formatIntervalForFuturesAPI(interval) }
+      : { productType: 'SPOT', symbol, granularity: this.formatIntervalForSpotAPI(interval) };
+  }
+
+  /**
+   * Candles straight from the exchange. Requests beyond one page (or reaching back to
+   * startTime) page backwards through the history-candles endpoint, deduplicating bars by timestamp.
+   */
+  private async fetchCandles(symbol: string, interval: string, limit: number, range: CandleRange): Promise<Candle[]> {
+    const { startTime, endTime } = range;
+    const byTimestamp = new Map<number, Candle>();
+    const add = (page: Candle[]) => page.forEach(c => byTimestamp.set(c.timestamp, c));
+
+    const firstPage = await this.fetchCandlePage(symbol, interval, 'candles', Math.min(limit, CANDLES_PAGE_LIMIT), endTime);
+    add(firstPage);
+
+    // The recent endpoint only keeps a limited window, so an old endTime may come back empty
+    let oldest = firstPage.length ? Math.min(...firstPage.map(c => c.timestamp)) : endTime !== undefined ? endTime + 1 : undefined;
+    const needsMore = () => byTimestamp.size < limit && (startTime === undefined || oldest! > startTime);
+    const maxPages = Math.ceil(limit / HISTORY_PAGE_LIMIT) + 1;
+
+    for (let page = 0; oldest !== undefined && needsMore() && page < maxPages; page++) {
+      await new Promise(resolve => setTimeout(resolve, HISTORY_PAGE_DELAY_MS));
+      const older = await this.fetchCandlePage(symbol, interval, 'history-candles', HISTORY_PAGE_LIMIT, oldest - 1);
+      const before = byTimestamp.size;
+      add(older);
+      if (older.length === 0 || byTimestamp.size === before) break;
+      oldest = Math.min(oldest, ...older.map(c => c.timestamp));
+    }
+
+    return [...byTimestamp.values()]
+      .filter(c => (startTime === undefined || c.timestamp >= startTime) && (endTime === undefined || c.timestamp <= endTime))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-limit);
+  }
+
+  /**
+   * One page from the spot or futures candles / history-candles endpoint
+   */
+  private async fetchCandlePage(
+    symbol: string,
+    interval: string,
+    endpoint: 'candles' | 'history-candles',
+    limit: number,
+    endTime?: number
+  ): Promise<Candle[]> {
+    const futures = this.isFuturesSymbol(symbol);
+    const params: any = futures
+      ? {
+          ...this.futuresInstrument(symbol), // v2 API takes the bare symbol
+          granularity: this.formatIntervalForFuturesAPI(interval),
+          limit: limit.toString(),
+        }
+      : {
+          symbol,
+          granularity: this.formatIntervalForSpotAPI(interval),
+          limit: limit.toString(),
+        };
+    if (endTime !== undefined) params.endTime = endTime.toString();
+
+    const path = futures ? `/api/v2/mix/market/${endpoint}` : `/api/v2/spot/market/${endpoint}`;
+    const response = await this.request<string[][]>('GET', path, params);
+
+    if (!response.data || response.data.length === 0) {
+      return [];
     }
+
+    return response.data.map(candle => ({
+      symbol, // Keep original symbol format
+      timestamp: parseInt(candle[0]),
+      open: candle[1],
+      high: candle[2],
+      low: candle[3],
+      close: candle[4],
+      volume: candle[5]
+    }));
   }
 
   // ========== PRIVATE TRADING METHODS ==========
@@ -598,6 +879,8 @@ export class BitgetRestClient {
    * Get account balance
    */
   async getBalance(asset?: string): Promise<Balance[]> {
+    if (this.paper) return this.paper.getBalance(asset);
+
     const response = await this.request<any>('GET', '/api/v2/spot/account/assets', {}, true);
     
     const balances = response.data.map((item: any) => ({
@@ -618,6 +901,9 @@ export class BitgetRestClient {
    * Place a new order (automatically detects spot vs futures)
    */
   async placeOrder(params: OrderParams): Promise<Order> {
+    if (this.paper) {
+      return this.paper.placeOrder(params, this.isFuturesParams(params) ? 'futures' : 'spot');
+    }
     if (this.isFuturesParams(params)) {
       return this.placeFuturesOrder(params);
     } else {
@@ -629,15 +915,22 @@ export class BitgetRestClient {
    * Place a spot order
    */
   private async placeSpotOrder(params: OrderParams): Promise<Order> {
+    // Market buys are sized in the quote coin
+    const { size, prices } = await this.contractSpecs.prepareOrder(params.symbol, 'spot', {
+      size: params.quantity,
+      prices: { price: params.type === 'limit' ? params.price : undefined },
+      quoteSize: params.type === 'market' && params.side === 'buy',
+    });
+
     const orderData: any = {
       symbol: params.symbol,
       side: params.side,
       orderType: params.type,
-      size: params.quantity,  // v2 API uses 'size' instead of 'quantity'
+      size,  // v2 API uses 'size' instead of 'quantity'
     };
 
-    if (params.type === 'limit' && params.price) {
-      orderData.price = params.price;
+    if (params.type === 'limit' && prices.price) {
+      orderData.price = prices.price;
     }
 
     if (params.timeInForce) {
@@ -646,11 +939,14 @@ export class BitgetRestClient {
       orderData.force = 'GTC';  // Default to GTC for limit orders
     }
 
-    if (params.clientOrderId) {
-      orderData.clientOid = params.clientOrderId;
-    }
+    orderData.clientOid = params.clientOrderId || generateClientOid('spot-order', orderData);
 
-    const response = await this.request<any>('POST', '/api/v2/spot/trade/place-order', orderData, true);
+    const response = await this.request<any>('POST', '/api/v2/spot/trade/place-order', orderData, true, {
+      reconcile: () => this.reconcileOrder(orderData.clientOid, async () => {
+        const found = await this.request<any[]>('GET', '/api/v2/spot/trade/orderInfo', { clientOid: orderData.clientOid }, true);
+        return found.data?.[0];
+      }),
+    });
 
     return {
       orderId: response.data.orderId,
@@ -658,11 +954,11 @@ export class BitgetRestClient {
       symbol: params.symbol,
       side: params.side,
       type: params.type,
-      quantity: params.quantity,
-      price: params.price,
+      quantity: orderData.size,
+      price: orderData.price,
       status: 'open',
       filled: '0',
-      remaining: params.quantity,
+      remaining: orderData.size,
       timestamp: Date.now(),
       updateTime: Date.now()
     };
@@ -672,35 +968,28 @@ export class BitgetRestClient {
    * Place a futures order
    */
   private async placeFuturesOrder(params: OrderParams): Promise<Order> {
-    // In sandbox, do NOT append _UMCBL; use the base symbol as-is
-    let symbol = params.symbol;
-    if (this.config.sandbox) {
-      // Use the symbol as provided (e.g., BTCUSDT)
-    } else {
-      // In production, append _UMCBL if not present
-      if (!symbol.endsWith('_UMCBL')) {
-        symbol = symbol + '_UMCBL';
-      }
-    }
-
-    // For v2 mix endpoints, symbol should be the base symbol (no _UMCBL)
-    const cleanSymbol = symbol.replace('_UMCBL', '');
+    // v2 mix endpoints take the bare symbol plus productType
+    const { symbol: cleanSymbol, productType, marginCoin } = this.parseFuturesSymbol(params.symbol);
+    const { size, prices } = await this.contractSpecs.prepareOrder(cleanSymbol, 'futures', {
+      size: params.quantity,
+      prices: { price: params.type === 'limit' ? params.price : undefined },
+    });
 
     const orderData: any = {
       symbol: cleanSymbol,
-      productType: 'USDT-FUTURES',
-      marginCoin: params.marginCoin || 'USDT',
+      productType,
+      marginCoin: params.marginCoin || marginCoin,
       side: params.side,
       orderType: params.type,
-      size: params.quantity,  // For futures, this is in contracts
+      size,  // For futures, this is in contracts
     };
     // Only include marginMode if explicitly provided; avoid implicit account mode change errors
     if (params.marginMode) {
       orderData.marginMode = params.marginMode;
     }
 
-    if (params.type === 'limit' && params.price) {
-      orderData.price = params.price;
+    if (params.type === 'limit' && prices.price) {
+      orderData.price = prices.price;
     }
 
     if (params.timeInForce) {
@@ -709,26 +998,32 @@ export class BitgetRestClient {
       orderData.timeInForceValue = 'GTC';  // v2 API uses 'GTC'
     }
 
-    if (params.clientOrderId) {
-      orderData.clientOid = params.clientOrderId;
+    const closing = params.tradeSide ? params.tradeSide === 'close' : params.reduceOnly === true;
+    if (await this.positionModeFor(productType!) === 'hedge_mode') {
+      // Hedge mode: tradeSide picks open/close, and a close names the side being closed
+      // (buy + close closes a long), so the trade direction is flipped
+      orderData.tradeSide = closing ? 'close' : 'open';
+      if (closing) orderData.side = params.side === 'buy' ? 'sell' : 'buy';
+    } else if (closing) {
+      // One-way mode ignores tradeSide; reduceOnly keeps a close from flipping the position
+      orderData.reduceOnly = 'YES';
     }
 
-    // Unilateral position mode support: tradeSide 'open' | 'close'
-    if (params.tradeSide) {
-      orderData.tradeSide = params.tradeSide;
-      // Do not include reduceOnly; tradeSide governs close/open semantics in v2
-    } else if (params.reduceOnly === true) {
-      orderData.tradeSide = 'close';
-      // Do not include reduceOnly
-    } else {
-      orderData.tradeSide = 'open';
-      // Do not include reduceOnly
-    }
+    orderData.clientOid = params.clientOrderId || generateClientOid('futures-order', orderData);
 
     console.error('Placing futures order with data:', JSON.stringify(orderData, null, 2));
     
     // Try v2 API endpoint
-    const response = await this.request<any>('POST', '/api/v2/mix/order/place-order', orderData, true);
+    const response = await this.request<any>('POST', '/api/v2/mix/order/place-order', orderData, true, {
+      reconcile: () => this.reconcileOrder(orderData.clientOid, async () => {
+        const found = await this.request<any>('GET', '/api/v2/mix/order/detail', {
+          symbol: cleanSymbol,
+          productType,
+          clientOid: orderData.clientOid,
+        }, true);
+        return found.data;
+      }),
+    });
 
     return {
       orderId: response.data.orderId,
@@ -736,11 +1031,11 @@ export class BitgetRestClient {
       symbol: params.symbol, // Return original symbol with suffix
       side: params.side,
       type: params.type,
-      quantity: params.quantity,
-      price: params.price,
+      quantity: orderData.size,
+      price: orderData.price,
       status: 'open',
       filled: '0',
-      remaining: params.quantity,
+      remaining: orderData.size,
       timestamp: Date.now(),
       updateTime: Date.now()
     };
@@ -749,13 +1044,10 @@ export class BitgetRestClient {
   /**
    * Set futures margin mode (isolated or crossed)
    */
-  async setMarginMode(marginMode: 'isolated' | 'crossed', symbol?: string): Promise<boolean> {
-    const payload: any = {
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
-      marginMode,
-    };
-    if (symbol) payload.symbol = symbol.replace('_UMCBL', '');
+  async setMarginMode(marginMode: 'isolated' | 'crossed', symbol?: string, productType?: ProductType): Promise<boolean> {
+    if (this.paper) return this.paper.setMarginMode(marginMode);
+
+    const payload: any = { ...this.futuresScope(symbol, productType), marginMode };
     const response = await this.request<any>('POST', '/api/v2/mix/account/set-margin-mode', payload, true);
     return response.code === '00000';
   }
@@ -763,12 +1055,20 @@ export class BitgetRestClient {
   /**
    * Close all positions for a futures symbol or all symbols if none provided
    */
-  async closeAllPositions(symbol?: string): Promise<boolean> {
-    const payload: any = {
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
-    };
-    if (symbol) payload.symbol = symbol.replace('_UMCBL', '');
+  async closeAllPositions(symbol?: string, productType?: ProductType, holdSide?: 'long' | 'short'): Promise<boolean> {
+    const payload: any = this.futuresScope(symbol, productType);
+    if (holdSide && (this.paper || await this.positionModeFor(payload.productType) === 'one_way_mode')) {
+      // One-way close-positions ignores holdSide, so close only the symbols held on that side
+      // (getFuturesPositions narrows all-position to the symbol when one is given)
+      const positions = await this.getFuturesPositions(symbol, payload.productType);
+      for (const position of positions.filter(p => p.side === holdSide)) {
+        await this.closeAllPositions(this.paper ? position.symbol : parseSymbol(position.symbol, 'usdt-futures').display, payload.productType);
+      }
+      return true;
+    }
+    if (this.paper) return this.paper.closeAllPositions(symbol);
+
+    if (holdSide) payload.holdSide = holdSide;
     try {
       const response = await this.request<any>('POST', '/api/v2/mix/order/close-positions', payload, true);
       return response.code === '00000';
@@ -786,7 +1086,7 @@ export class BitgetRestClient {
    * Get current funding rate for a futures symbol
    */
   async getCurrentFundingRate(symbol: string): Promise<any> {
-    const params: any = { symbol: symbol.replace('_UMCBL', '') };
+    const params: any = this.futuresInstrument(symbol);
     const response = await this.request<any>('GET', '/api/v2/mix/market/current-fund-rate', params, false);
     return response.data;
   }
@@ -795,23 +1095,49 @@ export class BitgetRestClient {
    * Get historical funding rates for a futures symbol
    */
   async getHistoricFundingRates(symbol: string): Promise<any[]> {
-    const params: any = { symbol: symbol.replace('_UMCBL', '') };
+    const params: any = this.futuresInstrument(symbol);
     const response = await this.request<any>('GET', '/api/v2/mix/market/history-fund-rate', params, false);
     return response.data || [];
   }
 
   /**
-   * List futures contracts configuration
+   * List futures contracts configuration, optionally for one product type
    */
-  async getFuturesContracts(): Promise<any[]> {
-    const response = await this.request<any>('GET', '/api/v2/mix/market/contracts', { productType: 'USDT-FUTURES' }, false);
-    return response.data || [];
+  async getFuturesContracts(productType?: ProductType): Promise<ContractSpec[]> {
+    const specs = await this.contractSpecs.list('futures');
+    return productType ? specs.filter(spec => spec.productType === productType) : specs;
+  }
+
+  /**
+   * Cached precision and limits for a spot symbol or futures contract
+   */
+  async getContractSpec(symbol: string, market: SpecMarket = this.isFuturesSymbol(symbol) ? 'futures' : 'spot'): Promise<ContractSpec | null> {
+    return this.contractSpecs.get(symbol, market);
+  }
+
+  async getContractSpecs(market: SpecMarket): Promise<ContractSpec[]> {
+    return this.contractSpecs.list(market);
+  }
+
+  private async fetchContractSpecs(market: SpecMarket): Promise<any[]> {
+    if (market === 'spot') {
+      const response = await this.request<any[]>('GET', '/api/v2/spot/public/symbols', {});
+      return response.data || [];
+    }
+    // Contract symbols are distinct across product types (BTCUSDT, BTCUSD, BTCPERP), so one cache holds all three
+    const pages = await Promise.all(FUTURES_PRODUCT_TYPES.map(async productType => {
+      const response = await this.request<any[]>('GET', '/api/v2/mix/market/contracts', { productType });
+      return (response.data || []).map(row => ({ ...row, productType }));
+    }));
+    return pages.flat();
   }
 
   /**
    * Cancel an order (automatically detects spot vs futures)
    */
   async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
+    if (this.paper) return this.paper.cancelOrder(orderId, symbol);
+
     if (this.isFuturesSymbol(symbol)) {
       return this.cancelFuturesOrder(orderId, symbol);
     } else {
@@ -835,43 +1161,65 @@ export class BitgetRestClient {
    * Cancel a futures order
    */
   private async cancelFuturesOrder(orderId: string, symbol: string): Promise<boolean> {
-    // Remove _UMCBL suffix for v1 API
-    const cleanSymbol = symbol.replace('_UMCBL', '');
-    
     const response = await this.request<any>('POST', '/api/v2/mix/order/cancel-order', {
       orderId,
-      symbol: cleanSymbol,
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT'
+      ...this.futuresScope(symbol),
     }, true);
 
     return response.code === '00000';
   }
 
   /**
-   * Modify TPSL (Take Profit / Stop Loss) for futures position or order
-   * Pass at least one of stopSurplusPrice (TP) or stopLossPrice (SL)
+   * Modify the position TP/SL for a futures symbol
+   * Pass at least one of stopSurplusPrice (TP) or stopLossPrice (SL). Existing pos_profit /
+   * pos_loss orders are moved by orderId; a side without one gets a new position TP/SL.
    */
   async modifyFuturesTPSL(
     symbol: string,
     options: { stopSurplusPrice?: string; stopLossPrice?: string }
   ): Promise<boolean> {
-    const cleanSymbol = symbol.replace('_UMCBL', '');
-    const payload: any = {
-      symbol: cleanSymbol,
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
-    };
-    if (options.stopSurplusPrice) payload.stopSurplusPrice = options.stopSurplusPrice;
-    if (options.stopLossPrice) payload.stopLossPrice = options.stopLossPrice;
+    if (this.paper) return this.paper.modifyTPSL(symbol, options);
 
-    if (!payload.stopSurplusPrice && !payload.stopLossPrice) {
-      throw new Error('modifyFuturesTPSL requires stopSurplusPrice or stopLossPrice');
+    if (!options.stopSurplusPrice && !options.stopLossPrice) {
+      throw new BitgetValidationError('modifyFuturesTPSL requires stopSurplusPrice or stopLossPrice');
     }
 
-    // Use v2 mix modify TPSL endpoint
-    const response = await this.request<any>('POST', '/api/v2/mix/order/modify-tpsl-order', payload, true);
-    return response.code === '00000';
+    const instrument = this.futuresInstrument(symbol);
+    const { prices } = await this.contractSpecs.prepareOrder(instrument.symbol, 'futures', {
+      prices: { stopSurplusPrice: options.stopSurplusPrice, stopLossPrice: options.stopLossPrice },
+    });
+    const legs: Array<['pos_profit' | 'pos_loss', string | undefined]> = [
+      ['pos_profit', prices.stopSurplusPrice],
+      ['pos_loss', prices.stopLossPrice],
+    ];
+
+    const [positions, plans] = await Promise.all([
+      this.getFuturesPositions(symbol),
+      this.getFuturesPlanOrders(symbol, 'profit_loss'),
+    ]);
+    if (positions.length === 0) {
+      throw new BitgetValidationError(`No open ${instrument.symbol} position to set TP/SL on`);
+    }
+
+    for (const position of positions) {
+      for (const [planType, triggerPrice] of legs) {
+        if (!triggerPrice) continue;
+        const existing = plans.find(p => p.planType === planType && p.holdSide === position.side);
+        if (existing) {
+          // v2 modifies a single TP/SL by orderId; position TP/SL carries an empty size
+          await this.request<any>('POST', '/api/v2/mix/order/modify-tpsl-order', {
+            ...this.futuresScope(symbol),
+            orderId: existing.orderId,
+            triggerPrice,
+            triggerType: existing.triggerType || 'mark_price',
+            size: '',
+          }, true);
+        } else {
+          await this.placeFuturesTPSL(symbol, { planType, triggerPrice, holdSide: position.side, size: position.size });
+        }
+      }
+    }
+    return true;
   }
 
   /**
@@ -891,22 +1239,30 @@ export class BitgetRestClient {
       marginMode?: 'isolated' | 'crossed';
     }
   ): Promise<boolean> {
-    const cleanSymbol = symbol.replace('_UMCBL', '');
+    if (this.paper) return this.paper.placePlan(symbol, options);
+
+    const { symbol: cleanSymbol, productType, marginCoin } = this.parseFuturesSymbol(symbol);
+    const { size, prices } = await this.contractSpecs.prepareOrder(cleanSymbol, 'futures', {
+      size: options.size || undefined,
+      prices: { triggerPrice: options.triggerPrice, executePrice: options.executePrice || undefined },
+    });
     const payload: any = {
       symbol: cleanSymbol,
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
+      productType,
+      marginCoin,
       planType: options.planType,
-      triggerPrice: options.triggerPrice,
+      triggerPrice: prices.triggerPrice,
       triggerType: options.triggerType || 'mark_price',
-      holdSide: options.holdSide,
-      size: options.size,
+      holdSide: holdSideFor(await this.positionModeFor(productType!), options.holdSide),
+      size: size ?? options.size,
     };
     if (options.marginMode) payload.marginMode = options.marginMode;
-    if (options.executePrice) payload.executePrice = options.executePrice;
-    if (options.clientOid) payload.clientOid = options.clientOid;
+    if (prices.executePrice) payload.executePrice = prices.executePrice;
+    payload.clientOid = options.clientOid || generateClientOid('tpsl', payload);
 
-    const response = await this.request<any>('POST', '/api/v2/mix/order/place-tpsl-order', payload, true);
+    const response = await this.request<any>('POST', '/api/v2/mix/order/place-tpsl-order', payload, true, {
+      reconcile: () => this.reconcileOrder(payload.clientOid, () => this.findPlanOrder(symbol, payload.clientOid)),
+    });
     return response.code === '00000';
   }
 
@@ -926,29 +1282,67 @@ export class BitgetRestClient {
       marginMode?: 'isolated' | 'crossed';
     }
   ): Promise<boolean> {
-    const cleanSymbol = symbol.replace('_UMCBL', '');
+    if (this.paper) return this.paper.placePlan(symbol, options);
+
+    const { symbol: cleanSymbol, productType, marginCoin } = this.parseFuturesSymbol(symbol);
+    const { size, prices } = await this.contractSpecs.prepareOrder(cleanSymbol, 'futures', {
+      size: options.size || undefined,
+      prices: { triggerPrice: options.triggerPrice, executePrice: options.executePrice || undefined },
+    });
     const payload: any = {
       symbol: cleanSymbol,
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
+      productType,
+      marginCoin,
       planType: options.planType,
-      triggerPrice: options.triggerPrice,
+      triggerPrice: prices.triggerPrice,
       triggerType: options.triggerType || 'mark_price',
-      holdSide: options.holdSide,
-      size: options.size,
+      holdSide: holdSideFor(await this.positionModeFor(productType!), options.holdSide),
+      size: size ?? options.size,
     };
     if (options.marginMode) payload.marginMode = options.marginMode;
-    if (options.executePrice) payload.executePrice = options.executePrice;
-    if (options.clientOid) payload.clientOid = options.clientOid;
+    if (prices.executePrice) payload.executePrice = prices.executePrice;
+    payload.clientOid = options.clientOid || generateClientOid('plan', payload);
 
-    const response = await this.request<any>('POST', '/api/v2/mix/order/place-plan-order', payload, true);
+    const response = await this.request<any>('POST', '/api/v2/mix/order/place-plan-order', payload, true, {
+      reconcile: () => this.reconcileOrder(payload.clientOid, () => this.findPlanOrder(symbol, payload.clientOid)),
+    });
     return response.code === '00000';
   }
 
+  /**
+   * Pending TP/SL or plan order with the given clientOid
+   */
+  private async findPlanOrder(symbol: string, clientOid: string): Promise<PlanOrder | undefined> {
+    const plans = await this.getFuturesPlanOrders(symbol, 'profit_loss');
+    return plans.find(p => p.clientOid === clientOid);
+  }
+
+  /**
+   * Settle an order placement whose outcome is unknown (timeout, reset, 5xx) by looking
+   * the order up by clientOid. Resolves with a success envelope when the order exists and
+   * undefined when Bitget confirms it does not, so the placement can be sent again.
+   */
+  private async reconcileOrder(clientOid: string, lookup: () => Promise<any>): Promise<APIResponse<any> | undefined> {
+    try {
+      const found = await lookup();
+      if (!found) return undefined;
+      logger.warn('Order placement outcome recovered by clientOid', { clientOid, orderId: found.orderId });
+      return { code: '00000', msg: 'reconciled', requestTime: Date.now(), data: { orderId: found.orderId, clientOid: found.clientOid ?? clientOid } };
+    } catch (error) {
+      // "Order not found" is a definitive answer (Bitget sends it as HTTP 400); outages leave the outcome unknown
+      if (error instanceof BitgetAPIError && !error.code.startsWith('5')) return undefined;
+      if (error instanceof BitgetNetworkError && error.status !== undefined && error.status >= 400 && error.status < 500) return undefined;
+      throw error;
+    }
+  }
+
   /**
    * Get open orders (supports both spot and futures)
    */
   async getOrders(symbol?: string, status?: string): Promise<Order[]> {
+    if (this.paper) {
+      return this.paper.getOrders(symbol, symbol && this.isFuturesSymbol(symbol) ? 'futures' : 'spot');
+    }
     if (symbol && this.isFuturesSymbol(symbol)) {
       return this.getFuturesOrders(symbol, status);
     } else {
@@ -964,50 +1358,20 @@ export class BitgetRestClient {
     if (symbol) params.symbol = symbol;
     
     const response = await this.request<any[]>('GET', '/api/v2/spot/trade/unfilled-orders', params, true);
-
-    return response.data.map(order => ({
-      orderId: order.orderId,
-      clientOrderId: order.clientOid,
-      symbol: order.symbol,
-      side: order.side,
-      type: order.orderType,
-      quantity: order.quantity,
-      price: order.price,
-      status: order.status,
-      filled: order.fillQuantity,
-      remaining: (parseFloat(order.quantity) - parseFloat(order.fillQuantity)).toString(),
-      timestamp: parseInt(order.cTime),
-      updateTime: parseInt(order.uTime)
-    }));
+    return (response.data || []).map(mapSpotOrder);
   }
 
   /**
-   * Get futures orders
+   * Get futures orders: open orders by default, order history for 'filled' / 'cancelled'
    */
-  private async getFuturesOrders(symbol?: string, status?: string): Promise<Order[]> {
-    const params: any = {};
-    
-    if (symbol) {
-      // Remove _UMCBL suffix for v1 API
-      params.symbol = symbol.replace('_UMCBL', '');
-    }
-
-    const response = await this.request<any[]>('GET', '/api/mix/v1/order/current', params, true);
-
-    return response.data.map(order => ({
-      orderId: order.orderId,
-      clientOrderId: order.clientOid,
-      symbol: symbol || `${order.symbol}_UMCBL`, // Add suffix back for consistency
-      side: order.side,
-      type: order.orderType,
-      quantity: order.size,
-      price: order.price,
-      status: order.state,
-      filled: order.fillSize,
-      remaining: (parseFloat(order.size) - parseFloat(order.fillSize || '0')).toString(),
-      timestamp: parseInt(order.cTime),
-      updateTime: parseInt(order.uTime)
-    }));
+  private async getFuturesOrders(symbol: string, status?: string): Promise<Order[]> {
+    const params: any = this.futuresInstrument(symbol);
+    const history = status === 'filled' || status === 'cancelled';
+    const endpoint = history ? '/api/v2/mix/order/orders-history' : '/api/v2/mix/order/orders-pending';
+
+    const response = await this.request<any>('GET', endpoint, params, true);
+    const orders = (response.data?.entrustedList || []).map((row: any) => mapFuturesOrder(row, params.productType));
+    return history ? orders.filter((o: Order) => o.status === status) : orders;
   }
 
   // ========== FUTURES METHODS ==========
@@ -1015,29 +1379,17 @@ export class BitgetRestClient {
   /**
    * Get futures positions
    */
-  async getFuturesPositions(symbol?: string): Promise<Position[]> {
+  async getFuturesPositions(symbol?: string, productType: ProductType = 'USDT-FUTURES'): Promise<Position[]> {
+    if (this.paper) return this.paper.getPositions(symbol);
+
     try {
-      const params: any = { productType: 'USDT-FUTURES' };
-      if (symbol) {
-        // Add _UMCBL suffix for futures if not present
-        params.symbol = symbol.includes('_') ? symbol : `${symbol}_UMCBL`;
-      }
+      // all-position takes no symbol and returns every position in the product type
+      const instrument = symbol ? this.futuresInstrument(symbol) : undefined;
+      const params: any = { productType: instrument?.productType ?? productType };
 
       const response = await this.request<any>('GET', '/api/v2/mix/position/all-position', params, true);
-
-      const positions = response.data || [];
-      return positions.map((position: any) => ({
-        symbol: position.symbol,
-        side: position.holdSide || (parseFloat(position.size || '0') > 0 ? 'long' : 'short'),
-        size: Math.abs(parseFloat(position.size || position.total || '0')).toString(),
-        entryPrice: position.averageOpenPrice || position.openPriceAvg,
-        markPrice: position.markPrice,
-        pnl: position.unrealizedPL || position.achievedProfits,
-        pnlPercent: position.unrealizedPLR || '0',
-        margin: position.margin || position.marginSize,
-        leverage: position.leverage,
-        timestamp: parseInt(position.cTime || Date.now().toString())
-      }));
+      const positions: Position[] = (response.data || []).map(mapFuturesPosition);
+      return instrument ? positions.filter(p => p.symbol === instrument.symbol) : positions;
     } catch (err) {
       logger.error('getFuturesPositions error', { error: err, symbol });
       throw err;
@@ -1048,13 +1400,10 @@ export class BitgetRestClient {
    * Set leverage for futures trading
    */
   async setLeverage(symbol: string, leverage: number): Promise<boolean> {
-    // Remove _UMCBL suffix for v2 API (like in candles)
-    const cleanSymbol = symbol.replace('_UMCBL', '');
-    
+    if (this.paper) return this.paper.setLeverage(symbol, leverage);
+
     const response = await this.request<any>('POST', '/api/v2/mix/account/set-leverage', {
-      symbol: cleanSymbol,
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',  // Required parameter!
+      ...this.futuresScope(symbol),  // marginCoin is required
       leverage: leverage.toString(),
       holdSide: 'long'
     }, true);
@@ -1063,15 +1412,48 @@ export class BitgetRestClient {
   }
 
   /**
-   * Get margin information
+   * Current position mode for a futures product type (refreshes the cached mode)
+   */
+  async getPositionMode(productType: ProductType = 'USDT-FUTURES'): Promise<PositionMode> {
+    if (this.paper) return 'one_way_mode';
+
+    const response = await this.request<any>('GET', '/api/v2/mix/account/accounts', { productType }, true);
+    const posMode: PositionMode = response.data?.[0]?.posMode === 'hedge_mode' ? 'hedge_mode' : 'one_way_mode';
+    this.positionModes.set(productType, posMode);
+    return posMode;
+  }
+
+  /**
+   * Switch between one-way and hedge (two-way) positions. Bitget refuses while the
+   * product type has open positions or orders.
    */
-  async getMarginInfo(symbol?: string): Promise<any> {
-    const params: any = { productType: 'USDT-FUTURES' };
-    if (symbol) {
-      // Add _UMCBL suffix for futures if not present
-      params.symbol = symbol.includes('_') ? symbol : `${symbol}_UMCBL`;
+  async setPositionMode(posMode: PositionMode, productType: ProductType = 'USDT-FUTURES'): Promise<boolean> {
+    if (this.paper) {
+      if (posMode === 'hedge_mode') throw new BitgetValidationError('Paper trading only supports one_way_mode');
+      return true;
     }
 
+    const response = await this.request<any>('POST', '/api/v2/mix/account/set-position-mode', { productType, posMode }, true);
+    this.positionModes.set(productType, posMode);
+    return response.code === '00000';
+  }
+
+  /**
+   * Cached position mode; orders, TP/SL and closes are shaped by it
+   */
+  private async positionModeFor(productType: ProductType): Promise<PositionMode> {
+    if (this.paper) return 'one_way_mode';
+    return this.positionModes.get(productType) ?? this.getPositionMode(productType);
+  }
+
+  /**
+   * Get margin information
+   */
+  async getMarginInfo(symbol?: string, productType: ProductType = 'USDT-FUTURES'): Promise<any> {
+    if (this.paper) return [await this.paper.getAccount()];
+
+    const params: any = symbol ? this.futuresInstrument(symbol) : { productType };
+
     const response = await this.request<any>('GET', '/api/v2/mix/account/accounts', params, true);
     return response.data;
   }
@@ -1079,27 +1461,29 @@ export class BitgetRestClient {
   /**
    * List pending futures plan orders (including TPSL)
    */
-  async getFuturesPlanOrders(symbol?: string, planType: 'normal_plan' | 'track_plan' | 'profit_loss' = 'profit_loss'): Promise<any[]> {
-    const params: any = {
-      productType: 'USDT-FUTURES',
-      planType,
-    };
-    if (symbol) params.symbol = symbol.replace('_UMCBL', '');
+  async getFuturesPlanOrders(
+    symbol?: string,
+    planType: 'normal_plan' | 'track_plan' | 'profit_loss' = 'profit_loss',
+    productType: ProductType = 'USDT-FUTURES'
+  ): Promise<PlanOrder[]> {
+    if (this.paper) return planType === 'profit_loss' ? (await this.paper.getPlanOrders(symbol)).map(mapPlanOrder) : [];
+
+    const params: any = { ...(symbol ? this.futuresInstrument(symbol) : { productType }), planType };
 
     const response = await this.request<any>('GET', '/api/v2/mix/order/orders-plan-pending', params, true);
-    return response.data?.entrustedList || [];
+    return (response.data?.entrustedList || []).map(mapPlanOrder);
   }
 
   /**
    * Cancel a futures plan order (by orderId or clientOid)
    */
   async cancelFuturesPlanOrder(options: { symbol?: string; orderId?: string; clientOid?: string; planType?: 'normal_plan' | 'track_plan' | 'profit_loss' }): Promise<boolean> {
+    if (this.paper) return this.paper.cancelPlan(options);
+
     const payload: any = {
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
+      ...this.futuresScope(options.symbol),
       planType: options.planType || 'profit_loss',
     };
-    if (options.symbol) payload.symbol = options.symbol.replace('_UMCBL', '');
     if (options.orderId) payload.orderIdList = [{ orderId: options.orderId }];
     if (options.clientOid) payload.orderIdList = [{ clientOid: options.clientOid }];
 
@@ -1107,15 +1491,24 @@ export class BitgetRestClient {
     return response.code === '00000';
   }
 
+  /**
+   * Open futures orders for a symbol, or for a whole product type
+   */
+  async getOpenFuturesOrders(symbol?: string, productType: ProductType = 'USDT-FUTURES'): Promise<Order[]> {
+    if (this.paper) return this.paper.getOrders(symbol, 'futures');
+
+    const params: any = symbol ? this.futuresInstrument(symbol) : { productType };
+    const response = await this.request<any>('GET', '/api/v2/mix/order/orders-pending', params, true);
+    return (response.data?.entrustedList || []).map((row: any) => mapFuturesOrder(row, params.productType));
+  }
+
   /**
    * Cancel all futures orders, optionally just for a symbol
    */
-  async cancelAllFuturesOrders(symbol?: string): Promise<boolean> {
-    const payload: any = {
-      productType: 'USDT-FUTURES',
-      marginCoin: 'USDT',
-    };
-    if (symbol) payload.symbol = symbol.replace('_UMCBL', '');
+  async cancelAllFuturesOrders(symbol?: string, productType?: ProductType): Promise<boolean> {
+    if (this.paper) return this.paper.cancelAllOrders(symbol);
+
+    const payload: any = this.futuresScope(symbol, productType);
     try {
       const response = await this.request<any>('POST', '/api/v2/mix/order/cancel-all-orders', payload, true);
       return response.code === '00000';
@@ -1128,4 +1521,208 @@ export class BitgetRestClient {
       throw err;
     }
   }
+
+  /**
+   * Futures fills since startTime, oldest pages last (follows endId until the range is exhausted)
+   */
+  async getFuturesFills(
+    productType: ProductType = 'USDT-FUTURES',
+    options: { symbol?: string; startTime?: number; endTime?: number } = {}
+  ): Promise<Fill[]> {
+    const startTime = options.startTime ?? Date.now() - FILL_LOOKBACK_MS;
+    if (this.paper) {
+      return this.paper.getFills(Infinity)
+        .filter(f => f.market === 'futures' && f.ts >= startTime && parseSymbol(f.symbol, 'usdt-futures').productType === productType)
+        .filter(f => !options.symbol || f.symbol === parseSymbol(options.symbol, 'usdt-futures').symbol)
+        .map((f, i) => ({
+          tradeId: `${f.orderId}-${i}`,
+          orderId: f.orderId,
+          symbol: f.symbol,
+          side: f.side,
+          price: f.price.toString(),
+          size: f.size.toString(),
+          profit: f.realizedPnl.toString(),
+          fee: f.fee.toString(),
+          timestamp: f.ts,
+        }));
+    }
+
+    const params: any = options.symbol ? this.futuresInstrument(options.symbol) : { productType };
+    params.startTime = startTime;
+    if (options.endTime) params.endTime = options.endTime;
+    params.limit = 100;
+
+    const fills: Fill[] = [];
+    for (let page = 0; page < MAX_FILL_PAGES; page++) {
+      const response = await this.request<any>('GET', '/api/v2/mix/order/fill-history', params, true);
+      const rows = response.data?.fillList || [];
+      fills.push(...rows.map(mapFuturesFill));
+      if (rows.length < params.limit || !response.data?.endId) break;
+      params.idLessThan = response.data.endId;
+    }
+    return fills;
+  }
+
+  // ========== SPOT MARGIN METHODS ==========
+
+  /**
+   * Margin account balances, debt and interest. Crossed filters by coin; isolated returns
+   * the base and quote rows of each pair, or one pair when symbol is given.
+   */
+  async getMarginAssets(marginType: SpotMarginType, options: { symbol?: string; coin?: string } = {}): Promise<MarginAsset[]> {
+    this.requireLiveMargin();
+    const params: any = marginType === 'isolated'
+      ? (options.symbol ? { symbol: this.marginSymbol(options.symbol) } : {})
+      : (options.coin ? { coin: options.coin.toUpperCase() } : {});
+
+    const response = await this.request<any[]>('GET', `/api/v2/margin/${marginType}/account/assets`, params, true);
+    const assets = (response.data || []).map(mapMarginAsset);
+    return marginType === 'isolated' && options.coin ? assets.filter(a => a.coin === options.coin!.toUpperCase()) : assets;
+  }
+
+  /**
+   * Most that can still be borrowed: one coin for crossed, base and quote for an isolated pair
+   */
+  async getMaxBorrowable(marginType: SpotMarginType, options: { symbol?: string; coin?: string }): Promise<MarginBorrowable[]> {
+    this.requireLiveMargin();
+    if (marginType === 'crossed') {
+      if (!options.coin) throw new BitgetValidationError('coin is required for crossed margin');
+      const response = await this.request<any>('GET', '/api/v2/margin/crossed/account/max-borrowable-amount', { coin: options.coin.toUpperCase() }, true);
+      return [{ coin: response.data.coin, amount: response.data.maxBorrowableAmount }];
+    }
+
+    const symbol = this.marginScope('isolated', options.symbol).symbol!;
+    const response = await this.request<any>('GET', '/api/v2/margin/isolated/account/max-borrowable-amount', { symbol }, true);
+    const { baseCoin, baseCoinMaxBorrowAmount, quoteCoin, quoteCoinMaxBorrowAmount } = response.data;
+    const rows: MarginBorrowable[] = [
+      { coin: baseCoin, symbol, amount: baseCoinMaxBorrowAmount },
+      { coin: quoteCoin, symbol, amount: quoteCoinMaxBorrowAmount },
+    ];
+    return options.coin ? rows.filter(r => r.coin === options.coin!.toUpperCase()) : rows;
+  }
+
+  /**
+   * Borrow a coin into the crossed account or an isolated pair. Not retried: a repeated
+   * borrow would double the debt.
+   */
+  async marginBorrow(marginType: SpotMarginType, coin: string, amount: string, symbol?: string): Promise<{ loanId: string; coin: string; amount: string }> {
+    this.requireLiveMargin();
+    const payload = { ...this.marginScope(marginType, symbol), coin: coin.toUpperCase(), borrowAmount: amount };
+    const response = await this.request<any>('POST', `/api/v2/margin/${marginType}/account/borrow`, payload, true);
+    return { loanId: response.data.loanId, coin: response.data.coin, amount: response.data.borrowAmount };
+  }
+
+  /**
+   * Repay borrowed coin; interest is settled before principal
+   */
+  async marginRepay(marginType: SpotMarginType, coin: string, amount: string, symbol?: string): Promise<{ repayId: string; coin: string; amount: string; remainingDebt: string }> {
+    this.requireLiveMargin();
+    const payload = { ...this.marginScope(marginType, symbol), coin: coin.toUpperCase(), repayAmount: amount };
+    const response = await this.request<any>('POST', `/api/v2/margin/${marginType}/account/repay`, payload, true);
+    return {
+      repayId: response.data.repayId,
+      coin: response.data.coin,
+      amount: response.data.repayAmount,
+      remainingDebt: response.data.remainDebtAmount,
+    };
+  }
+
+  /**
+   * Place a crossed or isolated margin order. Market buys are sized in the quote coin
+   * like spot; loanType decides whether a shortfall is borrowed and proceeds repay debt.
+   */
+  async placeMarginOrder(marginType: SpotMarginType, params: MarginOrderParams): Promise<Order> {
+    this.requireLiveMargin();
+    const symbol = this.marginSymbol(params.symbol);
+    const quoteSize = params.type === 'market' && params.side === 'buy';
+    const { size, prices } = await this.contractSpecs.prepareOrder(symbol, 'spot', {
+      size: params.quantity,
+      prices: { price: params.type === 'limit' ? params.price : undefined },
+      quoteSize,
+    });
+
+    const orderData: any = {
+      symbol,
+      side: params.side,
+      orderType: params.type,
+      loanType: params.loanType || 'normal',
+      force: params.timeInForce || 'GTC',
+    };
+    if (quoteSize) orderData.quoteSize = size;
+    else orderData.baseSize = size;
+    if (params.type === 'limit' && prices.price) orderData.price = prices.price;
+    orderData.clientOid = params.clientOrderId || generateClientOid('margin-order', { marginType, ...orderData });
+
+    const response = await this.request<any>('POST', `/api/v2/margin/${marginType}/place-order`, orderData, true, {
+      reconcile: () => this.reconcileOrder(orderData.clientOid, () => this.findMarginOrder(marginType, symbol, orderData.clientOid)),
+    });
+
+    return {
+      orderId: response.data.orderId,
+      clientOrderId: response.data.clientOid,
+      symbol,
+      side: params.side,
+      type: params.type,
+      quantity: size!,
+      price: orderData.price,
+      status: 'open',
+      filled: '0',
+      remaining: size!,
+      timestamp: Date.now(),
+      updateTime: Date.now()
+    };
+  }
+
+  /**
+   * Interest charged on margin loans, newest first (default: the last 30 days)
+   */
+  async getMarginInterestHistory(
+    marginType: SpotMarginType,
+    options: { symbol?: string; coin?: string; startTime?: number; limit?: number } = {}
+  ): Promise<MarginInterest[]> {
+    this.requireLiveMargin();
+    const params: any = {
+      ...(marginType === 'isolated' ? this.marginScope('isolated', options.symbol) : {}),
+      startTime: options.startTime ?? Date.now() - MARGIN_LOOKBACK_MS,
+      limit: options.limit ?? 100,
+    };
+    if (options.coin) params.coin = options.coin.toUpperCase();
+
+    const response = await this.request<any>('GET', `/api/v2/margin/${marginType}/interest-history`, params, true);
+    return (response.data?.resultList || []).map(mapMarginInterest);
+  }
+
+  /**
+   * Margin order with the given clientOid, open or already done
+   */
+  private async findMarginOrder(marginType: SpotMarginType, symbol: string, clientOid: string): Promise<any> {
+    const params = { symbol, clientOid, startTime: Date.now() - MARGIN_LOOKBACK_MS };
+    for (const list of ['open-orders', 'history-orders']) {
+      const response = await this.request<any>('GET', `/api/v2/margin/${marginType}/${list}`, params, true);
+      const found = (response.data?.orderList || []).find((o: any) => o.clientOid === clientOid);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  /**
+   * Isolated margin calls are scoped to one spot pair; crossed calls take no symbol
+   */
+  private marginScope(marginType: SpotMarginType, symbol?: string): { symbol?: string } {
+    if (marginType === 'crossed') return {};
+    if (!symbol) throw new BitgetValidationError('symbol is required for isolated margin');
+    return { symbol: this.marginSymbol(symbol) };
+  }
+
+  private marginSymbol(symbol: string): string {
+    const parsed = parseSymbol(symbol);
+    if (parsed.market !== 'spot') {
+      throw new BitgetValidationError(`${symbol} is a futures contract, margin trading uses spot pairs`);
+    }
+    return parsed.symbol;
+  }
+
+  private requireLiveMargin(): void {
+    if (this.paper) throw new BitgetValidationError('Spot margin is not available in paper trading mode');
+  }
 }
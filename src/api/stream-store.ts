@@ -0,0 +1,79 @@
+/**
+ * Stream Store
+ * Keeps the most recent WebSocket rows per subscription key (instType:channel:instId)
+ * in ring buffers so they can be read back through MCP tools
+ */
+
+import { WSInstType, WSMessage } from '../types/bitget.js';
+import { BitgetWebSocketClient, resolveWsInstrument } from './websocket-client.js';
+import { RingBuffer } from '../utils/ring-buffer.js';
+
+export interface StreamEntry {
+  ts: number;                     // Exchange timestamp of the push
+  receivedAt: number;
+  action: 'snapshot' | 'update';
+  data: any;
+}
+
+export interface StreamStoreConfig {
+  capacity?: number;              // Rows kept per key (default 500)
+}
+
+export class StreamStore {
+  private buffers = new Map<string, RingBuffer<StreamEntry>>();
+  private capacity: number;
+
+  constructor(ws: BitgetWebSocketClient, config: StreamStoreConfig = {}, private now: () => number = Date.now) {
+    this.capacity = config.capacity ?? 500;
+    ws.on('data', (message: WSMessage) => this.record(message));
+  }
+
+  static key(channel: string, symbol: string, instType?: WSInstType): string {
+    const inst = resolveWsInstrument(symbol, instType);
+    return `${inst.instType}:${channel}:${inst.instId}`;
+  }
+
+  record(message: WSMessage): void {
+    const { instType, channel, instId, coin } = message.arg;
+    const key = `${instType}:${channel}:${instId ?? coin}`;
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      buffer = new RingBuffer<StreamEntry>(this.capacity);
+      this.buffers.set(key, buffer);
+    }
+    const receivedAt = this.now();
+    for (const data of message.data) {
+      buffer.push({ ts: Number(data?.ts ?? message.ts) || receivedAt, receivedAt, action: message.action, data });
+    }
+  }
+
+  latest(channel: string, symbol: string, instType?: WSInstType): StreamEntry | null {
+    return this.buffers.get(StreamStore.key(channel, symbol, instType))?.latest() ?? null;
+  }
+
+  /**
+   * Up to `limit` most recent rows, oldest first, optionally only those received after `since`
+   */
+  history(channel: string, symbol: string, instType?: WSInstType, limit: number = 20, since?: number): StreamEntry[] {
+    const buffer = this.buffers.get(StreamStore.key(channel, symbol, instType));
+    if (!buffer) return [];
+    const rows = since === undefined ? buffer.toArray() : buffer.toArray().filter(e => e.receivedAt > since);
+    return rows.slice(-limit);
+  }
+
+  /**
+   * Buffered keys with their row counts and the age of the latest row
+   */
+  getStatus(): Array<{ key: string; rows: number; lastReceivedAt: number | null }> {
+    return [...this.buffers.entries()].map(([key, buffer]) => ({
+      key,
+      rows: buffer.size,
+      lastReceivedAt: buffer.latest()?.receivedAt ?? null,
+    }));
+  }
+
+  clear(channel?: string, symbol?: string, instType?: WSInstType): void {
+    if (channel && symbol) this.buffers.delete(StreamStore.key(channel, symbol, instType));
+    else this.buffers.clear();
+  }
+}
@@ -3,16 +3,61 @@
  * Handles real-time data streaming from Bitget exchange
  */
 
+import crypto from 'crypto';
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
-import { BitgetConfig, WSSubscription, WSMessage } from '../types/bitget.js';
+import {
+  BitgetConfig,
+  BitgetAuthenticationError,
+  WSSubscription,
+  WSMessage,
+  WSInstType,
+  WSPrivateChannel,
+  WSPrivateEventMap,
+} from '../types/bitget.js';
 import { logger } from '../utils/logger.js';
+import { marketFromInstType, parseSymbol, toV2InstType } from '../utils/symbols.js';
 
 export interface WSClientConfig {
   url: string;
   pingInterval?: number;
   reconnectInterval?: number;
   maxReconnects?: number;
+  credentials?: WSCredentials;    // Log in after connecting (private endpoint)
+}
+
+export interface WSCredentials {
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+}
+
+// Typed event emitted for each row pushed on a private channel
+const PRIVATE_CHANNEL_EVENTS: Record<WSPrivateChannel, keyof WSPrivateEventMap> = {
+  orders: 'order',
+  fill: 'fill',
+  positions: 'position',
+  account: 'account',
+  'orders-algo': 'planOrder',
+};
+
+const LOGIN_TIMEOUT_MS = 10000;
+
+/**
+ * Normalize a symbol/instType pair to the v2 stream's instType and bare instId.
+ * A market in the symbol (BTCUSDT_UMCBL, BTC/USD:BTC) wins over instType; the v1
+ * names UMCBL/DMCBL/CMCBL map to USDT-/COIN-/USDC-FUTURES.
+ */
+export function resolveWsInstrument(symbol: string, instType?: WSInstType): { instType: WSInstType; instId: string } {
+  const parsed = parseSymbol(symbol, instType ? marketFromInstType(instType) : undefined);
+  return { instType: parsed.instType, instId: parsed.symbol };
+}
+
+export interface BitgetWebSocketClient {
+  on<K extends keyof WSPrivateEventMap>(event: K, listener: (update: WSPrivateEventMap[K], arg: WSMessage['arg']) => void): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+  once<K extends keyof WSPrivateEventMap>(event: K, listener: (update: WSPrivateEventMap[K], arg: WSMessage['arg']) => void): this;
+  once(event: string | symbol, listener: (...args: any[]) => void): this;
 }
 
 export class BitgetWebSocketClient extends EventEmitter {
@@ -24,6 +69,8 @@ export class BitgetWebSocketClient extends EventEmitter {
   private reconnectCount = 0;
   private isConnected = false;
   private isConnecting = false;
+  private isAuthenticated = false;
+  private closedByUser = false;
 
   constructor(config: WSClientConfig) {
     super();
@@ -44,6 +91,7 @@ export class BitgetWebSocketClient extends EventEmitter {
     }
 
     this.isConnecting = true;
+    this.closedByUser = false;
     logger.info('Connecting to Bitget WebSocket', { url: this.config.url });
 
     try {
@@ -55,13 +103,25 @@ export class BitgetWebSocketClient extends EventEmitter {
           reject(new Error('WebSocket connection timeout'));
         }, 10000);
 
-        this.ws!.once('open', () => {
+        this.ws!.once('open', async () => {
           clearTimeout(timeout);
           this.isConnected = true;
           this.isConnecting = false;
           this.reconnectCount = 0;
           logger.info('WebSocket connected successfully');
           this.startPing();
+          try {
+            if (this.config.credentials) await this.login();
+          } catch (error) {
+            // Keep subscriptions; the caller (or scheduleReconnect) decides whether to retry
+            this.closedByUser = true;
+            this.isConnected = false;
+            this.stopPing();
+            this.ws?.close();
+            this.ws = null;
+            reject(error);
+            return;
+          }
           this.resubscribeAll();
           resolve();
         });
@@ -85,6 +145,8 @@ export class BitgetWebSocketClient extends EventEmitter {
     logger.info('Disconnecting WebSocket');
     this.isConnected = false;
     this.isConnecting = false;
+    this.isAuthenticated = false;
+    this.closedByUser = true;
     
     if (this.pingTimer) {
       clearInterval(this.pingTimer);
@@ -107,49 +169,92 @@ export class BitgetWebSocketClient extends EventEmitter {
   /**
    * Subscribe to a channel
    */
-  subscribe(channel: string, symbol: string, instType: 'SPOT' | 'UMCBL' | 'DMCBL' = 'SPOT'): void {
-    const subscription: WSSubscription = {
-      op: 'subscribe',
-      args: [{
-        instType,
-        channel,
-        instId: symbol
-      }]
-    };
-
+  subscribe(channel: string, symbol: string, instType: WSInstType = 'SPOT'): void {
+    ({ instType, symbol } = this.wireInstrument(symbol, instType));
     const subKey = `${instType}:${channel}:${symbol}`;
     this.subscriptions.add(subKey);
 
-    if (this.isConnected && this.ws) {
+    if (this.isConnected && this.ws && (!this.config.credentials || this.isAuthenticated)) {
       logger.debug('Subscribing to channel', { channel, symbol, instType });
-      this.ws.send(JSON.stringify(subscription));
+      this.send('subscribe', instType, channel, symbol);
     } else {
       logger.warn('WebSocket not connected, subscription will be sent on reconnect', { channel, symbol });
     }
   }
 
   /**
-   * Unsubscribe from a channel
+   * Subscribe to a private channel (orders, positions, account, orders-algo, fill).
+   * instId 'default' covers every symbol (every coin for the account channel).
    */
-  unsubscribe(channel: string, symbol: string, instType: 'SPOT' | 'UMCBL' | 'DMCBL' = 'SPOT'): void {
-    const subscription: WSSubscription = {
-      op: 'unsubscribe',
-      args: [{
-        instType,
-        channel,
-        instId: symbol
-      }]
-    };
+  subscribePrivate(channel: WSPrivateChannel, instType: WSInstType = 'USDT-FUTURES', instId: string = 'default'): void {
+    if (!this.config.credentials) {
+      throw new BitgetAuthenticationError('Private WebSocket channels require API credentials');
+    }
+    this.subscribe(channel, instId, instType);
+  }
 
+  /**
+   * Unsubscribe from a channel
+   */
+  unsubscribe(channel: string, symbol: string, instType: WSInstType = 'SPOT'): void {
+    ({ instType, symbol } = this.wireInstrument(symbol, instType));
     const subKey = `${instType}:${channel}:${symbol}`;
     this.subscriptions.delete(subKey);
 
     if (this.isConnected && this.ws) {
       logger.debug('Unsubscribing from channel', { channel, symbol, instType });
-      this.ws.send(JSON.stringify(subscription));
+      this.send('unsubscribe', instType, channel, symbol);
     }
   }
 
+  /**
+   * The v2 stream only knows v2 instTypes and bare instIds; translate v1 names so
+   * subscriptions and pushed events share one key. 'default' and coins pass through.
+   */
+  private wireInstrument(symbol: string, instType: WSInstType): { instType: WSInstType; symbol: string } {
+    return {
+      instType: toV2InstType(instType),
+      symbol: /[_/]/.test(symbol) ? parseSymbol(symbol).symbol : symbol,
+    };
+  }
+
+  private send(op: WSSubscription['op'], instType: WSInstType, channel: string, instId: string): void {
+    const arg = channel === 'account' && this.config.credentials
+      ? { instType, channel, coin: instId }
+      : { instType, channel, instId };
+    const subscription: WSSubscription = { op, args: [arg] };
+    this.ws!.send(JSON.stringify(subscription));
+  }
+
+  /**
+   * Log in with HMAC-SHA256 over timestamp + 'GET' + '/user/verify' (timestamp in seconds)
+   */
+  private login(): Promise<void> {
+    const { apiKey, secretKey, passphrase } = this.config.credentials!;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const sign = crypto.createHmac('sha256', secretKey).update(`${timestamp}GET/user/verify`).digest('base64');
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('login', onLogin);
+        this.off('loginError', onError);
+      };
+      const onLogin = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (message: any) => {
+        cleanup();
+        reject(new BitgetAuthenticationError(`WebSocket login failed: ${message.msg || message.code}`));
+      };
+      const timer = setTimeout(() => onError({ msg: 'timeout' }), LOGIN_TIMEOUT_MS);
+      this.on('login', onLogin);
+      this.on('loginError', onError);
+      this.ws!.send(JSON.stringify({ op: 'login', args: [{ apiKey, passphrase, timestamp, sign }] }));
+    });
+  }
+
   /**
    * Setup WebSocket event handlers
    */
@@ -178,9 +283,10 @@ export class BitgetWebSocketClient extends EventEmitter {
     this.ws.on('close', (code, reason) => {
       logger.warn('WebSocket connection closed', { code, reason: reason.toString() });
       this.isConnected = false;
+      this.isAuthenticated = false;
       this.stopPing();
       this.emit('disconnected', { code, reason });
-      this.scheduleReconnect();
+      if (!this.closedByUser) this.scheduleReconnect();
     });
 
     this.ws.on('pong', () => {
@@ -194,7 +300,14 @@ export class BitgetWebSocketClient extends EventEmitter {
   private handleMessage(message: any): void {
     logger.debug('Received WebSocket message', { type: message.event || message.action });
 
-    if (message.event === 'subscribe') {
+    if (message.event === 'login') {
+      logger.info('WebSocket login succeeded');
+      this.isAuthenticated = true;
+      this.emit('login');
+    } else if (message.event === 'error' && this.config.credentials && !this.isAuthenticated) {
+      logger.error('WebSocket login failed', { code: message.code, msg: message.msg });
+      this.emit('loginError', message);
+    } else if (message.event === 'subscribe') {
       logger.info('Subscription confirmed', { channel: message.arg });
       this.emit('subscribed', message.arg);
     } else if (message.event === 'unsubscribe') {
@@ -215,8 +328,14 @@ export class BitgetWebSocketClient extends EventEmitter {
       this.emit('data', wsMessage);
       
       // Emit specific channel events
-      const { instType, channel, instId } = message.arg;
-      this.emit(`${instType}:${channel}:${instId}`, wsMessage);
+      const { instType, channel, instId, coin } = message.arg;
+      this.emit(`${instType}:${channel}:${instId ?? coin}`, wsMessage);
+
+      // Typed per-row events for private channels
+      const event = this.config.credentials ? PRIVATE_CHANNEL_EVENTS[channel as WSPrivateChannel] : undefined;
+      if (event) {
+        for (const row of wsMessage.data) this.emit(event, row, wsMessage.arg);
+      }
     } else if (message.ping) {
       // Respond to ping
       if (this.ws && this.isConnected) {
@@ -293,6 +412,13 @@ export class BitgetWebSocketClient extends EventEmitter {
     return this.isConnected;
   }
 
+  /**
+   * Whether the private-endpoint login has succeeded on the current connection
+   */
+  isWebSocketAuthenticated(): boolean {
+    return this.isAuthenticated;
+  }
+
   /**
    * Get subscription count
    */
@@ -311,4 +437,21 @@ export function createBitgetWebSocketClient(config: BitgetConfig): BitgetWebSock
     reconnectInterval: 5000,
     maxReconnects: 10
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Factory function to create a logged-in WebSocket client for Bitget private channels
+ */
+export function createBitgetPrivateWebSocketClient(config: BitgetConfig): BitgetWebSocketClient {
+  return new BitgetWebSocketClient({
+    url: config.wsPrivateUrl || config.wsUrl.replace('/public', '/private'),
+    pingInterval: 30000,
+    reconnectInterval: 5000,
+    maxReconnects: 10,
+    credentials: {
+      apiKey: config.apiKey,
+      secretKey: config.secretKey,
+      passphrase: config.passphrase,
+    },
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * Backtest Engine
+ * Replays candles through a strategy and simulates entries with one pos_loss stop
+ * plus partial profit_plan take-profits, mirroring placeEntryWithTPSLPlans
+ */
+
+import { Candle } from '../types/bitget.js';
+
+/**
+ * Order setup a strategy emits; same structure as placeEntryWithTPSLPlans
+ */
+export interface BacktestSignal {
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  price?: number;                 // Limit entry price
+  quantity?: number;              // Defaults to risk-based sizing
+  stopLoss: number;               // pos_loss trigger (closes the whole remaining position)
+  takeProfits: Array<{ triggerPrice: number; size: number }>; // profit_plan partials; sizes are fractions when quantity is omitted
+  expiryBars?: number;            // Cancel an unfilled limit after N bars
+  tag?: string;
+}
+
+export interface StrategyContext {
+  index: number;                  // Bar that just closed; fills start on the next bar
+  candles: Candle[];              // Full series; strategies must only read up to `index`
+  equity: number;
+}
+
+export interface BacktestStrategy {
+  name: string;
+  onBar(ctx: StrategyContext): BacktestSignal | null;
+}
+
+export interface BacktestConfig {
+  initialEquity: number;
+  takerFeeRate: number;
+  makerFeeRate: number;
+  riskPerTrade: number;           // Fraction of equity risked when a signal has no quantity
+  slippageBps: number;            // Applied against us on market entries and stop exits
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialEquity: 10000,
+  takerFeeRate: 0.0006,
+  makerFeeRate: 0.0002,
+  riskPerTrade: 0.01,
+  slippageBps: 0,
+};
+
+export interface BacktestExit {
+  ts: number;
+  price: number;
+  size: number;
+  reason: string;                 // tp1..tpN, sl or end
+  pnl: number;
+}
+
+export interface BacktestTrade {
+  side: 'long' | 'short';
+  tag?: string;
+  signalTime: number;
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  stopLoss: number;
+  exits: BacktestExit[];
+  exitTime: number;
+  fees: number;
+  pnl: number;                    // Net of fees
+  r: number;                      // pnl / initial risk
+}
+
+export interface BacktestResult {
+  strategy: string;
+  bars: number;
+  from: number | null;
+  to: number | null;
+  trades: BacktestTrade[];
+  summary: {
+    trades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    expectancyR: number;
+    avgWinR: number;
+    avgLossR: number;
+    netPnl: number;
+    totalFees: number;
+    finalEquity: number;
+    returnPct: number;
+    maxDrawdown: number;
+    maxDrawdownPct: number;
+  };
+  equityCurve: Array<{ ts: number; equity: number }>;
+}
+
+interface OpenPosition {
+  trade: BacktestTrade;
+  remaining: number;
+  takeProfits: Array<{ triggerPrice: number; size: number; label: string }>;
+  risk: number;
+}
+
+interface PendingEntry {
+  signal: BacktestSignal;
+  signalIndex: number;
+}
+
+/**
+ * Run a strategy over candles (oldest first).
+ *
+ * Fill model: signals act from the next bar. Market entries fill at that bar's open,
+ * limits when the bar trades through the price. Triggers are checked on every bar the
+ * position is open, including the entry bar; when a bar spans both the stop and a
+ * take-profit the stop is assumed to hit first. Open positions close at the last close.
+ */
+export function runBacktest(candles: Candle[], strategy: BacktestStrategy, config: Partial<BacktestConfig> = {}): BacktestResult {
+  const cfg = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+  const slip = cfg.slippageBps / 10000;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: Array<{ ts: number; equity: number }> = [];
+  let cash = cfg.initialEquity;
+  let position: OpenPosition | null = null;
+  let pending: PendingEntry | null = null;
+
+  const bars = candles.map(c => ({
+    ts: c.timestamp,
+    open: parseFloat(c.open),
+    high: parseFloat(c.high),
+    low: parseFloat(c.low),
+    close: parseFloat(c.close),
+  }));
+
+  const closePart = (pos: OpenPosition, size: number, price: number, ts: number, reason: string) => {
+    const long = pos.trade.side === 'long';
+    const pnl = (price - pos.trade.entryPrice) * size * (long ? 1 : -1);
+    const fee = price * size * cfg.takerFeeRate;
+    pos.remaining -= size;
+    pos.trade.exits.push({ ts, price, size, reason, pnl });
+    pos.trade.fees += fee;
+    pos.trade.pnl += pnl - fee;
+    cash += pnl - fee;
+  };
+
+  const finish = (pos: OpenPosition, ts: number) => {
+    pos.trade.exitTime = ts;
+    pos.trade.r = pos.risk > 0 ? pos.trade.pnl / pos.risk : 0;
+    trades.push(pos.trade);
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+
+    // 1) Entry fills for a signal emitted on an earlier bar
+    if (pending && !position) {
+      const { signal, signalIndex } = pending;
+      const long = signal.side === 'buy';
+      let fillPrice: number | null = null;
+      let feeRate = cfg.takerFeeRate;
+      if (signal.type === 'market') {
+        fillPrice = bar.open * (1 + (long ? slip : -slip));
+      } else if (signal.price !== undefined && (long ? bar.low <= signal.price : bar.high >= signal.price)) {
+        // Gapping through the limit fills at the better open
+        fillPrice = long ? Math.min(signal.price, bar.open) : Math.max(signal.price, bar.open);
+        feeRate = cfg.makerFeeRate;
+      }
+
+      if (fillPrice !== null) {
+        const riskPerUnit = Math.abs(fillPrice - signal.stopLoss);
+        const quantity = signal.quantity ?? (riskPerUnit > 0 ? (cash * cfg.riskPerTrade) / riskPerUnit : 0);
+        pending = null;
+        if (quantity > 0) {
+          const fee = fillPrice * quantity * feeRate;
+          cash -= fee;
+          position = {
+            trade: {
+              side: long ? 'long' : 'short',
+              tag: signal.tag,
+              signalTime: bars[signalIndex].ts,
+              entryTime: bar.ts,
+              entryPrice: fillPrice,
+              quantity,
+              stopLoss: signal.stopLoss,
+              exits: [],
+              exitTime: bar.ts,
+              fees: fee,
+              pnl: -fee,
+              r: 0,
+            },
+            remaining: quantity,
+            // Nearest target first; sizes beyond the position are clipped when they trigger
+            takeProfits: signal.takeProfits
+              .map((tp, k) => ({
+                triggerPrice: tp.triggerPrice,
+                size: signal.quantity === undefined ? tp.size * quantity : tp.size,
+                label: `tp${k + 1}`,
+              }))
+              .sort((a, b) => (long ? a.triggerPrice - b.triggerPrice : b.triggerPrice - a.triggerPrice)),
+            risk: riskPerUnit * quantity,
+          };
+        }
+      } else if (signal.expiryBars !== undefined && i - signalIndex >= signal.expiryBars) {
+        pending = null;
+      }
+    }
+
+    // 2) Stop first (conservative), then take-profits in price order
+    if (position) {
+      const long = position.trade.side === 'long';
+      const stop = position.trade.stopLoss;
+      const stopHit = long ? bar.low <= stop : bar.high >= stop;
+      if (stopHit) {
+        // A gap through the stop fills at the open
+        const raw = long ? Math.min(stop, bar.open) : Math.max(stop, bar.open);
+        closePart(position, position.remaining, raw * (1 + (long ? -slip : slip)), bar.ts, 'sl');
+      } else {
+        while (position.takeProfits.length > 0 && position.remaining > 1e-12) {
+          const tp = position.takeProfits[0];
+          if (!(long ? bar.high >= tp.triggerPrice : bar.low <= tp.triggerPrice)) break;
+          position.takeProfits.shift();
+          const price = long ? Math.max(tp.triggerPrice, bar.open) : Math.min(tp.triggerPrice, bar.open);
+          closePart(position, Math.min(tp.size, position.remaining), price, bar.ts, tp.label);
+        }
+      }
+      if (position.remaining <= 1e-12) {
+        finish(position, bar.ts);
+        position = null;
+      }
+    }
+
+    // 3) Strategy sees the closed bar; one position or pending entry at a time
+    if (!position && !pending && i < bars.length - 1) {
+      const signal = strategy.onBar({ index: i, candles, equity: cash });
+      if (signal) pending = { signal, signalIndex: i };
+    }
+
+    const unrealized = position
+      ? (bar.close - position.trade.entryPrice) * position.remaining * (position.trade.side === 'long' ? 1 : -1)
+      : 0;
+    equityCurve.push({ ts: bar.ts, equity: cash + unrealized });
+  }
+
+  if (position && bars.length > 0) {
+    const last = bars[bars.length - 1];
+    closePart(position, position.remaining, last.close, last.ts, 'end');
+    finish(position, last.ts);
+    equityCurve[equityCurve.length - 1].equity = cash;
+  }
+
+  return {
+    strategy: strategy.name,
+    bars: bars.length,
+    from: bars[0]?.ts ?? null,
+    to: bars[bars.length - 1]?.ts ?? null,
+    trades,
+    summary: summarize(trades, equityCurve, cfg.initialEquity, cash),
+    equityCurve,
+  };
+}
+
+function summarize(trades: BacktestTrade[], curve: Array<{ equity: number }>, initialEquity: number, finalEquity: number): BacktestResult['summary'] {
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const mean = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0);
+
+  let peak = initialEquity;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    const dd = peak - point.equity;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+    if (peak > 0 && dd / peak > maxDrawdownPct) maxDrawdownPct = dd / peak;
+  }
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length ? wins.length / trades.length : 0,
+    expectancyR: mean(trades.map(t => t.r)),
+    avgWinR: mean(wins.map(t => t.r)),
+    avgLossR: mean(losses.map(t => t.r)),
+    netPnl: finalEquity - initialEquity,
+    totalFees: trades.reduce((s, t) => s + t.fees, 0),
+    finalEquity,
+    returnPct: initialEquity > 0 ? (finalEquity - initialEquity) / initialEquity : 0,
+    maxDrawdown,
+    maxDrawdownPct,
+  };
+}
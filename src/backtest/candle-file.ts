@@ -0,0 +1,90 @@
+/**
+ * Candle File Loader
+ * Reads historical candles for backtests from local JSON or CSV files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle, BitgetValidationError } from '../types/bitget.js';
+
+/**
+ * Resolve a caller-supplied candle file name inside `dataDir`. Absolute paths, `..` segments and
+ * symlinks leading out of the directory are refused, so the name cannot reach the rest of the disk.
+ */
+export function resolveCandleFile(dataDir: string, file: string): string {
+  if (path.isAbsolute(file) || file.split(/[\\/]/).includes('..')) {
+    throw new BitgetValidationError('Candle file must be a relative path inside the backtest data directory');
+  }
+  if (!/\.(json|csv)$/i.test(file)) {
+    throw new BitgetValidationError('Candle file must be a .json or .csv file');
+  }
+  let root: string;
+  let resolved: string;
+  try {
+    root = fs.realpathSync(dataDir);
+    resolved = fs.realpathSync(path.join(root, file));
+  } catch {
+    throw new BitgetValidationError(`Candle file not found: ${file}`);
+  }
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new BitgetValidationError('Candle file must be a relative path inside the backtest data directory');
+  }
+  return resolved;
+}
+
+/**
+ * Load candles sorted oldest first. Accepts:
+ * - JSON: an array of Candle objects or of Bitget rows [ts, open, high, low, close, volume, ...]
+ * - CSV: a header containing timestamp/ts/time, open, high, low, close and (optionally) volume
+ */
+export function loadCandlesFromFile(filePath: string, symbol: string = path.basename(filePath, path.extname(filePath))): Candle[] {
+  if (!fs.existsSync(filePath)) {
+    throw new BitgetValidationError(`Candle file not found: ${filePath}`);
+  }
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const candles = filePath.toLowerCase().endsWith('.csv') ? parseCsv(raw, symbol) : parseJson(raw, symbol);
+  if (candles.some(c => !Number.isFinite(c.timestamp) || [c.open, c.high, c.low, c.close].some(v => !Number.isFinite(parseFloat(v))))) {
+    throw new BitgetValidationError(`Candle file contains malformed rows: ${path.basename(filePath)}`);
+  }
+  return candles.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function parseJson(raw: string, symbol: string): Candle[] {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    // The parser's message quotes the file's first characters
+    throw new BitgetValidationError('Candle file is not valid JSON');
+  }
+  const rows: any[] = Array.isArray(data) ? data : data?.candles ?? data?.data;
+  if (!Array.isArray(rows)) {
+    throw new BitgetValidationError('Candle JSON must be an array (or an object with a candles/data array)');
+  }
+  return rows.map(row => Array.isArray(row)
+    ? { symbol, timestamp: parseInt(row[0]), open: String(row[1]), high: String(row[2]), low: String(row[3]), close: String(row[4]), volume: String(row[5] ?? '0') }
+    : { symbol: row.symbol ?? symbol, timestamp: Number(row.timestamp ?? row.ts), open: String(row.open), high: String(row.high), low: String(row.low), close: String(row.close), volume: String(row.volume ?? '0') });
+}
+
+function parseCsv(raw: string, symbol: string): Candle[] {
+  const lines = raw.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+  const header = lines.shift()?.toLowerCase().split(',').map(h => h.trim()) ?? [];
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const idx = { ts: col('timestamp', 'ts', 'time'), open: col('open'), high: col('high'), low: col('low'), close: col('close'), volume: col('volume', 'vol') };
+  if ([idx.ts, idx.open, idx.high, idx.low, idx.close].some(i => i < 0)) {
+    throw new BitgetValidationError('Candle CSV header must include timestamp, open, high, low and close');
+  }
+  return lines.map(line => {
+    const cells = line.split(',').map(c => c.trim());
+    const ts = /^\d+$/.test(cells[idx.ts]) ? parseInt(cells[idx.ts]) : Date.parse(cells[idx.ts]);
+    return {
+      symbol,
+      timestamp: ts,
+      open: cells[idx.open],
+      high: cells[idx.high],
+      low: cells[idx.low],
+      close: cells[idx.close],
+      volume: idx.volume >= 0 ? cells[idx.volume] : '0',
+    };
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Backtest Strategies
+ * Built-in strategies for runBacktest, including replay of a single manual setup
+ */
+
+import { atr, ema } from '../analytics/indicators.js';
+import { BacktestSignal, BacktestStrategy, StrategyContext } from './backtest-engine.js';
+
+export interface SetupStrategyParams {
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  price?: number;
+  quantity: number;
+  stopLoss: number;
+  takeProfits: Array<{ triggerPrice: number; size: number }>;
+  startTime?: number;             // First bar (ms) the order may be placed after; defaults to the first bar
+  expiryBars?: number;
+}
+
+export interface EmaCrossParams {
+  fast?: number;
+  slow?: number;
+  atrPeriod?: number;
+  stopAtr?: number;               // Stop distance in ATRs
+  targetsR?: number[];            // Partial take-profits at these R multiples, equal sizes
+}
+
+export interface BreakoutParams {
+  lookback?: number;              // Donchian channel length
+  atrPeriod?: number;
+  stopAtr?: number;
+  targetsR?: number[];
+}
+
+/**
+ * Place one setup (the same fields as placeEntryWithTPSLPlans) once, then stop signalling
+ */
+export function setupStrategy(params: SetupStrategyParams): BacktestStrategy {
+  let placed = false;
+  return {
+    name: 'setup',
+    onBar(ctx: StrategyContext): BacktestSignal | null {
+      if (placed) return null;
+      if (params.startTime !== undefined && ctx.candles[ctx.index].timestamp < params.startTime) return null;
+      placed = true;
+      return { ...params, tag: 'setup' };
+    },
+  };
+}
+
+/**
+ * Long on a fast/slow EMA golden cross, short on a death cross
+ */
+export function emaCrossStrategy(params: EmaCrossParams = {}): BacktestStrategy {
+  const { fast = 20, slow = 50, atrPeriod = 14, stopAtr = 1.5, targetsR = [1, 2, 3] } = params;
+  return {
+    name: 'emaCross',
+    onBar(ctx: StrategyContext): BacktestSignal | null {
+      const { index, candles } = ctx;
+      if (index < slow + 1) return null;
+      const closes = candles.slice(0, index + 1).map(c => parseFloat(c.close));
+      const prev = closes.slice(0, -1);
+      const fastNow = ema(closes, fast)!;
+      const slowNow = ema(closes, slow)!;
+      const fastPrev = ema(prev, fast)!;
+      const slowPrev = ema(prev, slow)!;
+      const side = fastPrev <= slowPrev && fastNow > slowNow ? 'buy' : fastPrev >= slowPrev && fastNow < slowNow ? 'sell' : null;
+      if (!side) return null;
+      return bracket(side, closes[closes.length - 1], atr(candles.slice(0, index + 1), atrPeriod), stopAtr, targetsR, 'emaCross');
+    },
+  };
+}
+
+/**
+ * Trade a close beyond the prior `lookback`-bar high/low
+ */
+export function breakoutStrategy(params: BreakoutParams = {}): BacktestStrategy {
+  const { lookback = 20, atrPeriod = 14, stopAtr = 1.5, targetsR = [1, 2, 3] } = params;
+  return {
+    name: 'breakout',
+    onBar(ctx: StrategyContext): BacktestSignal | null {
+      const { index, candles } = ctx;
+      if (index < lookback) return null;
+      const window = candles.slice(index - lookback, index);
+      const high = Math.max(...window.map(c => parseFloat(c.high)));
+      const low = Math.min(...window.map(c => parseFloat(c.low)));
+      const close = parseFloat(candles[index].close);
+      const side = close > high ? 'buy' : close < low ? 'sell' : null;
+      if (!side) return null;
+      return bracket(side, close, atr(candles.slice(0, index + 1), atrPeriod), stopAtr, targetsR, 'breakout');
+    },
+  };
+}
+
+/**
+ * Market entry with an ATR stop and equal partials at R multiples (sizes as fractions)
+ */
+function bracket(side: 'buy' | 'sell', ref: number, atrValue: number | null, stopAtr: number, targetsR: number[], tag: string): BacktestSignal | null {
+  if (!atrValue || targetsR.length === 0) return null;
+  const dir = side === 'buy' ? 1 : -1;
+  const risk = atrValue * stopAtr;
+  return {
+    side,
+    type: 'market',
+    stopLoss: ref - dir * risk,
+    takeProfits: targetsR.map(r => ({ triggerPrice: ref + dir * risk * r, size: 1 / targetsR.length })),
+    tag,
+  };
+}
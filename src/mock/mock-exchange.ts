@@ -0,0 +1,1678 @@
+/**
+ * Mock Bitget Exchange
+ * In-process HTTP + WebSocket stand-in for the Bitget v2 API, used for offline testing.
+ * Point BitgetRestClient / BitgetWebSocketClient at it via BitgetConfig.baseUrl / wsUrl.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { BitgetConfig } from '../types/bitget.js';
+import { orderBookChecksum } from '../api/order-book-manager.js';
+
+export interface MockExchangeOptions {
+  apiKey?: string;
+  secretKey?: string;
+  passphrase?: string;
+  /** Spot balances keyed by coin (default: 10000 USDT) */
+  spotBalances?: Record<string, number>;
+  /** Futures account equity in USDT (default: 10000) */
+  futuresEquity?: number;
+}
+
+export interface MockTickerInput {
+  last: number;
+  bid?: number;
+  ask?: number;
+  high24h?: number;
+  low24h?: number;
+  open24h?: number;
+  baseVolume?: number;
+  fundingRate?: number;
+}
+
+/** [timestamp, open, high, low, close, volume] */
+export type MockCandleInput = [number, number, number, number, number, number];
+
+export interface MockErrorInput {
+  code: string;
+  msg: string;
+  httpStatus?: number;
+  times?: number;
+  afterApply?: boolean;   // Run the handler first, then fail: the request took effect but the response was lost
+  delayMs?: number;       // Hold the response this long (longer than the client timeout simulates a hang)
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  private: boolean;
+}
+
+export interface MockOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  market: 'spot' | 'futures';
+  side: 'buy' | 'sell';
+  orderType: 'market' | 'limit';
+  price?: number;
+  size: number;
+  filledSize: number;
+  priceAvg?: number;
+  status: 'live' | 'partially_filled' | 'filled' | 'cancelled';
+  tradeSide?: 'open' | 'close';
+  reduceOnly?: boolean;
+  marginMode: 'crossed' | 'isolated';
+  marginCoin: string;
+  marginType?: 'crossed' | 'isolated';   // Spot margin order
+  loanType?: string;
+  cTime: number;
+  uTime: number;
+}
+
+export interface MockMarginAsset {
+  available: number;
+  frozen: number;
+  borrowed: number;
+  interest: number;
+}
+
+export interface MockMarginInterest {
+  interestId: string;
+  marginType: 'crossed' | 'isolated';
+  symbol?: string;
+  coin: string;
+  amount: number;
+  type: 'first' | 'scheduled';
+  cTime: number;
+}
+
+export interface MockPosition {
+  symbol: string;
+  marginCoin: string;
+  holdSide: 'long' | 'short';
+  total: number;
+  openPriceAvg: number;
+  marginMode: 'crossed' | 'isolated';
+  leverage: number;
+  achievedProfits: number;
+  cTime: number;
+  uTime: number;
+}
+
+export interface MockFill {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  tradeSide: 'open' | 'close';
+  price: number;
+  size: number;
+  profit: number;
+  cTime: number;
+}
+
+export interface MockPlanOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  planType: string;
+  triggerPrice: number;
+  triggerType: string;
+  executePrice?: number;
+  holdSide: 'long' | 'short';
+  size: number;
+  status: 'live' | 'executed' | 'cancelled';
+  marginMode: 'crossed' | 'isolated';
+  cTime: number;
+  uTime: number;
+}
+
+/**
+ * Error thrown by route handlers; rendered as a Bitget error envelope
+ */
+class MockApiError extends Error {
+  constructor(public code: string, message: string, public httpStatus: number = 400) {
+    super(message);
+    this.name = 'MockApiError';
+  }
+}
+
+type RouteContext = { query: Record<string, string>; body: any };
+type RouteHandler = (ctx: RouteContext) => any;
+
+const PRODUCT_TYPES = ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'];
+
+// Spot margin: total borrowing is capped at (leverage - 1) x net equity
+const MARGIN_LEVERAGE = { crossed: 3, isolated: 10 };
+const MARGIN_DAILY_RATE = 0.0005;
+
+/**
+ * Product type a contract symbol belongs to (BTCUSDT, BTCUSD, BTCPERP)
+ */
+function productTypeOf(symbol: string): string {
+  return symbol.endsWith('PERP') ? 'USDC-FUTURES' : symbol.endsWith('USDT') ? 'USDT-FUTURES' : 'COIN-FUTURES';
+}
+
+function contractCoins(symbol: string): { baseCoin: string; quoteCoin: string; marginCoin: string } {
+  switch (productTypeOf(symbol)) {
+    case 'USDC-FUTURES':
+      return { baseCoin: symbol.slice(0, -4), quoteCoin: 'USDC', marginCoin: 'USDC' };
+    case 'USDT-FUTURES':
+      return { baseCoin: symbol.slice(0, -4), quoteCoin: 'USDT', marginCoin: 'USDT' };
+    default:
+      return { baseCoin: symbol.slice(0, -3), quoteCoin: 'USD', marginCoin: symbol.slice(0, -3) };
+  }
+}
+const PRIVATE_WS_CHANNELS = ['orders', 'positions', 'account', 'orders-algo', 'fill'];
+
+export class MockBitgetExchange {
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private port = 0;
+  private options: Required<Omit<MockExchangeOptions, 'spotBalances' | 'futuresEquity'>>;
+  private routes = new Map<string, RouteHandler>();
+  private failures = new Map<string, MockErrorInput[]>();
+  private wsSubscriptions = new Map<WebSocket, Set<string>>();
+  private wsPrivateSockets = new Set<WebSocket>();
+  private wsAuthenticated = new Set<WebSocket>();
+  private orderSeq = 1;
+
+  readonly tickers = new Map<string, MockTickerInput>();
+  readonly candles = new Map<string, MockCandleInput[]>();
+  readonly orderBooks = new Map<string, { bids: [number, number][]; asks: [number, number][] }>();
+  readonly orders: MockOrder[] = [];
+  readonly positions: MockPosition[] = [];
+  readonly planOrders: MockPlanOrder[] = [];
+  readonly fills: MockFill[] = [];
+  readonly spotBalances = new Map<string, { available: number; frozen: number }>();
+  readonly requests: MockRequestRecord[] = [];
+  readonly leverage = new Map<string, number>();
+  readonly crossedMargin = new Map<string, MockMarginAsset>();
+  readonly isolatedMargin = new Map<string, Map<string, MockMarginAsset>>();
+  readonly marginInterest: MockMarginInterest[] = [];
+  futuresEquity: number;
+  marginMode: 'crossed' | 'isolated' = 'crossed';
+  posMode: 'one_way_mode' | 'hedge_mode' = 'one_way_mode';
+
+  constructor(options: MockExchangeOptions = {}) {
+    this.options = {
+      apiKey: options.apiKey ?? 'mock-api-key',
+      secretKey: options.secretKey ?? 'mock-secret-key',
+      passphrase: options.passphrase ?? 'mock-passphrase',
+    };
+    const balances = options.spotBalances ?? { USDT: 10000 };
+    for (const [coin, amount] of Object.entries(balances)) {
+      this.spotBalances.set(coin, { available: amount, frozen: 0 });
+    }
+    this.futuresEquity = options.futuresEquity ?? 10000;
+    this.registerRoutes();
+  }
+
+  // ========== LIFECYCLE ==========
+
+  /**
+   * Start HTTP + WebSocket listeners on an ephemeral localhost port
+   */
+  async start(): Promise<{ baseUrl: string; wsUrl: string }> {
+    this.server = http.createServer((req, res) => {
+      this.handleHttp(req, res).catch((error) => {
+        this.sendJson(res, 500, { code: '50001', msg: error.message, requestTime: Date.now(), data: null });
+      });
+    });
+    this.wss = new WebSocketServer({ server: this.server });
+    this.wss.on('connection', (socket, req) => this.handleWsConnection(socket, (req.url || '').includes('/private')));
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+    return { baseUrl: this.baseUrl, wsUrl: this.wsUrl };
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.wsSubscriptions.keys()) socket.terminate();
+    this.wsSubscriptions.clear();
+    if (this.wss) {
+      await new Promise<void>((resolve) => this.wss!.close(() => resolve()));
+      this.wss = null;
+    }
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  get wsUrl(): string {
+    return `ws://127.0.0.1:${this.port}/v2/ws/public`;
+  }
+
+  get wsPrivateUrl(): string {
+    return `ws://127.0.0.1:${this.port}/v2/ws/private`;
+  }
+
+  /**
+   * Client configuration matching this exchange's credentials and endpoints
+   */
+  clientConfig(overrides: Partial<BitgetConfig> = {}): BitgetConfig {
+    return {
+      apiKey: this.options.apiKey,
+      secretKey: this.options.secretKey,
+      passphrase: this.options.passphrase,
+      sandbox: false,
+      baseUrl: this.baseUrl,
+      wsUrl: this.wsUrl,
+      wsPrivateUrl: this.wsPrivateUrl,
+      ...overrides,
+    };
+  }
+
+  // ========== STATE SETUP ==========
+
+  /**
+   * Set the ticker for a symbol; moves the market, fills resting orders and fires triggers
+   */
+  setTicker(symbol: string, ticker: MockTickerInput): void {
+    this.tickers.set(symbol, ticker);
+    this.matchRestingOrders(symbol);
+    this.evaluatePlanOrders(symbol);
+    this.publish({ instType: 'SPOT', channel: 'ticker', instId: symbol }, [this.wsTicker(symbol)], 'snapshot');
+    this.publish({ instType: 'USDT-FUTURES', channel: 'ticker', instId: symbol }, [this.wsTicker(symbol)], 'snapshot');
+  }
+
+  setCandles(symbol: string, granularity: string, candles: MockCandleInput[]): void {
+    this.candles.set(`${symbol}:${granularity}`, candles.slice().sort((a, b) => a[0] - b[0]));
+  }
+
+  setOrderBook(symbol: string, book: { bids: [number, number][]; asks: [number, number][] }): void {
+    this.orderBooks.set(symbol, book);
+    for (const instType of ['SPOT', 'USDT-FUTURES']) {
+      this.publish({ instType, channel: 'books', instId: symbol }, [this.wsBook(symbol)], 'snapshot');
+    }
+  }
+
+  /**
+   * Apply level changes (size 0 removes a level) and push a `books` update with its checksum.
+   * `checksum` overrides the computed value to simulate a corrupted stream.
+   */
+  updateOrderBook(symbol: string, delta: { bids?: [number, number][]; asks?: [number, number][] }, checksum?: number): void {
+    const book = this.orderBooks.get(symbol) ?? { bids: [], asks: [] };
+    const merge = (side: [number, number][], changes: [number, number][] = []) => {
+      const levels = new Map(side);
+      for (const [price, size] of changes) {
+        if (size === 0) levels.delete(price);
+        else levels.set(price, size);
+      }
+      return [...levels.entries()];
+    };
+    book.bids = merge(book.bids, delta.bids).sort((a, b) => b[0] - a[0]);
+    book.asks = merge(book.asks, delta.asks).sort((a, b) => a[0] - b[0]);
+    this.orderBooks.set(symbol, book);
+
+    const full = this.wsBook(symbol);
+    const update = {
+      bids: this.levels(delta.bids ?? []),
+      asks: this.levels(delta.asks ?? []),
+      checksum: checksum ?? full.checksum,
+      ts: full.ts,
+    };
+    for (const instType of ['SPOT', 'USDT-FUTURES']) {
+      this.publish({ instType, channel: 'books', instId: symbol }, [update]);
+    }
+  }
+
+  /**
+   * Make the next N requests to an endpoint fail with a Bitget error envelope
+   */
+  failNext(path: string, error: MockErrorInput): void {
+    const queue = this.failures.get(path) || [];
+    queue.push({ times: 1, ...error });
+    this.failures.set(path, queue);
+  }
+
+  /**
+   * Requests received for an endpoint path (most recent last)
+   */
+  requestsTo(path: string): MockRequestRecord[] {
+    return this.requests.filter(r => r.path === path);
+  }
+
+  reset(): void {
+    this.orders.length = 0;
+    this.positions.length = 0;
+    this.planOrders.length = 0;
+    this.fills.length = 0;
+    this.requests.length = 0;
+    this.failures.clear();
+    this.posMode = 'one_way_mode';
+    this.crossedMargin.clear();
+    this.isolatedMargin.clear();
+    this.marginInterest.length = 0;
+  }
+
+  /**
+   * Put collateral into the crossed margin account or an isolated pair
+   */
+  fundMargin(marginType: 'crossed' | 'isolated', coin: string, amount: number, symbol?: string): void {
+    this.marginAsset(this.marginAccount(marginType, symbol), coin).available += amount;
+  }
+
+  // ========== WEBSOCKET ==========
+
+  /**
+   * Push a channel message to every socket subscribed to the given arg
+   */
+  publish(arg: { instType: string; channel: string; instId: string }, data: any[], action: 'snapshot' | 'update' = 'update'): void {
+    const key = `${arg.instType}:${arg.channel}:${arg.instId}`;
+    const payload = JSON.stringify({ action, arg, data, ts: Date.now() });
+    for (const [socket, keys] of this.wsSubscriptions) {
+      if (keys.has(key) && socket.readyState === WebSocket.OPEN) socket.send(payload);
+    }
+  }
+
+  /**
+   * Push a private-channel message to logged-in sockets subscribed to the symbol or to 'default'
+   */
+  publishPrivate(instType: string, channel: string, instId: string, data: any[]): void {
+    const arg = { instType, channel, ...(channel === 'account' ? { coin: 'default' } : { instId: 'default' }) };
+    const keys = [`${instType}:${channel}:default`, `${instType}:${channel}:${instId}`];
+    for (const socket of this.wsAuthenticated) {
+      const subscribed = this.wsSubscriptions.get(socket);
+      if (!subscribed || socket.readyState !== WebSocket.OPEN) continue;
+      const match = keys.find(k => subscribed.has(k));
+      if (!match) continue;
+      const sentArg = match.endsWith(':default') ? arg : { ...arg, instId };
+      socket.send(JSON.stringify({ action: 'snapshot', arg: sentArg, data, ts: Date.now() }));
+    }
+  }
+
+  private handleWsConnection(socket: WebSocket, isPrivate: boolean): void {
+    this.wsSubscriptions.set(socket, new Set());
+    if (isPrivate) this.wsPrivateSockets.add(socket);
+    socket.on('close', () => {
+      this.wsSubscriptions.delete(socket);
+      this.wsPrivateSockets.delete(socket);
+      this.wsAuthenticated.delete(socket);
+    });
+    socket.on('message', (raw) => {
+      const text = raw.toString();
+      if (text === 'ping') {
+        socket.send('pong');
+        return;
+      }
+      let message: any;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        socket.send(JSON.stringify({ event: 'error', code: '30001', msg: 'Invalid request' }));
+        return;
+      }
+      if (message.op === 'login') {
+        const error = this.checkWsLogin(message.args?.[0], isPrivate);
+        if (error) {
+          socket.send(JSON.stringify({ event: 'error', code: error.code, msg: error.message }));
+        } else {
+          this.wsAuthenticated.add(socket);
+          socket.send(JSON.stringify({ event: 'login', code: 0 }));
+        }
+        return;
+      }
+      const keys = this.wsSubscriptions.get(socket)!;
+      for (const arg of message.args || []) {
+        const key = `${arg.instType}:${arg.channel}:${arg.instId ?? arg.coin}`;
+        if (PRIVATE_WS_CHANNELS.includes(arg.channel) && !this.wsAuthenticated.has(socket)) {
+          socket.send(JSON.stringify({ event: 'error', arg, code: '30004', msg: 'User needs to log in' }));
+          continue;
+        }
+        if (message.op === 'subscribe') {
+          keys.add(key);
+          socket.send(JSON.stringify({ event: 'subscribe', arg }));
+          const snapshot = this.wsSnapshot(arg);
+          if (snapshot) socket.send(JSON.stringify({ action: 'snapshot', arg, data: snapshot, ts: Date.now() }));
+        } else if (message.op === 'unsubscribe') {
+          keys.delete(key);
+          socket.send(JSON.stringify({ event: 'unsubscribe', arg }));
+        }
+      }
+    });
+  }
+
+  /**
+   * Verify a WebSocket login the way Bitget does: HMAC-SHA256(timestamp + 'GET' + '/user/verify')
+   */
+  private checkWsLogin(args: any, isPrivate: boolean): MockApiError | null {
+    if (!isPrivate) return new MockApiError('30001', 'Login is only supported on the private endpoint');
+    if (!args || args.apiKey !== this.options.apiKey) return new MockApiError('30011', 'Invalid ACCESS_KEY');
+    if (args.passphrase !== this.options.passphrase) return new MockApiError('30012', 'Invalid ACCESS_PASSPHRASE');
+    const expected = crypto
+      .createHmac('sha256', this.options.secretKey)
+      .update(`${args.timestamp}GET/user/verify`)
+      .digest('base64');
+    if (expected !== args.sign) return new MockApiError('30005', 'Invalid sign');
+    return null;
+  }
+
+  private wsSnapshot(arg: { channel: string; instId: string }): any[] | null {
+    if (arg.channel === 'ticker' && this.tickers.has(arg.instId)) {
+      return [this.wsTicker(arg.instId)];
+    }
+    if (arg.channel.startsWith('books') && this.orderBooks.has(arg.instId)) {
+      return [this.wsBook(arg.instId)];
+    }
+    return null;
+  }
+
+  private wsBook(symbol: string): { asks: [string, string][]; bids: [string, string][]; checksum: number; ts: string } {
+    const book = this.orderBooks.get(symbol)!;
+    const bids = this.levels([...book.bids].sort((a, b) => b[0] - a[0]));
+    const asks = this.levels([...book.asks].sort((a, b) => a[0] - b[0]));
+    return { asks, bids, checksum: orderBookChecksum(bids, asks), ts: Date.now().toString() };
+  }
+
+  private wsTicker(symbol: string): any {
+    const t = this.tickers.get(symbol)!;
+    return {
+      instId: symbol,
+      lastPr: t.last.toString(),
+      bidPr: (t.bid ?? t.last).toString(),
+      askPr: (t.ask ?? t.last).toString(),
+      high24h: (t.high24h ?? t.last).toString(),
+      low24h: (t.low24h ?? t.last).toString(),
+      baseVolume: (t.baseVolume ?? 0).toString(),
+      ts: Date.now().toString(),
+    };
+  }
+
+  // ========== HTTP ==========
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.baseUrl);
+    const method = (req.method || 'GET').toUpperCase();
+    const rawBody = await this.readBody(req);
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => { query[key] = value; });
+    const isPrivate = !url.pathname.includes('/market/') && !url.pathname.includes('/public/');
+
+    let body: any = {};
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return this.sendError(res, new MockApiError('40017', 'Parameter verification failed'));
+      }
+    }
+    this.requests.push({ method, path: url.pathname, query, body, private: isPrivate });
+
+    if (isPrivate) {
+      const authError = this.checkAuth(req, method, url.pathname + url.search, rawBody);
+      if (authError) return this.sendError(res, authError);
+    }
+
+    const injected = this.takeFailure(url.pathname);
+    const injectedError = injected
+      ? new MockApiError(injected.code, injected.msg, injected.httpStatus ?? (injected.code === '40014' ? 429 : 400))
+      : null;
+    const delay = () => new Promise(resolve => setTimeout(resolve, injected?.delayMs ?? 0));
+    if (injectedError && !injected?.afterApply) {
+      await delay();
+      return this.sendError(res, injectedError);
+    }
+
+    const handler = this.routes.get(`${method} ${url.pathname}`);
+    if (!handler) {
+      return this.sendError(res, new MockApiError('40404', `Request URL NOT FOUND: ${url.pathname}`, 404));
+    }
+
+    try {
+      const data = handler({ query, body });
+      if (injectedError) {
+        await delay();
+        return this.sendError(res, injectedError);
+      }
+      this.sendJson(res, 200, { code: '00000', msg: 'success', requestTime: Date.now(), data });
+    } catch (error) {
+      if (error instanceof MockApiError) return this.sendError(res, error);
+      throw error;
+    }
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      req.on('data', (chunk) => { data += chunk; });
+      req.on('end', () => resolve(data));
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Verify ACCESS-* headers the same way Bitget does (HMAC-SHA256, base64)
+   */
+  private checkAuth(req: http.IncomingMessage, method: string, requestPath: string, body: string): MockApiError | null {
+    const key = req.headers['access-key'];
+    const sign = req.headers['access-sign'];
+    const timestamp = req.headers['access-timestamp'];
+    const passphrase = req.headers['access-passphrase'];
+
+    if (!key || !sign || !timestamp || !passphrase) {
+      return new MockApiError('40001', 'ACCESS_KEY cannot be empty');
+    }
+    if (key !== this.options.apiKey) {
+      return new MockApiError('40006', 'Invalid ACCESS_KEY');
+    }
+    if (passphrase !== this.options.passphrase) {
+      return new MockApiError('40012', 'apikey/password is incorrect');
+    }
+    const expected = crypto
+      .createHmac('sha256', this.options.secretKey)
+      .update(`${timestamp}${method}${requestPath}${body}`)
+      .digest('base64');
+    if (expected !== sign) {
+      return new MockApiError('40009', 'sign signature error');
+    }
+    return null;
+  }
+
+  private takeFailure(path: string): MockErrorInput | null {
+    const queue = this.failures.get(path);
+    if (!queue || queue.length === 0) return null;
+    const failure = queue[0];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) queue.shift();
+    return failure;
+  }
+
+  private sendError(res: http.ServerResponse, error: MockApiError): void {
+    this.sendJson(res, error.httpStatus, { code: error.code, msg: error.message, requestTime: Date.now(), data: null });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, payload: any): void {
+    if (res.destroyed) return; // Client gave up (timeout)
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  // ========== ROUTES ==========
+
+  private route(method: 'GET' | 'POST', path: string, handler: RouteHandler): void {
+    this.routes.set(`${method} ${path}`, handler);
+  }
+
+  private registerRoutes(): void {
+    // Public market data
+    this.route('GET', '/api/v2/spot/market/tickers', ({ query }) => {
+      const symbols = query.symbol ? [query.symbol] : [...this.tickers.keys()];
+      return symbols.filter(s => this.tickers.has(s)).map(s => this.spotTicker(s));
+    });
+    this.route('GET', '/api/v2/mix/market/ticker', ({ query }) => {
+      this.requireProductType(query.productType);
+      return [this.futuresTicker(this.requireTicker(query.symbol))];
+    });
+    this.route('GET', '/api/v2/mix/market/tickers', ({ query }) => {
+      this.requireProductType(query.productType);
+      return [...this.tickers.keys()].map(s => this.futuresTicker(s));
+    });
+    this.route('GET', '/api/v2/spot/market/orderbook', ({ query }) => this.depth(query.symbol, query.limit));
+    this.route('GET', '/api/v2/mix/market/depth', ({ query }) => {
+      this.requireProductType(query.productType);
+      return this.depth(query.symbol, query.limit);
+    });
+    this.route('GET', '/api/v2/spot/market/candles', ({ query }) => this.candleRows(query, false, 1000));
+    this.route('GET', '/api/v2/mix/market/candles', ({ query }) => {
+      this.requireProductType(query.productType);
+      return this.candleRows(query, true, 1000);
+    });
+    this.route('GET', '/api/v2/spot/market/history-candles', ({ query }) => {
+      if (!query.endTime) throw new MockApiError('40019', 'Parameter endTime cannot be empty');
+      return this.candleRows(query, false, 200);
+    });
+    this.route('GET', '/api/v2/mix/market/history-candles', ({ query }) => {
+      this.requireProductType(query.productType);
+      return this.candleRows(query, true, 200);
+    });
+    this.route('GET', '/api/v2/mix/market/contracts', ({ query }) => {
+      this.requireProductType(query.productType);
+      return [...this.tickers.keys()].filter(symbol => this.inProduct(symbol, query.productType)).map(symbol => ({
+        symbol,
+        baseCoin: contractCoins(symbol).baseCoin,
+        quoteCoin: contractCoins(symbol).quoteCoin,
+        pricePlace: '2',
+        priceEndStep: '1',
+        volumePlace: '3',
+        sizeMultiplier: '0.001',
+        minTradeNum: '0.001',
+        maxLever: '125',
+        minLever: '1',
+        symbolStatus: 'normal',
+        supportMarginCoins: [contractCoins(symbol).marginCoin],
+      }));
+    });
+    this.route('GET', '/api/v2/spot/public/symbols', () =>
+      [...this.tickers.keys()].map(symbol => ({
+        symbol,
+        baseCoin: symbol.replace(/USDT$/, ''),
+        quoteCoin: 'USDT',
+        minTradeAmount: '0.0001',
+        maxTradeAmount: '10000',
+        pricePrecision: '2',
+        quantityPrecision: '4',
+        quotePrecision: '6',
+        minTradeUSDT: '1',
+        status: 'online',
+      }))
+    );
+    this.route('GET', '/api/v2/spot/market/support-symbols', () =>
+      [...this.tickers.keys()].map(symbol => ({ symbol, isMarginOpen: '1' }))
+    );
+    this.route('GET', '/api/v2/mix/market/current-fund-rate', ({ query }) => {
+      const t = this.tickers.get(this.requireTicker(query.symbol))!;
+      return [{ symbol: query.symbol, fundingRate: (t.fundingRate ?? 0.0001).toString() }];
+    });
+    this.route('GET', '/api/v2/mix/market/history-fund-rate', ({ query }) => {
+      const t = this.tickers.get(this.requireTicker(query.symbol))!;
+      return [{ symbol: query.symbol, fundingRate: (t.fundingRate ?? 0.0001).toString(), fundingTime: Date.now().toString() }];
+    });
+
+    // Spot account & trading
+    this.route('GET', '/api/v2/spot/account/assets', () =>
+      [...this.spotBalances.entries()].map(([coin, b]) => ({
+        coin,
+        available: b.available.toString(),
+        frozen: b.frozen.toString(),
+        locked: '0',
+        limitAvailable: '0',
+        uTime: Date.now().toString(),
+      }))
+    );
+    this.route('POST', '/api/v2/spot/trade/place-order', ({ body }) => {
+      this.requireFields(body, ['symbol', 'side', 'orderType', 'size']);
+      const order = this.createOrder('spot', body);
+      return { orderId: order.orderId, clientOid: order.clientOid };
+    });
+    this.route('POST', '/api/v2/spot/trade/cancel-order', ({ body }) => {
+      const order = this.cancelOrder('spot', body);
+      return { orderId: order.orderId, clientOid: order.clientOid };
+    });
+    this.route('GET', '/api/v2/spot/trade/orderInfo', ({ query }) =>
+      this.findOrders('spot', query).map(o => ({
+        symbol: o.symbol,
+        orderId: o.orderId,
+        clientOid: o.clientOid,
+        price: (o.price ?? 0).toString(),
+        size: o.size.toString(),
+        orderType: o.orderType,
+        side: o.side,
+        status: o.status,
+        priceAvg: (o.priceAvg ?? 0).toString(),
+        baseVolume: o.filledSize.toString(),
+        cTime: o.cTime.toString(),
+        uTime: o.uTime.toString(),
+      }))
+    );
+    this.route('GET', '/api/v2/spot/trade/unfilled-orders', ({ query }) =>
+      this.openOrders('spot', query.symbol).map(o => ({
+        symbol: o.symbol,
+        orderId: o.orderId,
+        clientOid: o.clientOid,
+        priceAvg: (o.priceAvg ?? 0).toString(),
+        price: (o.price ?? 0).toString(),
+        size: o.size.toString(),
+        orderType: o.orderType,
+        side: o.side,
+        status: o.status,
+        baseVolume: o.filledSize.toString(),
+        cTime: o.cTime.toString(),
+        uTime: o.uTime.toString(),
+      }))
+    );
+
+    // Spot margin (crossed and isolated share one shape; isolated calls carry the pair)
+    for (const marginType of ['crossed', 'isolated'] as const) {
+      const base = `/api/v2/margin/${marginType}`;
+      const isolated = marginType === 'isolated';
+
+      this.route('GET', `${base}/account/assets`, ({ query }) => {
+        const accounts: Array<[string | undefined, Map<string, MockMarginAsset>]> = isolated
+          ? [...this.isolatedMargin].filter(([symbol]) => !query.symbol || symbol === query.symbol)
+          : [[undefined, this.crossedMargin]];
+        return accounts.flatMap(([symbol, account]) => [...account]
+          .filter(([coin]) => !query.coin || coin === query.coin)
+          .map(([coin, a]) => ({
+            ...(symbol ? { symbol } : {}),
+            coin,
+            totalAmount: (a.available + a.frozen).toString(),
+            available: a.available.toString(),
+            frozen: a.frozen.toString(),
+            borrow: a.borrowed.toString(),
+            interest: a.interest.toString(),
+            net: (a.available + a.frozen - a.borrowed - a.interest).toString(),
+            coupon: '0',
+            cTime: '0',
+            uTime: Date.now().toString(),
+          })));
+      });
+      this.route('GET', `${base}/account/max-borrowable-amount`, ({ query }) => {
+        if (!isolated) {
+          this.requireFields(query, ['coin']);
+          return { coin: query.coin, maxBorrowableAmount: this.maxBorrowable('crossed', query.coin).toString() };
+        }
+        this.requireFields(query, ['symbol']);
+        const [baseCoin, quoteCoin] = this.marginPair(query.symbol);
+        return {
+          symbol: query.symbol,
+          baseCoin,
+          baseCoinMaxBorrowAmount: this.maxBorrowable('isolated', baseCoin, query.symbol).toString(),
+          quoteCoin,
+          quoteCoinMaxBorrowAmount: this.maxBorrowable('isolated', quoteCoin, query.symbol).toString(),
+        };
+      });
+      this.route('POST', `${base}/account/borrow`, ({ body }) => {
+        this.requireFields(body, isolated ? ['symbol', 'coin', 'borrowAmount'] : ['coin', 'borrowAmount']);
+        const amount = parseFloat(body.borrowAmount);
+        if (!(amount > 0)) throw new MockApiError('40017', 'Parameter borrowAmount is invalid');
+        this.borrow(marginType, body.coin, amount, body.symbol);
+        return { loanId: this.nextId(), ...(isolated ? { symbol: body.symbol } : {}), coin: body.coin, borrowAmount: body.borrowAmount };
+      });
+      this.route('POST', `${base}/account/repay`, ({ body }) => {
+        this.requireFields(body, isolated ? ['symbol', 'coin', 'repayAmount'] : ['coin', 'repayAmount']);
+        const asset = this.marginAsset(this.marginAccount(marginType, body.symbol), body.coin);
+        const repaid = this.repay(asset, parseFloat(body.repayAmount));
+        if (repaid === 0) throw new MockApiError('40051', 'No debt to repay or insufficient balance');
+        return {
+          ...(isolated ? { symbol: body.symbol } : {}),
+          coin: body.coin,
+          repayId: this.nextId(),
+          remainDebtAmount: (asset.borrowed + asset.interest).toString(),
+          repayAmount: repaid.toString(),
+        };
+      });
+      this.route('POST', `${base}/place-order`, ({ body }) => {
+        this.requireFields(body, ['symbol', 'side', 'orderType', 'loanType']);
+        const order = this.createMarginOrder(marginType, body);
+        return { orderId: order.orderId, clientOid: order.clientOid };
+      });
+      for (const list of ['open-orders', 'history-orders']) {
+        this.route('GET', `${base}/${list}`, ({ query }) => {
+          this.requireFields(query, ['symbol', 'startTime']);
+          const open = list === 'open-orders';
+          const orderList = this.orders
+            .filter(o => o.marginType === marginType && o.symbol === query.symbol)
+            .filter(o => open === (o.status === 'live' || o.status === 'partially_filled'))
+            .filter(o => (!query.orderId || o.orderId === query.orderId) && (!query.clientOid || o.clientOid === query.clientOid))
+            .map(o => ({
+              orderId: o.orderId,
+              clientOid: o.clientOid,
+              symbol: o.symbol,
+              side: o.side,
+              orderType: o.orderType,
+              loanType: o.loanType,
+              price: (o.price ?? 0).toString(),
+              size: o.size.toString(),
+              priceAvg: (o.priceAvg ?? 0).toString(),
+              baseSize: o.filledSize.toString(),
+              status: o.status,
+              ctime: o.cTime.toString(),
+              uTime: o.uTime.toString(),
+            }));
+          return { orderList, maxId: orderList[0]?.orderId ?? null, minId: orderList[orderList.length - 1]?.orderId ?? null };
+        });
+      }
+      this.route('GET', `${base}/interest-history`, ({ query }) => {
+        this.requireFields(query, isolated ? ['symbol', 'startTime'] : ['startTime']);
+        const resultList = this.marginInterest
+          .filter(i => i.marginType === marginType && i.cTime >= parseInt(query.startTime, 10))
+          .filter(i => (!query.symbol || i.symbol === query.symbol) && (!query.coin || i.coin === query.coin))
+          .sort((a, b) => b.cTime - a.cTime)
+          .slice(0, parseInt(query.limit || '100', 10))
+          .map(i => ({
+            interestId: i.interestId,
+            ...(i.symbol ? { symbol: i.symbol } : {}),
+            interestCoin: i.coin,
+            loanCoin: i.coin,
+            dailyInterestRate: MARGIN_DAILY_RATE.toString(),
+            interestAmount: i.amount.toString(),
+            interstType: i.type,
+            cTime: i.cTime.toString(),
+          }));
+        return { resultList, maxId: resultList[0]?.interestId ?? null, minId: resultList[resultList.length - 1]?.interestId ?? null };
+      });
+    }
+
+    // Futures trading
+    this.route('POST', '/api/v2/mix/order/place-order', ({ body }) => {
+      this.requireFields(body, ['symbol', 'productType', 'marginCoin', 'side', 'orderType', 'size']);
+      this.requireContract(body);
+      const order = this.createOrder('futures', body);
+      return { orderId: order.orderId, clientOid: order.clientOid };
+    });
+    this.route('POST', '/api/v2/mix/order/cancel-order', ({ body }) => {
+      this.requireProductType(body.productType);
+      const order = this.cancelOrder('futures', body);
+      return { orderId: order.orderId, clientOid: order.clientOid };
+    });
+    this.route('POST', '/api/v2/mix/order/cancel-all-orders', ({ body }) => {
+      this.requireProductType(body.productType);
+      const open = this.openOrders('futures', body.symbol).filter(o => this.inProduct(o.symbol, body.productType));
+      if (open.length === 0) throw new MockApiError('22001', 'No order to cancel');
+      for (const o of open) this.markCancelled(o);
+      return { successList: open.map(o => ({ orderId: o.orderId, clientOid: o.clientOid })), failureList: [] };
+    });
+    this.route('GET', '/api/v2/mix/order/detail', ({ query }) => {
+      this.requireProductType(query.productType);
+      const order = this.findOrders('futures', query).find(o => !query.symbol || o.symbol === query.symbol);
+      if (!order) throw new MockApiError('40109', 'The data of the order cannot be found, please confirm the order number');
+      return this.futuresOrderView(order);
+    });
+    this.route('GET', '/api/v2/mix/order/orders-pending', ({ query }) => {
+      this.requireProductType(query.productType);
+      const open = this.openOrders('futures', query.symbol).filter(o => this.inProduct(o.symbol, query.productType));
+      return { entrustedList: open.map(o => this.futuresOrderView(o)), endId: null };
+    });
+    this.route('GET', '/api/v2/mix/order/orders-history', ({ query }) => {
+      this.requireProductType(query.productType);
+      const done = this.orders
+        .filter(o => o.market === 'futures' && (o.status === 'filled' || o.status === 'cancelled') && (!query.symbol || o.symbol === query.symbol) && this.inProduct(o.symbol, query.productType))
+        .sort((a, b) => b.uTime - a.uTime);
+      return { entrustedList: done.map(o => this.futuresOrderView(o)), endId: null };
+    });
+    this.route('GET', '/api/v2/mix/order/fill-history', ({ query }) => {
+      this.requireProductType(query.productType);
+      const limit = Math.min(parseInt(query.limit || '100'), 100);
+      const fills = this.fills
+        .filter(f => this.inProduct(f.symbol, query.productType) && (!query.symbol || f.symbol === query.symbol))
+        .filter(f => (!query.startTime || f.cTime >= parseInt(query.startTime)) && (!query.endTime || f.cTime <= parseInt(query.endTime)))
+        .filter(f => !query.idLessThan || BigInt(f.tradeId) < BigInt(query.idLessThan))
+        .sort((a, b) => (BigInt(b.tradeId) > BigInt(a.tradeId) ? 1 : -1))
+        .slice(0, limit);
+      return {
+        fillList: fills.map(f => ({
+          tradeId: f.tradeId,
+          orderId: f.orderId,
+          symbol: f.symbol,
+          side: f.side,
+          tradeSide: f.tradeSide,
+          price: f.price.toString(),
+          baseVolume: f.size.toString(),
+          quoteVolume: (f.size * f.price).toString(),
+          profit: f.profit.toString(),
+          feeDetail: [{ feeCoin: 'USDT', totalFee: '0' }],
+          cTime: f.cTime.toString(),
+        })),
+        endId: fills.length ? fills[fills.length - 1].tradeId : null,
+      };
+    });
+    this.route('POST', '/api/v2/mix/order/close-positions', ({ body }) => {
+      this.requireProductType(body.productType);
+      // holdSide is only honoured in hedge mode
+      const side = this.posMode === 'hedge_mode' ? body.holdSide : undefined;
+      const closing = this.positions.filter(p => p.total > 0 && this.inProduct(p.symbol, body.productType) && (!body.symbol || p.symbol === body.symbol) && (!side || p.holdSide === side));
+      if (closing.length === 0) throw new MockApiError('22002', 'No position to close');
+      const successList = closing.map(p => {
+        this.reducePosition(p, p.total, this.lastPrice(p.symbol));
+        return { orderId: this.nextId(), clientOid: this.nextId(), symbol: p.symbol };
+      });
+      return { successList, failureList: [] };
+    });
+
+    // Futures TPSL / plan orders
+    this.route('POST', '/api/v2/mix/order/place-tpsl-order', ({ body }) => {
+      this.requireFields(body, ['symbol', 'productType', 'marginCoin', 'planType', 'triggerPrice', 'holdSide']);
+      this.requireContract(body);
+      if (body.planType !== 'pos_profit' && body.planType !== 'pos_loss') this.requireFields(body, ['size']);
+      const plan = this.createPlanOrder(body);
+      return { orderId: plan.orderId, clientOid: plan.clientOid };
+    });
+    this.route('POST', '/api/v2/mix/order/place-plan-order', ({ body }) => {
+      this.requireFields(body, ['symbol', 'productType', 'marginCoin', 'planType', 'triggerPrice', 'size']);
+      this.requireContract(body);
+      const plan = this.createPlanOrder(body);
+      return { orderId: plan.orderId, clientOid: plan.clientOid };
+    });
+    this.route('GET', '/api/v2/mix/order/orders-plan-pending', ({ query }) => {
+      this.requireProductType(query.productType);
+      const entrustedList = this.planOrders
+        .filter(p => p.status === 'live' && this.inProduct(p.symbol, query.productType) && (!query.symbol || p.symbol === query.symbol))
+        .map(p => this.planOrderView(p));
+      return { entrustedList, endId: null };
+    });
+    this.route('POST', '/api/v2/mix/order/cancel-plan-order', ({ body }) => {
+      this.requireProductType(body.productType);
+      const ids: Array<{ orderId?: string; clientOid?: string }> = body.orderIdList || [];
+      const successList: any[] = [];
+      const failureList: any[] = [];
+      for (const id of ids) {
+        const plan = this.planOrders.find(p => p.status === 'live' && (p.orderId === id.orderId || p.clientOid === id.clientOid));
+        if (plan) {
+          plan.status = 'cancelled';
+          plan.uTime = Date.now();
+          this.pushPlanOrder(plan);
+          successList.push({ orderId: plan.orderId, clientOid: plan.clientOid });
+        } else {
+          failureList.push({ ...id, errorMsg: 'The order does not exist' });
+        }
+      }
+      if (successList.length === 0) throw new MockApiError('40768', 'Order does not exist');
+      return { successList, failureList };
+    });
+    this.route('POST', '/api/v2/mix/order/modify-tpsl-order', ({ body }) => {
+      this.requireFields(body, ['symbol', 'productType', 'marginCoin', 'triggerPrice']);
+      this.requireProductType(body.productType);
+      if (!body.orderId && !body.clientOid) throw new MockApiError('40017', 'Parameter verification failed: orderId or clientOid is required');
+      const plan = this.planOrders.find(p => p.status === 'live' && p.symbol === body.symbol && (body.orderId ? p.orderId === body.orderId : p.clientOid === body.clientOid));
+      if (!plan) throw new MockApiError('40768', 'Order does not exist');
+      plan.triggerPrice = parseFloat(body.triggerPrice);
+      if (body.triggerType) plan.triggerType = body.triggerType;
+      plan.uTime = Date.now();
+      return { orderId: plan.orderId, clientOid: plan.clientOid };
+    });
+
+    // Futures account & positions
+    this.route('GET', '/api/v2/mix/position/all-position', ({ query }) => {
+      this.requireProductType(query.productType);
+      // Like Bitget, all-position takes no symbol and returns the whole product type
+      return this.positions.filter(p => p.total > 0 && this.inProduct(p.symbol, query.productType)).map(p => this.positionView(p));
+    });
+    this.route('GET', '/api/v2/mix/account/accounts', ({ query }) => {
+      this.requireProductType(query.productType);
+      if (!query.symbol) return [this.futuresAccountView()];
+      const leverage = (this.leverage.get(query.symbol) ?? 10).toString();
+      return [{ ...this.futuresAccountView(), crossedMarginLeverage: leverage, isolatedLongLever: leverage, isolatedShortLever: leverage }];
+    });
+    this.route('POST', '/api/v2/mix/account/set-leverage', ({ body }) => {
+      this.requireFields(body, ['symbol', 'productType', 'marginCoin', 'leverage']);
+      this.requireContract(body);
+      const lev = parseInt(body.leverage, 10);
+      if (!(lev >= 1 && lev <= 125)) throw new MockApiError('40017', 'Parameter verification failed');
+      this.leverage.set(body.symbol, lev);
+      return { symbol: body.symbol, marginCoin: body.marginCoin, longLeverage: body.leverage, shortLeverage: body.leverage, marginMode: this.marginMode };
+    });
+    this.route('POST', '/api/v2/mix/account/set-margin-mode', ({ body }) => {
+      this.requireFields(body, ['productType', 'marginCoin', 'marginMode']);
+      if (this.positions.some(p => p.total > 0) || this.openOrders('futures').length > 0) {
+        throw new MockApiError('40919', 'Position or order exists, margin mode cannot be changed');
+      }
+      this.marginMode = body.marginMode;
+      return { symbol: body.symbol, marginCoin: body.marginCoin, marginMode: body.marginMode };
+    });
+    this.route('POST', '/api/v2/mix/account/set-position-mode', ({ body }) => {
+      this.requireFields(body, ['productType', 'posMode']);
+      this.requireProductType(body.productType);
+      if (body.posMode !== 'one_way_mode' && body.posMode !== 'hedge_mode') {
+        throw new MockApiError('40017', 'Parameter posMode error');
+      }
+      if (this.positions.some(p => p.total > 0) || this.openOrders('futures').length > 0) {
+        throw new MockApiError('40920', 'Position or order exists, the position mode cannot be changed');
+      }
+      this.posMode = body.posMode;
+      return { posMode: body.posMode };
+    });
+  }
+
+  // ========== MATCHING ==========
+
+  private createOrder(market: 'spot' | 'futures', body: any): MockOrder {
+    this.requireTicker(body.symbol);
+    if (body.clientOid && this.orders.some(o => o.clientOid === body.clientOid)) {
+      throw new MockApiError('40757', 'Duplicate clientOid');
+    }
+    if (body.orderType === 'limit' && !body.price) {
+      throw new MockApiError('40017', 'Parameter price cannot be empty');
+    }
+    const size = parseFloat(body.size);
+    if (!(size > 0)) throw new MockApiError('40017', 'Parameter size is invalid');
+    const hedged = market === 'futures' && this.posMode === 'hedge_mode';
+    if (hedged && body.tradeSide !== 'open' && body.tradeSide !== 'close') {
+      throw new MockApiError('40774', 'The order type for unilateral position must also be the unilateral position type.');
+    }
+    if (hedged && body.tradeSide === 'close') {
+      // Hedge-mode closes name the side being closed: buy closes the long
+      const holdSide = body.side === 'buy' ? 'long' : 'short';
+      if (!this.positions.some(p => p.symbol === body.symbol && p.holdSide === holdSide && p.total >= size)) {
+        throw new MockApiError('22002', 'No position to close');
+      }
+    }
+
+    const now = Date.now();
+    const order: MockOrder = {
+      orderId: this.nextId(),
+      clientOid: body.clientOid || this.nextId(),
+      symbol: body.symbol,
+      market,
+      side: body.side,
+      orderType: body.orderType,
+      price: body.price ? parseFloat(body.price) : undefined,
+      size,
+      filledSize: 0,
+      status: 'live',
+      tradeSide: hedged ? body.tradeSide : undefined,
+      reduceOnly: hedged ? body.tradeSide === 'close' : body.reduceOnly === 'YES',
+      marginMode: body.marginMode || this.marginMode,
+      marginCoin: body.marginCoin || 'USDT',
+      cTime: now,
+      uTime: now,
+    };
+    this.orders.push(order);
+    this.tryFill(order);
+    if (order.status === 'live') this.pushOrder(order);
+    return order;
+  }
+
+  private cancelOrder(market: 'spot' | 'futures', body: any): MockOrder {
+    const order = this.orders.find(o => o.market === market && (o.orderId === body.orderId || (body.clientOid && o.clientOid === body.clientOid)));
+    if (!order || (order.status !== 'live' && order.status !== 'partially_filled')) {
+      throw new MockApiError('40768', 'Order does not exist');
+    }
+    this.markCancelled(order);
+    return order;
+  }
+
+  private markCancelled(order: MockOrder): void {
+    order.status = 'cancelled';
+    order.uTime = Date.now();
+    this.pushOrder(order);
+  }
+
+  private findOrders(market: 'spot' | 'futures', query: Record<string, string>): MockOrder[] {
+    if (!query.orderId && !query.clientOid) throw new MockApiError('40017', 'orderId or clientOid is required');
+    return this.orders.filter(o =>
+      o.market === market &&
+      (query.orderId ? o.orderId === query.orderId : o.clientOid === query.clientOid)
+    );
+  }
+
+  private openOrders(market: 'spot' | 'futures', symbol?: string): MockOrder[] {
+    return this.orders.filter(o =>
+      o.market === market &&
+      !o.marginType &&
+      (o.status === 'live' || o.status === 'partially_filled') &&
+      (!symbol || o.symbol === symbol)
+    );
+  }
+
+  private matchRestingOrders(symbol: string): void {
+    for (const order of this.orders.filter(o => o.symbol === symbol && o.status === 'live')) {
+      this.tryFill(order);
+    }
+  }
+
+  private tryFill(order: MockOrder): void {
+    const t = this.tickers.get(order.symbol);
+    if (!t) return;
+    const ask = t.ask ?? t.last;
+    const bid = t.bid ?? t.last;
+    let fillPrice: number | null = null;
+    if (order.orderType === 'market') {
+      fillPrice = order.side === 'buy' ? ask : bid;
+    } else if (order.price !== undefined) {
+      if (order.side === 'buy' && order.price >= ask) fillPrice = Math.min(order.price, ask);
+      if (order.side === 'sell' && order.price <= bid) fillPrice = Math.max(order.price, bid);
+    }
+    if (fillPrice === null) return;
+
+    order.filledSize = order.size;
+    order.priceAvg = fillPrice;
+    order.status = 'filled';
+    order.uTime = Date.now();
+
+    if (order.marginType) {
+      this.applyMarginFill(order, fillPrice);
+    } else if (order.market === 'spot') {
+      this.applySpotFill(order, fillPrice);
+    } else {
+      this.applyFuturesFill(order, fillPrice);
+    }
+    this.pushFill(order, fillPrice);
+  }
+
+  private applySpotFill(order: MockOrder, price: number): void {
+    const base = order.symbol.replace(/USDT$/, '');
+    const quote = this.spotBalance('USDT');
+    const baseBal = this.spotBalance(base);
+    if (order.side === 'buy') {
+      quote.available -= order.size * price;
+      baseBal.available += order.size;
+    } else {
+      baseBal.available -= order.size;
+      quote.available += order.size * price;
+    }
+  }
+
+  /**
+   * Margin orders check the account (borrowing any shortfall for autoLoan) when placed.
+   * Market buys carry quoteSize and are converted to base at the ask.
+   */
+  private createMarginOrder(marginType: 'crossed' | 'isolated', body: any): MockOrder {
+    this.requireTicker(body.symbol);
+    if (body.clientOid && this.orders.some(o => o.clientOid === body.clientOid)) {
+      throw new MockApiError('40757', 'Duplicate clientOid');
+    }
+    if (body.orderType === 'limit' && !body.price) {
+      throw new MockApiError('40017', 'Parameter price cannot be empty');
+    }
+    const t = this.tickers.get(body.symbol)!;
+    const price = body.orderType === 'limit' ? parseFloat(body.price) : body.side === 'buy' ? t.ask ?? t.last : t.bid ?? t.last;
+    const size = body.quoteSize ? parseFloat(body.quoteSize) / price : parseFloat(body.baseSize);
+    if (!(size > 0)) throw new MockApiError('40017', 'Parameter baseSize is invalid');
+
+    const [baseCoin, quoteCoin] = this.marginPair(body.symbol);
+    const symbol = marginType === 'isolated' ? body.symbol : undefined;
+    const spendCoin = body.side === 'buy' ? quoteCoin : baseCoin;
+    const spend = body.side === 'buy' ? size * price : size;
+    const spendAsset = this.marginAsset(this.marginAccount(marginType, symbol), spendCoin);
+    const shortfall = spend - spendAsset.available;
+    if (shortfall > 1e-12) {
+      if (body.loanType !== 'autoLoan' && body.loanType !== 'autoLoanAndRepay') {
+        throw new MockApiError('43012', 'Insufficient balance');
+      }
+      this.borrow(marginType, spendCoin, shortfall, symbol);
+    }
+
+    const now = Date.now();
+    const order: MockOrder = {
+      orderId: this.nextId(),
+      clientOid: body.clientOid || this.nextId(),
+      symbol: body.symbol,
+      market: 'spot',
+      side: body.side,
+      orderType: body.orderType,
+      price: body.orderType === 'limit' ? price : undefined,
+      size,
+      filledSize: 0,
+      status: 'live',
+      marginMode: marginType,
+      marginCoin: quoteCoin,
+      marginType,
+      loanType: body.loanType,
+      cTime: now,
+      uTime: now,
+    };
+    this.orders.push(order);
+    this.tryFill(order);
+    if (order.status === 'live') this.pushOrder(order);
+    return order;
+  }
+
+  private applyMarginFill(order: MockOrder, price: number): void {
+    const [baseCoin, quoteCoin] = this.marginPair(order.symbol);
+    const account = this.marginAccount(order.marginType!, order.symbol);
+    const [spent, received] = order.side === 'buy'
+      ? [[quoteCoin, order.size * price], [baseCoin, order.size]] as const
+      : [[baseCoin, order.size], [quoteCoin, order.size * price]] as const;
+    this.marginAsset(account, spent[0]).available -= spent[1];
+    const receivedAsset = this.marginAsset(account, received[0]);
+    receivedAsset.available += received[1];
+    if (order.loanType === 'autoRepay' || order.loanType === 'autoLoanAndRepay') {
+      this.repay(receivedAsset, received[1]);
+    }
+  }
+
+  private borrow(marginType: 'crossed' | 'isolated', coin: string, amount: number, symbol?: string): void {
+    if (amount > this.maxBorrowable(marginType, coin, symbol) + 1e-12) {
+      throw new MockApiError('40050', 'The borrowing amount exceeds the maximum borrowable amount');
+    }
+    const asset = this.marginAsset(this.marginAccount(marginType, symbol), coin);
+    // First hour of interest is charged when the loan is taken
+    const interest = amount * MARGIN_DAILY_RATE / 24;
+    asset.available += amount;
+    asset.borrowed += amount;
+    asset.interest += interest;
+    this.marginInterest.push({ interestId: this.nextId(), marginType, symbol, coin, amount: interest, type: 'first', cTime: Date.now() });
+  }
+
+  /**
+   * Pay interest, then principal, from the available balance; returns the amount repaid
+   */
+  private repay(asset: MockMarginAsset, amount: number): number {
+    const repaid = Math.min(amount, asset.available, asset.borrowed + asset.interest);
+    if (repaid <= 0) return 0;
+    const toInterest = Math.min(repaid, asset.interest);
+    asset.interest -= toInterest;
+    asset.borrowed -= repaid - toInterest;
+    asset.available -= repaid;
+    return repaid;
+  }
+
+  private maxBorrowable(marginType: 'crossed' | 'isolated', coin: string, symbol?: string): number {
+    const account = this.marginAccount(marginType, symbol);
+    let equity = 0;
+    let debt = 0;
+    for (const [c, a] of account) {
+      equity += (a.available + a.frozen - a.borrowed - a.interest) * this.coinPrice(c);
+      debt += (a.borrowed + a.interest) * this.coinPrice(c);
+    }
+    return Math.max(0, equity * (MARGIN_LEVERAGE[marginType] - 1) - debt) / this.coinPrice(coin);
+  }
+
+  private marginAccount(marginType: 'crossed' | 'isolated', symbol?: string): Map<string, MockMarginAsset> {
+    if (marginType === 'crossed') return this.crossedMargin;
+    if (!symbol) throw new MockApiError('40019', 'Parameter symbol cannot be empty');
+    this.marginPair(symbol);
+    if (!this.isolatedMargin.has(symbol)) this.isolatedMargin.set(symbol, new Map());
+    return this.isolatedMargin.get(symbol)!;
+  }
+
+  private marginAsset(account: Map<string, MockMarginAsset>, coin: string): MockMarginAsset {
+    if (!account.has(coin)) account.set(coin, { available: 0, frozen: 0, borrowed: 0, interest: 0 });
+    return account.get(coin)!;
+  }
+
+  private marginPair(symbol: string): [string, string] {
+    if (!symbol.endsWith('USDT')) throw new MockApiError('40034', `Parameter ${symbol} does not exist`);
+    return [symbol.slice(0, -4), 'USDT'];
+  }
+
+  private coinPrice(coin: string): number {
+    return coin === 'USDT' ? 1 : this.lastPrice(this.requireTicker(`${coin}USDT`));
+  }
+
+  /**
+   * One-way netting: buys add to long / reduce short, sells the reverse;
+   * reduce-only orders never flip the position. Hedge mode opens and closes
+   * each side on its own.
+   */
+  private applyFuturesFill(order: MockOrder, price: number): void {
+    if (order.tradeSide === 'close') {
+      const holdSide = order.side === 'buy' ? 'long' : 'short';
+      const position = this.positions.find(p => p.symbol === order.symbol && p.holdSide === holdSide && p.total > 0);
+      if (position) this.reducePosition(position, Math.min(position.total, order.size), price, order.orderId);
+      return;
+    }
+    const openSide: 'long' | 'short' = order.side === 'buy' ? 'long' : 'short';
+    const opposite = order.tradeSide === 'open'
+      ? undefined
+      : this.positions.find(p => p.symbol === order.symbol && p.holdSide !== openSide && p.total > 0);
+    let remaining = order.size;
+
+    if (opposite) {
+      const closeQty = Math.min(opposite.total, remaining);
+      this.reducePosition(opposite, closeQty, price, order.orderId);
+      remaining -= closeQty;
+    }
+    if (remaining <= 0 || order.reduceOnly) return;
+    this.recordFill(order.orderId, order.symbol, order.side, 'open', price, remaining, 0);
+
+    const existing = this.positions.find(p => p.symbol === order.symbol && p.holdSide === openSide && p.total > 0);
+    if (existing) {
+      existing.openPriceAvg = (existing.openPriceAvg * existing.total + price * remaining) / (existing.total + remaining);
+      existing.total += remaining;
+      existing.uTime = Date.now();
+    } else {
+      const now = Date.now();
+      this.positions.push({
+        symbol: order.symbol,
+        marginCoin: order.marginCoin,
+        holdSide: openSide,
+        total: remaining,
+        openPriceAvg: price,
+        marginMode: order.marginMode,
+        leverage: this.leverage.get(order.symbol) ?? 10,
+        achievedProfits: 0,
+        cTime: now,
+        uTime: now,
+      });
+    }
+  }
+
+  private reducePosition(position: MockPosition, qty: number, price: number, orderId: string = this.nextId()): void {
+    const direction = position.holdSide === 'long' ? 1 : -1;
+    const pnl = (price - position.openPriceAvg) * qty * direction;
+    position.total = Math.max(0, position.total - qty);
+    position.achievedProfits += pnl;
+    position.uTime = Date.now();
+    this.futuresEquity += pnl;
+    this.recordFill(orderId, position.symbol, position.holdSide === 'long' ? 'sell' : 'buy', 'close', price, qty, pnl);
+    if (position.total === 0) {
+      // Position-level TP/SL go away with the position
+      for (const plan of this.planOrders) {
+        if (plan.status === 'live' && plan.symbol === position.symbol && plan.holdSide === position.holdSide) {
+          plan.status = 'cancelled';
+          plan.uTime = Date.now();
+          this.pushPlanOrder(plan);
+        }
+      }
+    }
+  }
+
+  private recordFill(orderId: string, symbol: string, side: 'buy' | 'sell', tradeSide: 'open' | 'close', price: number, size: number, profit: number): void {
+    this.fills.push({ tradeId: this.nextId(), orderId, symbol, side, tradeSide, price, size, profit, cTime: Date.now() });
+  }
+
+  private createPlanOrder(body: any): MockPlanOrder {
+    this.requireTicker(body.symbol);
+    if (body.clientOid && this.planOrders.some(p => p.clientOid === body.clientOid)) {
+      throw new MockApiError('40757', 'Duplicate clientOid');
+    }
+    const sides = this.posMode === 'hedge_mode' ? ['long', 'short'] : ['buy', 'sell'];
+    if (!sides.includes(body.holdSide)) throw new MockApiError('40017', `Parameter holdSide error, expected ${sides.join(' or ')}`);
+    const holdSide: 'long' | 'short' = body.holdSide === 'buy' || body.holdSide === 'long' ? 'long' : 'short';
+    const position = this.positions.find(p => p.symbol === body.symbol && p.holdSide === holdSide && p.total > 0);
+    if (!position && (body.planType === 'pos_profit' || body.planType === 'pos_loss')) {
+      throw new MockApiError('43023', 'Insufficient position, can not set profit or stop loss');
+    }
+    const now = Date.now();
+    const plan: MockPlanOrder = {
+      orderId: this.nextId(),
+      clientOid: body.clientOid || this.nextId(),
+      symbol: body.symbol,
+      planType: body.planType,
+      triggerPrice: parseFloat(body.triggerPrice),
+      triggerType: body.triggerType || 'mark_price',
+      executePrice: body.executePrice ? parseFloat(body.executePrice) : undefined,
+      holdSide,
+      size: body.size ? parseFloat(body.size) : position?.total ?? 0,
+      status: 'live',
+      marginMode: body.marginMode || this.marginMode,
+      cTime: now,
+      uTime: now,
+    };
+    this.planOrders.push(plan);
+    this.pushPlanOrder(plan);
+    return plan;
+  }
+
+  /**
+   * Fire TP/SL plans whose trigger was crossed by the current price
+   */
+  private evaluatePlanOrders(symbol: string): void {
+    const price = this.lastPrice(symbol);
+    for (const plan of this.planOrders.filter(p => p.symbol === symbol && p.status === 'live')) {
+      const isProfit = /profit/.test(plan.planType);
+      const isLoss = /loss/.test(plan.planType);
+      if (!isProfit && !isLoss) continue;
+      const long = plan.holdSide === 'long';
+      const hit = isProfit
+        ? (long ? price >= plan.triggerPrice : price <= plan.triggerPrice)
+        : (long ? price <= plan.triggerPrice : price >= plan.triggerPrice);
+      if (!hit) continue;
+
+      plan.status = 'executed';
+      plan.uTime = Date.now();
+      this.pushPlanOrder(plan);
+      const position = this.positions.find(p => p.symbol === symbol && p.holdSide === plan.holdSide && p.total > 0);
+      if (position) {
+        const qty = plan.planType.startsWith('pos_') ? position.total : Math.min(plan.size, position.total);
+        this.reducePosition(position, qty, plan.executePrice ?? price);
+      }
+    }
+  }
+
+  // ========== PRIVATE PUSHES ==========
+
+  private pushOrder(order: MockOrder): void {
+    const instType = order.market === 'spot' ? 'SPOT' : 'USDT-FUTURES';
+    this.publishPrivate(instType, 'orders', order.symbol, [{
+      instId: order.symbol,
+      orderId: order.orderId,
+      clientOid: order.clientOid,
+      side: order.side,
+      ordType: order.orderType,
+      price: (order.price ?? 0).toString(),
+      size: order.size.toString(),
+      accBaseVolume: order.filledSize.toString(),
+      priceAvg: (order.priceAvg ?? 0).toString(),
+      status: order.status === 'cancelled' ? 'canceled' : order.status,
+      tradeSide: order.tradeSide || 'open',
+      marginMode: order.marginMode,
+      reduceOnly: order.reduceOnly ? 'yes' : 'no',
+      cTime: order.cTime.toString(),
+      uTime: order.uTime.toString(),
+    }]);
+  }
+
+  /**
+   * A fill moves the order, the fill feed, the account and (for futures) the positions
+   */
+  private pushFill(order: MockOrder, price: number): void {
+    const instType = order.market === 'spot' ? 'SPOT' : 'USDT-FUTURES';
+    this.pushOrder(order);
+    this.publishPrivate(instType, 'fill', order.symbol, [{
+      orderId: order.orderId,
+      tradeId: this.nextId(),
+      symbol: order.symbol,
+      side: order.side,
+      orderType: order.orderType,
+      price: price.toString(),
+      baseVolume: order.size.toString(),
+      quoteVolume: (order.size * price).toString(),
+      tradeSide: order.tradeSide || 'open',
+      tradeScope: order.orderType === 'market' ? 'taker' : 'maker',
+      feeDetail: [{ feeCoin: 'USDT', totalFee: '0' }],
+      cTime: order.uTime.toString(),
+      uTime: order.uTime.toString(),
+    }]);
+    if (order.market === 'spot') {
+      const coins = ['USDT', order.symbol.replace(/USDT$/, '')];
+      this.publishPrivate('SPOT', 'account', 'default', coins.map(coin => {
+        const bal = this.spotBalance(coin);
+        return { coin, available: bal.available.toString(), frozen: bal.frozen.toString(), uTime: order.uTime.toString() };
+      }));
+    } else {
+      const positions = this.positions.filter(p => p.symbol === order.symbol);
+      this.publishPrivate('USDT-FUTURES', 'positions', order.symbol, positions.map(p => ({ ...this.positionView(p), instId: p.symbol })));
+      const account = this.futuresAccountView();
+      this.publishPrivate('USDT-FUTURES', 'account', 'default', [{
+        marginCoin: account.marginCoin,
+        available: account.available,
+        frozen: account.locked,
+        equity: account.accountEquity,
+        usdtEquity: account.usdtEquity,
+        uTime: order.uTime.toString(),
+      }]);
+    }
+  }
+
+  private pushPlanOrder(plan: MockPlanOrder): void {
+    const { symbol, holdSide, planStatus, ...view } = this.planOrderView(plan);
+    this.publishPrivate('USDT-FUTURES', 'orders-algo', plan.symbol, [{ ...view, instId: symbol, posSide: holdSide, status: planStatus }]);
+  }
+
+  // ========== VIEWS ==========
+
+  private futuresAccountView(): any {
+    const unrealized = this.positions.reduce((sum, p) => sum + this.unrealizedPnl(p), 0);
+    const locked = this.positions.reduce((sum, p) => sum + this.positionMargin(p), 0);
+    return {
+      marginCoin: 'USDT',
+      locked: locked.toString(),
+      available: (this.futuresEquity - locked).toString(),
+      crossedMaxAvailable: (this.futuresEquity - locked).toString(),
+      accountEquity: (this.futuresEquity + unrealized).toString(),
+      usdtEquity: (this.futuresEquity + unrealized).toString(),
+      unrealizedPL: unrealized.toString(),
+      marginMode: this.marginMode,
+      posMode: this.posMode,
+    };
+  }
+
+  private spotTicker(symbol: string): any {
+    const t = this.tickers.get(symbol)!;
+    const open = t.open24h ?? t.last;
+    return {
+      symbol,
+      high24h: (t.high24h ?? t.last).toString(),
+      open: open.toString(),
+      lastPr: t.last.toString(),
+      low24h: (t.low24h ?? t.last).toString(),
+      quoteVolume: ((t.baseVolume ?? 0) * t.last).toString(),
+      baseVolume: (t.baseVolume ?? 0).toString(),
+      bidPr: (t.bid ?? t.last).toString(),
+      askPr: (t.ask ?? t.last).toString(),
+      openUtc: open.toString(),
+      change24h: ((t.last - open) / open).toFixed(4),
+      ts: Date.now().toString(),
+    };
+  }
+
+  private futuresTicker(symbol: string): any {
+    const t = this.tickers.get(symbol)!;
+    return {
+      ...this.spotTicker(symbol),
+      markPrice: t.last.toString(),
+      indexPrice: t.last.toString(),
+      fundingRate: (t.fundingRate ?? 0.0001).toString(),
+      holdingAmount: '0',
+    };
+  }
+
+  private depth(symbol: string, limit?: string): any {
+    const book = this.orderBooks.get(symbol);
+    if (!book) {
+      const t = this.tickers.get(this.requireTicker(symbol))!;
+      return { asks: [[(t.ask ?? t.last).toString(), '1']], bids: [[(t.bid ?? t.last).toString(), '1']], ts: Date.now().toString() };
+    }
+    const n = limit ? parseInt(limit, 10) : 100;
+    return { asks: this.levels(book.asks.slice(0, n)), bids: this.levels(book.bids.slice(0, n)), ts: Date.now().toString() };
+  }
+
+  private levels(levels: [number, number][]): [string, string][] {
+    return levels.map(([p, q]) => [p.toString(), q.toString()]);
+  }
+
+  /**
+   * Latest `limit` bars (capped at maxLimit) within [startTime, endTime], oldest first
+   */
+  private candleRows(query: Record<string, string>, futures: boolean, maxLimit: number): string[][] {
+    const rows = this.candles.get(`${query.symbol}:${query.granularity}`);
+    if (!rows) {
+      if (!this.tickers.has(query.symbol)) throw new MockApiError('40034', 'Parameter does not exist');
+      return [];
+    }
+    const limit = Math.min(parseInt(query.limit || '100', 10), maxLimit);
+    const start = query.startTime ? parseInt(query.startTime, 10) : -Infinity;
+    const end = query.endTime ? parseInt(query.endTime, 10) : Infinity;
+    return rows.filter(([ts]) => ts >= start && ts <= end).slice(-limit).map(([ts, o, h, l, c, v]) => {
+      const base = [ts.toString(), o.toString(), h.toString(), l.toString(), c.toString(), v.toString(), (v * c).toString()];
+      return futures ? base : [...base, (v * c).toString()];
+    });
+  }
+
+  private futuresOrderView(o: MockOrder): any {
+    return {
+      symbol: o.symbol,
+      size: o.size.toString(),
+      orderId: o.orderId,
+      clientOid: o.clientOid,
+      baseVolume: o.filledSize.toString(),
+      price: (o.price ?? 0).toString(),
+      priceAvg: (o.priceAvg ?? 0).toString(),
+      status: o.status,
+      side: o.side,
+      orderType: o.orderType,
+      tradeSide: o.tradeSide || 'open',
+      marginMode: o.marginMode,
+      marginCoin: o.marginCoin,
+      reduceOnly: o.reduceOnly ? 'YES' : 'NO',
+      cTime: o.cTime.toString(),
+      uTime: o.uTime.toString(),
+    };
+  }
+
+  private planOrderView(p: MockPlanOrder): any {
+    return {
+      planType: p.planType,
+      symbol: p.symbol,
+      size: p.size.toString(),
+      orderId: p.orderId,
+      clientOid: p.clientOid,
+      triggerPrice: p.triggerPrice.toString(),
+      triggerType: p.triggerType,
+      executePrice: (p.executePrice ?? 0).toString(),
+      holdSide: this.posMode === 'hedge_mode' ? p.holdSide : p.holdSide === 'long' ? 'buy' : 'sell',
+      planStatus: p.status,
+      marginMode: p.marginMode,
+      cTime: p.cTime.toString(),
+      uTime: p.uTime.toString(),
+    };
+  }
+
+  private positionView(p: MockPosition): any {
+    const mark = this.lastPrice(p.symbol);
+    return {
+      symbol: p.symbol,
+      marginCoin: p.marginCoin,
+      holdSide: p.holdSide,
+      openDelegateSize: '0',
+      marginSize: this.positionMargin(p).toString(),
+      available: p.total.toString(),
+      locked: '0',
+      total: p.total.toString(),
+      leverage: p.leverage.toString(),
+      achievedProfits: p.achievedProfits.toString(),
+      openPriceAvg: p.openPriceAvg.toString(),
+      marginMode: p.marginMode,
+      posMode: this.posMode,
+      unrealizedPL: this.unrealizedPnl(p).toString(),
+      markPrice: mark.toString(),
+      cTime: p.cTime.toString(),
+      uTime: p.uTime.toString(),
+    };
+  }
+
+  // ========== HELPERS ==========
+
+  private unrealizedPnl(p: MockPosition): number {
+    return (this.lastPrice(p.symbol) - p.openPriceAvg) * p.total * (p.holdSide === 'long' ? 1 : -1);
+  }
+
+  private positionMargin(p: MockPosition): number {
+    return (p.openPriceAvg * p.total) / p.leverage;
+  }
+
+  private lastPrice(symbol: string): number {
+    return this.tickers.get(symbol)?.last ?? 0;
+  }
+
+  private spotBalance(coin: string): { available: number; frozen: number } {
+    if (!this.spotBalances.has(coin)) this.spotBalances.set(coin, { available: 0, frozen: 0 });
+    return this.spotBalances.get(coin)!;
+  }
+
+  private requireTicker(symbol: string | undefined): string {
+    if (!symbol || !this.tickers.has(symbol)) {
+      throw new MockApiError('40034', `Parameter ${symbol} does not exist`);
+    }
+    return symbol;
+  }
+
+  private requireProductType(productType: string | undefined): void {
+    if (!productType || !PRODUCT_TYPES.includes(productType.toUpperCase())) {
+      throw new MockApiError('40019', 'Parameter productType cannot be empty');
+    }
+  }
+
+  /**
+   * The symbol must be listed under the productType and margined in its coin
+   * (USDT, USDC, or the base coin for coin-margined contracts)
+   */
+  private requireContract(body: any): void {
+    this.requireProductType(body.productType);
+    if (!this.inProduct(body.symbol, body.productType)) {
+      throw new MockApiError('40034', `Parameter ${body.symbol} does not exist`);
+    }
+    if (body.marginCoin.toUpperCase() !== contractCoins(body.symbol).marginCoin) {
+      throw new MockApiError('40020', 'Parameter marginCoin error');
+    }
+  }
+
+  private inProduct(symbol: string, productType: string): boolean {
+    return productTypeOf(symbol) === productType.toUpperCase();
+  }
+
+  private requireFields(body: any, fields: string[]): void {
+    for (const field of fields) {
+      if (body[field] === undefined || body[field] === null || body[field] === '') {
+        throw new MockApiError('40019', `Parameter ${field} cannot be empty`);
+      }
+    }
+  }
+
+  private nextId(): string {
+    return `${Date.now()}${(this.orderSeq++).toString().padStart(6, '0')}`;
+  }
+}
@@ -0,0 +1,774 @@
+/**
+ * Paper Trading Engine
+ * Local matching simulator for spot and USDT-futures orders, fed by live public market data.
+ * Models balances, maker/taker fees, 8-hourly funding and TP/SL plan triggers.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Balance,
+  BitgetAPIError,
+  BitgetValidationError,
+  Order,
+  OrderParams,
+  PaperTradingConfig,
+  Position,
+  Ticker,
+} from '../types/bitget.js';
+import { logger } from '../utils/logger.js';
+import { parseSymbol } from '../utils/symbols.js';
+
+export const DEFAULT_PAPER_CONFIG: PaperTradingConfig = {
+  initialBalance: 10000,
+  takerFeeRate: 0.0006,
+  makerFeeRate: 0.0002,
+  defaultLeverage: 10,
+  syncIntervalMs: 5000,
+};
+
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Read BITGET_EXECUTION_MODE; unset is live, and anything but "live" or "paper" is refused
+ * so a typo cannot send real orders
+ */
+export function executionModeFromEnv(env: NodeJS.ProcessEnv): 'live' | 'paper' {
+  const mode = env.BITGET_EXECUTION_MODE?.trim() || 'live';
+  if (mode !== 'live' && mode !== 'paper') {
+    throw new BitgetValidationError(`Unknown BITGET_EXECUTION_MODE "${mode}", expected live or paper`);
+  }
+  return mode;
+}
+
+/**
+ * Public market data the simulator prices against
+ */
+export interface PaperMarketData {
+  getTicker(symbol: string, futures: boolean): Promise<Ticker>;
+  getFundingRate(symbol: string): Promise<number>;
+}
+
+type PlanType = 'pos_profit' | 'pos_loss' | 'profit_plan' | 'loss_plan' | 'moving_plan';
+
+export interface PaperPlanOptions {
+  planType: PlanType;
+  triggerPrice: string;
+  triggerType?: 'fill_price' | 'mark_price';
+  executePrice?: string;
+  holdSide: 'long' | 'short' | 'buy' | 'sell';
+  size: string;
+  clientOid?: string;
+}
+
+interface PaperOrder {
+  orderId: string;
+  clientOrderId: string;
+  symbol: string;
+  market: 'spot' | 'futures';
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  quantity: number;
+  price?: number;
+  status: Order['status'];
+  filled: number;
+  avgPrice?: number;
+  reduceOnly: boolean;
+  timestamp: number;
+  updateTime: number;
+}
+
+interface PaperPosition {
+  symbol: string;
+  side: 'long' | 'short';
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  leverage: number;
+  marginMode: 'crossed' | 'isolated';
+  realizedPnl: number;
+  fundingPaid: number;
+  lastFundingTime: number;
+  timestamp: number;
+}
+
+interface PaperPlan {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  planType: PlanType;
+  triggerPrice: number;
+  triggerType: string;
+  executePrice?: number;
+  holdSide: 'long' | 'short';
+  size: number;
+  status: 'live' | 'executed' | 'cancelled';
+  cTime: number;
+}
+
+export interface PaperFill {
+  orderId: string;
+  symbol: string;
+  market: 'spot' | 'futures';
+  side: 'buy' | 'sell';
+  price: number;
+  size: number;
+  fee: number;
+  realizedPnl: number;
+  liquidity: 'maker' | 'taker';
+  ts: number;
+}
+
+interface PaperState {
+  spot: Record<string, number>;
+  futuresWallet: number;
+  orders: PaperOrder[];
+  positions: PaperPosition[];
+  plans: PaperPlan[];
+  fills: PaperFill[];
+  leverage: Record<string, number>;
+  marginMode: 'crossed' | 'isolated';
+}
+
+export class PaperTradingEngine {
+  private config: PaperTradingConfig;
+  private market: PaperMarketData;
+  private state: PaperState;
+  private seq = 1;
+  private now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(market: PaperMarketData, config: Partial<PaperTradingConfig> = {}, now: () => number = Date.now) {
+    this.market = market;
+    // Unset env-derived fields arrive as undefined and must not mask the defaults
+    const overrides = Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined && !Number.isNaN(v)));
+    this.config = { ...DEFAULT_PAPER_CONFIG, ...overrides };
+    this.now = now;
+    this.state = this.loadState() ?? this.freshState();
+
+    logger.info('PaperTradingEngine initialized', {
+      initialBalance: this.config.initialBalance,
+      takerFeeRate: this.config.takerFeeRate,
+      makerFeeRate: this.config.makerFeeRate,
+      statePath: this.config.statePath,
+    });
+  }
+
+  // ========== ORDERS ==========
+
+  /**
+   * Place a simulated order. Market orders fill immediately against the live
+   * bid/ask; marketable limits fill as taker, the rest rest on the book until
+   * a later sync sees the price cross.
+   */
+  async placeOrder(params: OrderParams, market: 'spot' | 'futures'): Promise<Order> {
+    const symbol = this.cleanSymbol(params.symbol);
+    const quantity = parseFloat(params.quantity);
+    if (!(quantity > 0)) {
+      throw new BitgetAPIError('40017', `Parameter size is invalid: ${params.quantity}`);
+    }
+    if (params.type === 'limit' && !params.price) {
+      throw new BitgetAPIError('40017', 'Parameter price cannot be empty');
+    }
+    if (params.clientOrderId && this.state.orders.some(o => o.clientOrderId === params.clientOrderId)) {
+      throw new BitgetAPIError('40757', 'Duplicate clientOid');
+    }
+
+    const ticker = await this.market.getTicker(symbol, market === 'futures');
+    const ts = this.now();
+    const order: PaperOrder = {
+      orderId: this.nextId(),
+      clientOrderId: params.clientOrderId || this.nextId(),
+      symbol,
+      market,
+      side: params.side,
+      type: params.type,
+      quantity,
+      price: params.price ? parseFloat(params.price) : undefined,
+      status: 'open',
+      filled: 0,
+      reduceOnly: params.reduceOnly === true || params.tradeSide === 'close',
+      timestamp: ts,
+      updateTime: ts,
+    };
+
+    const bid = parseFloat(ticker.bid || ticker.last);
+    const ask = parseFloat(ticker.ask || ticker.last);
+    const takerPrice = order.side === 'buy' ? ask : bid;
+    const marketable = order.type === 'market' ||
+      (order.side === 'buy' ? order.price! >= ask : order.price! <= bid);
+
+    if (market === 'futures' && !order.reduceOnly) {
+      this.assertMargin(symbol, quantity * (order.price ?? takerPrice));
+    }
+    if (market === 'spot') {
+      this.assertSpotFunds(order);
+    }
+
+    this.state.orders.push(order);
+    if (marketable) {
+      this.fill(order, takerPrice, 'taker');
+    }
+    this.saveState();
+    return this.toOrder(order);
+  }
+
+  async cancelOrder(orderId: string, symbol: string): Promise<boolean> {
+    const clean = this.cleanSymbol(symbol);
+    const order = this.state.orders.find(o => o.orderId === orderId && o.symbol === clean);
+    if (!order || order.status !== 'open') {
+      throw new BitgetAPIError('40768', 'Order does not exist');
+    }
+    order.status = 'cancelled';
+    order.updateTime = this.now();
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * Cancel resting futures orders and plan orders (optionally for one symbol)
+   */
+  async cancelAllOrders(symbol?: string): Promise<boolean> {
+    const clean = symbol ? this.cleanSymbol(symbol) : undefined;
+    const ts = this.now();
+    for (const order of this.state.orders) {
+      if (order.market === 'futures' && order.status === 'open' && (!clean || order.symbol === clean)) {
+        order.status = 'cancelled';
+        order.updateTime = ts;
+      }
+    }
+    for (const plan of this.state.plans) {
+      if (plan.status === 'live' && (!clean || plan.symbol === clean)) plan.status = 'cancelled';
+    }
+    this.saveState();
+    return true;
+  }
+
+  async getOrders(symbol?: string, market?: 'spot' | 'futures'): Promise<Order[]> {
+    await this.sync(symbol);
+    const clean = symbol ? this.cleanSymbol(symbol) : undefined;
+    return this.state.orders
+      .filter(o => o.status === 'open' && (!clean || o.symbol === clean) && (!market || o.market === market))
+      .map(o => this.toOrder(o));
+  }
+
+  // ========== TPSL / PLAN ORDERS ==========
+
+  async placePlan(symbol: string, options: PaperPlanOptions): Promise<boolean> {
+    const clean = this.cleanSymbol(symbol);
+    const holdSide = options.holdSide === 'buy' || options.holdSide === 'long' ? 'long' : 'short';
+    const position = this.findPosition(clean, holdSide);
+    if (!position && (options.planType === 'pos_profit' || options.planType === 'pos_loss')) {
+      throw new BitgetAPIError('43023', 'Insufficient position, can not set profit or stop loss');
+    }
+    if (options.clientOid && this.state.plans.some(p => p.clientOid === options.clientOid)) {
+      throw new BitgetAPIError('40757', 'Duplicate clientOid');
+    }
+    if (options.planType.startsWith('pos_')) {
+      // Only one position-level TP and one SL per side
+      for (const p of this.state.plans) {
+        if (p.status === 'live' && p.symbol === clean && p.holdSide === holdSide && p.planType === options.planType) p.status = 'cancelled';
+      }
+    }
+
+    this.state.plans.push({
+      orderId: this.nextId(),
+      clientOid: options.clientOid || this.nextId(),
+      symbol: clean,
+      planType: options.planType,
+      triggerPrice: parseFloat(options.triggerPrice),
+      triggerType: options.triggerType || 'mark_price',
+      executePrice: options.executePrice ? parseFloat(options.executePrice) : undefined,
+      holdSide,
+      size: parseFloat(options.size) || position?.size || 0,
+      status: 'live',
+      cTime: this.now(),
+    });
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * Set or move the position-level TP (pos_profit) and/or SL (pos_loss)
+   */
+  async modifyTPSL(symbol: string, options: { stopSurplusPrice?: string; stopLossPrice?: string }): Promise<boolean> {
+    const clean = this.cleanSymbol(symbol);
+    const positions = this.state.positions.filter(p => p.symbol === clean && p.size > 0);
+    if (positions.length === 0) {
+      throw new BitgetAPIError('43023', 'Insufficient position, can not set profit or stop loss');
+    }
+    for (const position of positions) {
+      if (options.stopSurplusPrice) {
+        await this.placePlan(clean, { planType: 'pos_profit', triggerPrice: options.stopSurplusPrice, holdSide: position.side, size: position.size.toString() });
+      }
+      if (options.stopLossPrice) {
+        await this.placePlan(clean, { planType: 'pos_loss', triggerPrice: options.stopLossPrice, holdSide: position.side, size: position.size.toString() });
+      }
+    }
+    return true;
+  }
+
+  async getPlanOrders(symbol?: string): Promise<any[]> {
+    await this.sync(symbol);
+    const clean = symbol ? this.cleanSymbol(symbol) : undefined;
+    // Same field names as /api/v2/mix/order/orders-plan-pending entrustedList
+    return this.state.plans
+      .filter(p => p.status === 'live' && (!clean || p.symbol === clean))
+      .map(p => ({
+        orderId: p.orderId,
+        clientOid: p.clientOid,
+        symbol: p.symbol,
+        planType: p.planType,
+        triggerPrice: p.triggerPrice.toString(),
+        triggerType: p.triggerType,
+        executePrice: (p.executePrice ?? 0).toString(),
+        holdSide: p.holdSide,
+        size: p.size.toString(),
+        planStatus: p.status,
+        cTime: p.cTime.toString(),
+      }));
+  }
+
+  async cancelPlan(options: { symbol?: string; orderId?: string; clientOid?: string }): Promise<boolean> {
+    const plan = this.state.plans.find(p =>
+      p.status === 'live' &&
+      (options.orderId ? p.orderId === options.orderId : p.clientOid === options.clientOid)
+    );
+    if (!plan) {
+      throw new BitgetAPIError('40768', 'Order does not exist');
+    }
+    plan.status = 'cancelled';
+    this.saveState();
+    return true;
+  }
+
+  // ========== POSITIONS & ACCOUNT ==========
+
+  async getPositions(symbol?: string): Promise<Position[]> {
+    await this.sync(symbol);
+    const clean = symbol ? this.cleanSymbol(symbol) : undefined;
+    return this.state.positions
+      .filter(p => p.size > 0 && (!clean || p.symbol === clean))
+      .map(p => {
+        const pnl = this.unrealizedPnl(p);
+        const margin = (p.entryPrice * p.size) / p.leverage;
+        return {
+          symbol: p.symbol,
+          side: p.side,
+          size: p.size.toString(),
+          entryPrice: p.entryPrice.toString(),
+          markPrice: p.markPrice.toString(),
+          pnl: pnl.toString(),
+          pnlPercent: margin > 0 ? (pnl / margin).toFixed(4) : '0',
+          margin: margin.toString(),
+          leverage: p.leverage.toString(),
+          timestamp: p.timestamp,
+        };
+      });
+  }
+
+  /**
+   * Market-close every open position (optionally for one symbol)
+   */
+  async closeAllPositions(symbol?: string): Promise<boolean> {
+    const clean = symbol ? this.cleanSymbol(symbol) : undefined;
+    const open = this.state.positions.filter(p => p.size > 0 && (!clean || p.symbol === clean));
+    for (const position of open) {
+      const ticker = await this.market.getTicker(position.symbol, true);
+      const price = parseFloat(position.side === 'long' ? (ticker.bid || ticker.last) : (ticker.ask || ticker.last));
+      this.reduce(position, position.size, price, 'taker', this.nextId());
+    }
+    this.saveState();
+    return true;
+  }
+
+  async getBalance(asset?: string): Promise<Balance[]> {
+    await this.sync();
+    const locked = this.lockedSpot();
+    const balances = Object.entries(this.state.spot).map(([coin, total]) => {
+      const frozen = locked[coin] || 0;
+      return { asset: coin, free: (total - frozen).toString(), locked: frozen.toString(), total: total.toString() };
+    });
+    return asset ? balances.filter(b => b.asset === asset) : balances;
+  }
+
+  /**
+   * Futures account summary, shaped like /api/v2/mix/account/accounts entries
+   */
+  async getAccount(): Promise<any> {
+    await this.sync();
+    const unrealized = this.state.positions.reduce((sum, p) => sum + this.unrealizedPnl(p), 0);
+    const usedMargin = this.usedMargin();
+    return {
+      marginCoin: 'USDT',
+      marginMode: this.state.marginMode,
+      locked: usedMargin.toString(),
+      available: (this.state.futuresWallet - usedMargin + Math.min(0, unrealized)).toString(),
+      accountEquity: (this.state.futuresWallet + unrealized).toString(),
+      usdtEquity: (this.state.futuresWallet + unrealized).toString(),
+      unrealizedPL: unrealized.toString(),
+      paperTrading: true,
+    };
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<boolean> {
+    this.state.leverage[this.cleanSymbol(symbol)] = leverage;
+    this.saveState();
+    return true;
+  }
+
+  async setMarginMode(marginMode: 'isolated' | 'crossed'): Promise<boolean> {
+    if (this.state.positions.some(p => p.size > 0) || this.state.orders.some(o => o.market === 'futures' && o.status === 'open')) {
+      throw new BitgetAPIError('40919', 'Position or order exists, margin mode cannot be changed');
+    }
+    this.state.marginMode = marginMode;
+    this.saveState();
+    return true;
+  }
+
+  getFills(limit: number = 50): PaperFill[] {
+    return this.state.fills.slice(-limit);
+  }
+
+  reset(): void {
+    this.state = this.freshState();
+    this.saveState();
+  }
+
+  // ========== SIMULATION ==========
+
+  /**
+   * Sync on a timer so resting limits fill and TP/SL plans fire even when no tool reads
+   */
+  start(): void {
+    if (this.timer || this.config.syncIntervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      if (this.syncing) return;
+      this.syncing = true;
+      this.sync()
+        .catch(error => logger.warn('Paper background sync failed', { error: error.message }))
+        .finally(() => { this.syncing = false; });
+    }, this.config.syncIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Refresh prices for symbols with live orders/positions, then fill resting
+   * limits, fire TP/SL plans and settle funding that came due.
+   */
+  async sync(symbol?: string): Promise<void> {
+    const clean = symbol ? this.cleanSymbol(symbol) : undefined;
+    const active = new Map<string, 'spot' | 'futures'>();
+    for (const o of this.state.orders) if (o.status === 'open') active.set(`${o.market}:${o.symbol}`, o.market);
+    for (const p of this.state.positions) if (p.size > 0) active.set(`futures:${p.symbol}`, 'futures');
+
+    let changed = false;
+    for (const [key, market] of active) {
+      const sym = key.slice(market.length + 1);
+      if (clean && sym !== clean) continue;
+      let ticker: Ticker;
+      try {
+        ticker = await this.market.getTicker(sym, market === 'futures');
+      } catch (error: any) {
+        logger.warn('Paper sync could not price symbol', { symbol: sym, error: error.message });
+        continue;
+      }
+      const last = parseFloat(ticker.last);
+      const bid = parseFloat(ticker.bid || ticker.last);
+      const ask = parseFloat(ticker.ask || ticker.last);
+
+      for (const order of this.state.orders.filter(o => o.status === 'open' && o.symbol === sym && o.market === market)) {
+        if (order.side === 'buy' ? ask <= order.price! : bid >= order.price!) {
+          this.fill(order, order.price!, 'maker');
+          changed = true;
+        }
+      }
+      if (market === 'futures') {
+        for (const position of this.state.positions.filter(p => p.symbol === sym && p.size > 0)) {
+          position.markPrice = last;
+        }
+        changed = this.triggerPlans(sym, last) || changed;
+        changed = (await this.settleFunding(sym, last)) || changed;
+      }
+    }
+    if (changed) this.saveState();
+  }
+
+  private triggerPlans(symbol: string, price: number): boolean {
+    let fired = false;
+    for (const plan of this.state.plans.filter(p => p.status === 'live' && p.symbol === symbol)) {
+      const isProfit = plan.planType === 'pos_profit' || plan.planType === 'profit_plan';
+      const isLoss = plan.planType === 'pos_loss' || plan.planType === 'loss_plan';
+      if (!isProfit && !isLoss) continue;
+      const long = plan.holdSide === 'long';
+      const hit = isProfit
+        ? (long ? price >= plan.triggerPrice : price <= plan.triggerPrice)
+        : (long ? price <= plan.triggerPrice : price >= plan.triggerPrice);
+      if (!hit) continue;
+
+      plan.status = 'executed';
+      fired = true;
+      const position = this.findPosition(symbol, plan.holdSide);
+      if (position) {
+        const qty = plan.planType.startsWith('pos_') ? position.size : Math.min(plan.size, position.size);
+        this.reduce(position, qty, plan.executePrice ?? price, 'taker', plan.orderId);
+        logger.info('Paper plan triggered', { symbol, planType: plan.planType, triggerPrice: plan.triggerPrice, price, qty });
+      }
+    }
+    return fired;
+  }
+
+  /**
+   * Funding settles at 00:00, 08:00 and 16:00 UTC; longs pay positive rates
+   */
+  private async settleFunding(symbol: string, markPrice: number): Promise<boolean> {
+    const now = this.now();
+    const due = this.state.positions.filter(p =>
+      p.symbol === symbol && p.size > 0 &&
+      Math.floor(now / FUNDING_INTERVAL_MS) > Math.floor(p.lastFundingTime / FUNDING_INTERVAL_MS)
+    );
+    if (due.length === 0) return false;
+
+    let rate: number;
+    try {
+      rate = await this.market.getFundingRate(symbol);
+    } catch (error: any) {
+      logger.warn('Paper funding rate unavailable', { symbol, error: error.message });
+      return false;
+    }
+    for (const position of due) {
+      const periods = Math.floor(now / FUNDING_INTERVAL_MS) - Math.floor(position.lastFundingTime / FUNDING_INTERVAL_MS);
+      const payment = position.size * markPrice * rate * periods * (position.side === 'long' ? 1 : -1);
+      this.state.futuresWallet -= payment;
+      position.fundingPaid += payment;
+      position.lastFundingTime = now;
+    }
+    return true;
+  }
+
+  private fill(order: PaperOrder, price: number, liquidity: 'maker' | 'taker'): void {
+    order.status = 'filled';
+    order.filled = order.quantity;
+    order.avgPrice = price;
+    order.updateTime = this.now();
+
+    if (order.market === 'spot') {
+      this.fillSpot(order, price, liquidity);
+    } else {
+      this.fillFutures(order, price, liquidity);
+    }
+  }
+
+  /**
+   * Spot market buys size in quote coin (as Bitget v2 does); everything else in base coin
+   */
+  private fillSpot(order: PaperOrder, price: number, liquidity: 'maker' | 'taker'): void {
+    const { base, quote } = this.spotCoins(order.symbol);
+    const feeRate = liquidity === 'maker' ? this.config.makerFeeRate : this.config.takerFeeRate;
+    const baseQty = order.side === 'buy' && order.type === 'market' ? order.quantity / price : order.quantity;
+    order.filled = baseQty;
+    const notional = baseQty * price;
+    const fee = notional * feeRate;
+
+    if (order.side === 'buy') {
+      this.state.spot[quote] = (this.state.spot[quote] || 0) - notional;
+      this.state.spot[base] = (this.state.spot[base] || 0) + baseQty * (1 - feeRate);
+    } else {
+      this.state.spot[base] = (this.state.spot[base] || 0) - baseQty;
+      this.state.spot[quote] = (this.state.spot[quote] || 0) + notional - fee;
+    }
+    this.recordFill(order.orderId, order.symbol, 'spot', order.side, price, baseQty, fee, 0, liquidity);
+  }
+
+  /**
+   * One-way netting: an order first reduces the opposite side, any remainder
+   * opens or adds (unless reduce-only)
+   */
+  private fillFutures(order: PaperOrder, price: number, liquidity: 'maker' | 'taker'): void {
+    const openSide: 'long' | 'short' = order.side === 'buy' ? 'long' : 'short';
+    const opposite = this.findPosition(order.symbol, openSide === 'long' ? 'short' : 'long');
+    let remaining = order.quantity;
+
+    if (opposite) {
+      const qty = Math.min(opposite.size, remaining);
+      this.reduce(opposite, qty, price, liquidity, order.orderId);
+      remaining -= qty;
+    }
+    if (remaining <= 0 || order.reduceOnly) {
+      order.filled = order.quantity - remaining;
+      return;
+    }
+
+    const feeRate = liquidity === 'maker' ? this.config.makerFeeRate : this.config.takerFeeRate;
+    const fee = remaining * price * feeRate;
+    this.state.futuresWallet -= fee;
+
+    const existing = this.findPosition(order.symbol, openSide);
+    const ts = this.now();
+    if (existing) {
+      existing.entryPrice = (existing.entryPrice * existing.size + price * remaining) / (existing.size + remaining);
+      existing.size += remaining;
+    } else {
+      this.state.positions.push({
+        symbol: order.symbol,
+        side: openSide,
+        size: remaining,
+        entryPrice: price,
+        markPrice: price,
+        leverage: this.state.leverage[order.symbol] ?? this.config.defaultLeverage,
+        marginMode: this.state.marginMode,
+        realizedPnl: 0,
+        fundingPaid: 0,
+        lastFundingTime: ts,
+        timestamp: ts,
+      });
+    }
+    this.recordFill(order.orderId, order.symbol, 'futures', order.side, price, remaining, fee, 0, liquidity);
+  }
+
+  private reduce(position: PaperPosition, qty: number, price: number, liquidity: 'maker' | 'taker', orderId: string): void {
+    const feeRate = liquidity === 'maker' ? this.config.makerFeeRate : this.config.takerFeeRate;
+    const pnl = (price - position.entryPrice) * qty * (position.side === 'long' ? 1 : -1);
+    const fee = qty * price * feeRate;
+    position.size = Math.max(0, position.size - qty);
+    position.realizedPnl += pnl;
+    position.markPrice = price;
+    this.state.futuresWallet += pnl - fee;
+    this.recordFill(orderId, position.symbol, 'futures', position.side === 'long' ? 'sell' : 'buy', price, qty, fee, pnl, liquidity);
+
+    if (position.size === 0) {
+      // Position TP/SL die with the position, like on the exchange
+      for (const plan of this.state.plans) {
+        if (plan.status === 'live' && plan.symbol === position.symbol && plan.holdSide === position.side) plan.status = 'cancelled';
+      }
+      this.state.positions = this.state.positions.filter(p => p.size > 0);
+    }
+  }
+
+  private recordFill(orderId: string, symbol: string, market: 'spot' | 'futures', side: 'buy' | 'sell', price: number, size: number, fee: number, realizedPnl: number, liquidity: 'maker' | 'taker'): void {
+    this.state.fills.push({ orderId, symbol, market, side, price, size, fee, realizedPnl, liquidity, ts: this.now() });
+    if (this.state.fills.length > 1000) this.state.fills.splice(0, this.state.fills.length - 1000);
+  }
+
+  // ========== CHECKS ==========
+
+  private assertMargin(symbol: string, notional: number): void {
+    const leverage = this.state.leverage[symbol] ?? this.config.defaultLeverage;
+    const required = notional / leverage + notional * this.config.takerFeeRate;
+    const available = this.state.futuresWallet - this.usedMargin();
+    if (required > available) {
+      throw new BitgetAPIError('40762', `The order amount exceeds the balance (required ${required.toFixed(4)}, available ${available.toFixed(4)})`);
+    }
+  }
+
+  private assertSpotFunds(order: PaperOrder): void {
+    const { base, quote } = this.spotCoins(order.symbol);
+    const locked = this.lockedSpot();
+    if (order.side === 'buy') {
+      const cost = order.type === 'market' ? order.quantity : order.quantity * order.price!;
+      const free = (this.state.spot[quote] || 0) - (locked[quote] || 0);
+      if (cost > free) throw new BitgetAPIError('43012', `Insufficient balance: need ${cost} ${quote}, have ${free}`);
+    } else {
+      const free = (this.state.spot[base] || 0) - (locked[base] || 0);
+      if (order.quantity > free) throw new BitgetAPIError('43012', `Insufficient balance: need ${order.quantity} ${base}, have ${free}`);
+    }
+  }
+
+  private usedMargin(): number {
+    const positions = this.state.positions.reduce((sum, p) => sum + (p.entryPrice * p.size) / p.leverage, 0);
+    const orders = this.state.orders
+      .filter(o => o.market === 'futures' && o.status === 'open' && !o.reduceOnly)
+      .reduce((sum, o) => sum + (o.price! * o.quantity) / (this.state.leverage[o.symbol] ?? this.config.defaultLeverage), 0);
+    return positions + orders;
+  }
+
+  private lockedSpot(): Record<string, number> {
+    const locked: Record<string, number> = {};
+    for (const o of this.state.orders.filter(o => o.market === 'spot' && o.status === 'open')) {
+      const { base, quote } = this.spotCoins(o.symbol);
+      if (o.side === 'buy') locked[quote] = (locked[quote] || 0) + o.quantity * o.price!;
+      else locked[base] = (locked[base] || 0) + o.quantity;
+    }
+    return locked;
+  }
+
+  // ========== HELPERS ==========
+
+  private unrealizedPnl(p: PaperPosition): number {
+    return (p.markPrice - p.entryPrice) * p.size * (p.side === 'long' ? 1 : -1);
+  }
+
+  private findPosition(symbol: string, side: 'long' | 'short'): PaperPosition | undefined {
+    return this.state.positions.find(p => p.symbol === symbol && p.side === side && p.size > 0);
+  }
+
+  private toOrder(o: PaperOrder): Order {
+    return {
+      orderId: o.orderId,
+      clientOrderId: o.clientOrderId,
+      symbol: o.symbol,
+      side: o.side,
+      type: o.type,
+      quantity: o.quantity.toString(),
+      price: o.price !== undefined ? o.price.toString() : o.avgPrice?.toString(),
+      status: o.status,
+      filled: o.filled.toString(),
+      remaining: Math.max(0, o.quantity - o.filled).toString(),
+      timestamp: o.timestamp,
+      updateTime: o.updateTime,
+    };
+  }
+
+  private spotCoins(symbol: string): { base: string; quote: string } {
+    const { base, quote } = parseSymbol(symbol, 'spot');
+    return { base, quote };
+  }
+
+  private cleanSymbol(symbol: string): string {
+    return parseSymbol(symbol).symbol;
+  }
+
+  private nextId(): string {
+    return `paper-${this.now()}-${this.seq++}`;
+  }
+
+  private freshState(): PaperState {
+    return {
+      spot: { USDT: this.config.initialBalance },
+      futuresWallet: this.config.initialBalance,
+      orders: [],
+      positions: [],
+      plans: [],
+      fills: [],
+      leverage: {},
+      marginMode: 'crossed',
+    };
+  }
+
+  private loadState(): PaperState | null {
+    if (!this.config.statePath) return null;
+    try {
+      if (!fs.existsSync(this.config.statePath)) return null;
+      return JSON.parse(fs.readFileSync(this.config.statePath, 'utf-8')) as PaperState;
+    } catch (error: any) {
+      logger.warn('Failed to load paper trading state, starting fresh', { error: error.message });
+      return null;
+    }
+  }
+
+  private saveState(): void {
+    if (!this.config.statePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.config.statePath), { recursive: true });
+      fs.writeFileSync(this.config.statePath, JSON.stringify(this.state, null, 2), { encoding: 'utf-8' });
+    } catch (error: any) {
+      logger.warn('Failed to persist paper trading state', { error: error.message });
+    }
+  }
+}
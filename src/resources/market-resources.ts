@@ -0,0 +1,204 @@
+/**
+ * Market Resources
+ * MCP resources for tickers, order books, positions and open orders. Subscribed
+ * resources are fed by WebSocket pushes and announced via notifications/resources/updated.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { BitgetRestClient } from '../api/rest-client.js';
+import { BitgetWebSocketClient, resolveWsInstrument } from '../api/websocket-client.js';
+import { symbolFromInstrument } from '../utils/symbols.js';
+import { OrderBookManager } from '../api/order-book-manager.js';
+import { StreamStore } from '../api/stream-store.js';
+import { WSMessage } from '../types/bitget.js';
+import { logger } from '../utils/logger.js';
+
+const POSITIONS_URI = 'bitget://positions';
+const ORDERS_URI = 'bitget://orders';
+
+export interface MarketResourcesDeps {
+  rest: BitgetRestClient;
+  ws: BitgetWebSocketClient;
+  privateWs: BitgetWebSocketClient;
+  orderBooks: OrderBookManager;
+  streams: StreamStore;
+  canStreamPrivate: () => boolean;   // False without credentials or in paper mode
+}
+
+export interface MarketResourcesConfig {
+  throttleMs?: number;               // Minimum gap between updates for one URI (default 1000)
+}
+
+type ParsedUri =
+  | { kind: 'ticker'; symbol: string }
+  | { kind: 'orderbook'; symbol: string }
+  | { kind: 'positions' }
+  | { kind: 'orders' };
+
+export class MarketResources {
+  private subscribed = new Set<string>();
+  private lastSent = new Map<string, number>();
+  private pending = new Map<string, NodeJS.Timeout>();
+  private notify: (uri: string) => Promise<void> = async () => {};
+  private throttleMs: number;
+
+  constructor(private deps: MarketResourcesDeps, config: MarketResourcesConfig = {}) {
+    this.throttleMs = config.throttleMs ?? 1000;
+
+    deps.ws.on('data', (message: WSMessage) => {
+      const { channel, instType, instId } = message.arg;
+      if (!instId || channel !== 'ticker') return;
+      this.changed(`bitget://ticker/${symbolFromInstrument(instType, instId).display}`);
+    });
+    deps.orderBooks.on('update', (symbol: string, instType: string) => {
+      this.changed(`bitget://orderbook/${symbolFromInstrument(instType, symbol).display}`);
+    });
+    deps.privateWs.on('position', () => this.changed(POSITIONS_URI));
+    deps.privateWs.on('order', () => this.changed(ORDERS_URI));
+  }
+
+  /**
+   * Register resources/* handlers on the MCP server (declare the resources capability first)
+   */
+  register(server: Server): void {
+    this.notify = (uri) => server.sendResourceUpdated({ uri });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.listResources(),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        { uriTemplate: 'bitget://ticker/{symbol}', name: 'Ticker', description: 'Live ticker (BTCUSDT spot, BTCUSDT_UMCBL futures)', mimeType: 'application/json' },
+        { uriTemplate: 'bitget://orderbook/{symbol}', name: 'Order book', description: 'Top 20 levels of the live order book', mimeType: 'application/json' },
+      ],
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(await this.read(uri), null, 2) }],
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  listResources(): Resource[] {
+    const resources: Resource[] = [
+      { uri: POSITIONS_URI, name: 'Futures positions', mimeType: 'application/json' },
+      { uri: ORDERS_URI, name: 'Open orders', mimeType: 'application/json' },
+    ];
+    for (const uri of this.subscribed) {
+      const parsed = this.parse(uri);
+      if ('symbol' in parsed) {
+        resources.push({ uri, name: `${parsed.kind === 'ticker' ? 'Ticker' : 'Order book'} ${parsed.symbol}`, mimeType: 'application/json' });
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * Current value: streamed data when available, REST otherwise
+   */
+  async read(uri: string): Promise<any> {
+    const parsed = this.parse(uri);
+    switch (parsed.kind) {
+      case 'ticker': {
+        const latest = this.deps.streams.latest('ticker', parsed.symbol);
+        return latest ? { source: 'websocket', ts: latest.ts, ...latest.data } : { source: 'rest', ...await this.deps.rest.getTicker(parsed.symbol) };
+      }
+      case 'orderbook':
+        return this.deps.rest.getOrderBook(parsed.symbol, 20);
+      case 'positions':
+        return this.deps.rest.getFuturesPositions();
+      case 'orders':
+        return this.deps.rest.getOrders();
+    }
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    const parsed = this.parse(uri);
+    if (parsed.kind === 'positions' || parsed.kind === 'orders') {
+      if (!this.deps.canStreamPrivate()) {
+        throw new McpError(ErrorCode.InvalidRequest, `${uri} updates need the private WebSocket (API credentials, live mode)`);
+      }
+      this.deps.privateWs.subscribePrivate(parsed.kind === 'positions' ? 'positions' : 'orders', 'USDT-FUTURES');
+      await this.deps.privateWs.connect();
+    } else if (parsed.kind === 'ticker') {
+      const inst = resolveWsInstrument(parsed.symbol);
+      this.deps.ws.subscribe('ticker', inst.instId, inst.instType);
+      await this.deps.ws.connect();
+    } else {
+      this.deps.orderBooks.track(parsed.symbol);
+      await this.deps.ws.connect();
+    }
+    this.subscribed.add(uri);
+    logger.info('Resource subscribed', { uri });
+  }
+
+  /**
+   * Stop notifying; the underlying stream stays up for other consumers
+   */
+  unsubscribe(uri: string): void {
+    this.subscribed.delete(uri);
+    const timer = this.pending.get(uri);
+    if (timer) clearTimeout(timer);
+    this.pending.delete(uri);
+  }
+
+  /**
+   * Cancel pending notifications (shutdown)
+   */
+  close(): void {
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+  }
+
+  /**
+   * Send notifications/resources/updated, at most once per throttle window (trailing edge)
+   */
+  private changed(uri: string): void {
+    if (!this.subscribed.has(uri) || this.pending.has(uri)) return;
+    const wait = (this.lastSent.get(uri) ?? -Infinity) + this.throttleMs - Date.now();
+    const send = () => {
+      this.pending.delete(uri);
+      this.lastSent.set(uri, Date.now());
+      this.notify(uri).catch(error => logger.warn('Failed to send resource update', { uri, error: error.message }));
+    };
+    if (wait <= 0) {
+      send();
+    } else {
+      const timer = setTimeout(send, wait);
+      timer.unref?.();
+      this.pending.set(uri, timer);
+    }
+  }
+
+  private parse(uri: string): ParsedUri {
+    if (uri === POSITIONS_URI) return { kind: 'positions' };
+    if (uri === ORDERS_URI) return { kind: 'orders' };
+    const match = uri.match(/^bitget:\/\/(ticker|orderbook)\/([A-Za-z0-9_]+)$/);
+    if (!match) throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    const symbol = match[2].toUpperCase();
+    return match[1] === 'ticker' ? { kind: 'ticker', symbol } : { kind: 'orderbook', symbol };
+  }
+}
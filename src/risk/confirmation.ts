@@ -0,0 +1,117 @@
+/**
+ * Confirmation
+ * Two-phase flow for sweeping tools: the first call returns a preview and a short-lived,
+ * single-use token bound to the exact arguments; only a second call carrying that token runs.
+ */
+
+import crypto from 'crypto';
+import { BitgetValidationError } from '../types/bitget.js';
+
+export const DEFAULT_CONFIRM_TOOLS = ['closeAllPositions', 'cancelAllFuturesOrders', 'setMarginMode'];
+
+export interface ConfirmationConfig {
+  tools: string[];   // Tools that need a token; empty turns confirmation off
+  ttlMs: number;     // How long a token stays valid
+}
+
+export interface ConfirmationRequest {
+  confirmationRequired: true;
+  tool: string;
+  preview: unknown;
+  confirmationToken: string;
+  expiresAt: number;
+}
+
+interface ListedTool {
+  name: string;
+  description?: string;
+  inputSchema: { properties?: Record<string, unknown> };
+}
+
+interface PendingConfirmation {
+  tool: string;
+  args: string;
+  expiresAt: number;
+}
+
+/**
+ * Read BITGET_CONFIRM_TOOLS (comma-separated, "none" for no confirmations) and BITGET_CONFIRM_TTL_MS
+ */
+export function confirmationConfigFromEnv(env: NodeJS.ProcessEnv): ConfirmationConfig {
+  const list = env.BITGET_CONFIRM_TOOLS?.trim();
+  const tools = list === undefined || list === ''
+    ? DEFAULT_CONFIRM_TOOLS
+    : list === 'none' ? [] : list.split(',').map(t => t.trim()).filter(Boolean);
+  const ttlMs = parseInt(env.BITGET_CONFIRM_TTL_MS || '');
+  return { tools, ttlMs: Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : 60000 };
+}
+
+// Key order and undefined values must not change which call a token belongs to
+function canonical(args: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(args).sort().filter(k => args[k] !== undefined).map(k => [k, args[k]]));
+}
+
+export class ConfirmationManager {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private config: ConfirmationConfig, private now: () => number = Date.now) {}
+
+  requires(tool: string): boolean {
+    return this.config.tools.includes(tool);
+  }
+
+  getTools(): string[] {
+    return this.config.tools;
+  }
+
+  /**
+   * Advertise confirmationToken on exactly the listed tools that need one, so the tool schemas
+   * follow BITGET_CONFIRM_TOOLS instead of a hardcoded set
+   */
+  annotate<T extends ListedTool>(tools: T[]): T[] {
+    return tools.map(tool => !this.requires(tool.name) ? tool : {
+      ...tool,
+      description: `${tool.description}. Needs confirmation: the first call returns a preview and a confirmationToken`,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          confirmationToken: { type: 'string', description: 'Token from the preview call; omit to get a preview first' },
+        },
+      },
+    });
+  }
+
+  /**
+   * Issue a token for this exact call
+   */
+  prepare(tool: string, args: Record<string, unknown>, preview: unknown): ConfirmationRequest {
+    this.prune();
+    const confirmationToken = crypto.randomBytes(6).toString('hex');
+    const expiresAt = this.now() + this.config.ttlMs;
+    this.pending.set(confirmationToken, { tool, args: canonical(args), expiresAt });
+    return { confirmationRequired: true, tool, preview, confirmationToken, expiresAt };
+  }
+
+  /**
+   * Use up a token; throws unless it was issued for this tool and these arguments and is still valid
+   */
+  consume(tool: string, args: Record<string, unknown>, token: string): void {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending || pending.tool !== tool) {
+      throw new BitgetValidationError(`Confirmation token is unknown or expired; call ${tool} without confirmationToken for a new preview`);
+    }
+    if (pending.args !== canonical(args)) {
+      throw new BitgetValidationError(`Confirmation token was issued for different ${tool} arguments; call ${tool} without confirmationToken for a new preview`);
+    }
+    this.pending.delete(token);
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Kill Switch
+ * Daily loss limit and manual trading halt. While engaged, every new entry is refused;
+ * closes and TP/SL still go through. The state is kept on disk so a restart does not lift it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Fill, Position, RiskViolationError } from '../types/bitget.js';
+import { logger } from '../utils/logger.js';
+import { FUTURES_PRODUCT_TYPES, ProductType } from '../utils/symbols.js';
+
+// Coin-margined PnL is in the base coin, so only the stablecoin-margined products are summed
+const PNL_PRODUCT_TYPES: ProductType[] = ['USDT-FUTURES', 'USDC-FUTURES'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface KillSwitchConfig {
+  maxDailyLoss?: number;   // Engage once the UTC day's realized + unrealized PnL reaches -maxDailyLoss
+  cancelOrders: boolean;   // Cancel open futures orders when the switch engages
+  flatten: boolean;        // Close every futures position when the switch engages
+  statePath?: string;      // Persist the switch as JSON when set
+  releaseKey?: string;     // Release requires this key when set (kept out of the model's reach)
+  checkIntervalMs: number; // Background loss-limit check period
+}
+
+/**
+ * Account data and actions the switch needs; BitgetRestClient satisfies it
+ */
+export interface KillSwitchDataSource {
+  getFuturesPositions(symbol?: string, productType?: ProductType): Promise<Position[]>;
+  getFuturesFills(productType?: ProductType, options?: { startTime?: number }): Promise<Fill[]>;
+  cancelAllFuturesOrders(symbol?: string, productType?: ProductType): Promise<boolean>;
+  closeAllPositions(symbol?: string, productType?: ProductType): Promise<boolean>;
+}
+
+export interface KillSwitchState {
+  engaged: boolean;
+  trigger?: 'manual' | 'dailyLoss';
+  reason?: string;
+  engagedAt?: number;
+  day?: string;              // UTC day (YYYY-MM-DD) the switch engaged on
+}
+
+export interface DailyPnl {
+  day: string;
+  realized: number;          // Closed PnL net of fees from the day's fills
+  unrealized: number;        // Open positions
+  total: number;
+}
+
+export interface KillSwitchStatus extends KillSwitchState {
+  maxDailyLoss?: number;
+  pnl: DailyPnl;
+  actions?: string[];        // What engaging did, e.g. "cancel USDT-FUTURES orders: done"
+}
+
+/**
+ * Read the switch settings from environment variables; no BITGET_RISK_MAX_DAILY_LOSS leaves
+ * only the manual switch
+ */
+export function killSwitchConfigFromEnv(env: NodeJS.ProcessEnv): KillSwitchConfig {
+  const maxDailyLoss = parseFloat(env.BITGET_RISK_MAX_DAILY_LOSS || '');
+  const state = env.BITGET_KILL_SWITCH_STATE || 'data/kill-switch.json';
+  return {
+    maxDailyLoss: Number.isFinite(maxDailyLoss) && maxDailyLoss > 0 ? maxDailyLoss : undefined,
+    cancelOrders: env.BITGET_KILL_SWITCH_CANCEL_ORDERS === 'true',
+    flatten: env.BITGET_KILL_SWITCH_FLATTEN === 'true',
+    statePath: state === 'off' ? undefined : state,
+    releaseKey: env.BITGET_KILL_SWITCH_RELEASE_KEY || undefined,
+    checkIntervalMs: parseInt(env.BITGET_KILL_SWITCH_CHECK_MS || '60000'),
+  };
+}
+
+export function utcDay(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+export class KillSwitch {
+  private state: KillSwitchState;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private config: KillSwitchConfig, private data: KillSwitchDataSource, private now: () => number = Date.now) {
+    this.state = this.loadState() ?? { engaged: false };
+  }
+
+  isEngaged(): boolean {
+    this.rollover();
+    return this.state.engaged;
+  }
+
+  /**
+   * Today's PnL across USDT- and USDC-margined futures
+   */
+  async dailyPnl(): Promise<DailyPnl> {
+    const now = this.now();
+    const startTime = Math.floor(now / DAY_MS) * DAY_MS;
+    let realized = 0;
+    const positions = new Map<string, Position>();
+    for (const productType of PNL_PRODUCT_TYPES) {
+      for (const fill of await this.data.getFuturesFills(productType, { startTime })) {
+        realized += parseFloat(fill.profit) - parseFloat(fill.fee);
+      }
+      for (const position of await this.data.getFuturesPositions(undefined, productType)) {
+        positions.set(`${position.symbol}:${position.side}`, position);
+      }
+    }
+    const unrealized = [...positions.values()].reduce((sum, p) => sum + parseFloat(p.pnl || '0'), 0);
+    return { day: utcDay(now), realized, unrealized, total: realized + unrealized };
+  }
+
+  /**
+   * Evaluate the loss limit (engaging the switch when it is reached) and report the state
+   */
+  async check(): Promise<KillSwitchStatus> {
+    this.rollover();
+    const pnl = await this.dailyPnl();
+    const { maxDailyLoss } = this.config;
+    if (!this.state.engaged && maxDailyLoss !== undefined && pnl.total <= -maxDailyLoss) {
+      return this.engage(`Daily loss ${(-pnl.total).toFixed(2)} reached the ${maxDailyLoss} limit`, 'dailyLoss', pnl);
+    }
+    return { ...this.state, maxDailyLoss, pnl };
+  }
+
+  /**
+   * Halt new entries, then cancel open orders and flatten positions as configured
+   */
+  async engage(
+    reason: string,
+    trigger: 'manual' | 'dailyLoss' = 'manual',
+    pnl?: DailyPnl,
+    options: { cancelOrders?: boolean; flatten?: boolean } = {}
+  ): Promise<KillSwitchStatus> {
+    const now = this.now();
+    this.state = { engaged: true, trigger, reason, engagedAt: now, day: utcDay(now) };
+    this.saveState();
+    logger.warn('Kill switch engaged', { trigger, reason });
+
+    const actions: string[] = [];
+    const cancelOrders = options.cancelOrders ?? this.config.cancelOrders;
+    const flatten = options.flatten ?? this.config.flatten;
+    for (const productType of FUTURES_PRODUCT_TYPES) {
+      if (cancelOrders || flatten) {
+        await this.act(actions, `cancel ${productType} orders`, () => this.data.cancelAllFuturesOrders(undefined, productType));
+      }
+      if (flatten) {
+        const open = (await this.data.getFuturesPositions(undefined, productType)).filter(p => parseFloat(p.size) > 0);
+        if (open.length > 0) {
+          await this.act(actions, `close ${open.length} ${productType} position(s)`, () => this.data.closeAllPositions(undefined, productType));
+        }
+      }
+    }
+    return { ...this.state, maxDailyLoss: this.config.maxDailyLoss, pnl: pnl ?? await this.dailyPnl(), actions };
+  }
+
+  /**
+   * Whether release() can ever succeed; without a key only a person can lift a halt
+   */
+  hasReleaseKey(): boolean {
+    return !!this.config.releaseKey;
+  }
+
+  /**
+   * Lift the switch. Needs the configured release key; a loss-limit halt also lifts
+   * itself at the next UTC day.
+   */
+  release(key?: string): KillSwitchState {
+    this.rollover();
+    if (!this.state.engaged) return this.state;
+    if (!this.config.releaseKey) {
+      const message = this.state.trigger === 'dailyLoss'
+        ? 'The daily loss limit halted trading; it releases at 00:00 UTC'
+        : 'No release key is configured, so the halt can only be lifted outside the server';
+      throw new RiskViolationError('killSwitch', message, { trigger: this.state.trigger, day: this.state.day });
+    }
+    if (key !== this.config.releaseKey) {
+      throw new RiskViolationError('killSwitch', 'The kill switch can only be released with the configured release key', {
+        trigger: this.state.trigger,
+      });
+    }
+    logger.warn('Kill switch released', { trigger: this.state.trigger });
+    this.state = { engaged: false };
+    this.saveState();
+    return this.state;
+  }
+
+  /**
+   * Throws RiskViolationError while the switch is engaged (or the loss limit engages it now)
+   */
+  async assertTradingAllowed(): Promise<void> {
+    const status = this.isEngaged() || this.config.maxDailyLoss === undefined ? this.state : await this.check();
+    if (status.engaged) {
+      throw new RiskViolationError('killSwitch', `Trading is halted by the kill switch: ${status.reason}`, {
+        trigger: status.trigger, engagedAt: status.engagedAt,
+      });
+    }
+  }
+
+  /**
+   * Check the loss limit in the background so a losing book is flattened even when no order is sent
+   */
+  start(): void {
+    if (this.timer || this.config.maxDailyLoss === undefined) return;
+    this.timer = setInterval(() => {
+      this.check().catch(error => logger.warn('Kill switch check failed', { error: error.message }));
+    }, this.config.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // A loss-limit halt only lasts for the day it fired on
+  private rollover(): void {
+    if (this.state.engaged && this.state.trigger === 'dailyLoss' && this.state.day !== utcDay(this.now())) {
+      logger.info('Kill switch released at the start of a new UTC day');
+      this.state = { engaged: false };
+      this.saveState();
+    }
+  }
+
+  private async act(actions: string[], label: string, action: () => Promise<boolean>): Promise<void> {
+    try {
+      await action();
+      actions.push(`${label}: done`);
+    } catch (error: any) {
+      logger.error('Kill switch action failed', { action: label, error: error.message });
+      actions.push(`${label}: failed (${error.message})`);
+    }
+  }
+
+  private loadState(): KillSwitchState | null {
+    if (!this.config.statePath) return null;
+    try {
+      if (!fs.existsSync(this.config.statePath)) return null;
+      return JSON.parse(fs.readFileSync(this.config.statePath, 'utf-8')) as KillSwitchState;
+    } catch (error: any) {
+      // An unreadable file must not silently re-enable trading
+      logger.error('Failed to load kill switch state, starting engaged', { error: error.message });
+      return { engaged: true, trigger: 'manual', reason: 'Kill switch state file could not be read', engagedAt: this.now(), day: utcDay(this.now()) };
+    }
+  }
+
+  private saveState(): void {
+    if (!this.config.statePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.config.statePath), { recursive: true });
+      fs.writeFileSync(this.config.statePath, JSON.stringify(this.state, null, 2), { encoding: 'utf-8' });
+    } catch (error: any) {
+      logger.error('Failed to persist kill switch state', { error: error.message });
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Risk Manager
+ * Pre-trade limits checked before any order, plan, TP/SL, leverage change or margin loan is sent.
+ * Orders that only reduce a position (closes, TP/SL) are never blocked by size or
+ * exposure limits, so risk can always be taken off.
+ */
+
+import { Position, RiskViolationError } from '../types/bitget.js';
+import { FUTURES_PRODUCT_TYPES, parseSymbol, ProductType } from '../utils/symbols.js';
+import { KillSwitch } from './kill-switch.js';
+
+export type RiskRule = 'killSwitch' | 'allowedSymbols' | 'maxOrderNotional' | 'maxLeverage' | 'maxExposure' | 'maxOpenPositions' | 'requireStopLoss';
+
+export interface RiskLimits {
+  maxOrderNotional?: number;                    // Quote value of a single order (USDT)
+  maxLeverage?: number;                         // Default leverage cap
+  maxLeverageBySymbol?: Record<string, number>; // Per-symbol caps (bare symbol, e.g. BTCUSDT) override the default
+  maxExposure?: number;                         // Total futures position value after the order (USDT)
+  maxOpenPositions?: number;                    // Futures positions (symbol + side) held at once
+  allowedSymbols?: string[];                    // Bare symbols that may be traded; unset allows all
+  requireStopLoss?: boolean;                    // Futures entries must carry a stop loss
+}
+
+/**
+ * Market data the checks need; BitgetRestClient satisfies it
+ */
+export interface RiskDataSource {
+  getPrice(symbol: string): Promise<string>;
+  getFuturesPositions(symbol?: string, productType?: ProductType): Promise<Position[]>;
+}
+
+export interface OrderIntent {
+  symbol: string;
+  market: 'spot' | 'futures' | 'margin';
+  side: 'buy' | 'sell';
+  quantity: string;         // Base size; quote size when quoteQuantity is set
+  quoteQuantity?: boolean;  // Spot and margin market buys are sized in the quote coin
+  price?: string;           // Limit or trigger price; the last price is used when absent
+  reduceOnly?: boolean;     // Closes and TP/SL plans only take risk off
+  hasStopLoss?: boolean;
+}
+
+/**
+ * Read limits from BITGET_RISK_* environment variables; unset variables leave a limit off
+ */
+export function riskLimitsFromEnv(env: NodeJS.ProcessEnv): RiskLimits {
+  const num = (value?: string) => (value && Number.isFinite(parseFloat(value)) ? parseFloat(value) : undefined);
+  const list = (value?: string) => value?.split(',').map(v => v.trim()).filter(Boolean);
+
+  const bySymbol: Record<string, number> = {};
+  for (const entry of list(env.BITGET_RISK_MAX_LEVERAGE_BY_SYMBOL) ?? []) {
+    const [symbol, leverage] = entry.split(':');
+    if (symbol && num(leverage) !== undefined) bySymbol[parseSymbol(symbol, 'usdt-futures').symbol] = num(leverage)!;
+  }
+
+  return {
+    maxOrderNotional: num(env.BITGET_RISK_MAX_ORDER_NOTIONAL),
+    maxLeverage: num(env.BITGET_RISK_MAX_LEVERAGE),
+    maxLeverageBySymbol: Object.keys(bySymbol).length ? bySymbol : undefined,
+    maxExposure: num(env.BITGET_RISK_MAX_EXPOSURE),
+    maxOpenPositions: num(env.BITGET_RISK_MAX_OPEN_POSITIONS),
+    allowedSymbols: list(env.BITGET_RISK_ALLOWED_SYMBOLS)?.map(s => parseSymbol(s).symbol),
+    requireStopLoss: env.BITGET_RISK_REQUIRE_STOP_LOSS === 'true',
+  };
+}
+
+export class RiskManager {
+  constructor(private limits: RiskLimits, private data: RiskDataSource, private killSwitch?: KillSwitch) {}
+
+  getLimits(): RiskLimits {
+    return this.limits;
+  }
+
+  /**
+   * Throws RiskViolationError naming the first rule the order breaks
+   */
+  async checkOrder(intent: OrderIntent): Promise<void> {
+    const parsed = parseSymbol(intent.symbol, intent.market === 'futures' ? 'usdt-futures' : 'spot');
+    if (intent.reduceOnly) return;
+
+    await this.killSwitch?.assertTradingAllowed();
+    this.checkSymbol(parsed.symbol);
+    const futures = parsed.market !== 'spot';
+    if (futures && this.limits.requireStopLoss && !intent.hasStopLoss) {
+      throw new RiskViolationError('requireStopLoss', `Futures entries on ${parsed.display} must carry a stop loss (use placeEntryWithTPSLPlans with stopLoss)`, {
+        symbol: parsed.display,
+      });
+    }
+
+    const { maxOrderNotional, maxExposure, maxOpenPositions } = this.limits;
+    const needsNotional = maxOrderNotional !== undefined || (futures && maxExposure !== undefined);
+    const notional = needsNotional ? await this.notional(intent, parsed.display) : 0;
+    if (maxOrderNotional !== undefined && notional > maxOrderNotional) {
+      throw new RiskViolationError('maxOrderNotional', `Order value ${notional.toFixed(2)} exceeds the ${maxOrderNotional} per-order limit`, {
+        symbol: parsed.display, notional, limit: maxOrderNotional,
+      });
+    }
+    if (!futures || (maxExposure === undefined && maxOpenPositions === undefined)) return;
+
+    const positions = await this.openPositions();
+    if (maxExposure !== undefined) {
+      const exposure = positions.reduce((sum, p) => sum + parseFloat(p.size) * parseFloat(p.markPrice || p.entryPrice), 0);
+      if (exposure + notional > maxExposure) {
+        throw new RiskViolationError('maxExposure', `Exposure would reach ${(exposure + notional).toFixed(2)}, above the ${maxExposure} limit`, {
+          symbol: parsed.display, exposure, notional, limit: maxExposure,
+        });
+      }
+    }
+    if (maxOpenPositions !== undefined) {
+      const side = intent.side === 'buy' ? 'long' : 'short';
+      const adds = positions.some(p => p.symbol === parsed.symbol && p.side === side);
+      if (!adds && positions.length >= maxOpenPositions) {
+        throw new RiskViolationError('maxOpenPositions', `${positions.length} positions already open, the limit is ${maxOpenPositions}`, {
+          symbol: parsed.display, open: positions.length, limit: maxOpenPositions,
+        });
+      }
+    }
+  }
+
+  /**
+   * Throws RiskViolationError when the leverage is above the symbol's cap or the symbol is not allowed
+   */
+  checkLeverage(symbol: string, leverage: number): void {
+    const bare = parseSymbol(symbol, 'usdt-futures').symbol;
+    this.checkSymbol(bare);
+    const limit = this.limits.maxLeverageBySymbol?.[bare] ?? this.limits.maxLeverage;
+    if (limit !== undefined && leverage > limit) {
+      throw new RiskViolationError('maxLeverage', `Leverage ${leverage}x on ${bare} exceeds the ${limit}x limit`, {
+        symbol: bare, leverage, limit,
+      });
+    }
+  }
+
+  /**
+   * Borrowing adds leverage: refused while the kill switch is engaged, and limited to the
+   * allowed symbols (isolated) or the coins they trade (crossed)
+   */
+  async checkBorrow(coin: string, symbol?: string): Promise<void> {
+    await this.killSwitch?.assertTradingAllowed();
+    if (symbol) {
+      this.checkSymbol(parseSymbol(symbol, 'spot').symbol);
+      return;
+    }
+    const allowed = this.limits.allowedSymbols;
+    const asset = coin.toUpperCase();
+    if (allowed && !allowed.some(s => [parseSymbol(s, 'spot').base, parseSymbol(s, 'spot').quote].includes(asset))) {
+      throw new RiskViolationError('allowedSymbols', `${asset} is not traded by any allowed symbol`, { coin: asset, allowed });
+    }
+  }
+
+  private checkSymbol(bare: string): void {
+    const allowed = this.limits.allowedSymbols;
+    if (allowed && !allowed.includes(bare)) {
+      throw new RiskViolationError('allowedSymbols', `${bare} is not in the allowed symbols list`, { symbol: bare, allowed });
+    }
+  }
+
+  private async notional(intent: OrderIntent, symbol: string): Promise<number> {
+    const quantity = parseFloat(intent.quantity);
+    if (intent.quoteQuantity) return quantity;
+    const price = parseFloat(intent.price || await this.data.getPrice(symbol));
+    return quantity * price;
+  }
+
+  /**
+   * Open positions across every futures product type (one entry per symbol and side)
+   */
+  private async openPositions(): Promise<Position[]> {
+    const bySide = new Map<string, Position>();
+    for (const productType of FUTURES_PRODUCT_TYPES) {
+      for (const position of await this.data.getFuturesPositions(undefined, productType)) {
+        if (parseFloat(position.size) > 0) bySide.set(`${position.symbol}:${position.side}`, position);
+      }
+    }
+    return [...bySide.values()];
+  }
+}
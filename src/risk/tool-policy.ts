@@ -0,0 +1,82 @@
+/**
+ * Tool Policy
+ * Permission profiles deciding which MCP tools are listed and callable. read-only is an
+ * allow-list, so a tool added later never becomes reachable there by accident.
+ */
+
+import { BitgetValidationError } from '../types/bitget.js';
+
+export type ToolProfile = 'read-only' | 'trade' | 'admin';
+
+export const TOOL_PROFILES: ToolProfile[] = ['read-only', 'trade', 'admin'];
+
+// Market data, streaming, backtests and the account reads analysts need. runBacktest only reads
+// candle files from BITGET_BACKTEST_DIR (see resolveCandleFile), never arbitrary paths.
+export const READ_ONLY_TOOLS = [
+  'getPrice', 'getTicker', 'getOrderBook', 'getCandles', 'getMarketSnapshot', 'getMarketSnapshots',
+  'getCurrentFundingRate', 'getHistoricFundingRates', 'getFuturesContracts', 'getContractSpec', 'getMarginSymbols',
+  'connectWebSocket', 'disconnectWebSocket', 'subscribeToTicker', 'subscribeToOrderBook', 'subscribeToTrades',
+  'unsubscribeFromChannel', 'getWebSocketStatus', 'getStreamLatest', 'getStreamHistory', 'getApiHealth',
+  'runBacktest', 'getBalance', 'getPositions', 'getFuturesStatus', 'getRiskLimits', 'getKillSwitchStatus',
+];
+
+// Account-wide or sweeping changes; every other tool is in the trade profile. Anyone who can
+// trade can pull the kill switch, only an admin can lift it.
+export const ADMIN_TOOLS = [
+  'setMarginMode', 'setPositionMode', 'closeAllPositions', 'cancelAllFuturesOrders', 'releaseKillSwitch',
+];
+
+export interface ToolPolicyConfig {
+  profile: ToolProfile;
+  deny: string[];    // Removed on top of the profile
+}
+
+/**
+ * Read BITGET_TOOL_PROFILE (default admin, i.e. every tool) and BITGET_TOOLS_DENY (comma-separated)
+ */
+export function toolPolicyConfigFromEnv(env: NodeJS.ProcessEnv): ToolPolicyConfig {
+  const profile = (env.BITGET_TOOL_PROFILE?.trim() || 'admin') as ToolProfile;
+  // A typo must not fall back to a wider profile
+  if (!TOOL_PROFILES.includes(profile)) {
+    throw new BitgetValidationError(`Unknown BITGET_TOOL_PROFILE "${profile}", expected one of ${TOOL_PROFILES.join(', ')}`);
+  }
+  const deny = (env.BITGET_TOOLS_DENY || '').split(',').map(t => t.trim()).filter(Boolean);
+  return { profile, deny };
+}
+
+export class ToolPolicy {
+  constructor(private config: ToolPolicyConfig) {}
+
+  getProfile(): ToolProfile {
+    return this.config.profile;
+  }
+
+  /**
+   * The read-only profile never sends a write to Bitget, whatever the tool
+   */
+  isReadOnly(): boolean {
+    return this.config.profile === 'read-only';
+  }
+
+  allows(tool: string): boolean {
+    if (this.config.deny.includes(tool)) return false;
+    switch (this.config.profile) {
+      case 'read-only':
+        return READ_ONLY_TOOLS.includes(tool);
+      case 'trade':
+        return !ADMIN_TOOLS.includes(tool);
+      case 'admin':
+        return true;
+    }
+  }
+
+  filter<T extends { name: string }>(tools: T[]): T[] {
+    return tools.filter(tool => this.allows(tool.name));
+  }
+
+  assertAllowed(tool: string): void {
+    if (!this.allows(tool)) {
+      throw new BitgetValidationError(`${tool} is not available in the ${this.config.profile} tool profile`);
+    }
+  }
+}
@@ -15,11 +15,29 @@ import {
 import dotenv from 'dotenv';
 import './utils/stdio-protect.js';
 import { BitgetRestClient } from './api/rest-client.js';
-import { BitgetConfig } from './types/bitget.js';
+import { BitgetConfig, BitgetValidationError, Candle, PlanOrder, Position, RiskViolationError, WSPrivateChannel } from './types/bitget.js';
+import { runBacktest } from './backtest/backtest-engine.js';
+import { setupStrategy, emaCrossStrategy, breakoutStrategy } from './backtest/strategies.js';
+import { loadCandlesFromFile, resolveCandleFile } from './backtest/candle-file.js';
 import { logger } from './utils/logger.js';
-import { createBitgetWebSocketClient, BitgetWebSocketClient } from './api/websocket-client.js';
+import { createBitgetWebSocketClient, createBitgetPrivateWebSocketClient, resolveWsInstrument, BitgetWebSocketClient } from './api/websocket-client.js';
+import { OrderBookManager } from './api/order-book-manager.js';
+import { executionModeFromEnv } from './paper/paper-engine.js';
+import { checkTrigger, priceAgainstBook } from './api/order-preview.js';
+import { StreamStore } from './api/stream-store.js';
+import { RingBuffer } from './utils/ring-buffer.js';
+import { generateClientOid, legClientOid } from './utils/client-oid.js';
+import { parseSymbol, ProductType } from './utils/symbols.js';
+import { OrderIntent, RiskManager, riskLimitsFromEnv } from './risk/risk-manager.js';
+import { KillSwitch, killSwitchConfigFromEnv } from './risk/kill-switch.js';
+import { ConfirmationManager, confirmationConfigFromEnv } from './risk/confirmation.js';
+import { ToolPolicy, toolPolicyConfigFromEnv } from './risk/tool-policy.js';
+import { MarketResources } from './resources/market-resources.js';
 import { cacheManager } from './utils/cache.js';
 import { logHOBs, logSnapshot } from './utils/telemetry.js';
+import { computeSnapshot, snapshotTelemetry, MarketAnalysis } from './analytics/snapshot.js';
+import { detectHiddenOrderBlocks, filterHiddenOrderBlocks, lowerTimeframe, HiddenOrderBlock } from './analytics/hidden-order-blocks.js';
+import { intervalToMs } from './utils/intervals.js';
 import {
   GetPriceSchema,
   GetTickerSchema,
@@ -38,20 +56,71 @@ import {
   ModifyTPSLSchema,
   SetMarginModeSchema,
   CloseAllPositionsSchema,
+  CancelAllFuturesOrdersSchema,
+  GetPositionModeSchema,
+  SetPositionModeSchema,
   GetCurrentFundingRateSchema,
   GetHistoricFundingRatesSchema,
   GetFuturesContractsSchema,
+  GetContractSpecSchema,
   PlacePlanOrderSchema,
   GetFuturesStatusSchema,
+  ConnectPrivateWebSocketSchema,
+  GetPrivateUpdatesSchema,
+  SubscribeToTradesSchema,
+  GetStreamLatestSchema,
+  GetStreamHistorySchema,
+  GetMarginAssetsSchema,
+  GetMaxBorrowableSchema,
+  MarginBorrowSchema,
+  MarginRepaySchema,
+  PlaceMarginOrderSchema,
+  GetMarginInterestHistorySchema,
+  EngageKillSwitchSchema,
+  ReleaseKillSwitchSchema,
 } from './types/mcp.js';
 
 // Load environment variables
 dotenv.config();
 
+const MAX_PRIVATE_UPDATES = 500;
+
+// Tools whose handlers build their own confirmation preview
+const PREVIEWED_TOOLS = ['closeAllPositions', 'cancelAllFuturesOrders', 'setMarginMode'];
+
+/**
+ * The position SL (pos_loss) and profit plans of one position side. In hedge mode a symbol
+ * can hold a long and a short, each with its own plans.
+ */
+function positionPlans(position: Position, plans: PlanOrder[]): { stopLoss?: PlanOrder; takeProfits: PlanOrder[] } {
+  const own = plans.filter(p => p.symbol === position.symbol && p.holdSide === position.side);
+  return {
+    stopLoss: own.find(p => p.planType === 'pos_loss'),
+    takeProfits: own.filter(p => p.planType === 'profit_plan'),
+  };
+}
+
+interface PrivateUpdate {
+  channel: WSPrivateChannel;
+  instType: string;
+  symbol?: string;
+  receivedAt: number;
+  data: any;
+}
+
 class BitgetMCPServer {
   private server: Server;
   private bitgetClient: BitgetRestClient;
   private wsClient: BitgetWebSocketClient;
+  private privateWsClient: BitgetWebSocketClient;
+  private orderBooks: OrderBookManager;
+  private streams: StreamStore;
+  private resources: MarketResources;
+  private riskManager: RiskManager;
+  private killSwitch: KillSwitch;
+  private confirmations: ConfirmationManager;
+  private toolPolicy: ToolPolicy;
+  private privateUpdates = new RingBuffer<PrivateUpdate>(MAX_PRIVATE_UPDATES);
 
   constructor() {
     // Initialize MCP server
@@ -63,15 +132,33 @@ class BitgetMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true, listChanged: false },
         },
       }
     );
 
     // Initialize Bitget clients
-    this.bitgetClient = new BitgetRestClient(this.config);
+    this.toolPolicy = new ToolPolicy(toolPolicyConfigFromEnv(process.env));
+    this.bitgetClient = new BitgetRestClient({ ...this.config, readOnly: this.toolPolicy.isReadOnly() });
+    this.killSwitch = new KillSwitch(killSwitchConfigFromEnv(process.env), this.bitgetClient);
+    this.riskManager = new RiskManager(riskLimitsFromEnv(process.env), this.bitgetClient, this.killSwitch);
+    this.confirmations = new ConfirmationManager(confirmationConfigFromEnv(process.env));
     this.wsClient = createBitgetWebSocketClient(this.config);
+    this.privateWsClient = createBitgetPrivateWebSocketClient(this.config);
+    this.orderBooks = new OrderBookManager(this.wsClient);
+    this.streams = new StreamStore(this.wsClient);
+    this.resources = new MarketResources({
+      rest: this.bitgetClient,
+      ws: this.wsClient,
+      privateWs: this.privateWsClient,
+      orderBooks: this.orderBooks,
+      streams: this.streams,
+      canStreamPrivate: () => !this.bitgetClient.isPaperTrading() && !!(this.config.apiKey && this.config.secretKey && this.config.passphrase),
+    });
+    this.bitgetClient.useLiveOrderBooks(this.orderBooks);
 
     this.setupToolHandlers();
+    this.resources.register(this.server);
     this.setupWebSocketHandlers();
 
     // Diagnostic log to test file writing
@@ -83,6 +170,11 @@ class BitgetMCPServer {
    */
   async initialize(): Promise<void> {
     logger.info('Initializing Bitget MCP Server...');
+
+    if (this.bitgetClient.isPaperTrading()) {
+      logger.info('Paper trading mode: orders are simulated locally, no live orders will be sent');
+    }
+    logger.info('Tool profile', { profile: this.toolPolicy.getProfile() });
     
     // Validate API credentials if they are provided
     if (this.config.apiKey && this.config.secretKey && this.config.passphrase) {
@@ -107,6 +199,17 @@ class BitgetMCPServer {
       sandbox: isSandbox,
       baseUrl: 'https://api.bitget.com',
       wsUrl: isSandbox ? 'wss://wspap.bitget.com/v2/ws/public' : 'wss://ws.bitget.com/v2/ws/public',
+      wsPrivateUrl: isSandbox ? 'wss://wspap.bitget.com/v2/ws/private' : 'wss://ws.bitget.com/v2/ws/private',
+      executionMode: executionModeFromEnv(process.env),
+      paper: {
+        initialBalance: process.env.BITGET_PAPER_BALANCE ? parseFloat(process.env.BITGET_PAPER_BALANCE) : undefined,
+        takerFeeRate: process.env.BITGET_PAPER_TAKER_FEE ? parseFloat(process.env.BITGET_PAPER_TAKER_FEE) : undefined,
+        makerFeeRate: process.env.BITGET_PAPER_MAKER_FEE ? parseFloat(process.env.BITGET_PAPER_MAKER_FEE) : undefined,
+        syncIntervalMs: process.env.BITGET_PAPER_SYNC_MS ? parseInt(process.env.BITGET_PAPER_SYNC_MS) : undefined,
+        statePath: process.env.BITGET_PAPER_STATE || 'data/paper-state.json',
+      },
+      candleStoreDir: process.env.BITGET_CANDLE_STORE === 'off' ? undefined : (process.env.BITGET_CANDLE_STORE || 'data/candles'),
+      orderPrecision: process.env.BITGET_ORDER_PRECISION === 'reject' ? 'reject' : 'round',
     };
   }
 
@@ -114,7 +217,7 @@ class BitgetMCPServer {
     // List all available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
+        tools: this.confirmations.annotate(this.toolPolicy.filter([
           // Market Data Tools
           {
             name: 'getPrice',
@@ -122,7 +225,7 @@ class BitgetMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
-                symbol: { type: 'string', description: 'Trading pair symbol (e.g., BTCUSDT for spot, BTCUSDT_UMCBL for futures)' }
+                symbol: { type: 'string', description: 'Trading pair symbol (e.g., BTCUSDT for spot, BTCUSDT_UMCBL or BTC/USDT:USDT for futures)' }
               },
               required: ['symbol']
             },
@@ -160,7 +263,9 @@ class BitgetMCPServer {
               properties: {
                 symbol: { type: 'string', description: 'Trading pair symbol' },
                 interval: { type: 'string', enum: ['1m', '5m', '15m', '30m', '1h', '4h', '1d'], description: 'Candle interval' },
-                limit: { type: 'number', description: 'Number of candles (default: 100)' },
+                limit: { type: 'number', description: 'Number of candles; pages through history above 1000 (default: 100, or 5000 with startTime)' },
+                startTime: { type: 'number', description: 'Only bars at or after this time (ms)' },
+                endTime: { type: 'number', description: 'Only bars at or before this time (ms)' },
                 compact: { type: 'boolean', description: 'Return essential OHLCV fields' }
               },
               required: ['symbol', 'interval']
@@ -219,7 +324,7 @@ class BitgetMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
-                symbol: { type: 'string', description: 'Trading pair symbol (e.g., BTCUSDT for spot, BTCUSDT_UMCBL for futures)' },
+                symbol: { type: 'string', description: 'Trading pair symbol (e.g., BTCUSDT for spot, BTCUSDT_UMCBL or BTC/USDT:USDT for futures)' },
                 side: { type: 'string', enum: ['buy', 'sell'], description: 'Order side' },
                 type: { type: 'string', enum: ['market', 'limit'], description: 'Order type' },
                 quantity: { type: 'string', description: 'Order quantity (in base currency for spot, in contracts for futures)' },
@@ -227,9 +332,10 @@ class BitgetMCPServer {
                 timeInForce: { type: 'string', enum: ['GTC', 'IOC', 'FOK'], description: 'Time in force' },
                 clientOrderId: { type: 'string', description: 'Client order ID' },
                 reduceOnly: { type: 'boolean', description: 'Reduce only flag for futures' },
-                tradeSide: { type: 'string', enum: ['open', 'close'], description: 'Unilateral position action (futures): open or close' },
+                tradeSide: { type: 'string', enum: ['open', 'close'], description: 'Futures: open or close a position; side stays the trade direction (sell closes a long) in both position modes' },
                 marginMode: { type: 'string', enum: ['crossed', 'isolated'], description: 'Margin mode for futures (default: crossed)' },
-                marginCoin: { type: 'string', description: 'Margin coin for futures (default: USDT)' }
+                marginCoin: { type: 'string', description: 'Margin coin for futures (default: from the symbol; USDT, USDC or the base coin for coin-margined)' },
+                dryRun: { type: 'boolean', description: 'Validate and price the call, and return the exact Bitget requests without sending them' }
               },
               required: ['symbol', 'side', 'type', 'quantity']
             },
@@ -264,7 +370,8 @@ class BitgetMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
-                symbol: { type: 'string', description: 'Filter by symbol' }
+                symbol: { type: 'string', description: 'Filter by symbol' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' }
               },
               required: []
             },
@@ -287,7 +394,8 @@ class BitgetMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
-                symbol: { type: 'string', description: 'Filter by symbol' }
+                symbol: { type: 'string', description: 'Filter by symbol' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' }
               },
               required: []
             },
@@ -317,19 +425,19 @@ class BitgetMCPServer {
               type: 'object',
               properties: {
                 symbol: { type: 'string', description: 'Trading pair symbol' },
-                instType: { type: 'string', enum: ['SPOT', 'UMCBL'], description: 'Instrument type (default: SPOT)' }
+                instType: { type: 'string', enum: ['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Instrument type (default: SPOT; a market in the symbol wins)' }
               },
               required: ['symbol']
             },
           },
           {
             name: 'subscribeToOrderBook',
-            description: 'Subscribe to real-time order book updates',
+            description: 'Maintain a live, checksum-verified order book over WebSocket; getOrderBook then reads it from memory',
             inputSchema: {
               type: 'object',
               properties: {
                 symbol: { type: 'string', description: 'Trading pair symbol' },
-                instType: { type: 'string', enum: ['SPOT', 'UMCBL'], description: 'Instrument type (default: SPOT)' }
+                instType: { type: 'string', enum: ['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Instrument type (default: SPOT; a market in the symbol wins)' }
               },
               required: ['symbol']
             },
@@ -342,7 +450,7 @@ class BitgetMCPServer {
               properties: {
                 channel: { type: 'string', description: 'Channel name (ticker, books, etc.)' },
                 symbol: { type: 'string', description: 'Trading pair symbol' },
-                instType: { type: 'string', enum: ['SPOT', 'UMCBL'], description: 'Instrument type (default: SPOT)' }
+                instType: { type: 'string', enum: ['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Instrument type (default: SPOT; a market in the symbol wins)' }
               },
               required: ['channel', 'symbol']
             },
@@ -356,6 +464,80 @@ class BitgetMCPServer {
               required: []
             },
           },
+          {
+            name: 'getApiHealth',
+            description: 'REST API health: circuit breaker state per endpoint group, rate-limit buckets and queued requests',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            },
+          },
+          {
+            name: 'subscribeToTrades',
+            description: 'Subscribe to real-time public trades',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string', description: 'Trading pair symbol' },
+                instType: { type: 'string', enum: ['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Instrument type (default: SPOT; a market in the symbol wins)' }
+              },
+              required: ['symbol']
+            },
+          },
+          {
+            name: 'getStreamLatest',
+            description: 'Latest streamed row for a subscription (last tick, last trade) or the current live order book for channel "books"',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string', description: 'Trading pair symbol (BTCUSDT or BTCUSDT_UMCBL)' },
+                channel: { type: 'string', description: 'ticker, trade, books, candle1m, ... (default: ticker)' },
+                instType: { type: 'string', enum: ['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Instrument type (default: from the symbol)' }
+              },
+              required: ['symbol']
+            },
+          },
+          {
+            name: 'getStreamHistory',
+            description: 'Recent streamed rows for a subscription (e.g. last N trades or ticks), newest last; 500 rows are kept per subscription',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string', description: 'Trading pair symbol (BTCUSDT or BTCUSDT_UMCBL)' },
+                channel: { type: 'string', description: 'ticker, trade, books, candle1m, ... (default: ticker)' },
+                instType: { type: 'string', enum: ['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Instrument type (default: from the symbol)' },
+                limit: { type: 'number', description: 'Rows to return (default 20, max 500)' },
+                since: { type: 'number', description: 'Only rows received after this timestamp (ms)' }
+              },
+              required: ['symbol']
+            },
+          },
+          {
+            name: 'connectPrivateWebSocket',
+            description: 'Log in to the private WebSocket and stream order, fill, position, account and plan-order updates',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                productTypes: { type: 'array', items: { type: 'string', enum: ['SPOT', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'] }, description: 'Markets to stream (default: ["USDT-FUTURES"])' }
+              },
+              required: []
+            },
+          },
+          {
+            name: 'getPrivateUpdates',
+            description: 'Recent private WebSocket updates (fills, order/position/account changes, plan orders); connect with connectPrivateWebSocket first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                channel: { type: 'string', enum: ['orders', 'positions', 'account', 'orders-algo', 'fill'], description: 'Filter by channel' },
+                symbol: { type: 'string', description: 'Filter by symbol' },
+                since: { type: 'number', description: 'Only updates received after this timestamp (ms)' },
+                limit: { type: 'number', description: 'Maximum updates to return, newest last (default 50, max 500)' }
+              },
+              required: []
+            },
+          },
           // Futures TPSL / Plan Orders
           {
             name: 'placeTPSL',
@@ -370,7 +552,8 @@ class BitgetMCPServer {
                 executePrice: { type: 'string', description: 'Execution price for limit (omit for market)' },
                 holdSide: { type: 'string', enum: ['long', 'short', 'buy', 'sell'], description: 'Position side to apply' },
                 size: { type: 'string', description: 'Quantity/size for TPSL' },
-                clientOid: { type: 'string', description: 'Client OID for TPSL order' }
+                clientOid: { type: 'string', description: 'Client OID for TPSL order' },
+                dryRun: { type: 'boolean', description: 'Validate and price the call, and return the exact Bitget requests without sending them' }
               },
               required: ['symbol', 'planType', 'triggerPrice', 'holdSide', 'size']
             },
@@ -382,7 +565,8 @@ class BitgetMCPServer {
               type: 'object',
               properties: {
                 symbol: { type: 'string', description: 'Filter by symbol (e.g., AVAXUSDT)' },
-                planType: { type: 'string', enum: ['normal_plan', 'track_plan', 'profit_loss'], description: 'Plan type filter (default: profit_loss)' }
+                planType: { type: 'string', enum: ['normal_plan', 'track_plan', 'profit_loss'], description: 'Plan type filter (default: profit_loss)' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' }
               },
               required: []
             },
@@ -410,6 +594,7 @@ class BitgetMCPServer {
                 symbol: { type: 'string', description: 'Trading pair symbol (e.g., AVAXUSDT)' },
                 stopSurplusPrice: { type: 'string', description: 'Take profit price to set/modify' },
                 stopLossPrice: { type: 'string', description: 'Stop loss price to set/modify' },
+                dryRun: { type: 'boolean', description: 'Validate and price the call, and return the exact Bitget requests without sending them' },
               },
               required: ['symbol']
             },
@@ -422,7 +607,8 @@ class BitgetMCPServer {
               type: 'object',
               properties: {
                 symbol: { type: 'string', description: 'Trading pair symbol (optional)' },
-                marginMode: { type: 'string', enum: ['isolated', 'crossed'], description: 'Margin mode to set' }
+                marginMode: { type: 'string', enum: ['isolated', 'crossed'], description: 'Margin mode to set' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' }
               },
               required: ['marginMode']
             },
@@ -433,11 +619,48 @@ class BitgetMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
-                symbol: { type: 'string', description: 'Trading pair symbol to close (optional)' }
+                symbol: { type: 'string', description: 'Trading pair symbol to close (optional)' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' },
+                holdSide: { type: 'string', enum: ['long', 'short'], description: 'Close only this side (default: both)' }
+              },
+              required: []
+            },
+          },
+          {
+            name: 'cancelAllFuturesOrders',
+            description: 'Cancel every open futures order (optionally for a single symbol)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string', description: 'Only cancel orders for this symbol' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' }
+              },
+              required: []
+            },
+          },
+          {
+            name: 'getPositionMode',
+            description: 'Get the futures position mode: one_way_mode (one net position per symbol) or hedge_mode (long and short held at once)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market (default: USDT-FUTURES)' }
               },
               required: []
             },
           },
+          {
+            name: 'setPositionMode',
+            description: 'Switch futures position mode between one_way_mode and hedge_mode (refused while positions or orders are open)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                posMode: { type: 'string', enum: ['one_way_mode', 'hedge_mode'], description: 'one_way_mode nets into one position per symbol; hedge_mode holds long and short at once' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market (default: USDT-FUTURES)' }
+              },
+              required: ['posMode']
+            },
+          },
           {
             name: 'getCurrentFundingRate',
             description: 'Get current funding rate for a futures symbol',
@@ -462,15 +685,27 @@ class BitgetMCPServer {
           },
           {
             name: 'getFuturesContracts',
-            description: 'List futures contracts configuration',
+            description: 'List futures contract specs (pricePlace, volumePlace, sizeMultiplier, minTradeNum, maxLever, status)',
             inputSchema: {
               type: 'object',
               properties: {
-                productType: { type: 'string', enum: ['USDT-FUTURES'], description: 'Product type (default: USDT-FUTURES)' }
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Product type (default: all)' }
               },
               required: []
             },
           },
+          {
+            name: 'getContractSpec',
+            description: 'Price/size precision and limits for one symbol; orders are rounded to these before sending',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string', description: 'Trading pair symbol (BTCUSDT spot, BTCUSDT_UMCBL futures)' },
+                market: { type: 'string', enum: ['spot', 'futures'], description: 'Override market detection from the symbol suffix' }
+              },
+              required: ['symbol']
+            },
+          },
           {
             name: 'placePlanOrder',
             description: 'Place a futures plan order (profit/loss/moving)',
@@ -485,6 +720,7 @@ class BitgetMCPServer {
                 holdSide: { type: 'string', enum: ['long', 'short', 'buy', 'sell'], description: 'Position side' },
                 size: { type: 'string', description: 'Quantity/size' },
                 clientOid: { type: 'string', description: 'Client OID' },
+                dryRun: { type: 'boolean', description: 'Validate and price the call, and return the exact Bitget requests without sending them' },
               },
               required: ['symbol', 'planType', 'triggerPrice', 'holdSide', 'size']
             },
@@ -500,9 +736,9 @@ class BitgetMCPServer {
                 type: { type: 'string', enum: ['market', 'limit'], description: 'Entry order type' },
                 quantity: { type: 'string', description: 'Entry quantity' },
                 price: { type: 'string', description: 'Entry price (limit only)' },
-                marginCoin: { type: 'string', description: 'Margin coin (default: USDT)' },
+                marginCoin: { type: 'string', description: 'Margin coin (default: from the symbol)' },
                 marginMode: { type: 'string', enum: ['isolated', 'crossed'], description: 'Order margin mode' },
-                setMarginMode: { type: 'boolean', description: 'Set account margin mode before placing entry' },
+                setMarginMode: { type: 'boolean', description: 'Set account margin mode before placing entry (admin profile, and only when setMarginMode needs no confirmation)' },
                 stopLoss: {
                   type: 'object',
                   properties: { triggerPrice: { type: 'string', description: 'SL trigger price' } },
@@ -520,24 +756,219 @@ class BitgetMCPServer {
                   description: 'Array of partial TP profit_plan entries'
                 },
                 triggerType: { type: 'string', enum: ['fill_price', 'mark_price'], description: 'Trigger type (default: mark_price)' },
+                clientOid: { type: 'string', description: 'Base client order ID; legs use <clientOid>-entry, -sl, -tp1... (generated when omitted)' },
                 compact: { type: 'boolean', description: 'Return trimmed summary only' },
+                dryRun: { type: 'boolean', description: 'Validate and price the call, and return the exact Bitget requests without sending them' },
               },
               required: ['symbol', 'side', 'type', 'quantity']
             },
           },
           {
             name: 'getFuturesStatus',
-            description: 'Summarize current futures position, SL (pos_loss), and TP plan orders',
+            description: 'Summarize futures positions with the SL (pos_loss) and TP plan orders of each position side',
             inputSchema: {
               type: 'object',
               properties: {
                 symbol: { type: 'string', description: 'Trading pair symbol (optional)' },
-                compact: { type: 'boolean', description: 'Return trimmed summary only' }
+                compact: { type: 'boolean', description: 'Return trimmed summary only' },
+                productType: { type: 'string', enum: ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'], description: 'Futures market when no symbol is given (default: USDT-FUTURES)' }
+              },
+              required: []
+            },
+          },
+          // Spot margin tools
+          {
+            name: 'getMarginSymbols',
+            description: 'List spot pairs open for margin trading',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            },
+          },
+          {
+            name: 'getMarginAssets',
+            description: 'Spot margin balances with borrowed amount, unpaid interest and net equity per coin',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                marginType: { type: 'string', enum: ['crossed', 'isolated'], description: 'crossed: one margin account for all pairs; isolated: one account per pair' },
+                symbol: { type: 'string', description: 'Isolated pair (e.g., BTCUSDT); omit for every isolated pair' },
+                coin: { type: 'string', description: 'Only this coin' }
+              },
+              required: ['marginType']
+            },
+          },
+          {
+            name: 'getMaxBorrowable',
+            description: 'How much of a coin can still be borrowed on spot margin',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                marginType: { type: 'string', enum: ['crossed', 'isolated'], description: 'crossed: one margin account for all pairs; isolated: one account per pair' },
+                symbol: { type: 'string', description: 'Isolated pair (required for isolated)' },
+                coin: { type: 'string', description: 'Coin to borrow (required for crossed; filters isolated)' }
+              },
+              required: ['marginType']
+            },
+          },
+          {
+            name: 'marginBorrow',
+            description: 'Borrow a coin into the crossed margin account or an isolated pair',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                marginType: { type: 'string', enum: ['crossed', 'isolated'], description: 'crossed: one margin account for all pairs; isolated: one account per pair' },
+                coin: { type: 'string', description: 'Coin to borrow' },
+                amount: { type: 'string', description: 'Amount to borrow' },
+                symbol: { type: 'string', description: 'Isolated pair (required for isolated)' }
+              },
+              required: ['marginType', 'coin', 'amount']
+            },
+          },
+          {
+            name: 'marginRepay',
+            description: 'Repay a spot margin loan; interest is paid before principal',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                marginType: { type: 'string', enum: ['crossed', 'isolated'], description: 'crossed: one margin account for all pairs; isolated: one account per pair' },
+                coin: { type: 'string', description: 'Coin to repay' },
+                amount: { type: 'string', description: 'Amount to repay' },
+                symbol: { type: 'string', description: 'Isolated pair (required for isolated)' }
+              },
+              required: ['marginType', 'coin', 'amount']
+            },
+          },
+          {
+            name: 'placeMarginOrder',
+            description: 'Place a crossed or isolated spot margin order, optionally borrowing the shortfall or repaying debt from the proceeds',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                marginType: { type: 'string', enum: ['crossed', 'isolated'], description: 'crossed: one margin account for all pairs; isolated: one account per pair' },
+                symbol: { type: 'string', description: 'Spot pair (e.g., BTCUSDT)' },
+                side: { type: 'string', enum: ['buy', 'sell'], description: 'Order side' },
+                type: { type: 'string', enum: ['market', 'limit'], description: 'Order type' },
+                quantity: { type: 'string', description: 'Order quantity in the base coin (quote coin for market buys)' },
+                price: { type: 'string', description: 'Order price (required for limit orders)' },
+                timeInForce: { type: 'string', enum: ['GTC', 'IOC', 'FOK'], description: 'Time in force' },
+                loanType: { type: 'string', enum: ['normal', 'autoLoan', 'autoRepay', 'autoLoanAndRepay'], description: 'normal: no borrowing; autoLoan borrows any shortfall; autoRepay repays debt from the proceeds (default: normal)' },
+                clientOrderId: { type: 'string', description: 'Client order ID' }
+              },
+              required: ['marginType', 'symbol', 'side', 'type', 'quantity']
+            },
+          },
+          {
+            name: 'getMarginInterestHistory',
+            description: 'Interest charged on spot margin loans, newest first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                marginType: { type: 'string', enum: ['crossed', 'isolated'], description: 'crossed: one margin account for all pairs; isolated: one account per pair' },
+                symbol: { type: 'string', description: 'Isolated pair (required for isolated)' },
+                coin: { type: 'string', description: 'Only interest charged in this coin' },
+                startTime: { type: 'number', description: 'Only interest charged at or after this time (ms, default: 30 days ago)' },
+                limit: { type: 'number', description: 'Max rows (default: 100)' }
+              },
+              required: ['marginType']
+            },
+          },
+          // Risk
+          {
+            name: 'getRiskLimits',
+            description: 'Pre-trade limits every order, plan, TP/SL and leverage change is checked against (unset limits are off)',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            },
+          },
+          {
+            name: 'getKillSwitchStatus',
+            description: 'Kill switch state and today\'s (UTC) realized + unrealized futures PnL against the daily loss limit',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            },
+          },
+          {
+            name: 'engageKillSwitch',
+            description: 'Halt all new entries (closes and TP/SL still work); the halt survives restarts',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                reason: { type: 'string', description: 'Why trading is being halted' },
+                cancelOrders: { type: 'boolean', description: 'Cancel open futures orders (default: from configuration)' },
+                flatten: { type: 'boolean', description: 'Close every futures position (default: from configuration)' }
+              },
+              required: []
+            },
+          },
+          {
+            name: 'releaseKillSwitch',
+            description: 'Resume trading with the configured release key; a daily loss halt also lifts itself at 00:00 UTC',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                releaseKey: { type: 'string', description: 'Release key' }
               },
               required: []
             },
           },
-        ],
+          // Backtesting
+          {
+            name: 'runBacktest',
+            description: 'Replay historical candles through a strategy (or a single entry/SL/TP setup) and report trades, win rate, expectancy (R), max drawdown and equity curve',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string', description: 'Symbol to fetch candles for (e.g., BTCUSDT_UMCBL)' },
+                interval: { type: 'string', enum: ['1m','3m','5m','15m','30m','1h','4h','6h','12h','1d'], description: 'Candle interval (default 1h)' },
+                limit: { type: 'number', description: 'Number of candles to fetch (default 500)' },
+                startTime: { type: 'number', description: 'Fetch candles from this time (ms)' },
+                endTime: { type: 'number', description: 'Fetch candles up to this time (ms)' },
+                file: { type: 'string', description: 'JSON/CSV candle file, relative to the backtest data directory, to replay instead of fetching' },
+                strategy: { type: 'string', enum: ['setup', 'emaCross', 'breakout'], description: 'Strategy to replay' },
+                setup: {
+                  type: 'object',
+                  description: 'Setup for strategy "setup" (same fields as placeEntryWithTPSLPlans)',
+                  properties: {
+                    side: { type: 'string', enum: ['buy', 'sell'] },
+                    type: { type: 'string', enum: ['market', 'limit'] },
+                    quantity: { type: 'string' },
+                    price: { type: 'string', description: 'Limit entry price' },
+                    stopLoss: { type: 'object', properties: { triggerPrice: { type: 'string' } }, required: ['triggerPrice'] },
+                    takeProfits: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: { triggerPrice: { type: 'string' }, size: { type: 'string' } },
+                        required: ['triggerPrice', 'size'],
+                      },
+                    },
+                    startTime: { type: 'number', description: 'Place after this time (ms)' },
+                    expiryBars: { type: 'number', description: 'Cancel unfilled limit after N bars' },
+                  },
+                  required: ['side', 'type', 'quantity', 'stopLoss'],
+                },
+                params: {
+                  type: 'object',
+                  description: 'Built-in strategy parameters: fast, slow (emaCross), lookback (breakout), atrPeriod, stopAtr, targetsR',
+                },
+                initialEquity: { type: 'number', description: 'Starting equity (default 10000)' },
+                riskPerTrade: { type: 'number', description: 'Equity fraction risked per built-in trade (default 0.01)' },
+                takerFeeRate: { type: 'number', description: 'Taker fee rate (default 0.0006)' },
+                makerFeeRate: { type: 'number', description: 'Maker fee rate (default 0.0002)' },
+                slippageBps: { type: 'number', description: 'Slippage in basis points (default 0)' },
+                compact: { type: 'boolean', description: 'Thin equity curve and trim trade details (default true)' },
+              },
+              required: ['strategy']
+            },
+          },
+        // Without a release key nothing the model sends can lift a halt, so the tool is not offered
+        ]).filter(tool => tool.name !== 'releaseKillSwitch' || this.killSwitch.hasReleaseKey())),
       };
     });
 
@@ -546,6 +977,15 @@ class BitgetMCPServer {
       const { name, arguments: args } = request.params;
 
       try {
+        this.toolPolicy.assertAllowed(name);
+
+        // Configured tools without a tailored preview confirm their raw arguments
+        if (this.confirmations.requires(name) && !PREVIEWED_TOOLS.includes(name)) {
+          const { confirmationToken, ...params } = (args ?? {}) as Record<string, unknown>;
+          const preview = await this.confirmation(name, params, confirmationToken as string | undefined, async () => ({ action: name, arguments: params }));
+          if (preview) return preview;
+        }
+
         switch (name) {
           // Market Data
           case 'getPrice': {
@@ -600,8 +1040,8 @@ class BitgetMCPServer {
           }
 
           case 'getCandles': {
-            const { symbol, interval, limit = 100, compact } = GetCandlesSchema.parse(args);
-            const candles = await this.bitgetClient.getCandles(symbol, interval, limit);
+            const { symbol, interval, limit, startTime, endTime, compact } = GetCandlesSchema.parse(args);
+            const candles = await this.bitgetClient.getCandles(symbol, interval, limit ?? (startTime !== undefined ? 5000 : 100), { startTime, endTime });
             return {
               content: [
                 {
@@ -619,187 +1059,14 @@ class BitgetMCPServer {
             } as CallToolResult;
           }
           case 'getMarketSnapshot': {
-                        // --- HOB/telemetry filtering logic ---
-                        // TODO: Replace with actual hidden order block detection logic
-                        let hiddenOrderBlocks: any[] = [];
-                        // Filtering logic for advanced telemetry
-                        let hobFiltered = hiddenOrderBlocks.filter(hob => {
-                          if (typeof hob.qualityScore === 'number' && hob.qualityScore < minQuality) return false;
-                          if (requireLTFConfirmations && !hob.ltfConfirmed) return false;
-                          if (excludeInvalidated && hob.invalidated) return false;
-                          if (onlyFullyMitigated && !hob.fullyMitigated) return false;
-                          if (onlyVeryStrong && !(hob.isVeryStrong || (hob.qualityScore && hob.qualityScore >= veryStrongMinQuality))) return false;
-                          return true;
-                        });
             const { symbol, interval, limit = 150, includeCMC = false, compact = true, emas = [20,50,200], atrPeriod = 14, fvgLookback = 60, minQuality = 0.6, requireLTFConfirmations = false, excludeInvalidated = true, onlyFullyMitigated = false, veryStrongMinQuality = 0.75, onlyVeryStrong = false, telemetry = false } = (await import('./types/mcp.js')).GetMarketSnapshotSchema.parse(args);
-            const normalizeInterval = (iv: string) => (iv === '2d' ? '1d' : iv === '4d' ? '1d' : iv === '2w' ? '1w' : iv);
             const candles = await this.bitgetClient.getCandles(symbol, interval, limit);
-            const closes = candles.map(c => parseFloat(c.close));
-            const highs = candles.map(c => parseFloat(c.high));
-            const lows = candles.map(c => parseFloat(c.low));
-            const opens = candles.map(c => parseFloat(c.open));
-            const volumes = candles.map(c => parseFloat(c.volume));
-            const timestamps = candles.map(c => c.timestamp);
-
-            const pivots = [] as Array<{ idx: number; type: 'H'|'L'; price: number }>;
-            for (let i = 1; i < candles.length - 1; i++) {
-              if (highs[i] > highs[i-1] && highs[i] > highs[i+1]) pivots.push({ idx: i, type: 'H', price: highs[i] });
-              if (lows[i] < lows[i-1] && lows[i] < lows[i+1]) pivots.push({ idx: i, type: 'L', price: lows[i] });
-            }
-            const lastPivot = pivots[pivots.length - 1];
-            // BOS detection: last close crossing prior swing
-            let bos: 'up' | 'down' | null = null;
-            const lastClose = closes[closes.length - 1];
-            const prevHigh = Math.max(...highs.slice(0, highs.length - 1));
-            const prevLow = Math.min(...lows.slice(0, lows.length - 1));
-            if (lastClose > prevHigh) bos = 'up'; else if (lastClose < prevLow) bos = 'down';
-
-            // Simple FVG detection (last 50 bars)
-            const fvg: Array<{ type: 'bull'|'bear'; from: number; to: number; startIdx: number }>= [];
-            for (let i = Math.max(2, candles.length - (fvgLookback + 2)); i < candles.length; i++) {
-              // Bullish FVG: low[i] > high[i-2]
-              if (lows[i] > highs[i-2]) fvg.push({ type: 'bull', from: highs[i-2], to: lows[i], startIdx: i-2 });
-              // Bearish FVG: high[i] < low[i-2]
-              if (highs[i] < lows[i-2]) fvg.push({ type: 'bear', from: highs[i], to: lows[i-2], startIdx: i-2 });
-            }
-
-            // Simple moving averages for bias
-            const sma = (arr: number[], n: number) => {
-              if (arr.length < n) return null as number | null;
-              let sum = 0; for (let i = arr.length - n; i < arr.length; i++) sum += arr[i];
-              return sum / n;
-            };
-            const sma50 = sma(closes, 50);
-            const sma200 = sma(closes, 200);
-            const trend = sma50 && sma200 ? (sma50 > sma200 ? 'up' : 'down') : null;
-
-            // EMA calculations
-            const calcEMA = (arr: number[], n: number) => {
-              if (arr.length < n) return null as number | null;
-              const k = 2 / (n + 1);
-              let ema = arr[0];
-              for (let i = 1; i < arr.length; i++) ema = arr[i] * k + ema * (1 - k);
-              return ema;
-            };
-            const emaValues: Record<string, number | null> = {};
-            for (const p of emas) emaValues[`ema${p}`] = calcEMA(closes, p);
-
-            // ATR calculation (Wilder's smoothing approximation)
-            const tr: number[] = [];
-            for (let i = 0; i < candles.length; i++) {
-              const hl = highs[i] - lows[i];
-              const hc = i > 0 ? Math.abs(highs[i] - closes[i-1]) : 0;
-              const lc = i > 0 ? Math.abs(lows[i] - closes[i-1]) : 0;
-              tr.push(Math.max(hl, hc, lc));
-            }
-            const rma = (arr: number[], n: number) => {
-              if (arr.length < n) return null as number | null;
-              let sum = 0; for (let i = 0; i < n; i++) sum += arr[i];
-              let val = sum / n;
-              const alpha = 1 / n;
-              for (let i = n; i < arr.length; i++) val = alpha * arr[i] + (1 - alpha) * val;
-              return val;
-            };
-            const atr = rma(tr, atrPeriod);
-
-            // RSI(14) using Wilder's smoothing
-            const periodRSI = 14;
-            const deltas: number[] = [];
-            for (let i = 1; i < closes.length; i++) deltas.push(closes[i] - closes[i-1]);
-            const gains = deltas.map(d => (d > 0 ? d : 0));
-            const losses = deltas.map(d => (d < 0 ? -d : 0));
-            const avgGain = rma(gains, periodRSI);
-            const avgLoss = rma(losses, periodRSI);
-            let rsi: number | null = null;
-            if (avgGain !== null && avgLoss !== null) {
-              if (avgLoss === 0) rsi = 100; else if (avgGain === 0) rsi = 0; else {
-                const rs = (avgGain as number) / (avgLoss as number);
-                rsi = 100 - 100 / (1 + rs);
-              }
-            }
-
-            // Liquidity zones: cluster equal highs/lows using ATR-based tolerance
-            const tolerance = atr ? atr * 0.1 : (closes[closes.length - 1] * 0.001);
-            const pivotHighs = pivots.filter(p => p.type === 'H');
-            const pivotLows = pivots.filter(p => p.type === 'L');
-            const clusterLevels = (points: Array<{ idx: number; price: number }>) => {
-              const sorted = points.slice().sort((a, b) => a.price - b.price);
-              const clusters: Array<{ level: number; count: number; indices: number[] }> = [];
-              for (const pt of sorted) {
-                const last = clusters[clusters.length - 1];
-                if (last && Math.abs(pt.price - last.level) <= tolerance) {
-                  // update cluster level as average
-                  const newCount = last.count + 1;
-                  const newLevel = (last.level * last.count + pt.price) / newCount;
-                  last.level = newLevel;
-                  last.count = newCount;
-                  last.indices.push(pt.idx);
-                } else {
-                  clusters.push({ level: pt.price, count: 1, indices: [pt.idx] });
-                }
-              }
-              return clusters.filter(c => c.count >= 2);
-            };
-            const liquidityZones = {
-              highs: clusterLevels(pivotHighs.map(ph => ({ idx: ph.idx, price: ph.price }))),
-              lows: clusterLevels(pivotLows.map(pl => ({ idx: pl.idx, price: pl.price }))),
-            };
-
-            // Order Block detection: last opposite candle before impulsive BOS
-            const orderBlocks: Array<{ type: 'bull'|'bear'; idx: number; open: number; high: number; low: number; close: number }> = [];
-            const lookbackOB = Math.min(candles.length - 1, 60);
-            if (bos === 'up') {
-              for (let i = candles.length - 3; i >= candles.length - lookbackOB; i--) {
-                if (opens[i] > closes[i]) { // bearish candle before up move
-                  // confirm displacement: next 2 bars up or large range
-                  const upMomentum = (closes[i+1] > closes[i]) && (closes[i+2] >= closes[i+1]);
-                  const brokeHigh = lastClose > prevHigh;
-                  if (upMomentum || brokeHigh) {
-                    orderBlocks.push({ type: 'bull', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] });
-                    break;
-                  }
-                }
-              }
-            } else if (bos === 'down') {
-              for (let i = candles.length - 3; i >= candles.length - lookbackOB; i--) {
-                if (opens[i] < closes[i]) { // bullish candle before down move
-                  const downMomentum = (closes[i+1] < closes[i]) && (closes[i+2] <= closes[i+1]);
-                  const brokeLow = lastClose < prevLow;
-                  if (downMomentum || brokeLow) {
-                    orderBlocks.push({ type: 'bear', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] });
-                    break;
-                  }
-                }
-              }
-            }
-
-            // Fallbacks when BOS is null: displacement- and pivot-based
-            if (orderBlocks.length === 0) {
-              const windowN = Math.min(5, closes.length - 1);
-              const displacementUp = closes[closes.length - 1] - closes[closes.length - 1 - windowN];
-              const displacementDown = closes[closes.length - 1 - windowN] - closes[closes.length - 1];
-              const baseRange = atr ?? Math.max(1e-8, highs[highs.length - 1] - lows[lows.length - 1]);
-              const threshold = baseRange * 0.8;
-              if (displacementUp > threshold) {
-                for (let i = candles.length - 2; i >= Math.max(1, candles.length - 1 - lookbackOB); i--) {
-                  if (opens[i] > closes[i]) { orderBlocks.push({ type: 'bull', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; }
-                }
-              } else if (displacementDown > threshold) {
-                for (let i = candles.length - 2; i >= Math.max(1, candles.length - 1 - lookbackOB); i--) {
-                  if (opens[i] < closes[i]) { orderBlocks.push({ type: 'bear', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; }
-                }
-              }
-            }
-            if (orderBlocks.length === 0) {
-              const lastH = [...pivots].reverse().find(p => p.type === 'H');
-              const lastL = [...pivots].reverse().find(p => p.type === 'L');
-              if (lastH) {
-                for (let i = lastH.idx - 1; i >= Math.max(0, lastH.idx - 10); i--) { if (opens[i] > closes[i]) { orderBlocks.push({ type: 'bull', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; } }
-              }
-              if (orderBlocks.length === 0 && lastL) {
-                for (let i = lastL.idx - 1; i >= Math.max(0, lastL.idx - 10); i--) { if (opens[i] < closes[i]) { orderBlocks.push({ type: 'bear', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; } }
-              }
+            if (!candles.length) {
+              return { content: [ { type: 'text', text: JSON.stringify({ symbol, interval, error: 'no_candles' }, null, 2) } ] } as CallToolResult;
             }
+            const a = computeSnapshot(candles, { emas, atrPeriod, fvgLookback });
+            const hiddenOrderBlocks = await this.detectHiddenOrderBlocks(symbol, interval, candles, a, veryStrongMinQuality);
+            const hobFiltered = filterHiddenOrderBlocks(hiddenOrderBlocks, { minQuality, requireLTFConfirmations, excludeInvalidated, onlyFullyMitigated, onlyVeryStrong });
 
             let cmc: any = null;
             if (includeCMC && process.env.COINMARKET_API_KEY) {
@@ -809,71 +1076,11 @@ class BitgetMCPServer {
               } catch {}
             }
 
-            // VWAP over provided window using typical price
-            let vwap: number | null = null;
-            if (candles.length > 0) {
-              let tpVolSum = 0;
-              let volSum = 0;
-              for (let i = 0; i < candles.length; i++) {
-                const tp = (highs[i] + lows[i] + closes[i]) / 3;
-                const v = volumes[i] || 0;
-                tpVolSum += tp * v;
-                volSum += v;
-              }
-              vwap = volSum > 0 ? tpVolSum / volSum : null;
-            }
-
-            // Daily/Weekly opens and Previous Day High/Low (UTC-based)
-            const startOfUTC = (ts: number) => Date.UTC(new Date(ts).getUTCFullYear(), new Date(ts).getUTCMonth(), new Date(ts).getUTCDate());
-            const now = timestamps[timestamps.length - 1];
-            const todayStart = startOfUTC(now);
-            const yesterdayStart = todayStart - 24 * 60 * 60 * 1000;
-            const utcDay = new Date(now).getUTCDay(); // 0=Sun
-            const daysSinceMonday = (utcDay + 6) % 7; // Mon=0
-            const weekStart = todayStart - daysSinceMonday * 24 * 60 * 60 * 1000;
-
-            let dailyOpen: number | null = null;
-            let weeklyOpen: number | null = null;
-            let prevDayHigh: number | null = null;
-            let prevDayLow: number | null = null;
-
-            for (let i = 0; i < timestamps.length; i++) {
-              const d0 = startOfUTC(timestamps[i]);
-              if (dailyOpen === null && d0 >= todayStart) dailyOpen = opens[i];
-              if (weeklyOpen === null && d0 >= weekStart) weeklyOpen = opens[i];
-            }
-            // Previous day metrics
-            let pdh = -Infinity;
-            let pdl = Infinity;
-            for (let i = 0; i < timestamps.length; i++) {
-              const d0 = startOfUTC(timestamps[i]);
-              if (d0 >= yesterdayStart && d0 < todayStart) {
-                if (highs[i] > pdh) pdh = highs[i];
-                if (lows[i] < pdl) pdl = lows[i];
-              }
-            }
-            prevDayHigh = Number.isFinite(pdh) ? pdh : null;
-            prevDayLow = Number.isFinite(pdl) ? pdl : null;
-
-            // SFP detection using last pivots and a tolerance
-            const sfpTolerance = atr ? atr * 0.1 : (closes[closes.length - 1] * 0.001);
-            const lastHighPivot = [...pivots].reverse().find(p => p.type === 'H');
-            const lastLowPivot = [...pivots].reverse().find(p => p.type === 'L');
-            let sfp: { bullish: boolean; bearish: boolean; last?: { type: 'bullish'|'bearish'; idx: number; level: number } } = { bullish: false, bearish: false };
-            const checkRange = Math.min(candles.length - 1, 10);
-            for (let i = candles.length - checkRange; i < candles.length; i++) {
-              if (lastHighPivot && highs[i] > lastHighPivot.price + sfpTolerance && closes[i] < lastHighPivot.price) {
-                sfp.bearish = true; sfp.last = { type: 'bearish', idx: i, level: lastHighPivot.price }; break;
-              }
-              if (lastLowPivot && lows[i] < lastLowPivot.price - sfpTolerance && closes[i] > lastLowPivot.price) {
-                sfp.bullish = true; sfp.last = { type: 'bullish', idx: i, level: lastLowPivot.price }; break;
-              }
-            }
-
+            const { pivots, bos, fvg, trend, sma50, sma200, atr, rsi, orderBlocks, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, emaValues } = a;
             const snapshot = compact ? {
               symbol,
               interval,
-              latest: { close: lastClose, high: highs[highs.length-1], low: lows[lows.length-1], ts: candles[candles.length-1]?.timestamp },
+              latest: a.latest,
               pivots: pivots.slice(-6),
               bos,
               fvg: fvg.slice(-5),
@@ -883,6 +1090,7 @@ class BitgetMCPServer {
               atr,
               rsi,
               orderBlocks: orderBlocks,
+              hiddenOrderBlocks: hobFiltered.slice(-5),
               liquidityZones,
               vwap,
               dailyOpen,
@@ -896,40 +1104,12 @@ class BitgetMCPServer {
                 percent_change_24h: cmc.data[symbol.replace('USDT','')].quote?.USD?.percent_change_24h,
                 rank: cmc.data[symbol.replace('USDT','')].cmc_rank,
               } : null } : null,
-            } : { symbol, interval, candles, pivots, fvg, bos, trend, sma50, sma200, atr, rsi, orderBlocks, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, emaValues, cmc };
+            } : { symbol, interval, candles, pivots, fvg, bos, trend, sma50, sma200, atr, rsi, orderBlocks, hiddenOrderBlocks: hobFiltered, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, emaValues, cmc };
 
             if (telemetry) {
               try {
-                logHOBs(symbol, interval, lastClose, hobFiltered);
-                const numPivotHighs = pivots.filter(p=>p.type==='H').length;
-                const numPivotLows = pivots.filter(p=>p.type==='L').length;
-                const bullFvgCount = fvg.filter(g=>g.type==='bull').length;
-                const bearFvgCount = fvg.filter(g=>g.type==='bear').length;
-                const highsClusterCount = Array.isArray(liquidityZones?.highs) ? liquidityZones.highs.length : 0;
-                const lowsClusterCount = Array.isArray(liquidityZones?.lows) ? liquidityZones.lows.length : 0;
-                const hobCount = hobFiltered.length;
-                const veryStrongCount = hobFiltered.filter((h:any)=>h.isVeryStrong).length;
-                const avgHobQuality = hobCount ? (hobFiltered.reduce((s:any,h:any)=>s+(h.qualityScore||0),0)/hobCount) : 0;
-                const maxHobQuality = hobCount ? Math.max(...hobFiltered.map((h:any)=>h.qualityScore||0)) : 0;
-                logSnapshot(symbol, interval, lastClose, {
-                  bos,
-                  trend,
-                  rsi,
-                  atr,
-                  vwapPresent: vwap!=null,
-                  numPivotHighs,
-                  numPivotLows,
-                  bullFvgCount,
-                  bearFvgCount,
-                  highsClusterCount,
-                  lowsClusterCount,
-                  orderBlocksCount: orderBlocks.length,
-                  hiddenOrderBlocksCount: hobCount,
-                  hiddenOrderBlocksVeryStrongCount: veryStrongCount,
-                  avgHobQuality,
-                  maxHobQuality,
-                  sfp,
-                });
+                logHOBs(symbol, interval, a.latest.close, hobFiltered);
+                logSnapshot(symbol, interval, a.latest.close, snapshotTelemetry(a, hobFiltered));
               } catch {}
             }
             return { content: [ { type: 'text', text: JSON.stringify(snapshot, null, 2) } ] } as CallToolResult;
@@ -937,253 +1117,27 @@ class BitgetMCPServer {
 
           case 'getMarketSnapshots': {
             const { symbols, interval, limit = 150, compact = true, emas = [20,50,200], atrPeriod = 14, fvgLookback = 60, minQuality = 0.6, requireLTFConfirmations = false, excludeInvalidated = true, onlyFullyMitigated = false, veryStrongMinQuality = 0.75, onlyVeryStrong = false, telemetry = false } = (await import('./types/mcp.js')).GetMarketSnapshotsSchema.parse(args);
-            const normalizeInterval = (iv: string) => (iv === '2d' ? '1d' : iv === '4d' ? '1d' : iv === '2w' ? '1w' : iv);
             const results: any[] = [];
             for (const symbol of symbols) {
-                            // --- HOB/telemetry filtering logic for batch ---
-                            // TODO: Replace with actual hidden order block detection logic
-                            let hiddenOrderBlocks: any[] = [];
-                            let hobFiltered = hiddenOrderBlocks.filter(hob => {
-                              if (typeof hob.qualityScore === 'number' && hob.qualityScore < minQuality) return false;
-                              if (requireLTFConfirmations && !hob.ltfConfirmed) return false;
-                              if (excludeInvalidated && hob.invalidated) return false;
-                              if (onlyFullyMitigated && !hob.fullyMitigated) return false;
-                              if (onlyVeryStrong && !(hob.isVeryStrong || (hob.qualityScore && hob.qualityScore >= veryStrongMinQuality))) return false;
-                              return true;
-                            });
               const candles = await this.bitgetClient.getCandles(symbol, interval, limit);
               if (!candles.length) { results.push({ symbol, error: 'no_candles' }); continue; }
-              const closes = candles.map(c => parseFloat(c.close));
-              const highs = candles.map(c => parseFloat(c.high));
-              const lows = candles.map(c => parseFloat(c.low));
-              const opens = candles.map(c => parseFloat(c.open));
-              const volumes = candles.map(c => parseFloat(c.volume));
-              const timestamps = candles.map(c => c.timestamp);
-
-              const lastClose = closes[closes.length - 1];
-              const prevHigh = Math.max(...highs.slice(0, highs.length - 1));
-              const prevLow = Math.min(...lows.slice(0, lows.length - 1));
-              let bos: 'up'|'down'|null = null; if (lastClose > prevHigh) bos = 'up'; else if (lastClose < prevLow) bos = 'down';
-
-              const pivots: Array<{ idx: number; type: 'H'|'L'; price: number }> = [];
-              for (let i = 1; i < candles.length - 1; i++) {
-                if (highs[i] > highs[i-1] && highs[i] > highs[i+1]) pivots.push({ idx: i, type: 'H', price: highs[i] });
-                if (lows[i] < lows[i-1] && lows[i] < lows[i+1]) pivots.push({ idx: i, type: 'L', price: lows[i] });
-              }
-
-              const sma = (arr: number[], n: number) => {
-                if (arr.length < n) return null as number | null;
-                let sum = 0; for (let i = arr.length - n; i < arr.length; i++) sum += arr[i];
-                return sum / n;
-              };
-              const sma50 = sma(closes, 50);
-              const sma200 = sma(closes, 200);
-              const trend = sma50 && sma200 ? (sma50 > sma200 ? 'up' : 'down') : null;
-
-              const calcEMA = (arr: number[], n: number) => {
-                if (arr.length < n) return null as number | null;
-                const k = 2 / (n + 1);
-                let ema = arr[0];
-                for (let i = 1; i < arr.length; i++) ema = arr[i] * k + ema * (1 - k);
-                return ema;
-              };
-              const emaValues: Record<string, number | null> = {};
-              for (const p of emas) emaValues[`ema${p}`] = calcEMA(closes, p);
-
-              const tr: number[] = [];
-              for (let i = 0; i < candles.length; i++) {
-                const hl = highs[i] - lows[i];
-                const hc = i > 0 ? Math.abs(highs[i] - closes[i-1]) : 0;
-                const lc = i > 0 ? Math.abs(lows[i] - closes[i-1]) : 0;
-                tr.push(Math.max(hl, hc, lc));
-              }
-              const rma = (arr: number[], n: number) => {
-                if (arr.length < n) return null as number | null;
-                let sum = 0; for (let i = 0; i < n; i++) sum += arr[i];
-                let val = sum / n;
-                const alpha = 1 / n;
-                for (let i = n; i < arr.length; i++) val = alpha * arr[i] + (1 - alpha) * val;
-                return val;
-              };
-              const atr = rma(tr, atrPeriod);
-
-              const periodRSI = 14;
-              const deltas: number[] = [];
-              for (let i = 1; i < closes.length; i++) deltas.push(closes[i] - closes[i-1]);
-              const gains = deltas.map(d => (d > 0 ? d : 0));
-              const losses = deltas.map(d => (d < 0 ? -d : 0));
-              const avgGain = rma(gains, periodRSI);
-              const avgLoss = rma(losses, periodRSI);
-              let rsi: number | null = null;
-              if (avgGain !== null && avgLoss !== null) {
-                if (avgLoss === 0) rsi = 100; else if (avgGain === 0) rsi = 0; else {
-                  const rs = (avgGain as number) / (avgLoss as number);
-                  rsi = 100 - 100 / (1 + rs);
-                }
-              }
+              const a = computeSnapshot(candles, { emas, atrPeriod, fvgLookback });
+              const hiddenOrderBlocks = await this.detectHiddenOrderBlocks(symbol, interval, candles, a, veryStrongMinQuality);
+              const hobFiltered = filterHiddenOrderBlocks(hiddenOrderBlocks, { minQuality, requireLTFConfirmations, excludeInvalidated, onlyFullyMitigated, onlyVeryStrong });
+              const { latest, pivots, bos, fvg, trend, sma50, sma200, atr, rsi, orderBlocks, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, emaValues } = a;
 
-              const fvg: Array<{ type: 'bull'|'bear'; from: number; to: number; startIdx: number }> = [];
-              for (let i = Math.max(2, candles.length - (fvgLookback + 2)); i < candles.length; i++) {
-                if (lows[i] > highs[i-2]) fvg.push({ type: 'bull', from: highs[i-2], to: lows[i], startIdx: i-2 });
-                if (highs[i] < lows[i-2]) fvg.push({ type: 'bear', from: highs[i], to: lows[i-2], startIdx: i-2 });
-              }
-
-              // Liquidity zones via clustering
-              const tolerance = atr ? atr * 0.1 : (closes[closes.length - 1] * 0.001);
-              const pivotHighs = pivots.filter(p => p.type === 'H');
-              const pivotLows = pivots.filter(p => p.type === 'L');
-              const clusterLevels = (points: Array<{ idx: number; price: number }>) => {
-                const sorted = points.slice().sort((a, b) => a.price - b.price);
-                const clusters: Array<{ level: number; count: number; indices: number[] }> = [];
-                for (const pt of sorted) {
-                  const last = clusters[clusters.length - 1];
-                  if (last && Math.abs(pt.price - last.level) <= tolerance) {
-                    const newCount = last.count + 1;
-                    const newLevel = (last.level * last.count + pt.price) / newCount;
-                    last.level = newLevel;
-                    last.count = newCount;
-                    last.indices.push(pt.idx);
-                  } else {
-                    clusters.push({ level: pt.price, count: 1, indices: [pt.idx] });
-                  }
-                }
-                return clusters.filter(c => c.count >= 2);
-              };
-              const liquidityZones = {
-                highs: clusterLevels(pivotHighs.map(ph => ({ idx: ph.idx, price: ph.price }))),
-                lows: clusterLevels(pivotLows.map(pl => ({ idx: pl.idx, price: pl.price }))),
-              };
-
-              // Order blocks via BOS context
-              const orderBlocks: Array<{ type: 'bull'|'bear'; idx: number; open: number; high: number; low: number; close: number }> = [];
-              const lookbackOB = Math.min(candles.length - 1, 60);
-              if (bos === 'up') {
-                for (let i = candles.length - 3; i >= candles.length - lookbackOB; i--) {
-                  if (opens[i] > closes[i]) {
-                    const upMomentum = (closes[i+1] > closes[i]) && (closes[i+2] >= closes[i+1]);
-                    const brokeHigh = lastClose > prevHigh;
-                    if (upMomentum || brokeHigh) { orderBlocks.push({ type: 'bull', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; }
-                  }
-                }
-              } else if (bos === 'down') {
-                for (let i = candles.length - 3; i >= candles.length - lookbackOB; i--) {
-                  if (opens[i] < closes[i]) {
-                    const downMomentum = (closes[i+1] < closes[i]) && (closes[i+2] <= closes[i+1]);
-                    const brokeLow = lastClose < prevLow;
-                    if (downMomentum || brokeLow) { orderBlocks.push({ type: 'bear', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; }
-                  }
-                }
+              if (telemetry) {
+                try {
+                  logHOBs(symbol, interval, latest.close, hobFiltered);
+                  logSnapshot(symbol, interval, latest.close, snapshotTelemetry(a, hobFiltered));
+                } catch {}
               }
+              results.push(compact ? { symbol, interval, latest, bos, pivots: pivots.slice(-4), trend, sma50, sma200, atr, rsi, orderBlocks, hiddenOrderBlocks: hobFiltered, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, ...emaValues, fvg: fvg.slice(-3) } : { symbol, interval, candles, bos, pivots, trend, sma50, sma200, atr, rsi, orderBlocks, hiddenOrderBlocks: hobFiltered, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, emaValues, fvg });
+            }
+            return { content: [ { type: 'text', text: JSON.stringify(results, null, 2) } ] } as CallToolResult;
+          }
 
-              // Fallbacks when BOS is null: displacement- and pivot-based
-              if (orderBlocks.length === 0) {
-                const windowN = Math.min(5, closes.length - 1);
-                const displacementUp = closes[closes.length - 1] - closes[closes.length - 1 - windowN];
-                const displacementDown = closes[closes.length - 1 - windowN] - closes[closes.length - 1];
-                const baseRange = atr ?? Math.max(1e-8, highs[highs.length - 1] - lows[lows.length - 1]);
-                const threshold = baseRange * 0.8;
-                if (displacementUp > threshold) {
-                  for (let i = candles.length - 2; i >= Math.max(1, candles.length - 1 - lookbackOB); i--) {
-                    if (opens[i] > closes[i]) { orderBlocks.push({ type: 'bull', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; }
-                  }
-                } else if (displacementDown > threshold) {
-                  for (let i = candles.length - 2; i >= Math.max(1, candles.length - 1 - lookbackOB); i--) {
-                    if (opens[i] < closes[i]) { orderBlocks.push({ type: 'bear', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; }
-                  }
-                }
-              }
-              if (orderBlocks.length === 0) {
-                const lastH = [...pivots].reverse().find(p => p.type === 'H');
-                const lastL = [...pivots].reverse().find(p => p.type === 'L');
-                if (lastH) { for (let i = lastH.idx - 1; i >= Math.max(0, lastH.idx - 10); i--) { if (opens[i] > closes[i]) { orderBlocks.push({ type: 'bull', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; } } }
-                if (orderBlocks.length === 0 && lastL) { for (let i = lastL.idx - 1; i >= Math.max(0, lastL.idx - 10); i--) { if (opens[i] < closes[i]) { orderBlocks.push({ type: 'bear', idx: i, open: opens[i], high: highs[i], low: lows[i], close: closes[i] }); break; } } }
-              }
-
-              // VWAP over window
-              let vwap: number | null = null;
-              if (candles.length > 0) {
-                let tpVolSum = 0; let volSum = 0;
-                for (let i = 0; i < candles.length; i++) {
-                  const tp = (highs[i] + lows[i] + closes[i]) / 3;
-                  const v = volumes[i] || 0; tpVolSum += tp * v; volSum += v;
-                }
-                vwap = volSum > 0 ? tpVolSum / volSum : null;
-              }
-
-              // Daily/Weekly opens and prev day hi/lo
-              const startOfUTC = (ts: number) => Date.UTC(new Date(ts).getUTCFullYear(), new Date(ts).getUTCMonth(), new Date(ts).getUTCDate());
-              const now = timestamps[timestamps.length - 1];
-              const todayStart = startOfUTC(now);
-              const yesterdayStart = todayStart - 24 * 60 * 60 * 1000;
-              const utcDay = new Date(now).getUTCDay();
-              const daysSinceMonday = (utcDay + 6) % 7;
-              const weekStart = todayStart - daysSinceMonday * 24 * 60 * 60 * 1000;
-              let dailyOpen: number | null = null; let weeklyOpen: number | null = null; let prevDayHigh: number | null = null; let prevDayLow: number | null = null;
-              for (let i = 0; i < timestamps.length; i++) {
-                const d0 = startOfUTC(timestamps[i]);
-                if (dailyOpen === null && d0 >= todayStart) dailyOpen = opens[i];
-                if (weeklyOpen === null && d0 >= weekStart) weeklyOpen = opens[i];
-              }
-              let pdh = -Infinity; let pdl = Infinity;
-              for (let i = 0; i < timestamps.length; i++) {
-                const d0 = startOfUTC(timestamps[i]);
-                if (d0 >= yesterdayStart && d0 < todayStart) { if (highs[i] > pdh) pdh = highs[i]; if (lows[i] < pdl) pdl = lows[i]; }
-              }
-              prevDayHigh = Number.isFinite(pdh) ? pdh : null; prevDayLow = Number.isFinite(pdl) ? pdl : null;
-
-              // SFP detection
-              const lastHighPivot = [...pivots].reverse().find(p => p.type === 'H');
-              const lastLowPivot = [...pivots].reverse().find(p => p.type === 'L');
-              let sfp: { bullish: boolean; bearish: boolean; last?: { type: 'bullish'|'bearish'; idx: number; level: number } } = { bullish: false, bearish: false };
-              const checkRange = Math.min(candles.length - 1, 10);
-              for (let i = candles.length - checkRange; i < candles.length; i++) {
-                if (lastHighPivot && highs[i] > lastHighPivot.price + tolerance && closes[i] < lastHighPivot.price) { sfp.bearish = true; sfp.last = { type: 'bearish', idx: i, level: lastHighPivot.price }; break; }
-                if (lastLowPivot && lows[i] < lastLowPivot.price - tolerance && closes[i] > lastLowPivot.price) { sfp.bullish = true; sfp.last = { type: 'bullish', idx: i, level: lastLowPivot.price }; break; }
-              }
-
-              /* Duplicate liquidity/OB block removed: already computed above */
-
-              const latest = { close: lastClose, high: highs[highs.length-1], low: lows[lows.length-1], ts: candles[candles.length-1]?.timestamp };
-              if (telemetry) {
-                try {
-                  logHOBs(symbol, interval, lastClose, hobFiltered);
-                  const numPivotHighs = pivots.filter(p=>p.type==='H').length;
-                  const numPivotLows = pivots.filter(p=>p.type==='L').length;
-                  const bullFvgCount = fvg.filter(g=>g.type==='bull').length;
-                  const bearFvgCount = fvg.filter(g=>g.type==='bear').length;
-                  const highsClusterCount = Array.isArray(liquidityZones?.highs) ? liquidityZones.highs.length : 0;
-                  const lowsClusterCount = Array.isArray(liquidityZones?.lows) ? liquidityZones.lows.length : 0;
-                  const hobCount = hobFiltered.length;
-                  const veryStrongCount = hobFiltered.filter((h:any)=>h.isVeryStrong).length;
-                  const avgHobQuality = hobCount ? (hobFiltered.reduce((s:any,h:any)=>s+(h.qualityScore||0),0)/hobCount) : 0;
-                  const maxHobQuality = hobCount ? Math.max(...hobFiltered.map((h:any)=>h.qualityScore||0)) : 0;
-                  logSnapshot(symbol, interval, lastClose, {
-                    bos,
-                    trend,
-                    rsi,
-                    atr,
-                    vwapPresent: vwap!=null,
-                    numPivotHighs,
-                    numPivotLows,
-                    bullFvgCount,
-                    bearFvgCount,
-                    highsClusterCount,
-                    lowsClusterCount,
-                    orderBlocksCount: orderBlocks.length,
-                    hiddenOrderBlocksCount: hobCount,
-                    hiddenOrderBlocksVeryStrongCount: veryStrongCount,
-                    avgHobQuality,
-                    maxHobQuality,
-                    sfp,
-                  });
-                } catch {}
-              }
-              results.push(compact ? { symbol, interval, latest, bos, pivots: pivots.slice(-4), trend, sma50, sma200, atr, rsi, orderBlocks, hiddenOrderBlocks: hobFiltered, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, ...emaValues, fvg: fvg.slice(-3) } : { symbol, interval, candles, bos, pivots, trend, sma50, sma200, atr, rsi, orderBlocks, hiddenOrderBlocks: hobFiltered, liquidityZones, vwap, dailyOpen, weeklyOpen, prevDayHigh, prevDayLow, sfp, emaValues, fvg });
-            }
-            return { content: [ { type: 'text', text: JSON.stringify(results, null, 2) } ] } as CallToolResult;
-          }
-
-          
+          
 
           // Account
           case 'getBalance': {
@@ -1238,8 +1192,23 @@ class BitgetMCPServer {
             }
             logger.info('Received placeOrder request', { orderParams });
             // Determine if this is a futures order
-            const isFutures = orderParams.marginCoin || orderParams.marginMode || orderParams.symbol.includes('_UMCBL') || orderParams.symbol.includes('_');
+            const isFutures = !!(orderParams.marginCoin || orderParams.marginMode || parseSymbol(orderParams.symbol).market !== 'spot');
             logger.info('Order type detected', { isFutures, symbol: orderParams.symbol });
+            const intent: OrderIntent = {
+              symbol: orderParams.symbol,
+              market: isFutures ? 'futures' : 'spot',
+              side: orderParams.side,
+              quantity: orderParams.quantity,
+              quoteQuantity: !isFutures && orderParams.type === 'market' && orderParams.side === 'buy',
+              price: orderParams.type === 'limit' ? orderParams.price : undefined,
+              reduceOnly: isFutures && (orderParams.tradeSide === 'close' || !!orderParams.reduceOnly),
+            };
+            if (orderParams.dryRun) {
+              const params = orderParams;
+              return this.dryRunPreview({ symbol: params.symbol, intent, type: params.type }, () => this.bitgetClient.placeOrder(params));
+            }
+            // Risk rejections go to the structured error below, not the placeOrder error text
+            await this.riskManager.checkOrder(intent);
             try {
               const order = await this.bitgetClient.placeOrder(orderParams);
               logger.info('placeOrder result', { order });
@@ -1341,9 +1310,9 @@ class BitgetMCPServer {
           // Futures
           case 'getPositions': {
             logger.info('getPositions called', { args });
-            let symbol;
+            let symbol, productType;
             try {
-              ({ symbol } = GetPositionsSchema.parse(args));
+              ({ symbol, productType } = GetPositionsSchema.parse(args));
             } catch (parseErr) {
               logger.error('Failed to parse getPositions args', { error: parseErr, args });
               return {
@@ -1354,7 +1323,7 @@ class BitgetMCPServer {
               } as CallToolResult;
             }
             try {
-              const positions = await this.bitgetClient.getFuturesPositions(symbol);
+              const positions = await this.bitgetClient.getFuturesPositions(symbol, productType);
               logger.info('getPositions result', { symbol, positions });
               return {
                 content: [
@@ -1377,6 +1346,7 @@ class BitgetMCPServer {
 
           case 'setLeverage': {
             const { symbol, leverage } = SetLeverageSchema.parse(args);
+            this.riskManager.checkLeverage(symbol, leverage);
             const success = await this.bitgetClient.setLeverage(symbol, leverage);
             return {
               content: [
@@ -1391,8 +1361,8 @@ class BitgetMCPServer {
           }
 
           case 'getMarginInfo': {
-            const { symbol } = GetMarginInfoSchema.parse(args);
-            const marginInfo = await this.bitgetClient.getMarginInfo(symbol);
+            const { symbol, productType } = GetMarginInfoSchema.parse(args);
+            const marginInfo = await this.bitgetClient.getMarginInfo(symbol, productType);
             return {
               content: [
                 {
@@ -1430,6 +1400,7 @@ class BitgetMCPServer {
 
           case 'disconnectWebSocket': {
             this.wsClient.disconnect();
+            this.privateWsClient.disconnect();
             return {
               content: [
                 {
@@ -1442,7 +1413,8 @@ class BitgetMCPServer {
 
           case 'subscribeToTicker': {
             const { symbol, instType = 'SPOT' } = args as any;
-            this.wsClient.subscribe('ticker', symbol, instType);
+            const inst = resolveWsInstrument(symbol, instType);
+            this.wsClient.subscribe('ticker', inst.instId, inst.instType);
             return {
               content: [
                 {
@@ -1455,7 +1427,7 @@ class BitgetMCPServer {
 
           case 'subscribeToOrderBook': {
             const { symbol, instType = 'SPOT' } = args as any;
-            this.wsClient.subscribe('books', symbol, instType);
+            this.orderBooks.track(symbol, instType);
             return {
               content: [
                 {
@@ -1468,7 +1440,13 @@ class BitgetMCPServer {
 
           case 'unsubscribeFromChannel': {
             const { channel, symbol, instType = 'SPOT' } = args as any;
-            this.wsClient.unsubscribe(channel, symbol, instType);
+            if (channel === 'books') {
+              this.orderBooks.untrack(symbol, instType);
+            } else {
+              const inst = resolveWsInstrument(symbol, instType);
+              this.wsClient.unsubscribe(channel, inst.instId, inst.instType);
+            }
+            this.streams.clear(channel, symbol, instType);
             return {
               content: [
                 {
@@ -1483,6 +1461,14 @@ class BitgetMCPServer {
             const status = {
               connected: this.wsClient.isWebSocketConnected(),
               subscriptions: this.wsClient.getSubscriptionCount(),
+              orderBooks: this.orderBooks.getStatus(),
+              streams: this.streams.getStatus(),
+              private: {
+                connected: this.privateWsClient.isWebSocketConnected(),
+                authenticated: this.privateWsClient.isWebSocketAuthenticated(),
+                subscriptions: this.privateWsClient.getSubscriptionCount(),
+                bufferedUpdates: this.privateUpdates.size,
+              },
             };
             return {
               content: [
@@ -1494,10 +1480,142 @@ class BitgetMCPServer {
             } as CallToolResult;
           }
 
+          case 'getApiHealth': {
+            const circuits = this.bitgetClient.getCircuitBreaker().getStatus();
+            const limiter = this.bitgetClient.getRateLimiter();
+            const health = {
+              status: circuits.some(c => c.state === 'open') ? 'degraded' : 'ok',
+              circuits,
+              rateLimits: {
+                queued: limiter.pending,
+                buckets: limiter.getStatus(),
+              },
+              websocket: {
+                public: this.wsClient.isWebSocketConnected(),
+                private: this.privateWsClient.isWebSocketConnected(),
+              },
+            };
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(health, null, 2),
+                },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'subscribeToTrades': {
+            const { symbol, instType } = SubscribeToTradesSchema.parse(args);
+            const inst = resolveWsInstrument(symbol, instType);
+            this.wsClient.subscribe('trade', inst.instId, inst.instType);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Subscribed to public trades for ${symbol} (${inst.instType})`,
+                },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getStreamLatest': {
+            const { symbol, channel, instType } = GetStreamLatestSchema.parse(args);
+            const book = channel === 'books' ? this.orderBooks.getBook(symbol, 20, instType) : null;
+            const latest = book ? { ts: book.timestamp, data: book } : this.streams.latest(channel, symbol, instType);
+            if (!latest) {
+              return {
+                content: [{ type: 'text', text: `No ${channel} data streamed for ${symbol} yet; connectWebSocket and subscribe first` }],
+                isError: true,
+              } as CallToolResult;
+            }
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ key: StreamStore.key(channel, symbol, instType), ...latest }, null, 2),
+                },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getStreamHistory': {
+            const { symbol, channel, instType, limit, since } = GetStreamHistorySchema.parse(args);
+            const rows = this.streams.history(channel, symbol, instType, limit, since);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ key: StreamStore.key(channel, symbol, instType), count: rows.length, rows }, null, 2),
+                },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'connectPrivateWebSocket': {
+            const { productTypes } = ConnectPrivateWebSocketSchema.parse(args);
+            if (this.bitgetClient.isPaperTrading()) {
+              return {
+                content: [{ type: 'text', text: 'Private WebSocket is unavailable in paper trading mode; orders are simulated locally (use getOrders/getPositions)' }],
+                isError: true,
+              } as CallToolResult;
+            }
+            if (!this.config.apiKey || !this.config.secretKey || !this.config.passphrase) {
+              return {
+                content: [{ type: 'text', text: 'Private WebSocket requires BITGET_API_KEY, BITGET_SECRET_KEY and BITGET_PASSPHRASE' }],
+                isError: true,
+              } as CallToolResult;
+            }
+            for (const instType of productTypes) {
+              const channels: WSPrivateChannel[] = instType === 'SPOT'
+                ? ['orders', 'fill', 'account']
+                : ['orders', 'fill', 'positions', 'account', 'orders-algo'];
+              for (const channel of channels) this.privateWsClient.subscribePrivate(channel, instType);
+            }
+            try {
+              await this.privateWsClient.connect();
+            } catch (error: any) {
+              return {
+                content: [{ type: 'text', text: `Failed to connect private WebSocket: ${error.message}` }],
+                isError: true,
+              } as CallToolResult;
+            }
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Private WebSocket connected; streaming ${productTypes.join(', ')} updates`,
+                },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getPrivateUpdates': {
+            const { channel, symbol, since, limit } = GetPrivateUpdatesSchema.parse(args);
+            const bare = symbol ? parseSymbol(symbol).symbol : undefined;
+            const updates = this.privateUpdates
+              .toArray()
+              .filter(u => (!channel || u.channel === channel) && (!bare || u.symbol === bare) && (since === undefined || u.receivedAt > since))
+              .slice(-limit);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    connected: this.privateWsClient.isWebSocketConnected(),
+                    count: updates.length,
+                    updates,
+                  }, null, 2),
+                },
+              ],
+            } as CallToolResult;
+          }
+
           // Futures TPSL / Plan Orders
           case 'placeTPSL': {
             const params = PlaceTPSLSchema.parse(args);
-            const ok = await this.bitgetClient.placeFuturesTPSL(params.symbol, {
+            const intent: OrderIntent = { symbol: params.symbol, market: 'futures', side: 'sell', quantity: params.size, reduceOnly: true };
+            const place = () => this.bitgetClient.placeFuturesTPSL(params.symbol, {
               planType: params.planType,
               triggerPrice: params.triggerPrice,
               triggerType: params.triggerType,
@@ -1507,6 +1625,12 @@ class BitgetMCPServer {
               clientOid: params.clientOid,
               marginMode: params.marginMode,
             });
+            if (params.dryRun) {
+              const holdSide = params.holdSide === 'buy' || params.holdSide === 'long' ? 'long' : 'short';
+              return this.dryRunPreview({ symbol: params.symbol, intent, triggers: [{ planType: params.planType, triggerPrice: params.triggerPrice, holdSide }] }, place);
+            }
+            await this.riskManager.checkOrder(intent);
+            const ok = await place();
             return {
               content: [
                 { type: 'text', text: ok ? 'TPSL placed successfully' : 'Failed to place TPSL' },
@@ -1516,7 +1640,7 @@ class BitgetMCPServer {
 
           case 'getPlanOrders': {
             const params = GetPlanOrdersSchema.parse(args);
-            const list = await this.bitgetClient.getFuturesPlanOrders(params.symbol, params.planType || 'profit_loss');
+            const list = await this.bitgetClient.getFuturesPlanOrders(params.symbol, params.planType || 'profit_loss', params.productType);
             return {
               content: [
                 { type: 'text', text: JSON.stringify(list, null, 2) },
@@ -1541,10 +1665,19 @@ class BitgetMCPServer {
 
           case 'modifyTPSL': {
             const params = ModifyTPSLSchema.parse(args);
-            const ok = await this.bitgetClient.modifyFuturesTPSL(params.symbol, {
+            const modify = () => this.bitgetClient.modifyFuturesTPSL(params.symbol, {
               stopSurplusPrice: params.stopSurplusPrice,
               stopLossPrice: params.stopLossPrice,
             });
+            if (params.dryRun) {
+              const positions = await this.bitgetClient.getFuturesPositions(params.symbol);
+              const triggers = positions.flatMap(p => [
+                ...(params.stopSurplusPrice ? [{ planType: 'pos_profit', triggerPrice: params.stopSurplusPrice, holdSide: p.side }] : []),
+                ...(params.stopLossPrice ? [{ planType: 'pos_loss', triggerPrice: params.stopLossPrice, holdSide: p.side }] : []),
+              ]);
+              return this.dryRunPreview({ symbol: params.symbol, triggers }, modify);
+            }
+            const ok = await modify();
             return {
               content: [
                 { type: 'text', text: ok ? 'TPSL modified successfully' : 'Failed to modify TPSL' },
@@ -1554,8 +1687,10 @@ class BitgetMCPServer {
 
           // Futures account & risk tools
           case 'setMarginMode': {
-            const params = SetMarginModeSchema.parse(args);
-            const ok = await this.bitgetClient.setMarginMode(params.marginMode, params.symbol);
+            const { confirmationToken, ...params } = SetMarginModeSchema.parse(args);
+            const preview = await this.confirmation('setMarginMode', params, confirmationToken, () => this.marginModePreview(params.marginMode, params.symbol, params.productType));
+            if (preview) return preview;
+            const ok = await this.bitgetClient.setMarginMode(params.marginMode, params.symbol, params.productType);
             return {
               content: [
                 { type: 'text', text: ok ? `Margin mode set to ${params.marginMode}` : 'Failed to set margin mode' },
@@ -1564,8 +1699,10 @@ class BitgetMCPServer {
           }
 
           case 'closeAllPositions': {
-            const params = CloseAllPositionsSchema.parse(args);
-            const ok = await this.bitgetClient.closeAllPositions(params.symbol);
+            const { confirmationToken, ...params } = CloseAllPositionsSchema.parse(args);
+            const preview = await this.confirmation('closeAllPositions', params, confirmationToken, () => this.closePositionsPreview(params.symbol, params.productType, params.holdSide));
+            if (preview) return preview;
+            const ok = await this.bitgetClient.closeAllPositions(params.symbol, params.productType, params.holdSide);
             return {
               content: [
                 { type: 'text', text: ok ? 'Positions closed successfully' : 'Failed to close positions' },
@@ -1573,6 +1710,41 @@ class BitgetMCPServer {
             } as CallToolResult;
           }
 
+          case 'cancelAllFuturesOrders': {
+            const { confirmationToken, ...params } = CancelAllFuturesOrdersSchema.parse(args);
+            const preview = await this.confirmation('cancelAllFuturesOrders', params, confirmationToken, async () => ({
+              action: 'Cancel open futures orders',
+              orders: await this.bitgetClient.getOpenFuturesOrders(params.symbol, params.productType),
+            }));
+            if (preview) return preview;
+            const ok = await this.bitgetClient.cancelAllFuturesOrders(params.symbol, params.productType);
+            return {
+              content: [
+                { type: 'text', text: ok ? 'Orders cancelled successfully' : 'Failed to cancel orders' },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getPositionMode': {
+            const params = GetPositionModeSchema.parse(args);
+            const posMode = await this.bitgetClient.getPositionMode(params.productType);
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify({ productType: params.productType || 'USDT-FUTURES', posMode }, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'setPositionMode': {
+            const params = SetPositionModeSchema.parse(args);
+            const ok = await this.bitgetClient.setPositionMode(params.posMode, params.productType);
+            return {
+              content: [
+                { type: 'text', text: ok ? `Position mode set to ${params.posMode}` : 'Failed to set position mode' },
+              ],
+            } as CallToolResult;
+          }
+
           case 'getCurrentFundingRate': {
             const params = GetCurrentFundingRateSchema.parse(args);
             const data = await this.bitgetClient.getCurrentFundingRate(params.symbol);
@@ -1594,8 +1766,8 @@ class BitgetMCPServer {
           }
 
           case 'getFuturesContracts': {
-            const _ = GetFuturesContractsSchema.parse(args);
-            const data = await this.bitgetClient.getFuturesContracts();
+            const { productType } = GetFuturesContractsSchema.parse(args);
+            const data = await this.bitgetClient.getFuturesContracts(productType);
             return {
               content: [
                 { type: 'text', text: JSON.stringify(data, null, 2) },
@@ -1603,9 +1775,26 @@ class BitgetMCPServer {
             } as CallToolResult;
           }
 
+          case 'getContractSpec': {
+            const { symbol, market } = GetContractSpecSchema.parse(args);
+            const spec = await this.bitgetClient.getContractSpec(symbol, market);
+            if (!spec) {
+              return {
+                content: [{ type: 'text', text: `No contract spec found for ${symbol}` }],
+                isError: true,
+              } as CallToolResult;
+            }
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(spec, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
           case 'placePlanOrder': {
             const params = PlacePlanOrderSchema.parse(args);
-            const ok = await this.bitgetClient.placeFuturesPlanOrder(params.symbol, {
+            const intent: OrderIntent = { symbol: params.symbol, market: 'futures', side: 'sell', quantity: params.size, reduceOnly: true };
+            const place = () => this.bitgetClient.placeFuturesPlanOrder(params.symbol, {
               planType: params.planType,
               triggerPrice: params.triggerPrice,
               triggerType: params.triggerType,
@@ -1615,6 +1804,12 @@ class BitgetMCPServer {
               clientOid: params.clientOid,
               marginMode: params.marginMode,
             });
+            if (params.dryRun) {
+              const holdSide = params.holdSide === 'buy' || params.holdSide === 'long' ? 'long' : 'short';
+              return this.dryRunPreview({ symbol: params.symbol, intent, triggers: [{ planType: params.planType, triggerPrice: params.triggerPrice, holdSide }] }, place);
+            }
+            await this.riskManager.checkOrder(intent);
+            const ok = await place();
             return {
               content: [
                 { type: 'text', text: ok ? 'Plan order placed successfully' : 'Failed to place plan order' },
@@ -1623,35 +1818,38 @@ class BitgetMCPServer {
           }
 
           case 'getFuturesStatus': {
-            const { symbol, compact } = GetFuturesStatusSchema.parse(args);
-            const positions = await this.bitgetClient.getFuturesPositions(symbol);
-            const plans = await this.bitgetClient.getFuturesPlanOrders(symbol, 'profit_loss');
+            const { symbol, compact, productType } = GetFuturesStatusSchema.parse(args);
+            const positions = await this.bitgetClient.getFuturesPositions(symbol, productType);
+            const plans = await this.bitgetClient.getFuturesPlanOrders(symbol, 'profit_loss', productType);
 
-            // Filter plans for SL (pos_loss) and profit plans
-            const sl = plans.find((p: any) => p.planType === 'pos_loss');
-            const profitPlans = plans.filter((p: any) => p.planType === 'profit_plan');
-
-            const summary = compact ? {
+            // SL (pos_loss) and profit plans are matched to each position side
+            const summary = {
               symbol: symbol || 'ALL',
-              positions: positions.map(p => ({ symbol: p.symbol, side: p.side, size: p.size, entryPrice: p.entryPrice, markPrice: p.markPrice })),
-              stopLoss: sl ? { triggerPrice: sl.triggerPrice, size: sl.size, holdSide: sl.holdSide } : null,
-              takeProfits: profitPlans.map((p: any) => ({ triggerPrice: p.triggerPrice, size: p.size, holdSide: p.holdSide })),
-            } : {
-              symbol: symbol || 'ALL',
-              positions,
-              stopLoss: sl ? {
-                planType: sl.planType,
-                triggerPrice: sl.triggerPrice,
-                holdSide: sl.holdSide,
-                size: sl.size,
-                orderId: sl.orderId || sl.planId || sl.id,
-              } : null,
-              takeProfits: profitPlans.map((p: any) => ({
-                triggerPrice: p.triggerPrice,
-                size: p.size,
-                holdSide: p.holdSide,
-                orderId: p.orderId || p.planId || p.id,
-              })),
+              positions: positions.map(position => {
+                const { stopLoss: sl, takeProfits } = positionPlans(position, plans);
+                return compact ? {
+                  symbol: position.symbol,
+                  side: position.side,
+                  size: position.size,
+                  entryPrice: position.entryPrice,
+                  markPrice: position.markPrice,
+                  stopLoss: sl ? { triggerPrice: sl.triggerPrice, size: sl.size } : null,
+                  takeProfits: takeProfits.map(p => ({ triggerPrice: p.triggerPrice, size: p.size })),
+                } : {
+                  ...position,
+                  stopLoss: sl ? {
+                    planType: sl.planType,
+                    triggerPrice: sl.triggerPrice,
+                    size: sl.size,
+                    orderId: sl.orderId,
+                  } : null,
+                  takeProfits: takeProfits.map(p => ({
+                    triggerPrice: p.triggerPrice,
+                    size: p.size,
+                    orderId: p.orderId,
+                  })),
+                };
+              }),
             };
             return {
               content: [
@@ -1662,75 +1860,111 @@ class BitgetMCPServer {
 
           case 'placeEntryWithTPSLPlans': {
             const params = (await import('./types/mcp.js')).PlaceEntryWithTPSLPlansSchema.parse(args);
-            const { symbol, side, type, quantity, price, marginCoin = 'USDT', marginMode, setMarginMode = false, stopLoss, takeProfits = [], triggerType = 'mark_price', compact } = params;
+            const { symbol, side, type, quantity, price, marginCoin = parseSymbol(params.symbol, 'usdt-futures').marginCoin, marginMode, setMarginMode = false, stopLoss, takeProfits = [], triggerType = 'mark_price', compact } = params;
+            // One base id per call so each leg can be reconciled (and is never duplicated) on retry
+            const baseOid = params.clientOid || generateClientOid('entry', { symbol, side, type, quantity, price, stopLoss: stopLoss?.triggerPrice, takeProfits: JSON.stringify(takeProfits) });
+            const holdSide: 'long' | 'short' = side === 'buy' ? 'long' : 'short';
+            const intent: OrderIntent = {
+              symbol,
+              market: 'futures',
+              side,
+              quantity,
+              price: type === 'limit' ? price : undefined,
+              hasStopLoss: !!stopLoss?.triggerPrice,
+            };
 
-            // Optionally set account margin mode first
+            // Changing the margin mode goes through the same profile and confirmation gates as the setMarginMode tool
             if (setMarginMode && marginMode) {
-              try { await this.bitgetClient.setMarginMode(marginMode, symbol); } catch {}
+              this.toolPolicy.assertAllowed('setMarginMode');
+              if (this.confirmations.requires('setMarginMode')) {
+                throw new BitgetValidationError('setMarginMode needs confirmation: call the setMarginMode tool first, then place the entry without setMarginMode');
+              }
             }
 
-            // Determine effective margin mode for order
-            let effectiveMarginMode = marginMode as ('isolated' | 'crossed' | undefined);
-            if (!effectiveMarginMode) {
-              try {
-                const info = await this.bitgetClient.getMarginInfo(symbol);
-                const mode = (info?.marginMode || info?.assetMode || '').toLowerCase();
-                if (mode === 'isolated' || mode === 'crossed') effectiveMarginMode = mode as any;
-              } catch {}
-            }
+            const placeLegs = async () => {
+              // Optionally set account margin mode first; no leg is placed if that fails
+              if (setMarginMode && marginMode) {
+                try {
+                  await this.bitgetClient.setMarginMode(marginMode, symbol);
+                } catch (error) {
+                  throw new Error(`setMarginMode failed, no orders were placed: ${error instanceof Error ? error.message : String(error)}`);
+                }
+              }
 
-            // Place entry order
-            const order = await this.bitgetClient.placeOrder({
-              symbol,
-              side,
-              type,
-              quantity,
-              price,
-              tradeSide: 'open',
-              marginCoin,
-              marginMode: effectiveMarginMode,
-              timeInForce: type === 'limit' ? 'GTC' : undefined,
-              clientOrderId: `${symbol.toLowerCase()}-entry-${Date.now()}`,
-            } as any);
-
-            // Attach SL
-            if (stopLoss?.triggerPrice) {
-              await this.bitgetClient.placeFuturesTPSL(symbol, {
-                planType: 'pos_loss',
-                triggerPrice: stopLoss.triggerPrice,
-                triggerType,
-                holdSide: side === 'buy' ? 'long' : 'short',
-                size: quantity,
-                clientOid: `${symbol.toLowerCase()}-sl-${Date.now()}`,
-                marginMode: effectiveMarginMode,
-              });
-            }
+              // Determine effective margin mode for order
+              let effectiveMarginMode = marginMode as ('isolated' | 'crossed' | undefined);
+              if (!effectiveMarginMode) {
+                try {
+                  const info = await this.bitgetClient.getMarginInfo(symbol);
+                  const mode = (info?.marginMode || info?.assetMode || '').toLowerCase();
+                  if (mode === 'isolated' || mode === 'crossed') effectiveMarginMode = mode as any;
+                } catch {}
+              }
 
-            // Attach TPs
-            for (const [i, tp] of takeProfits.entries()) {
-              await this.bitgetClient.placeFuturesTPSL(symbol, {
-                planType: 'profit_plan',
-                triggerPrice: tp.triggerPrice,
-                triggerType,
-                holdSide: side === 'buy' ? 'long' : 'short',
-                size: tp.size,
-                clientOid: `${symbol.toLowerCase()}-tp${i + 1}-${Date.now()}`,
+              // Place entry order
+              const order = await this.bitgetClient.placeOrder({
+                symbol,
+                side,
+                type,
+                quantity,
+                price,
+                tradeSide: 'open',
+                marginCoin,
                 marginMode: effectiveMarginMode,
-              });
+                timeInForce: type === 'limit' ? 'GTC' : undefined,
+                clientOrderId: legClientOid(baseOid, 'entry'),
+              } as any);
+
+              // Attach SL
+              if (stopLoss?.triggerPrice) {
+                await this.bitgetClient.placeFuturesTPSL(symbol, {
+                  planType: 'pos_loss',
+                  triggerPrice: stopLoss.triggerPrice,
+                  triggerType,
+                  holdSide,
+                  size: quantity,
+                  clientOid: legClientOid(baseOid, 'sl'),
+                  marginMode: effectiveMarginMode,
+                });
+              }
+
+              // Attach TPs
+              for (const [i, tp] of takeProfits.entries()) {
+                await this.bitgetClient.placeFuturesTPSL(symbol, {
+                  planType: 'profit_plan',
+                  triggerPrice: tp.triggerPrice,
+                  triggerType,
+                  holdSide,
+                  size: tp.size,
+                  clientOid: legClientOid(baseOid, `tp${i + 1}`),
+                  marginMode: effectiveMarginMode,
+                });
+              }
+              return order;
+            };
+
+            if (params.dryRun) {
+              const triggers = [
+                ...(stopLoss?.triggerPrice ? [{ planType: 'pos_loss', triggerPrice: stopLoss.triggerPrice, holdSide }] : []),
+                ...takeProfits.map(tp => ({ planType: 'profit_plan', triggerPrice: tp.triggerPrice, holdSide })),
+              ];
+              return this.dryRunPreview({ symbol, intent, type, triggers }, placeLegs);
             }
+            await this.riskManager.checkOrder(intent);
+            const order = await placeLegs();
 
             // Summary
             const positions = await this.bitgetClient.getFuturesPositions(symbol);
             const plans = await this.bitgetClient.getFuturesPlanOrders(symbol, 'profit_loss');
-            const sl = plans.find((p: any) => p.planType === 'pos_loss');
-            const profitPlans = plans.filter((p: any) => p.planType === 'profit_plan');
+            const sl = plans.find(p => p.planType === 'pos_loss' && p.holdSide === holdSide);
+            const profitPlans = plans.filter(p => p.planType === 'profit_plan' && p.holdSide === holdSide);
 
             const summary = compact ? {
               symbol,
               order: { orderId: order.orderId, side: order.side, type: order.type, quantity: order.quantity, price: order.price },
               positions: positions.map(p => ({ symbol: p.symbol, side: p.side, size: p.size, entryPrice: p.entryPrice, markPrice: p.markPrice })),
               stopLoss: sl ? { triggerPrice: sl.triggerPrice, size: sl.size } : null,
-              takeProfits: profitPlans.map((p: any) => ({ triggerPrice: p.triggerPrice, size: p.size })),
+              takeProfits: profitPlans.map(p => ({ triggerPrice: p.triggerPrice, size: p.size })),
             } : {
               symbol,
               order,
@@ -1744,11 +1978,192 @@ class BitgetMCPServer {
             } as CallToolResult;
           }
 
+          // Spot margin
+          case 'getMarginSymbols': {
+            const symbols = await this.bitgetClient.getMarginSymbols();
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(symbols, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getMarginAssets': {
+            const params = GetMarginAssetsSchema.parse(args);
+            const assets = await this.bitgetClient.getMarginAssets(params.marginType, { symbol: params.symbol, coin: params.coin });
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(assets, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getMaxBorrowable': {
+            const params = GetMaxBorrowableSchema.parse(args);
+            const borrowable = await this.bitgetClient.getMaxBorrowable(params.marginType, { symbol: params.symbol, coin: params.coin });
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(borrowable, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'marginBorrow': {
+            const params = MarginBorrowSchema.parse(args);
+            await this.riskManager.checkBorrow(params.coin, params.symbol);
+            const loan = await this.bitgetClient.marginBorrow(params.marginType, params.coin, params.amount, params.symbol);
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(loan, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'marginRepay': {
+            const params = MarginRepaySchema.parse(args);
+            const repayment = await this.bitgetClient.marginRepay(params.marginType, params.coin, params.amount, params.symbol);
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(repayment, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'placeMarginOrder': {
+            const { marginType, ...params } = PlaceMarginOrderSchema.parse(args);
+            // Also covers auto-loan orders: the kill switch and symbol list apply, and the loan is
+            // never larger than the order the notional limit caps
+            await this.riskManager.checkOrder({
+              symbol: params.symbol,
+              market: 'margin',
+              side: params.side,
+              quantity: params.quantity,
+              quoteQuantity: params.type === 'market' && params.side === 'buy',
+              price: params.type === 'limit' ? params.price : undefined,
+            });
+            const order = await this.bitgetClient.placeMarginOrder(marginType, params);
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(order, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getMarginInterestHistory': {
+            const params = GetMarginInterestHistorySchema.parse(args);
+            const history = await this.bitgetClient.getMarginInterestHistory(params.marginType, {
+              symbol: params.symbol,
+              coin: params.coin,
+              startTime: params.startTime,
+              limit: params.limit,
+            });
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(history, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'runBacktest': {
+            const params = (await import('./types/mcp.js')).RunBacktestSchema.parse(args);
+            const { symbol, interval, limit, startTime, endTime, file, strategy, setup, params: strategyParams = {}, compact } = params;
+
+            const candles = file
+              ? loadCandlesFromFile(resolveCandleFile(process.env.BITGET_BACKTEST_DIR || 'data/backtest', file), symbol)
+              : await this.bitgetClient.getCandles(symbol!, interval, limit, { startTime, endTime });
+            if (!candles.length) throw new Error('No candles to backtest');
+
+            const selected = strategy === 'setup'
+              ? setupStrategy({
+                  side: setup!.side,
+                  type: setup!.type,
+                  price: setup!.price ? parseFloat(setup!.price) : undefined,
+                  quantity: parseFloat(setup!.quantity),
+                  stopLoss: parseFloat(setup!.stopLoss.triggerPrice),
+                  takeProfits: setup!.takeProfits.map(tp => ({ triggerPrice: parseFloat(tp.triggerPrice), size: parseFloat(tp.size) })),
+                  startTime: setup!.startTime,
+                  expiryBars: setup!.expiryBars,
+                })
+              : strategy === 'emaCross' ? emaCrossStrategy(strategyParams) : breakoutStrategy(strategyParams);
+
+            const result = runBacktest(candles, selected, {
+              initialEquity: params.initialEquity,
+              riskPerTrade: params.riskPerTrade,
+              takerFeeRate: params.takerFeeRate,
+              makerFeeRate: params.makerFeeRate,
+              slippageBps: params.slippageBps,
+            });
+
+            // Compact: at most ~100 equity points and one line per trade
+            const step = Math.max(1, Math.ceil(result.equityCurve.length / 100));
+            const output = compact ? {
+              symbol: symbol ?? null,
+              interval: file ? null : interval,
+              strategy: result.strategy,
+              bars: result.bars,
+              from: result.from,
+              to: result.to,
+              summary: result.summary,
+              trades: result.trades.map(t => ({
+                side: t.side, entryTime: t.entryTime, entryPrice: t.entryPrice, quantity: t.quantity, stopLoss: t.stopLoss,
+                exitTime: t.exitTime, exits: t.exits.map(e => `${e.reason}@${e.price}`), pnl: t.pnl, r: t.r,
+              })),
+              equityCurve: result.equityCurve.filter((_, i) => i % step === 0 || i === result.equityCurve.length - 1),
+            } : { symbol: symbol ?? null, interval: file ? null : interval, ...result };
+
+            return { content: [ { type: 'text', text: JSON.stringify(output, null, 2) } ] } as CallToolResult;
+          }
+          // Risk
+          case 'getRiskLimits': {
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(this.riskManager.getLimits(), null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'getKillSwitchStatus': {
+            const status = await this.killSwitch.check();
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(status, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'engageKillSwitch': {
+            const { reason = 'Engaged manually', cancelOrders, flatten } = EngageKillSwitchSchema.parse(args);
+            const status = await this.killSwitch.engage(reason, 'manual', undefined, { cancelOrders, flatten });
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(status, null, 2) },
+              ],
+            } as CallToolResult;
+          }
+
+          case 'releaseKillSwitch': {
+            const { releaseKey } = ReleaseKillSwitchSchema.parse(args);
+            const state = this.killSwitch.release(releaseKey);
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(state, null, 2) },
+              ],
+            } as CallToolResult;
+          }
 
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
       } catch (error) {
+        if (error instanceof RiskViolationError) {
+          const rejection = { rejected: true, rule: error.rule, message: error.message, details: error.details };
+          return {
+            content: [
+              { type: 'text', text: JSON.stringify(rejection, null, 2) },
+            ],
+            isError: true,
+          } as CallToolResult;
+        }
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         return {
           content: [
@@ -1763,6 +2178,169 @@ class BitgetMCPServer {
     });
   }
 
+  /**
+   * Dry run of a trading call: risk rules, the current book, balance and TP/SL triggers are
+   * checked, and the writes the call would make are captured instead of sent
+   */
+  private async dryRunPreview(
+    check: {
+      symbol: string;
+      intent?: OrderIntent;
+      type?: 'market' | 'limit';
+      triggers?: Array<{ planType: string; triggerPrice: string; holdSide: 'long' | 'short' }>;
+    },
+    run: () => Promise<unknown>
+  ): Promise<CallToolResult> {
+    if (this.bitgetClient.isPaperTrading()) {
+      throw new BitgetValidationError('dryRun previews live Bitget requests and is not available in paper trading mode');
+    }
+    const { symbol, intent, type, triggers = [] } = check;
+    const issues: string[] = [];
+    const preview: Record<string, unknown> = {};
+
+    if (intent) {
+      try {
+        await this.riskManager.checkOrder(intent);
+        preview.risk = { passed: true };
+      } catch (error) {
+        if (!(error instanceof RiskViolationError)) throw error;
+        preview.risk = { passed: false, rule: error.rule, message: error.message, details: error.details };
+        issues.push(error.message);
+      }
+    }
+
+    if (intent && type) {
+      const quantity = parseFloat(intent.quantity);
+      const limitPrice = type === 'limit' && intent.price ? parseFloat(intent.price) : undefined;
+      const book = await this.bitgetClient.getOrderBook(symbol, 50);
+      const pricing = priceAgainstBook(book, intent.side, quantity, { limitPrice, quoteSize: intent.quoteQuantity });
+      preview.pricing = pricing;
+      if (type === 'market' && !pricing.fullyCovered) {
+        issues.push(`The visible book only covers ${pricing.size} of the order; the rest would fill further out`);
+      }
+      if (!intent.reduceOnly) {
+        const price = limitPrice ?? pricing.avgPrice ?? pricing.mid;
+        const notional = intent.quoteQuantity ? quantity : quantity * price;
+        preview.balance = await this.dryRunBalance(intent, notional, price, issues);
+      }
+    }
+
+    if (triggers.length > 0) {
+      const lastPrice = parseFloat(await this.bitgetClient.getPrice(symbol));
+      const checks = triggers.map(t => checkTrigger(t.planType, t.holdSide, parseFloat(t.triggerPrice), lastPrice));
+      preview.triggers = checks;
+      for (const t of checks.filter(c => c.alreadyCrossed)) {
+        issues.push(`${t.planType} trigger ${t.triggerPrice} is already through the last price ${lastPrice}; it would fire at once`);
+      }
+    }
+
+    const { requests, error } = await this.bitgetClient.dryRun(run);
+    if (error) issues.push(error);
+    const result = { dryRun: true, valid: issues.length === 0, issues, ...preview, requests };
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(result, null, 2) },
+      ],
+    } as CallToolResult;
+  }
+
+  /**
+   * What an opening order needs from the account against what is free: the quote (buys) or
+   * base (sells) coin on spot, initial margin at the symbol's leverage on futures
+   */
+  private async dryRunBalance(intent: OrderIntent, notional: number, price: number, issues: string[]): Promise<unknown> {
+    const parsed = parseSymbol(intent.symbol, intent.market === 'futures' ? 'usdt-futures' : 'spot');
+    if (parsed.market === 'spot') {
+      const coin = intent.side === 'buy' ? parsed.quote : parsed.base;
+      const required = intent.side === 'buy' ? notional : parseFloat(intent.quantity);
+      const [balance] = await this.bitgetClient.getBalance(coin);
+      const available = parseFloat(balance?.free ?? '0');
+      if (required > available) issues.push(`Needs ${required} ${coin}, ${available} available`);
+      return { coin, required, available };
+    }
+
+    const info = await this.bitgetClient.getMarginInfo(intent.symbol);
+    const account = Array.isArray(info) ? info[0] : info;
+    const available = parseFloat(account?.crossedMaxAvailable ?? account?.available ?? '0');
+    const sideLever = intent.side === 'buy' ? account?.isolatedLongLever : account?.isolatedShortLever;
+    const leverage = parseFloat(account?.marginMode === 'isolated' ? sideLever : account?.crossedMarginLeverage) || undefined;
+    if (!leverage) return { coin: parsed.marginCoin, available, note: 'Leverage unknown, margin not checked' };
+    // Coin-margined contracts are margined in the base coin
+    const required = parsed.productType === 'COIN-FUTURES' ? notional / leverage / price : notional / leverage;
+    if (required > available) issues.push(`Needs ${required.toFixed(4)} ${parsed.marginCoin} margin at ${leverage}x, ${available} available`);
+    return { coin: parsed.marginCoin, required, available, leverage };
+  }
+
+  /**
+   * Two-phase confirmation for tools in BITGET_CONFIRM_TOOLS. Without a token the call only
+   * returns a preview and a token; with one, the token is checked and null lets the call run.
+   */
+  private async confirmation(tool: string, params: Record<string, unknown>, token: string | undefined, preview: () => Promise<unknown>): Promise<CallToolResult | null> {
+    if (!this.confirmations.requires(tool)) return null;
+    if (token) {
+      this.confirmations.consume(tool, params, token);
+      return null;
+    }
+    const request = this.confirmations.prepare(tool, params, await preview());
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(request, null, 2) },
+      ],
+    } as CallToolResult;
+  }
+
+  private async closePositionsPreview(symbol?: string, productType?: ProductType, holdSide?: 'long' | 'short'): Promise<unknown> {
+    const scope = symbol ? parseSymbol(symbol, 'usdt-futures').productType : productType;
+    const positions = (await this.bitgetClient.getFuturesPositions(symbol, scope))
+      .filter(p => parseFloat(p.size) > 0 && (!holdSide || p.side === holdSide));
+    return {
+      action: 'Close positions at market',
+      positions: positions.map(p => ({ symbol: p.symbol, side: p.side, size: p.size, entryPrice: p.entryPrice, markPrice: p.markPrice, pnl: p.pnl })),
+      // Unrealized PnL at the mark price; market closes fill at the book
+      estimatedPnl: positions.reduce((sum, p) => sum + parseFloat(p.pnl || '0'), 0).toFixed(4),
+    };
+  }
+
+  private async marginModePreview(marginMode: 'isolated' | 'crossed', symbol?: string, productType?: ProductType): Promise<unknown> {
+    const scope = symbol ? parseSymbol(symbol, 'usdt-futures').productType : productType;
+    const [info, positions, orders] = await Promise.all([
+      this.bitgetClient.getMarginInfo(symbol, scope).catch(() => undefined),
+      this.bitgetClient.getFuturesPositions(symbol, scope),
+      this.bitgetClient.getOpenFuturesOrders(symbol, scope),
+    ]);
+    const openPositions = positions.filter(p => parseFloat(p.size) > 0).length;
+    return {
+      action: `Set margin mode to ${marginMode}`,
+      currentMarginMode: info?.marginMode,
+      openPositions,
+      openOrders: orders.length,
+      // Bitget refuses the switch while positions or orders are open
+      note: openPositions || orders.length ? 'Close positions and cancel orders first or the change is rejected' : undefined,
+    };
+  }
+
+  /**
+   * Detect hidden order blocks, fetching lower-timeframe candles back to the oldest
+   * candidate for LTF confirmation (HOBs stay unconfirmed if that fetch fails)
+   */
+  private async detectHiddenOrderBlocks(symbol: string, interval: string, candles: Candle[], analysis: MarketAnalysis, veryStrongMinQuality: number): Promise<HiddenOrderBlock[]> {
+    const options = { atr: analysis.atr, pivots: analysis.pivots, interval, veryStrongMinQuality };
+    const candidates = detectHiddenOrderBlocks(candles, options);
+    const ltf = lowerTimeframe(interval);
+    const ltfMs = ltf ? intervalToMs(ltf) : null;
+    if (!candidates.length || !ltf || !ltfMs) return candidates;
+
+    try {
+      const span = candles[candles.length - 1].timestamp - candidates[0].ts;
+      const ltfLimit = Math.min(1000, Math.ceil(span / ltfMs) + (intervalToMs(interval) ?? 0) / ltfMs + 1);
+      const ltfCandles = await this.bitgetClient.getCandles(symbol, ltf, ltfLimit);
+      return detectHiddenOrderBlocks(candles, { ...options, ltfCandles });
+    } catch (error: any) {
+      logger.warn('LTF candles unavailable for HOB confirmation', { symbol, interval, ltf, error: error.message });
+      return candidates;
+    }
+  }
+
   /**
    * Setup WebSocket event handlers
    */
@@ -1798,6 +2376,32 @@ class BitgetMCPServer {
     this.wsClient.on('maxReconnectsReached', () => {
       logger.error('WebSocket max reconnection attempts reached');
     });
+
+    // Private channels: keep a bounded buffer for getPrivateUpdates
+    this.privateWsClient.on('data', (message) => {
+      const channel = message.arg.channel as WSPrivateChannel;
+      for (const data of message.data) {
+        this.privateUpdates.push({
+          channel,
+          instType: message.arg.instType,
+          symbol: data.instId ?? data.symbol,
+          receivedAt: Date.now(),
+          data,
+        });
+      }
+    });
+
+    this.privateWsClient.on('fill', (fill) => {
+      logger.info('Fill received', { symbol: fill.symbol, side: fill.side, price: fill.price, size: fill.baseVolume, orderId: fill.orderId });
+    });
+
+    this.privateWsClient.on('error', (error) => {
+      logger.error('Private WebSocket error', { error: error.message });
+    });
+
+    this.privateWsClient.on('maxReconnectsReached', () => {
+      logger.error('Private WebSocket max reconnection attempts reached');
+    });
   }
 
   async run(): Promise<void> {
@@ -1808,6 +2412,8 @@ class BitgetMCPServer {
     
     // Setup graceful shutdown
     this.setupGracefulShutdown();
+    this.killSwitch.start();
+    this.bitgetClient.getPaperEngine()?.start();
   }
 
   /**
@@ -1817,11 +2423,15 @@ class BitgetMCPServer {
     const shutdown = () => {
       logger.info('Shutting down Bitget MCP Server...');
       
-      // Stop cache cleanup timer
+      // Stop timers
       cacheManager.stopCleanup();
+      this.killSwitch.stop();
+      this.bitgetClient.getPaperEngine()?.stop();
       
-      // Disconnect WebSocket
+      // Disconnect WebSockets
+      this.resources.close();
       this.wsClient.disconnect();
+      this.privateWsClient.disconnect();
       
       // Final cleanup
       cacheManager.cleanupAll();
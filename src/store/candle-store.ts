@@ -0,0 +1,113 @@
+/**
+ * Candle Store
+ * Append-only on-disk candle history, one JSONL file per series:
+ *   <rootDir>/<productType>/<symbol>/<granularity>.jsonl
+ * Each line is a Bitget-style row [ts, open, high, low, close, volume]. Only closed
+ * bars are written; files are kept sorted and gap-free by the caller (getCandles).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle } from '../types/bitget.js';
+import { logger } from '../utils/logger.js';
+
+export interface CandleSeriesKey {
+  productType: string;   // 'SPOT' | 'USDT-FUTURES'
+  symbol: string;        // Bare symbol, e.g. BTCUSDT
+  granularity: string;   // Exchange granularity, e.g. 1H (futures) or 1h (spot)
+}
+
+export class CandleStore {
+  private series = new Map<string, Candle[]>();
+  // Files whose last line was cut off; appending would glue the next row onto it
+  private torn = new Set<string>();
+
+  constructor(private readonly rootDir: string) {}
+
+  filePath(key: CandleSeriesKey): string {
+    return path.join(this.rootDir, key.productType, key.symbol, `${key.granularity}.jsonl`);
+  }
+
+  /**
+   * Stored bars, oldest first. Files are read once and then served from memory.
+   */
+  read(key: CandleSeriesKey): Candle[] {
+    const file = this.filePath(key);
+    let candles = this.series.get(file);
+    if (!candles) {
+      candles = this.load(file, key.symbol);
+      this.series.set(file, candles);
+    }
+    return candles;
+  }
+
+  /**
+   * Merge bars into the series. New bars after the last stored one are appended;
+   * anything older (a backfill) rewrites the file. Returns the number of bars added.
+   */
+  write(key: CandleSeriesKey, candles: Candle[]): number {
+    const stored = this.read(key);
+    const known = new Set(stored.map(c => c.timestamp));
+    const fresh = candles
+      .filter(c => !known.has(c.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .filter((c, i, arr) => i === 0 || c.timestamp !== arr[i - 1].timestamp);
+    if (fresh.length === 0) return 0;
+
+    const file = this.filePath(key);
+    const last = stored.length ? stored[stored.length - 1].timestamp : -Infinity;
+    const appendOnly = fresh[0].timestamp > last && !this.torn.has(file);
+    const merged = appendOnly ? [...stored, ...fresh] : [...stored, ...fresh].sort((a, b) => a.timestamp - b.timestamp);
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      if (appendOnly) {
+        fs.appendFileSync(file, serialize(fresh), { encoding: 'utf-8' });
+      } else {
+        const tmp = `${file}.tmp`;
+        fs.writeFileSync(tmp, serialize(merged), { encoding: 'utf-8' });
+        fs.renameSync(tmp, file);
+        this.torn.delete(file);
+      }
+    } catch (error: any) {
+      logger.warn('Failed to persist candles', { file, error: error.message });
+    }
+
+    this.series.set(file, merged);
+    return fresh.length;
+  }
+
+  /**
+   * Drop a series from memory and disk
+   */
+  delete(key: CandleSeriesKey): void {
+    const file = this.filePath(key);
+    this.series.delete(file);
+    this.torn.delete(file);
+    fs.rmSync(file, { force: true });
+  }
+
+  private load(file: string, symbol: string): Candle[] {
+    if (!fs.existsSync(file)) return [];
+    const candles: Candle[] = [];
+    let skipped = 0;
+    const raw = fs.readFileSync(file, 'utf-8');
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const [ts, open, high, low, close, volume] = JSON.parse(line);
+        candles.push({ symbol, timestamp: Number(ts), open, high, low, close, volume });
+      } catch {
+        skipped++; // A torn final line from an interrupted append
+      }
+    }
+    if (skipped > 0) logger.warn('Skipped unreadable candle rows', { file, skipped });
+    // The next write rewrites the file instead of appending to the broken line
+    if (skipped > 0 || (raw.length > 0 && !raw.endsWith('\n'))) this.torn.add(file);
+    return candles.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+function serialize(candles: Candle[]): string {
+  return candles.map(c => JSON.stringify([c.timestamp, c.open, c.high, c.low, c.close, c.volume])).join('\n') + '\n';
+}
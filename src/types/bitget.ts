@@ -10,6 +10,23 @@ export interface BitgetConfig {
   sandbox: boolean;
   baseUrl: string;
   wsUrl: string;
+  wsPrivateUrl?: string;    // Defaults to wsUrl with /public replaced by /private
+  executionMode?: 'live' | 'paper';
+  paper?: Partial<PaperTradingConfig>;
+  candleStoreDir?: string;  // Persist closed candles under this directory; getCandles only tops up the tail
+  requestTimeoutMs?: number; // Abort REST requests after this long (default 25000)
+  orderPrecision?: 'round' | 'reject'; // Off-tick prices/sizes are rounded (default) or rejected before sending
+  readOnly?: boolean;       // Refuse every request that would change the account (read-only tool profile)
+}
+
+// Paper trading (local simulator fed by live public market data)
+export interface PaperTradingConfig {
+  initialBalance: number;   // Starting USDT balance (spot and futures wallets each)
+  takerFeeRate: number;     // e.g. 0.0006 = 0.06%
+  makerFeeRate: number;     // e.g. 0.0002 = 0.02%
+  defaultLeverage: number;
+  syncIntervalMs: number;   // Background fill/trigger check period; 0 leaves it to reads
+  statePath?: string;       // Persist simulator state as JSON when set
 }
 
 // Market Data Types
@@ -43,6 +60,25 @@ export interface Candle {
   volume: string;
 }
 
+// Instrument metadata (spot symbols and futures contracts)
+export interface ContractSpec {
+  symbol: string;           // Bare symbol, e.g. BTCUSDT
+  market: 'spot' | 'futures';
+  productType?: string;     // Futures only: USDT-FUTURES, COIN-FUTURES or USDC-FUTURES
+  baseCoin: string;
+  quoteCoin: string;
+  pricePlace: number;       // Decimal places allowed in prices
+  priceEndStep: number;     // Last price digit must be a multiple of this
+  volumePlace: number;      // Decimal places allowed in sizes
+  sizeMultiplier: number;   // Sizes must be a multiple of this
+  minTradeNum: number;      // Minimum order size in base coin
+  minTradeUSDT?: number;    // Minimum order value
+  quotePlace?: number;      // Decimal places for quote-denominated sizes (spot market buys)
+  maxLever?: number;
+  status: string;           // Exchange status as sent (normal/online when tradable)
+  tradable: boolean;
+}
+
 // Trading Types
 export interface OrderParams {
   symbol: string;
@@ -53,7 +89,7 @@ export interface OrderParams {
   timeInForce?: 'GTC' | 'IOC' | 'FOK';
   clientOrderId?: string;
   reduceOnly?: boolean;
-  tradeSide?: 'open' | 'close';
+  tradeSide?: 'open' | 'close';   // Futures: open or close a position; side is always the trade direction
   marginMode?: 'crossed' | 'isolated';
   marginCoin?: string;
 }
@@ -81,6 +117,58 @@ export interface Balance {
   total: string;
 }
 
+// Spot margin: one crossed account, or one isolated account per symbol
+export type SpotMarginType = 'crossed' | 'isolated';
+
+// How a margin order borrows and repays: autoLoan borrows any shortfall, autoRepay repays
+// debt in the received coin from the proceeds
+export type MarginLoanType = 'normal' | 'autoLoan' | 'autoRepay' | 'autoLoanAndRepay';
+
+export interface MarginOrderParams extends OrderParams {
+  loanType?: MarginLoanType;
+}
+
+export interface MarginAsset {
+  coin: string;
+  symbol?: string;             // Isolated account pair
+  total: string;
+  available: string;
+  frozen: string;
+  borrowed: string;
+  interest: string;            // Accrued, unpaid interest
+  net: string;                 // total - borrowed - interest
+}
+
+export interface MarginBorrowable {
+  coin: string;
+  symbol?: string;             // Isolated account pair
+  amount: string;
+}
+
+export interface MarginInterest {
+  interestId: string;
+  coin: string;
+  symbol?: string;
+  dailyInterestRate: string;
+  interestAmount: string;
+  type: string;                // first (charged on borrow) or scheduled (hourly)
+  timestamp: number;
+}
+
+// Futures trade fill; fee is the amount paid, profit the realized PnL before fees
+export interface Fill {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  tradeSide?: string;
+  price: string;
+  size: string;
+  profit: string;
+  fee: string;
+  timestamp: number;
+}
+
 export interface Position {
   symbol: string;
   side: 'long' | 'short';
@@ -94,13 +182,35 @@ export interface Position {
   timestamp: number;
 }
 
+// Futures position mode: one_way_mode nets buys and sells into one position per symbol,
+// hedge_mode holds a long and a short side by side
+export type PositionMode = 'one_way_mode' | 'hedge_mode';
+
+// Pending futures TP/SL or plan order (orders-plan-pending entrustedList row)
+export interface PlanOrder {
+  orderId: string;
+  clientOid?: string;
+  symbol: string;
+  planType: string;
+  triggerPrice: string;
+  triggerType?: string;
+  executePrice?: string;
+  holdSide?: string;
+  size: string;
+  status: string;
+  timestamp: number;
+}
+
 // WebSocket Types
+export type WSInstType = 'SPOT' | 'UMCBL' | 'DMCBL' | 'CMCBL' | 'USDT-FUTURES' | 'COIN-FUTURES' | 'USDC-FUTURES';
+
 export interface WSSubscription {
   op: 'subscribe' | 'unsubscribe';
   args: {
-    instType: 'SPOT' | 'UMCBL' | 'DMCBL';
+    instType: WSInstType;
     channel: string;
-    instId: string;
+    instId?: string;
+    coin?: string;            // The private account channel is keyed by coin instead of instId
   }[];
 }
 
@@ -109,12 +219,100 @@ export interface WSMessage {
   arg: {
     instType: string;
     channel: string;
-    instId: string;
+    instId?: string;
+    coin?: string;
   };
   data: any[];
   ts: number;
 }
 
+// Private WebSocket channels (require login)
+export type WSPrivateChannel = 'orders' | 'positions' | 'account' | 'orders-algo' | 'fill';
+
+export interface WSOrderUpdate {
+  instId: string;
+  orderId: string;
+  clientOid: string;
+  side: 'buy' | 'sell';
+  ordType: string;            // market | limit
+  price?: string;
+  size: string;
+  accBaseVolume: string;      // Filled so far
+  priceAvg?: string;
+  status: 'live' | 'partially_filled' | 'filled' | 'canceled';
+  tradeSide?: string;
+  posSide?: string;
+  marginMode?: string;
+  reduceOnly?: string;
+  cTime: string;
+  uTime: string;
+}
+
+export interface WSFillUpdate {
+  orderId: string;
+  tradeId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  orderType: string;
+  price: string;
+  baseVolume: string;
+  quoteVolume: string;
+  profit?: string;
+  tradeSide?: string;
+  tradeScope: 'taker' | 'maker';
+  feeDetail: { feeCoin: string; totalFee: string }[];
+  cTime: string;
+  uTime: string;
+}
+
+export interface WSPositionUpdate {
+  instId: string;
+  marginCoin: string;
+  marginMode: string;
+  holdSide: 'long' | 'short';
+  total: string;
+  available: string;
+  openPriceAvg: string;
+  leverage: string;
+  achievedProfits: string;
+  unrealizedPL: string;
+  cTime: string;
+  uTime: string;
+}
+
+export interface WSAccountUpdate {
+  marginCoin?: string;        // Futures
+  coin?: string;              // Spot
+  available: string;
+  frozen: string;
+  equity?: string;
+  usdtEquity?: string;
+  uTime?: string;
+}
+
+export interface WSPlanOrderUpdate {
+  instId: string;
+  orderId: string;
+  clientOid: string;
+  planType: string;
+  triggerPrice: string;
+  triggerType: string;
+  executePrice?: string;
+  size: string;
+  posSide?: string;
+  status: 'live' | 'executed' | 'cancelled' | 'fail_execute';
+  cTime: string;
+  uTime: string;
+}
+
+export interface WSPrivateEventMap {
+  order: WSOrderUpdate;
+  fill: WSFillUpdate;
+  position: WSPositionUpdate;
+  account: WSAccountUpdate;
+  planOrder: WSPlanOrderUpdate;
+}
+
 // Error Types
 export interface BitgetError {
   code: string;
@@ -123,6 +321,19 @@ export interface BitgetError {
   data: null;
 }
 
+// Write a dry run recorded instead of sending
+export interface DryRunRequest {
+  method: 'POST' | 'DELETE';
+  endpoint: string;
+  body: Record<string, any>;
+}
+
+// Synthetic answer to a captured write; order, plan and TP/SL callers read only these fields
+export interface DryRunAck {
+  orderId: string;
+  clientOid?: string;
+}
+
 export interface APIResponse<T> {
   code: string;
   msg: string;
@@ -144,19 +355,31 @@ export class BitgetAPIError extends Error {
 }
 
 export class BitgetNetworkError extends Error {
-  constructor(message: string, public cause?: Error) {
+  constructor(
+    message: string,
+    public cause?: Error,
+    public status?: number,         // HTTP status when a response was received
+    public retryAfterMs?: number    // Server hint (Retry-After header)
+  ) {
     super(message);
     this.name = 'BitgetNetworkError';
   }
 }
 
 export class BitgetRateLimitError extends Error {
-  constructor(message: string = 'Rate limit exceeded') {
+  constructor(message: string = 'Rate limit exceeded', public retryAfterMs?: number) {
     super(message);
     this.name = 'BitgetRateLimitError';
   }
 }
 
+export class BitgetCircuitOpenError extends Error {
+  constructor(public group: string, public retryAfterMs: number, lastError?: string) {
+    super(`Circuit open for ${group}: failing fast for ${Math.ceil(retryAfterMs / 1000)}s${lastError ? ` (last error: ${lastError})` : ''}`);
+    this.name = 'BitgetCircuitOpenError';
+  }
+}
+
 export class BitgetAuthenticationError extends Error {
   constructor(message: string = 'Authentication failed') {
     super(message);
@@ -171,6 +394,17 @@ export class BitgetValidationError extends Error {
   }
 }
 
+export class RiskViolationError extends Error {
+  constructor(
+    public rule: string,            // Which pre-trade limit fired (maxOrderNotional, allowedSymbols, ...)
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'RiskViolationError';
+  }
+}
+
 // Retry Configuration
 export interface RetryConfig {
   maxRetries: number;
@@ -178,6 +412,7 @@ export interface RetryConfig {
   maxDelay: number;
   backoffMultiplier: number;
   retryableErrors: string[];
+  jitter?: boolean;           // Full jitter: wait a random 0..backoff (default true)
 }
 
 // Logger interface
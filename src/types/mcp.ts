@@ -5,24 +5,27 @@
 
 import { z } from 'zod';
 
+const FuturesProductTypeSchema = z.enum(['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES']);
+const SpotMarginTypeSchema = z.enum(['crossed', 'isolated']).describe('crossed: one margin account for all pairs; isolated: one account per pair');
+
 // Market Data Schemas
 export const GetPriceSchema = z.object({
-  symbol: z.string().describe('Trading pair symbol (e.g., BTCUSDT for spot, BTCUSDT_UMCBL for futures)')
+  symbol: z.string().describe('Trading pair symbol (e.g., BTCUSDT for spot, BTCUSDT_UMCBL or BTC/USDT:USDT for futures)')
 });
 
 export const GetTickerSchema = z.object({
-  symbol: z.string().describe('Trading pair symbol (BTCUSDT for spot, BTCUSDT_UMCBL for futures)'),
+  symbol: z.string().describe('Trading pair symbol (BTCUSDT for spot, BTCUSDT_UMCBL or BTC/USDT:USDT for futures)'),
   compact: z.boolean().optional().describe('If true, returns a trimmed ticker')
 });
 
 export const GetOrderBookSchema = z.object({
-  symbol: z.string().describe('Trading pair symbol (BTCUSDT for spot, BTCUSDT_UMCBL for futures)'),
+  symbol: z.string().describe('Trading pair symbol (BTCUSDT for spot, BTCUSDT_UMCBL or BTC/USDT:USDT for futures)'),
   depth: z.number().optional().describe('Order book depth (default: 20)'),
   compact: z.boolean().optional().describe('If true, trims to top-of-book levels')
 });
 
 export const GetCandlesSchema = z.object({
-  symbol: z.string().describe('Trading pair symbol (BTCUSDT for spot, BTCUSDT_UMCBL for futures)'),
+  symbol: z.string().describe('Trading pair symbol (BTCUSDT for spot, BTCUSDT_UMCBL or BTC/USDT:USDT for futures)'),
   interval: z.enum([
     // Minutes (lowercase)
     '1m', '3m', '5m', '15m', '30m',
@@ -33,11 +36,15 @@ export const GetCandlesSchema = z.object({
     // UTC variants
     '6Hutc', '12Hutc', '1Dutc', '3Dutc', '1Wutc', '1Mutc'
   ]).describe('Candle interval - API will auto-format to correct case'),
-  limit: z.number().optional().describe('Number of candles (default: 100)'),
+  limit: z.number().optional().describe('Number of candles; pages through history when above 1000 (default: 100, or 5000 with startTime)'),
+  startTime: z.number().optional().describe('Only bars at or after this time (ms); fetches back to it'),
+  endTime: z.number().optional().describe('Only bars at or before this time (ms)'),
   compact: z.boolean().optional().describe('If true, returns only essential OHLCV fields')
 });
 
 // Trading Schemas
+const DryRunSchema = z.boolean().optional().describe('Validate and price the call, and return the exact Bitget requests without sending them');
+
 export const PlaceOrderSchema = z.object({
   symbol: z.string().describe('Trading pair symbol'),
   side: z.enum(['buy', 'sell']).describe('Order side'),
@@ -47,9 +54,10 @@ export const PlaceOrderSchema = z.object({
   timeInForce: z.enum(['GTC', 'IOC', 'FOK']).optional().describe('Time in force'),
   clientOrderId: z.string().optional().describe('Client order ID'),
   reduceOnly: z.boolean().optional().describe('Reduce only flag for futures'),
-  tradeSide: z.enum(['open', 'close']).optional().describe('Unilateral position action: open or close (futures)'),
+  tradeSide: z.enum(['open', 'close']).optional().describe('Futures: open or close a position; side stays the trade direction (sell closes a long) in both position modes'),
   marginMode: z.enum(['crossed', 'isolated']).optional().describe('Margin mode for futures (default: crossed)'),
-  marginCoin: z.string().optional().describe('Margin coin for futures (default: USDT)')
+  marginCoin: z.string().optional().describe('Margin coin for futures (default: from the symbol; USDT, USDC or the base coin for coin-margined)'),
+  dryRun: DryRunSchema
 });
 
 export const CancelOrderSchema = z.object({
@@ -68,7 +76,8 @@ export const GetBalanceSchema = z.object({
 });
 
 export const GetPositionsSchema = z.object({
-  symbol: z.string().optional().describe('Filter by symbol')
+  symbol: z.string().optional().describe('Filter by symbol'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)')
 });
 
 // WebSocket Schemas
@@ -84,10 +93,39 @@ export const SubscribeOrderBookSchema = z.object({
   symbol: z.string().describe('Symbol to subscribe to order book updates')
 });
 
+export const SubscribeToTradesSchema = z.object({
+  symbol: z.string().describe('Trading pair symbol'),
+  instType: z.enum(['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES']).optional().default('SPOT')
+    .describe('Instrument type (default: SPOT; a market in the symbol wins)')
+});
+
 export const UnsubscribeSchema = z.object({
   channel: z.string().describe('Channel to unsubscribe from')
 });
 
+export const ConnectPrivateWebSocketSchema = z.object({
+  productTypes: z.array(z.enum(['SPOT', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'])).optional().default(['USDT-FUTURES'])
+    .describe('Markets to stream private updates for (default: USDT-FUTURES)')
+});
+
+export const GetStreamLatestSchema = z.object({
+  symbol: z.string().describe('Trading pair symbol (BTCUSDT or BTCUSDT_UMCBL)'),
+  channel: z.string().optional().default('ticker').describe('Channel: ticker, trade, books, candle1m, ... (default: ticker)'),
+  instType: z.enum(['SPOT', 'UMCBL', 'DMCBL', 'CMCBL', 'USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES']).optional().describe('Instrument type (default: from the symbol)')
+});
+
+export const GetStreamHistorySchema = GetStreamLatestSchema.extend({
+  limit: z.number().int().min(1).max(500).optional().default(20).describe('Rows to return, newest last (default 20)'),
+  since: z.number().optional().describe('Only rows received after this timestamp (ms)')
+});
+
+export const GetPrivateUpdatesSchema = z.object({
+  channel: z.enum(['orders', 'positions', 'account', 'orders-algo', 'fill']).optional().describe('Filter by private channel'),
+  symbol: z.string().optional().describe('Filter by symbol'),
+  since: z.number().optional().describe('Only updates received after this timestamp (ms)'),
+  limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum updates to return, newest last (default 50)')
+});
+
 // Futures Schemas
 export const SetLeverageSchema = z.object({
   symbol: z.string().describe('Trading pair symbol'),
@@ -95,7 +133,8 @@ export const SetLeverageSchema = z.object({
 });
 
 export const GetMarginInfoSchema = z.object({
-  symbol: z.string().optional().describe('Filter by symbol')
+  symbol: z.string().optional().describe('Filter by symbol'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)')
 });
 
 // TPSL / Plan order Schemas (Futures)
@@ -108,12 +147,14 @@ export const PlaceTPSLSchema = z.object({
   holdSide: z.enum(['long', 'short', 'buy', 'sell']).describe('Position side to apply'),
   size: z.string().describe('Quantity/size for TPSL'),
   clientOid: z.string().optional().describe('Client OID for TPSL order'),
-  marginMode: z.enum(['isolated', 'crossed']).optional().describe('Margin mode for futures (default depends on account)')
+  marginMode: z.enum(['isolated', 'crossed']).optional().describe('Margin mode for futures (default depends on account)'),
+  dryRun: DryRunSchema
 });
 
 export const GetPlanOrdersSchema = z.object({
   symbol: z.string().optional().describe('Filter by symbol'),
-  planType: z.enum(['normal_plan', 'track_plan', 'profit_loss']).optional().describe('Plan type filter (default: profit_loss)')
+  planType: z.enum(['normal_plan', 'track_plan', 'profit_loss']).optional().describe('Plan type filter (default: profit_loss)'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)')
 });
 
 export const CancelPlanOrderSchema = z.object({
@@ -129,20 +170,43 @@ export const CancelPlanOrderSchema = z.object({
 export const ModifyTPSLSchema = z.object({
   symbol: z.string().describe('Trading pair symbol (e.g., AVAXUSDT)'),
   stopSurplusPrice: z.string().optional().describe('Take profit price to set/modify'),
-  stopLossPrice: z.string().optional().describe('Stop loss price to set/modify')
+  stopLossPrice: z.string().optional().describe('Stop loss price to set/modify'),
+  dryRun: DryRunSchema
 }).refine((data) => !!(data.stopSurplusPrice || data.stopLossPrice), {
   message: 'Provide at least stopSurplusPrice or stopLossPrice',
   path: ['stopSurplusPrice']
 });
 
 // Futures account & risk
+const ConfirmationTokenSchema = z.string().optional().describe('Token from the preview call; omit to get a preview first');
+
 export const SetMarginModeSchema = z.object({
   symbol: z.string().optional().describe('Trading pair symbol (optional)'),
-  marginMode: z.enum(['isolated', 'crossed']).describe('Margin mode to set')
+  marginMode: z.enum(['isolated', 'crossed']).describe('Margin mode to set'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)'),
+  confirmationToken: ConfirmationTokenSchema
 });
 
 export const CloseAllPositionsSchema = z.object({
-  symbol: z.string().optional().describe('Trading pair symbol to close (optional)')
+  symbol: z.string().optional().describe('Trading pair symbol to close (optional)'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)'),
+  holdSide: z.enum(['long', 'short']).optional().describe('Close only this side (default: both)'),
+  confirmationToken: ConfirmationTokenSchema
+});
+
+export const CancelAllFuturesOrdersSchema = z.object({
+  symbol: z.string().optional().describe('Only cancel orders for this symbol'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)'),
+  confirmationToken: ConfirmationTokenSchema
+});
+
+export const GetPositionModeSchema = z.object({
+  productType: FuturesProductTypeSchema.optional().describe('Futures market (default: USDT-FUTURES)')
+});
+
+export const SetPositionModeSchema = z.object({
+  posMode: z.enum(['one_way_mode', 'hedge_mode']).describe('one_way_mode nets into one position per symbol; hedge_mode holds long and short at once'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market (default: USDT-FUTURES)')
 });
 
 export const GetCurrentFundingRateSchema = z.object({
@@ -154,7 +218,12 @@ export const GetHistoricFundingRatesSchema = z.object({
 });
 
 export const GetFuturesContractsSchema = z.object({
-  productType: z.literal('USDT-FUTURES').optional().describe('Product type (defaults to USDT-FUTURES)')
+  productType: FuturesProductTypeSchema.optional().describe('Product type (default: all)')
+});
+
+export const GetContractSpecSchema = z.object({
+  symbol: z.string().describe('Trading pair symbol (BTCUSDT spot, BTCUSDT_UMCBL futures)'),
+  market: z.enum(['spot', 'futures']).optional().describe('Override market detection from the symbol suffix')
 });
 
 // Plan orders (explicit)
@@ -168,13 +237,88 @@ export const PlacePlanOrderSchema = z.object({
   size: z.string().describe('Quantity/size for plan order'),
   clientOid: z.string().optional().describe('Client OID for plan order')
 }).extend({
-  marginMode: z.enum(['isolated', 'crossed']).optional().describe('Margin mode for futures (default depends on account)')
+  marginMode: z.enum(['isolated', 'crossed']).optional().describe('Margin mode for futures (default depends on account)'),
+  dryRun: DryRunSchema
 });
 
 // Status summary of futures position and TPSL/plan orders
 export const GetFuturesStatusSchema = z.object({
   symbol: z.string().optional().describe('Trading pair symbol (e.g., AVAXUSDT). If omitted, returns all.'),
-  compact: z.boolean().optional().describe('If true, returns a trimmed summary')
+  compact: z.boolean().optional().describe('If true, returns a trimmed summary'),
+  productType: FuturesProductTypeSchema.optional().describe('Futures market when no symbol is given (default: USDT-FUTURES)')
+});
+
+// Spot margin
+export const GetMarginAssetsSchema = z.object({
+  marginType: SpotMarginTypeSchema,
+  symbol: z.string().optional().describe('Isolated pair (e.g., BTCUSDT); omit for every isolated pair'),
+  coin: z.string().optional().describe('Only this coin')
+});
+
+export const GetMaxBorrowableSchema = z.object({
+  marginType: SpotMarginTypeSchema,
+  symbol: z.string().optional().describe('Isolated pair (required for isolated)'),
+  coin: z.string().optional().describe('Coin to borrow (required for crossed; filters isolated)')
+}).refine((data) => data.marginType !== 'isolated' || !!data.symbol, {
+  message: 'symbol is required for isolated margin',
+  path: ['symbol']
+}).refine((data) => data.marginType !== 'crossed' || !!data.coin, {
+  message: 'coin is required for crossed margin',
+  path: ['coin']
+});
+
+export const MarginBorrowSchema = z.object({
+  marginType: SpotMarginTypeSchema,
+  coin: z.string().describe('Coin to borrow'),
+  amount: z.string().describe('Amount to borrow'),
+  symbol: z.string().optional().describe('Isolated pair (required for isolated)')
+}).refine((data) => data.marginType !== 'isolated' || !!data.symbol, {
+  message: 'symbol is required for isolated margin',
+  path: ['symbol']
+});
+
+export const MarginRepaySchema = z.object({
+  marginType: SpotMarginTypeSchema,
+  coin: z.string().describe('Coin to repay'),
+  amount: z.string().describe('Amount to repay; interest is paid first'),
+  symbol: z.string().optional().describe('Isolated pair (required for isolated)')
+}).refine((data) => data.marginType !== 'isolated' || !!data.symbol, {
+  message: 'symbol is required for isolated margin',
+  path: ['symbol']
+});
+
+export const PlaceMarginOrderSchema = z.object({
+  marginType: SpotMarginTypeSchema,
+  symbol: z.string().describe('Spot pair (e.g., BTCUSDT)'),
+  side: z.enum(['buy', 'sell']).describe('Order side'),
+  type: z.enum(['market', 'limit']).describe('Order type'),
+  quantity: z.string().describe('Order quantity in the base coin (quote coin for market buys)'),
+  price: z.string().optional().describe('Order price (required for limit orders)'),
+  timeInForce: z.enum(['GTC', 'IOC', 'FOK']).optional().describe('Time in force'),
+  loanType: z.enum(['normal', 'autoLoan', 'autoRepay', 'autoLoanAndRepay']).optional().describe('normal: no borrowing; autoLoan borrows any shortfall; autoRepay repays debt from the proceeds (default: normal)'),
+  clientOrderId: z.string().optional().describe('Client order ID')
+});
+
+export const GetMarginInterestHistorySchema = z.object({
+  marginType: SpotMarginTypeSchema,
+  symbol: z.string().optional().describe('Isolated pair (required for isolated)'),
+  coin: z.string().optional().describe('Only interest charged in this coin'),
+  startTime: z.number().optional().describe('Only interest charged at or after this time (ms, default: 30 days ago)'),
+  limit: z.number().optional().describe('Max rows (default: 100)')
+}).refine((data) => data.marginType !== 'isolated' || !!data.symbol, {
+  message: 'symbol is required for isolated margin',
+  path: ['symbol']
+});
+
+// Kill switch
+export const EngageKillSwitchSchema = z.object({
+  reason: z.string().optional().describe('Why trading is being halted'),
+  cancelOrders: z.boolean().optional().describe('Cancel open futures orders (default: from configuration)'),
+  flatten: z.boolean().optional().describe('Close every futures position (default: from configuration)')
+});
+
+export const ReleaseKillSwitchSchema = z.object({
+  releaseKey: z.string().optional().describe('Release key, when one is configured')
 });
 
 // Type exports for use in server
@@ -190,7 +334,12 @@ export type GetPositionsParams = z.infer<typeof GetPositionsSchema>;
 export type SubscribePriceParams = z.infer<typeof SubscribePriceSchema>;
 export type SubscribeTickerParams = z.infer<typeof SubscribeTickerSchema>;
 export type SubscribeOrderBookParams = z.infer<typeof SubscribeOrderBookSchema>;
+export type SubscribeToTradesParams = z.infer<typeof SubscribeToTradesSchema>;
 export type UnsubscribeParams = z.infer<typeof UnsubscribeSchema>;
+export type ConnectPrivateWebSocketParams = z.infer<typeof ConnectPrivateWebSocketSchema>;
+export type GetStreamLatestParams = z.infer<typeof GetStreamLatestSchema>;
+export type GetStreamHistoryParams = z.infer<typeof GetStreamHistorySchema>;
+export type GetPrivateUpdatesParams = z.infer<typeof GetPrivateUpdatesSchema>;
 export type SetLeverageParams = z.infer<typeof SetLeverageSchema>;
 export type GetMarginInfoParams = z.infer<typeof GetMarginInfoSchema>;
 export type PlaceTPSLParams = z.infer<typeof PlaceTPSLSchema>;
@@ -199,9 +348,13 @@ export type CancelPlanOrderParams = z.infer<typeof CancelPlanOrderSchema>;
 export type ModifyTPSLParams = z.infer<typeof ModifyTPSLSchema>;
 export type SetMarginModeParams = z.infer<typeof SetMarginModeSchema>;
 export type CloseAllPositionsParams = z.infer<typeof CloseAllPositionsSchema>;
+export type CancelAllFuturesOrdersParams = z.infer<typeof CancelAllFuturesOrdersSchema>;
+export type GetPositionModeParams = z.infer<typeof GetPositionModeSchema>;
+export type SetPositionModeParams = z.infer<typeof SetPositionModeSchema>;
 export type GetCurrentFundingRateParams = z.infer<typeof GetCurrentFundingRateSchema>;
 export type GetHistoricFundingRatesParams = z.infer<typeof GetHistoricFundingRatesSchema>;
 export type GetFuturesContractsParams = z.infer<typeof GetFuturesContractsSchema>;
+export type GetContractSpecParams = z.infer<typeof GetContractSpecSchema>;
 export type PlacePlanOrderParams = z.infer<typeof PlacePlanOrderSchema>;
 
 // Market Snapshot Schema
@@ -254,9 +407,9 @@ export const PlaceEntryWithTPSLPlansSchema = z.object({
   type: z.enum(['market', 'limit']).describe('Entry order type'),
   quantity: z.string().describe('Entry quantity'),
   price: z.string().optional().describe('Entry price for limit orders'),
-  marginCoin: z.string().optional().default('USDT').describe('Futures margin coin (default: USDT)'),
+  marginCoin: z.string().optional().describe('Futures margin coin (default: from the symbol)'),
   marginMode: z.enum(['isolated', 'crossed']).optional().describe('Margin mode to apply for orders'),
-  setMarginMode: z.boolean().optional().default(false).describe('If true, attempt to set account margin mode before placing entry'),
+  setMarginMode: z.boolean().optional().default(false).describe('If true, set account margin mode before placing entry (admin profile, and only when setMarginMode needs no confirmation)'),
   stopLoss: z.object({
     triggerPrice: z.string().describe('Stop loss trigger price'),
   }).optional(),
@@ -265,8 +418,60 @@ export const PlaceEntryWithTPSLPlansSchema = z.object({
     size: z.string().describe('Partial size for the take profit'),
   })).optional().describe('Array of partial take profits (profit_plan)'),
   triggerType: z.enum(['fill_price', 'mark_price']).optional().default('mark_price').describe('Trigger type for TPSL and plans'),
-  compact: z.boolean().optional().describe('If true, return trimmed summary only')
+  clientOid: z.string().max(40).optional().describe('Base client order ID; legs use <clientOid>-entry, -sl, -tp1... (generated when omitted)'),
+  compact: z.boolean().optional().describe('If true, return trimmed summary only'),
+  dryRun: DryRunSchema
 });
 
 export type PlaceEntryWithTPSLPlansParams = z.infer<typeof PlaceEntryWithTPSLPlansSchema>;
-export type GetFuturesStatusParams = z.infer<typeof GetFuturesStatusSchema>;
\ No newline at end of file
+export type GetFuturesStatusParams = z.infer<typeof GetFuturesStatusSchema>;
+export type GetMarginAssetsParams = z.infer<typeof GetMarginAssetsSchema>;
+export type GetMaxBorrowableParams = z.infer<typeof GetMaxBorrowableSchema>;
+export type MarginBorrowParams = z.infer<typeof MarginBorrowSchema>;
+export type MarginRepayParams = z.infer<typeof MarginRepaySchema>;
+export type PlaceMarginOrderParams = z.infer<typeof PlaceMarginOrderSchema>;
+export type GetMarginInterestHistoryParams = z.infer<typeof GetMarginInterestHistorySchema>;
+export type EngageKillSwitchParams = z.infer<typeof EngageKillSwitchSchema>;
+export type ReleaseKillSwitchParams = z.infer<typeof ReleaseKillSwitchSchema>;
+// Backtesting
+export const RunBacktestSchema = z.object({
+  symbol: z.string().optional().describe('Trading pair symbol to fetch candles for (e.g., BTCUSDT or BTCUSDT_UMCBL)'),
+  interval: z.enum(['1m','3m','5m','15m','30m','1h','4h','6h','12h','1d']).optional().default('1h').describe('Candle interval'),
+  limit: z.number().optional().default(500).describe('Number of candles to fetch (ignored with file)'),
+  startTime: z.number().optional().describe('Fetch candles from this time (ms)'),
+  endTime: z.number().optional().describe('Fetch candles up to this time (ms)'),
+  file: z.string().optional().describe('JSON or CSV candle file, relative to the backtest data directory, to replay instead of fetching'),
+  strategy: z.enum(['setup', 'emaCross', 'breakout']).describe('Strategy to replay'),
+  setup: z.object({
+    side: z.enum(['buy', 'sell']).describe('Entry side'),
+    type: z.enum(['market', 'limit']).describe('Entry order type'),
+    quantity: z.string().describe('Entry quantity'),
+    price: z.string().optional().describe('Entry price for limit orders'),
+    stopLoss: z.object({
+      triggerPrice: z.string().describe('Stop loss trigger price'),
+    }),
+    takeProfits: z.array(z.object({
+      triggerPrice: z.string().describe('Take profit trigger price'),
+      size: z.string().describe('Partial size for the take profit'),
+    })).optional().default([]).describe('Partial take profits (profit_plan)'),
+    startTime: z.number().optional().describe('Place the setup after this time (ms); defaults to the first bar'),
+    expiryBars: z.number().optional().describe('Cancel an unfilled limit entry after N bars'),
+  }).optional().describe('Order setup for strategy "setup" (same fields as placeEntryWithTPSLPlans)'),
+  params: z.object({
+    fast: z.number().optional(),
+    slow: z.number().optional(),
+    lookback: z.number().optional(),
+    atrPeriod: z.number().optional(),
+    stopAtr: z.number().optional(),
+    targetsR: z.array(z.number()).optional(),
+  }).optional().describe('Built-in strategy parameters'),
+  initialEquity: z.number().optional().default(10000).describe('Starting equity (quote currency)'),
+  riskPerTrade: z.number().optional().default(0.01).describe('Fraction of equity risked per built-in strategy trade'),
+  takerFeeRate: z.number().optional().default(0.0006).describe('Taker fee rate'),
+  makerFeeRate: z.number().optional().default(0.0002).describe('Maker fee rate'),
+  slippageBps: z.number().optional().default(0).describe('Slippage on market entries and stop exits (basis points)'),
+  compact: z.boolean().optional().default(true).describe('If true, thin the equity curve and trim trade details'),
+}).refine(p => p.symbol || p.file, { message: 'symbol or file is required' })
+  .refine(p => p.strategy !== 'setup' || p.setup, { message: 'setup is required for strategy "setup"' });
+
+export type RunBacktestParams = z.infer<typeof RunBacktestSchema>;
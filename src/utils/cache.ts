@@ -122,6 +122,8 @@ export class CacheManager {
       logger.debug('Running cache cleanup', { cacheCount: this.caches.length });
       this.caches.forEach(cache => cache.cleanup());
     }, this.cleanupInterval);
+    // Housekeeping only: never keep the process (or a test runner) alive on its own
+    this.cleanupTimer.unref();
 
     logger.debug('Cache cleanup started', { interval: this.cleanupInterval });
   }
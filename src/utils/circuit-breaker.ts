@@ -0,0 +1,134 @@
+/**
+ * Circuit Breaker
+ * Tracks infrastructure failures per endpoint group (e.g. mix/market, spot/trade).
+ * After repeated failures the group opens and requests fail fast until a cooldown
+ * passes; one probe request is then let through to decide whether to close again.
+ */
+
+import { BitgetCircuitOpenError } from '../types/bitget.js';
+import { logger } from './logger.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold?: number;   // Consecutive failures that open a group (default 5)
+  cooldownMs?: number;         // Time a group stays open before a probe (default 30000)
+}
+
+export interface CircuitStatus {
+  group: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  retryAt: number | null;
+  lastError: string | null;
+  totalFailures: number;
+  totalSuccesses: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  probeInFlight: boolean;
+  lastError: string | null;
+  totalFailures: number;
+  totalSuccesses: number;
+}
+
+/**
+ * Endpoint group: product line plus API area, e.g. /api/v2/mix/order/place-order -> mix/order
+ */
+export function endpointGroup(endpoint: string): string {
+  const parts = endpoint.split('?')[0].split('/').filter(Boolean);
+  // ['api', 'v2', 'mix', 'order', 'place-order']
+  return parts.length >= 4 ? `${parts[2]}/${parts[3]}` : parts.slice(2).join('/') || endpoint;
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(config: CircuitBreakerConfig = {}, private now: () => number = Date.now) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+  }
+
+  /**
+   * Throw BitgetCircuitOpenError when the endpoint's group is open. In half-open state
+   * only a single probe is admitted at a time.
+   */
+  check(endpoint: string): void {
+    const group = endpointGroup(endpoint);
+    const circuit = this.circuits.get(group);
+    if (!circuit || circuit.state === 'closed') return;
+
+    const retryAt = circuit.openedAt + this.cooldownMs;
+    if (circuit.state === 'open' && this.now() >= retryAt) {
+      circuit.state = 'half-open';
+      logger.info('Circuit half-open, probing', { group });
+    }
+    if (circuit.state === 'half-open' && !circuit.probeInFlight) {
+      circuit.probeInFlight = true;
+      return;
+    }
+    throw new BitgetCircuitOpenError(group, Math.max(0, retryAt - this.now()), circuit.lastError ?? undefined);
+  }
+
+  recordSuccess(endpoint: string): void {
+    const circuit = this.circuit(endpointGroup(endpoint));
+    if (circuit.state !== 'closed') {
+      logger.info('Circuit closed', { group: endpointGroup(endpoint) });
+    }
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.probeInFlight = false;
+    circuit.totalSuccesses++;
+  }
+
+  recordFailure(endpoint: string, error: Error): void {
+    const group = endpointGroup(endpoint);
+    const circuit = this.circuit(group);
+    circuit.consecutiveFailures++;
+    circuit.totalFailures++;
+    circuit.lastError = error.message;
+    circuit.probeInFlight = false;
+
+    if (circuit.state === 'half-open' || (circuit.state === 'closed' && circuit.consecutiveFailures >= this.failureThreshold)) {
+      circuit.state = 'open';
+      circuit.openedAt = this.now();
+      logger.warn('Circuit opened, failing fast', { group, consecutiveFailures: circuit.consecutiveFailures, cooldownMs: this.cooldownMs, error: error.message });
+    }
+  }
+
+  getState(endpoint: string): CircuitState {
+    return this.circuits.get(endpointGroup(endpoint))?.state ?? 'closed';
+  }
+
+  getStatus(): CircuitStatus[] {
+    return [...this.circuits.entries()].map(([group, c]) => ({
+      group,
+      state: c.state,
+      consecutiveFailures: c.consecutiveFailures,
+      openedAt: c.state === 'closed' ? null : c.openedAt,
+      retryAt: c.state === 'open' ? c.openedAt + this.cooldownMs : null,
+      lastError: c.lastError,
+      totalFailures: c.totalFailures,
+      totalSuccesses: c.totalSuccesses,
+    }));
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+
+  private circuit(group: string): Circuit {
+    let circuit = this.circuits.get(group);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0, openedAt: 0, probeInFlight: false, lastError: null, totalFailures: 0, totalSuccesses: 0 };
+      this.circuits.set(group, circuit);
+    }
+    return circuit;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Client Order IDs
+ * clientOid generation for order placement. Each call gets its own id, fixed before the
+ * first attempt, so every retry and reconciliation lookup refers to the same order and
+ * Bitget rejects a resend that would duplicate it.
+ */
+
+import crypto from 'crypto';
+
+const PREFIX = 'mcp';
+
+// Calls issued in the same millisecond still get distinct ids
+let sequence = 0;
+
+/**
+ * clientOid derived from the order fields, the time the call was issued and a per-process
+ * sequence number: unique per call, fixed before the first attempt. Bitget accepts up to
+ * 50 characters, this yields 28.
+ */
+export function generateClientOid(kind: string, fields: Record<string, unknown>, issuedAt: number = Date.now()): string {
+  const canonical = Object.keys(fields)
+    .filter(key => fields[key] !== undefined && fields[key] !== null && key !== 'clientOid')
+    .sort()
+    .map(key => `${key}=${String(fields[key])}`)
+    .join('&');
+  const digest = crypto.createHash('sha256').update(`${kind}|${canonical}|${issuedAt}|${sequence++}`).digest('hex');
+  return `${PREFIX}${digest.slice(0, 25)}`;
+}
+
+/**
+ * Id for one leg of a multi-order call (entry, sl, tp1, ...) sharing a base clientOid
+ */
+export function legClientOid(base: string, leg: string): string {
+  return `${base}-${leg}`;
+}
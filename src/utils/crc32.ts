@@ -0,0 +1,27 @@
+/**
+ * CRC32
+ * Standard CRC-32 (IEEE 802.3), used to verify Bitget order book checksums
+ */
+
+const TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+/**
+ * CRC32 of a UTF-8 string as a signed 32-bit integer (the form Bitget sends)
+ */
+export function crc32(input: string): number {
+  let crc = -1;
+  for (const byte of Buffer.from(input, 'utf-8')) {
+    crc = TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) | 0;
+}
@@ -0,0 +1,25 @@
+/**
+ * Candle Intervals
+ * Bar lengths for the interval strings tools accept (1m ... 1w)
+ */
+
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000,
+  '3m': 3 * 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '6h': 6 * 60 * 60_000,
+  '12h': 12 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+  '1w': 7 * 24 * 60 * 60_000,
+};
+
+/**
+ * Bar length in ms, or null for an unknown interval (including months)
+ */
+export function intervalToMs(interval: string): number | null {
+  return INTERVAL_MS[interval.toLowerCase()] ?? null;
+}
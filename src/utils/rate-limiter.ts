@@ -0,0 +1,267 @@
+/**
+ * Rate Limiter
+ * Per-endpoint token buckets matching Bitget's published limits, with a shared
+ * per-UID bucket for private endpoints. Requests queue instead of failing; waiting
+ * requests are released by priority (cancels first) and 429/40014 responses pause
+ * the offending buckets with an escalating backoff.
+ */
+
+import { BitgetRateLimitError } from '../types/bitget.js';
+import { logger } from './logger.js';
+
+export type RatePriority = 'high' | 'normal' | 'low';
+
+export interface RateLimitRule {
+  pattern: RegExp;        // Matched against the endpoint path; first match wins
+  ratePerSecond: number;
+  burst?: number;         // Bucket size (defaults to ratePerSecond)
+}
+
+export interface RateLimiterConfig {
+  rules?: RateLimitRule[];
+  defaultRatePerSecond?: number;   // Endpoints no rule matches (default 10)
+  uidRatePerSecond?: number;       // Shared by all private endpoints (default 20)
+  penaltyMs?: number;              // First pause after a 429/40014 (default 1000), doubled per repeat
+  maxPenaltyMs?: number;           // Cap for the escalating pause (default 30000)
+  maxWaitMs?: number;              // Queued requests fail after waiting this long (default 60000)
+}
+
+export interface AcquireOptions {
+  priority?: RatePriority;
+  isPrivate?: boolean;
+}
+
+export interface RateLimitBucketStatus {
+  key: string;
+  ratePerSecond: number;
+  tokens: number;
+  blockedUntil: number | null;
+  penalties: number;
+}
+
+// Bitget v2 limits: market data 20 req/s per IP, trading and account 10 req/s per UID, batch 5 req/s
+export const DEFAULT_RATE_LIMIT_RULES: RateLimitRule[] = [
+  { pattern: /\/market\//, ratePerSecond: 20 },
+  { pattern: /\/public\//, ratePerSecond: 20 },
+  { pattern: /batch/i, ratePerSecond: 5 },
+  { pattern: /\/(order|trade)\//, ratePerSecond: 10 },
+  { pattern: /\/account\//, ratePerSecond: 10 },
+];
+
+const PRIORITY_RANK: Record<RatePriority, number> = { high: 0, normal: 1, low: 2 };
+const UID_BUCKET = 'uid';
+const PENALTY_RESET_MS = 60000;   // Backoff escalation is forgotten after a quiet minute
+
+/**
+ * Priority for an endpoint: cancels jump the queue, market data yields to trading
+ */
+export function endpointPriority(endpoint: string): RatePriority {
+  if (/cancel/i.test(endpoint)) return 'high';
+  if (/\/(market|public)\//.test(endpoint)) return 'low';
+  return 'normal';
+}
+
+class TokenBucket {
+  tokens: number;
+  blockedUntil = 0;
+  penalties = 0;
+  lastPenaltyAt = 0;
+  private refilledAt: number;
+
+  constructor(readonly ratePerSecond: number, readonly burst: number, now: number) {
+    this.tokens = burst;
+    this.refilledAt = now;
+  }
+
+  refill(now: number): void {
+    const elapsed = Math.max(0, now - Math.max(this.refilledAt, this.blockedUntil));
+    this.tokens = Math.min(this.burst, this.tokens + (elapsed / 1000) * this.ratePerSecond);
+    this.refilledAt = Math.max(now, this.refilledAt);
+  }
+
+  /**
+   * Milliseconds until a token is available (0 when one is available now)
+   */
+  waitMs(now: number): number {
+    this.refill(now);
+    if (now < this.blockedUntil) return this.blockedUntil - now + 1000 / this.ratePerSecond;
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  block(until: number, now: number): void {
+    this.refill(now);
+    this.tokens = 0;
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+    this.refilledAt = this.blockedUntil;
+  }
+}
+
+interface Waiter {
+  buckets: TokenBucket[];
+  rank: number;
+  seq: number;
+  enqueuedAt: number;
+  endpoint: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private queue: Waiter[] = [];
+  private seq = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private rules: RateLimitRule[];
+  private defaultRate: number;
+  private uidRate: number;
+  private penaltyMs: number;
+  private maxPenaltyMs: number;
+  private maxWaitMs: number;
+
+  constructor(config: RateLimiterConfig = {}, private now: () => number = Date.now) {
+    this.rules = config.rules ?? DEFAULT_RATE_LIMIT_RULES;
+    this.defaultRate = config.defaultRatePerSecond ?? 10;
+    this.uidRate = config.uidRatePerSecond ?? 20;
+    this.penaltyMs = config.penaltyMs ?? 1000;
+    this.maxPenaltyMs = config.maxPenaltyMs ?? 30000;
+    this.maxWaitMs = config.maxWaitMs ?? 60000;
+  }
+
+  /**
+   * Wait for a slot on the endpoint's bucket (and the UID bucket for private calls)
+   */
+  acquire(endpoint: string, options: AcquireOptions = {}): Promise<void> {
+    const priority = options.priority ?? endpointPriority(endpoint);
+    const buckets = [this.bucket(endpoint)];
+    if (options.isPrivate) buckets.push(this.bucket(UID_BUCKET));
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        buckets,
+        rank: PRIORITY_RANK[priority],
+        seq: this.seq++,
+        enqueuedAt: this.now(),
+        endpoint,
+        resolve,
+        reject,
+      });
+      this.queue.sort((a, b) => a.rank - b.rank || a.seq - b.seq);
+      this.drain();
+    });
+  }
+
+  /**
+   * Pause an endpoint after a 429/40014 response. Private (per-UID) limits pause every
+   * private endpoint. Returns the pause applied in milliseconds.
+   */
+  penalize(endpoint: string, options: { isPrivate?: boolean; retryAfterMs?: number } = {}): number {
+    const now = this.now();
+    const bucket = this.bucket(endpoint);
+    if (now - bucket.lastPenaltyAt > PENALTY_RESET_MS) bucket.penalties = 0;
+    const backoff = Math.min(this.penaltyMs * Math.pow(2, bucket.penalties), this.maxPenaltyMs);
+    const pause = Math.max(backoff, options.retryAfterMs ?? 0);
+    bucket.penalties++;
+    bucket.lastPenaltyAt = now;
+    bucket.block(now + pause, now);
+    if (options.isPrivate) this.bucket(UID_BUCKET).block(now + pause, now);
+
+    logger.warn('Rate limited by Bitget, pausing endpoint', { endpoint, pauseMs: pause, penalties: bucket.penalties });
+    this.schedule();
+    return pause;
+  }
+
+  /**
+   * Requests currently waiting for a slot
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  getStatus(): RateLimitBucketStatus[] {
+    const now = this.now();
+    return [...this.buckets.entries()].map(([key, bucket]) => {
+      bucket.refill(now);
+      return {
+        key,
+        ratePerSecond: bucket.ratePerSecond,
+        tokens: Math.floor(bucket.tokens),
+        blockedUntil: bucket.blockedUntil > now ? bucket.blockedUntil : null,
+        penalties: bucket.penalties,
+      };
+    });
+  }
+
+  /**
+   * Reject every queued request (shutdown)
+   */
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    for (const waiter of this.queue.splice(0)) {
+      waiter.reject(new BitgetRateLimitError('Rate limiter closed'));
+    }
+  }
+
+  /**
+   * Bucket for an endpoint path (one per path) or the shared UID bucket
+   */
+  private bucket(key: string): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const rule = key === UID_BUCKET ? undefined : this.rules.find(r => r.pattern.test(key));
+      const rate = key === UID_BUCKET ? this.uidRate : rule?.ratePerSecond ?? this.defaultRate;
+      bucket = new TokenBucket(rate, rule?.burst ?? rate, this.now());
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Release waiters in priority order. A waiter that cannot run reserves its buckets so
+   * lower-priority requests sharing them do not overtake it.
+   */
+  private drain(): void {
+    const now = this.now();
+    const reserved = new Set<TokenBucket>();
+
+    for (let i = 0; i < this.queue.length; i++) {
+      const waiter = this.queue[i];
+      if (now - waiter.enqueuedAt >= this.maxWaitMs) {
+        this.queue.splice(i--, 1);
+        waiter.reject(new BitgetRateLimitError(`Rate limit wait exceeded ${this.maxWaitMs}ms for ${waiter.endpoint}`));
+        continue;
+      }
+      const ready = waiter.buckets.every(b => !reserved.has(b) && b.waitMs(now) === 0);
+      if (ready) {
+        waiter.buckets.forEach(b => b.take());
+        this.queue.splice(i--, 1);
+        waiter.resolve();
+      } else {
+        waiter.buckets.forEach(b => reserved.add(b));
+      }
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.queue.length === 0) return;
+
+    const now = this.now();
+    let wait = Infinity;
+    for (const waiter of this.queue) {
+      const deadline = waiter.enqueuedAt + this.maxWaitMs - now;
+      wait = Math.min(wait, deadline, Math.max(...waiter.buckets.map(b => b.waitMs(now))));
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(1, wait));
+  }
+}
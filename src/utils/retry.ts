@@ -13,6 +13,7 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   backoffMultiplier: 2,
   retryableErrors: [
     '40014', // Rate limit exceeded
+    'BitgetRateLimitError', // Rejected by Bitget; the rate limiter pauses the endpoint before the retry
     '50001', // Internal server error
     '50002', // Service temporarily unavailable
     '50003', // Service timeout
@@ -22,6 +23,19 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   ]
 };
 
+export interface RetryOptions<T> {
+  idempotent?: boolean;   // GETs and cancels; false for order placement (default true)
+  /**
+   * For non-idempotent operations after an ambiguous failure (timeout, reset, 5xx):
+   * resolve with the result when the request did take effect, or undefined when it
+   * is safe to send again. Without it such failures are never retried.
+   */
+  reconcile?: (error: any) => Promise<T | undefined>;
+}
+
+// Failures that prove the request never reached (or was refused by) the exchange
+const NOT_SENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
 export class RetryManager {
   private config: RetryConfig;
 
@@ -48,12 +62,28 @@ export class RetryManager {
       return true;
     }
 
+    // Transport failures and 5xx responses; other HTTP statuses are our fault
+    if (error.name === 'BitgetNetworkError') {
+      return error.status === undefined || error.status >= 500;
+    }
+
     return false;
   }
 
-  private calculateDelay(attempt: number): number {
-    const delay = this.config.baseDelay * Math.pow(this.config.backoffMultiplier, attempt);
-    return Math.min(delay, this.config.maxDelay);
+  /**
+   * Whether the failed request certainly had no effect, so even an order can be resent
+   */
+  private wasNotSent(error: any): boolean {
+    if (error.name === 'BitgetRateLimitError' || error.code === '40014') return true;
+    const code = error.code ?? error.cause?.code;
+    return NOT_SENT_CODES.includes(code);
+  }
+
+  private calculateDelay(attempt: number, error?: any): number {
+    const backoff = Math.min(this.config.baseDelay * Math.pow(this.config.backoffMultiplier, attempt), this.config.maxDelay);
+    const delay = this.config.jitter === false ? backoff : Math.round(Math.random() * backoff);
+    // Never retry sooner than the server asked us to
+    return Math.max(delay, error?.retryAfterMs ?? 0);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -62,14 +92,17 @@ export class RetryManager {
 
   async execute<T>(
     operation: () => Promise<T>,
-    context?: string
+    context?: string,
+    options: RetryOptions<T> = {}
   ): Promise<T> {
+    const idempotent = options.idempotent ?? true;
     let lastError: any;
+    let attempts = 0;
 
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
         if (attempt > 0) {
-          const delay = this.calculateDelay(attempt - 1);
+          const delay = this.calculateDelay(attempt - 1, lastError);
           logger.info(`Retrying operation (attempt ${attempt}/${this.config.maxRetries}) after ${delay}ms`, {
             context,
             attempt,
@@ -78,6 +111,7 @@ export class RetryManager {
           await this.sleep(delay);
         }
 
+        attempts++;
         const result = await operation();
         
         if (attempt > 0) {
@@ -87,25 +121,52 @@ export class RetryManager {
         return result;
       } catch (error) {
         lastError = error;
+        const retryable = this.isRetryableError(error);
         
         logger.warn(`Operation failed on attempt ${attempt + 1}`, {
           context,
           attempt: attempt + 1,
           error: (error as any).message,
           errorCode: (error as any).code,
-          isRetryable: this.isRetryableError(error)
+          isRetryable: retryable,
+          idempotent
         });
 
-        // If this is the last attempt or error is not retryable, throw
-        if (attempt === this.config.maxRetries || !this.isRetryableError(error)) {
+        if (!retryable) {
+          break;
+        }
+
+        // Resending an order after an ambiguous failure could duplicate it
+        if (!idempotent && !this.wasNotSent(error)) {
+          if (!options.reconcile) {
+            logger.warn('Not retrying non-idempotent operation after ambiguous failure', { context });
+            break;
+          }
+          let existing: T | undefined;
+          try {
+            existing = await options.reconcile(error);
+          } catch (reconcileError) {
+            logger.error('Reconciliation failed; outcome of the operation is unknown', {
+              context,
+              error: (reconcileError as any).message
+            });
+            break;
+          }
+          if (existing !== undefined) {
+            logger.info('Reconciled operation after ambiguous failure; it had taken effect', { context });
+            return existing;
+          }
+        }
+
+        if (attempt === this.config.maxRetries) {
           break;
         }
       }
     }
 
-    logger.error(`Operation failed after ${this.config.maxRetries + 1} attempts`, {
+    logger.error(`Operation failed after ${attempts} attempt(s)`, {
       context,
-      totalAttempts: this.config.maxRetries + 1,
+      totalAttempts: attempts,
       finalError: (lastError as any).message
     });
 
@@ -114,4 +175,4 @@ export class RetryManager {
 }
 
 // Global retry manager instance
-export const retryManager = new RetryManager();
\ No newline at end of file
+export const retryManager = new RetryManager();
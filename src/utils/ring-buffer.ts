@@ -0,0 +1,56 @@
+/**
+ * Ring Buffer
+ * Fixed-capacity FIFO that overwrites the oldest entry once full
+ */
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`RingBuffer capacity must be a positive integer, got ${capacity}`);
+    }
+    this.items = new Array(capacity);
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.count) % this.capacity;
+    this.items[index] = item;
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Most recent item, or undefined when empty
+   */
+  latest(): T | undefined {
+    return this.count ? this.items[(this.start + this.count - 1) % this.capacity] : undefined;
+  }
+
+  /**
+   * The last `n` items (all by default), oldest first
+   */
+  toArray(n: number = this.count): T[] {
+    const take = Math.max(0, Math.min(n, this.count));
+    const result: T[] = [];
+    for (let i = this.count - take; i < this.count; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
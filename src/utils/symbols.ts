@@ -0,0 +1,151 @@
+/**
+ * Symbols
+ * One model for every symbol form the tools accept (BTCUSDT, BTCUSDT_UMCBL, BTCUSD_DMCBL,
+ * BTCPERP_CMCBL, BTCUSDT_SPBL, BTC/USDT, BTC/USDT:USDT, BTC/USD:BTC, BTC/USDC:USDC) and the
+ * forms each endpoint and WebSocket channel expects
+ */
+
+import { BitgetValidationError, WSInstType } from '../types/bitget.js';
+
+export type SymbolMarket = 'spot' | 'usdt-futures' | 'coin-futures' | 'usdc-futures';
+export type ProductType = 'USDT-FUTURES' | 'COIN-FUTURES' | 'USDC-FUTURES';
+
+export const FUTURES_PRODUCT_TYPES: ProductType[] = ['USDT-FUTURES', 'COIN-FUTURES', 'USDC-FUTURES'];
+
+export interface BitgetSymbol {
+  base: string;                 // BTC
+  quote: string;                // USDT, USD (coin-margined), USDC; empty when not recognized
+  market: SymbolMarket;
+  symbol: string;               // v2 REST and WebSocket instId: BTCUSDT, BTCUSD, BTCPERP
+  productType?: ProductType;    // v2 futures productType; undefined for spot
+  marginCoin?: string;          // Futures margin coin: USDT, USDC, or the base coin for coin-margined
+  instType: WSInstType;         // v2 WebSocket instType: SPOT or the productType
+  display: string;              // Form used in tool output: BTCUSDT, BTCUSDT_UMCBL, BTCUSD_DMCBL, BTCPERP_CMCBL
+  v1: string;                   // v1 REST form: BTCUSDT_SPBL, BTCUSDT_UMCBL, BTCUSD_DMCBL, BTCPERP_CMCBL
+}
+
+// Longest first so USDT/USDC win over USD
+const QUOTES = ['USDT', 'USDC', 'USD', 'EUR', 'BTC', 'ETH', 'BGB'];
+
+const V1_SUFFIX: Record<SymbolMarket, string> = {
+  spot: '_SPBL',
+  'usdt-futures': '_UMCBL',
+  'coin-futures': '_DMCBL',
+  'usdc-futures': '_CMCBL',
+};
+
+const PRODUCT_TYPES: Record<Exclude<SymbolMarket, 'spot'>, ProductType> = {
+  'usdt-futures': 'USDT-FUTURES',
+  'coin-futures': 'COIN-FUTURES',
+  'usdc-futures': 'USDC-FUTURES',
+};
+
+/**
+ * Market for a v1 or v2 instType / productType name (UMCBL, USDT-FUTURES, SPOT, ...)
+ */
+export function marketFromInstType(instType: string): SymbolMarket {
+  switch (instType.toUpperCase()) {
+    case 'SPOT':
+    case 'SPBL':
+      return 'spot';
+    case 'UMCBL':
+    case 'USDT-FUTURES':
+      return 'usdt-futures';
+    case 'DMCBL':
+    case 'COIN-FUTURES':
+      return 'coin-futures';
+    case 'CMCBL':
+    case 'USDC-FUTURES':
+      return 'usdc-futures';
+    default:
+      throw new BitgetValidationError(`Unknown instrument type: ${instType}`);
+  }
+}
+
+/**
+ * v2 WebSocket instType for any accepted instType name (UMCBL -> USDT-FUTURES)
+ */
+export function toV2InstType(instType: string): WSInstType {
+  const market = marketFromInstType(instType);
+  return market === 'spot' ? 'SPOT' : PRODUCT_TYPES[market];
+}
+
+/**
+ * Margin coin for product-wide calls without a symbol. Coin-margined accounts hold
+ * one margin coin per base coin, so there is no single default.
+ */
+export function defaultMarginCoin(productType: ProductType): string | undefined {
+  return productType === 'USDT-FUTURES' ? 'USDT' : productType === 'USDC-FUTURES' ? 'USDC' : undefined;
+}
+
+export function isFuturesMarket(market: SymbolMarket): boolean {
+  return market !== 'spot';
+}
+
+/**
+ * Parse any accepted symbol form. A market suffix or ccxt settle currency decides the market;
+ * otherwise the quote (USD pairs are coin-margined, PERP is USDC), then `defaultMarket`,
+ * then spot. A quote that is not recognized leaves the whole name as the base.
+ */
+export function parseSymbol(input: string, defaultMarket?: SymbolMarket): BitgetSymbol {
+  const raw = input.trim().toUpperCase();
+  if (!raw) throw new BitgetValidationError('Symbol is required');
+
+  // ccxt style: BASE/QUOTE is spot, BASE/QUOTE:SETTLE is a perpetual
+  const unified = raw.match(/^([A-Z0-9]+)\/([A-Z0-9]+)(?::([A-Z0-9]+))?$/);
+  if (unified) {
+    const [, base, quote, settle] = unified;
+    if (!settle) return build(base, quote, 'spot');
+    if (settle === 'USDT') return build(base, 'USDT', 'usdt-futures');
+    if (settle === 'USDC') return build(base, 'USDC', 'usdc-futures');
+    if (settle === base) return build(base, 'USD', 'coin-futures');
+    throw new BitgetValidationError(`Unsupported settle currency ${settle} in ${input}`);
+  }
+
+  const [name, suffix, ...rest] = raw.split('_');
+  if (rest.length > 0 || !/^[A-Z0-9]+$/.test(name)) {
+    throw new BitgetValidationError(`Unrecognized symbol: ${input}`);
+  }
+  const market = suffix !== undefined ? marketFromSuffix(suffix, input) : undefined;
+
+  if (name.endsWith('PERP')) {
+    return build(name.slice(0, -4), 'USDC', market ?? 'usdc-futures');
+  }
+  const quote = QUOTES.find(q => name.endsWith(q) && name.length > q.length);
+  // A quote missing from QUOTES (fiat pairs such as BTCTRY) is passed through as named
+  if (!quote) return build(name, '', market ?? defaultMarket ?? 'spot');
+  const base = name.slice(0, -quote.length);
+  // Bitget only lists USD-quoted symbols as coin-margined contracts
+  return build(base, quote, market ?? (quote === 'USD' ? 'coin-futures' : defaultMarket ?? 'spot'));
+}
+
+/**
+ * Symbol from a v2 WebSocket push (instType + instId)
+ */
+export function symbolFromInstrument(instType: string, instId: string): BitgetSymbol {
+  return parseSymbol(instId, marketFromInstType(instType));
+}
+
+function marketFromSuffix(suffix: string, input: string): SymbolMarket {
+  try {
+    return marketFromInstType(suffix);
+  } catch {
+    throw new BitgetValidationError(`Unrecognized symbol suffix _${suffix} in ${input}`);
+  }
+}
+
+function build(base: string, quote: string, market: SymbolMarket): BitgetSymbol {
+  const symbol = market === 'usdc-futures' ? `${base}PERP` : `${base}${quote}`;
+  const productType = market === 'spot' ? undefined : PRODUCT_TYPES[market];
+  return {
+    base,
+    quote,
+    market,
+    symbol,
+    productType,
+    marginCoin: market === 'coin-futures' ? base : productType && defaultMarginCoin(productType),
+    instType: productType ?? 'SPOT',
+    display: market === 'spot' ? symbol : `${symbol}${V1_SUFFIX[market]}`,
+    v1: `${symbol}${V1_SUFFIX[market]}`,
+  };
+}